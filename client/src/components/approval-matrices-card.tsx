@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { MAX_APPROVERS, validateApprovalMatrix, type ApprovalTier } from "@shared/approvals";
+
+interface ApprovalMatrix {
+  id: number;
+  organizationId: number;
+  currency: string;
+  tiers: ApprovalTier[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface ApprovalMatrixData {
+  matrices: ApprovalMatrix[];
+  organizations: { id: number; name: string }[];
+  currencies: string[];
+}
+
+function describeMatrix(matrix: ApprovalMatrix): string {
+  return matrix.tiers
+    .map(tier => `${tier.upTo ? `up to ${formatCurrency(tier.upTo, matrix.currency)}` : 'above'}: ${tier.approvers} approver${tier.approvers === 1 ? '' : 's'}`)
+    .join(' • ');
+}
+
+export function ApprovalMatricesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [organizationId, setOrganizationId] = useState('');
+  const [currency, setCurrency] = useState('ZMW');
+  const [tiers, setTiers] = useState<ApprovalTier[]>([
+    { upTo: '100000', approvers: 1 },
+    { upTo: null, approvers: 2 },
+  ]);
+
+  const { data, isLoading } = useQuery<ApprovalMatrixData>({
+    queryKey: ['/api/admin/approval-matrices'],
+  });
+
+  const createMatrix = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/approval-matrices', { organizationId, currency, tiers });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/approval-matrices'] });
+      toast({
+        title: "Approval matrix saved",
+        description: "New settlement requests use it; existing requests keep their quorum.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving approval matrix",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateMatrix = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/approval-matrices/${id}/deactivate`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/approval-matrices'] });
+      toast({
+        title: "Approval matrix deactivated",
+        description: "New settlement requests need a single approver.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deactivating approval matrix",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!organizationId) {
+      toast({ title: "Organization required", description: "Choose the organization this matrix applies to.", variant: "destructive" });
+      return;
+    }
+    const invalidReason = validateApprovalMatrix(tiers);
+    if (invalidReason) {
+      toast({ title: "Invalid approval matrix", description: invalidReason, variant: "destructive" });
+      return;
+    }
+    createMatrix.mutate();
+  };
+
+  const updateTier = (index: number, change: Partial<ApprovalTier>) => {
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, ...change } : tier)));
+  };
+
+  const organizationNames = new Map((data?.organizations ?? []).map(org => [org.id, org.name]));
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-user-check text-red-600 mr-2"></i>
+          Settlement Approval Matrix
+        </h3>
+
+        <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Organization</Label>
+              <Select value={organizationId} onValueChange={setOrganizationId}>
+                <SelectTrigger><SelectValue placeholder="Select organization" /></SelectTrigger>
+                <SelectContent>
+                  {(data?.organizations ?? []).map(org => (
+                    <SelectItem key={org.id} value={String(org.id)}>{org.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(data?.currencies ?? []).map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>Up to ({currency})</span>
+              <span>Approvers</span>
+              <span></span>
+            </div>
+            {tiers.map((tier, index) => {
+              const isLast = index === tiers.length - 1;
+              return (
+                <div key={index} className="grid grid-cols-3 gap-2">
+                  {isLast ? (
+                    <span className="text-sm text-gray-500 dark:text-gray-400 self-center">and above</span>
+                  ) : (
+                    <Input type="number" step="0.01" min="0" value={tier.upTo ?? ''} onChange={(e) => updateTier(index, { upTo: e.target.value })} />
+                  )}
+                  <Input
+                    type="number"
+                    step="1"
+                    min="1"
+                    max={MAX_APPROVERS}
+                    value={tier.approvers}
+                    onChange={(e) => updateTier(index, { approvers: parseInt(e.target.value) || 0 })}
+                  />
+                  {!isLast && tiers.length > 1 ? (
+                    <Button size="sm" variant="ghost" onClick={() => setTiers(tiers.filter((_, i) => i !== index))}>
+                      <i className="fas fa-times"></i>
+                    </Button>
+                  ) : <span></span>}
+                </div>
+              );
+            })}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setTiers([...tiers.slice(0, -1), { upTo: '', approvers: 1 }, tiers[tiers.length - 1]])}
+            >
+              <i className="fas fa-plus mr-2"></i>
+              Add Band
+            </Button>
+          </div>
+
+          <Button
+            className="w-full bg-red-600 hover:bg-red-700 text-white"
+            onClick={handleSave}
+            disabled={createMatrix.isPending}
+          >
+            {createMatrix.isPending ? 'Saving...' : 'Save Matrix'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : (data?.matrices ?? []).length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No approval matrices</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Every settlement needs one approver other than its requester</p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {data!.matrices.map((matrix) => (
+              <div key={matrix.id} className={`p-3 rounded-lg border-l-4 ${
+                matrix.isActive
+                  ? 'border-green-500 bg-green-50 dark:bg-green-950'
+                  : 'border-gray-400 bg-gray-50 dark:bg-gray-800'
+              }`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {organizationNames.get(matrix.organizationId) || `Organization #${matrix.organizationId}`}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {matrix.currency} • {describeMatrix(matrix)}
+                    </p>
+                  </div>
+                  {matrix.isActive ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      onClick={() => deactivateMatrix.mutate(matrix.id)}
+                      disabled={deactivateMatrix.isPending}
+                    >
+                      Deactivate
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Inactive</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
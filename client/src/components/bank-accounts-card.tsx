@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  BANK_ACCOUNT_COOLING_OFF_HOURS,
+  bankAccountStatusLabels,
+  bankCatalogue,
+  findBank,
+  findBranch,
+  validateBankAccount,
+  type BankAccountStatus,
+} from "@shared/bank-accounts";
+
+export interface BankAccount {
+  id: number;
+  organizationId: number;
+  organizationName: string | null;
+  bankCode: string;
+  branchCode: string;
+  accountNumber: string;
+  accountName: string;
+  status: BankAccountStatus;
+  requestedBy: string;
+  rejectionReason: string | null;
+  availableFrom: string | null;
+  createdAt: string;
+}
+
+const statusStyles: Record<string, string> = {
+  pending_approval: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  active: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  deactivated: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
+};
+
+export function describeBankAccount(account: Pick<BankAccount, 'bankCode' | 'branchCode' | 'accountNumber'>): string {
+  const bank = findBank(account.bankCode)?.name ?? account.bankCode;
+  const branch = findBranch(account.bankCode, account.branchCode)?.name ?? account.branchCode;
+  return `${bank} (${branch}) - ${account.accountNumber}`;
+}
+
+// Registered beneficiary accounts. Finance officers add their organization's accounts; an admin
+// other than whoever added one approves it, and settlements can use it after the cooling-off period.
+export function BankAccountsCard({ isAdmin }: { isAdmin: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [bankCode, setBankCode] = useState('');
+  const [branchCode, setBranchCode] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [accountName, setAccountName] = useState('');
+  const [rejectionReasons, setRejectionReasons] = useState<Record<number, string>>({});
+
+  const { data: accounts = [], isLoading } = useQuery<BankAccount[]>({
+    queryKey: ['/api/bank-accounts'],
+  });
+
+  const onChanged = (title: string, description?: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/bank-accounts'] });
+    toast({ title, description });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const addAccount = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/bank-accounts', { bankCode, branchCode, accountNumber, accountName });
+      return response.json();
+    },
+    onSuccess: () => {
+      setAccountNumber('');
+      setAccountName('');
+      onChanged("Bank account added", "An admin must approve it before settlements can be paid to it.");
+    },
+    onError: onError("Error adding bank account"),
+  });
+
+  const reviewAccount = useMutation({
+    mutationFn: async ({ id, decision }: { id: number; decision: 'approve' | 'reject' }) => {
+      return apiRequest('PATCH', `/api/admin/bank-accounts/${id}/${decision}`, {
+        reason: decision === 'reject' ? rejectionReasons[id] : undefined,
+      });
+    },
+    onSuccess: (_, { decision }) => onChanged(
+      decision === 'approve' ? "Bank account approved" : "Bank account rejected",
+      decision === 'approve' ? `Settlements can be paid to it in ${BANK_ACCOUNT_COOLING_OFF_HOURS} hours.` : undefined
+    ),
+    onError: onError("Error reviewing bank account"),
+  });
+
+  const deactivateAccount = useMutation({
+    mutationFn: async (id: number) => apiRequest('PATCH', `/api/bank-accounts/${id}/deactivate`, {}),
+    onSuccess: () => onChanged("Bank account deactivated"),
+    onError: onError("Error deactivating bank account"),
+  });
+
+  const handleAdd = () => {
+    const invalidReason = validateBankAccount({ bankCode, branchCode, accountNumber, accountName });
+    if (invalidReason) {
+      toast({ title: "Invalid bank account", description: invalidReason, variant: "destructive" });
+      return;
+    }
+    addAccount.mutate();
+  };
+
+  const bank = findBank(bankCode);
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-landmark text-red-600 mr-2"></i>
+          Settlement Bank Accounts
+        </h3>
+
+        {!isAdmin && (
+          <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Bank</Label>
+                <Select value={bankCode} onValueChange={(value) => { setBankCode(value); setBranchCode(''); }}>
+                  <SelectTrigger><SelectValue placeholder="Select bank" /></SelectTrigger>
+                  <SelectContent>
+                    {bankCatalogue.map(catalogueBank => (
+                      <SelectItem key={catalogueBank.code} value={catalogueBank.code}>{catalogueBank.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Branch</Label>
+                <Select value={branchCode} onValueChange={setBranchCode} disabled={!bank}>
+                  <SelectTrigger><SelectValue placeholder="Select branch" /></SelectTrigger>
+                  <SelectContent>
+                    {(bank?.branches ?? []).map(branch => (
+                      <SelectItem key={branch.code} value={branch.code}>{branch.name} ({branch.code})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Account Number</Label>
+                <Input
+                  value={accountNumber}
+                  placeholder={bank ? bank.accountNumberFormat : 'Account number'}
+                  onChange={(e) => setAccountNumber(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>Account Holder</Label>
+                <Input value={accountName} placeholder="Name on the account" onChange={(e) => setAccountName(e.target.value)} />
+              </div>
+            </div>
+            <Button
+              className="w-full bg-red-600 hover:bg-red-700 text-white"
+              onClick={handleAdd}
+              disabled={addAccount.isPending}
+            >
+              {addAccount.isPending ? 'Adding...' : 'Add Account'}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : accounts.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No bank accounts registered</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Settlements can only be paid to registered, approved accounts</p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {accounts.map(account => {
+              const coolingOff = account.status === 'active' && account.availableFrom && new Date(account.availableFrom) > new Date();
+              return (
+                <div key={account.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-sm text-gray-800 dark:text-gray-200">{describeBankAccount(account)}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {account.accountName}
+                        {isAdmin ? ` • ${account.organizationName || `Organization #${account.organizationId}`}` : ''}
+                      </p>
+                      {coolingOff && (
+                        <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                          Usable from {new Date(account.availableFrom!).toLocaleString()}
+                        </p>
+                      )}
+                      {account.rejectionReason && (
+                        <p className="text-xs text-red-600 dark:text-red-400">{account.rejectionReason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={statusStyles[account.status] || statusStyles.deactivated}>
+                        {bankAccountStatusLabels[account.status] ?? account.status}
+                      </Badge>
+                      {(account.status === 'active' || account.status === 'pending_approval') && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7"
+                          onClick={() => deactivateAccount.mutate(account.id)}
+                          disabled={deactivateAccount.isPending}
+                        >
+                          Deactivate
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {isAdmin && account.status === 'pending_approval' && (
+                    <div className="flex gap-2 mt-3">
+                      <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                        onClick={() => reviewAccount.mutate({ id: account.id, decision: 'approve' })}
+                        disabled={reviewAccount.isPending}
+                      >
+                        Approve
+                      </Button>
+                      <Input
+                        className="h-8 flex-1"
+                        placeholder="Rejection reason"
+                        value={rejectionReasons[account.id] ?? ''}
+                        onChange={(e) => setRejectionReasons({ ...rejectionReasons, [account.id]: e.target.value })}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => reviewAccount.mutate({ id: account.id, decision: 'reject' })}
+                        disabled={!rejectionReasons[account.id] || reviewAccount.isPending}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
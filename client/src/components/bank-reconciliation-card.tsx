@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+import {
+  bankStatementFormatLabels,
+  bankStatementFormats,
+  type BankStatementFormat,
+} from "@shared/bank-statements";
+
+interface BankStatement {
+  id: number;
+  format: BankStatementFormat;
+  fileName: string;
+  accountNumber: string | null;
+  lineCount: number;
+  matchedCount: number;
+  createdAt: string;
+}
+
+interface StatementLine {
+  id: number;
+  direction: 'credit' | 'debit';
+  amount: string;
+  currency: string;
+  valueDate: string;
+  bankReference: string | null;
+  counterpartyAccount: string | null;
+  description: string | null;
+  fileName: string;
+}
+
+interface UnpaidSettlement {
+  id: number;
+  amount: string;
+  feeAmount: string;
+  currency: string;
+  bankName: string;
+  accountNumber: string;
+  status: string;
+  createdAt: string;
+}
+
+interface Worklist {
+  lines: StatementLine[];
+  settlements: UnpaidSettlement[];
+}
+
+// Statement lines show what the bank paid - the settlement net of its withheld fee
+function payoutAmount(settlement: UnpaidSettlement): string {
+  return Money.parse(settlement.amount).subtract(Money.parse(settlement.feeAmount)).toDecimal();
+}
+
+// Imported bank statements and whatever they could not be matched against - statement lines
+// that pay no known settlement, and settlements being paid that no statement shows yet
+export function BankReconciliationCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [format, setFormat] = useState<BankStatementFormat>('camt_053');
+  const [file, setFile] = useState<File | null>(null);
+  const [accountNumber, setAccountNumber] = useState('');
+  const [selectedSettlements, setSelectedSettlements] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const { data: statements = [], isLoading } = useQuery<BankStatement[]>({
+    queryKey: ['/api/bank-statements'],
+  });
+
+  const { data: worklist } = useQuery<Worklist>({
+    queryKey: ['/api/bank-reconciliation/worklist'],
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/bank-statements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/bank-reconciliation/worklist'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/settlement-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/payout-batches'] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const importStatement = useMutation({
+    mutationFn: async (upload: File) => {
+      const formData = new FormData();
+      formData.append("file", upload);
+      formData.append("format", format);
+      if (accountNumber) {
+        formData.append("accountNumber", accountNumber);
+      }
+      const response = await fetch('/api/bank-statements', {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `Import failed: ${response.status}`);
+      }
+      return response.json();
+    },
+    onSuccess: (statement: BankStatement) => {
+      onChanged();
+      setFile(null);
+      toast({
+        title: "Statement imported",
+        description: `${statement.matchedCount} of ${statement.lineCount} lines matched to settlements`,
+      });
+    },
+    onError: onError("Error importing statement"),
+  });
+
+  const matchLine = useMutation({
+    mutationFn: async (lineId: number) => {
+      return apiRequest('PATCH', `/api/bank-statement-lines/${lineId}/match`, {
+        settlementRequestId: selectedSettlements[lineId],
+      });
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Line matched", description: "The settlement is now completed." });
+    },
+    onError: onError("Error matching line"),
+  });
+
+  const resolveLine = useMutation({
+    mutationFn: async (lineId: number) => {
+      return apiRequest('PATCH', `/api/bank-statement-lines/${lineId}/resolve`, { note: notes[lineId] });
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Line resolved" });
+    },
+    onError: onError("Error resolving line"),
+  });
+
+  const lines = worklist?.lines ?? [];
+  const settlements = worklist?.settlements ?? [];
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-university text-red-600 mr-2"></i>
+          Bank Statement Reconciliation
+        </h3>
+
+        <div className="p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={format} onValueChange={(value) => setFormat(value as BankStatementFormat)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {bankStatementFormats.map(statementFormat => (
+                  <SelectItem key={statementFormat} value={statementFormat}>{bankStatementFormatLabels[statementFormat]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Account number (if not in the file)"
+              value={accountNumber}
+              onChange={(e) => setAccountNumber(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="file"
+              accept=".xml,.sta,.mt940,.txt,.csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <Button
+              className="bg-red-600 hover:bg-red-700 text-white"
+              onClick={() => file && importStatement.mutate(file)}
+              disabled={!file || importStatement.isPending}
+            >
+              {importStatement.isPending ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            CSV statements need date, amount and currency columns; direction, reference, account and description are optional
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : statements.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No statements imported</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Import a statement to confirm settlements were paid</p>
+          </div>
+        ) : (
+          <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+            {statements.map(statement => (
+              <div key={statement.id} className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div>
+                  <p className="text-sm font-medium text-gray-800 dark:text-gray-200">{statement.fileName}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {bankStatementFormatLabels[statement.format] ?? statement.format}
+                    {statement.accountNumber ? ` • ${statement.accountNumber}` : ''} • {new Date(statement.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <Badge className={statement.matchedCount === statement.lineCount
+                  ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                  : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'}>
+                  {statement.matchedCount}/{statement.lineCount} matched
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {lines.length > 0 && (
+          <div className="space-y-3 mb-4">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Unmatched statement lines</p>
+            {lines.map(line => {
+              const candidates = settlements.filter(settlement => settlement.currency === line.currency);
+              return (
+                <div key={line.id} className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                        {line.direction === 'debit' ? 'Paid out' : 'Received'} {formatCurrency(line.amount, line.currency)} on {line.valueDate}
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {[line.bankReference, line.counterpartyAccount, line.description].filter(Boolean).join(' • ') || 'No payment details'}
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{line.fileName}</span>
+                  </div>
+                  <div className="flex gap-2 mt-3">
+                    <Select
+                      value={selectedSettlements[line.id] ?? ''}
+                      onValueChange={(value) => setSelectedSettlements({ ...selectedSettlements, [line.id]: value })}
+                    >
+                      <SelectTrigger className="h-8 flex-1"><SelectValue placeholder="Settlement it pays" /></SelectTrigger>
+                      <SelectContent>
+                        {candidates.map(settlement => (
+                          <SelectItem key={settlement.id} value={String(settlement.id)}>
+                            #{settlement.id} • {settlement.accountNumber} • {formatCurrency(payoutAmount(settlement), settlement.currency)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                      onClick={() => matchLine.mutate(line.id)}
+                      disabled={!selectedSettlements[line.id] || matchLine.isPending}
+                    >
+                      Match
+                    </Button>
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <Input
+                      className="h-8 flex-1"
+                      placeholder="Why no settlement (e.g. bank charges)"
+                      value={notes[line.id] ?? ''}
+                      onChange={(e) => setNotes({ ...notes, [line.id]: e.target.value })}
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resolveLine.mutate(line.id)}
+                      disabled={!notes[line.id] || resolveLine.isPending}
+                    >
+                      Resolve
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {settlements.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Settlements not yet seen on a statement</p>
+            {settlements.map(settlement => (
+              <div key={settlement.id} className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  #{settlement.id} • {settlement.bankName} {settlement.accountNumber} • {formatCurrency(payoutAmount(settlement), settlement.currency)}
+                  {' '}• {new Date(settlement.createdAt).toLocaleDateString()}
+                </p>
+                <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">{settlement.status}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
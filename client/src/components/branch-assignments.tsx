@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface BranchUser {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+  organizationId: number | null;
+  branchId: number | null;
+}
+
+interface BranchAssignmentsProps {
+  branches: { id: number; name: string }[];
+}
+
+const UNASSIGNED = 'unassigned';
+
+// Places cashiers and merchants in the organization's branches
+export function BranchAssignments({ branches }: BranchAssignmentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: branchUsers = [], isLoading } = useQuery<BranchUser[]>({
+    queryKey: ['/api/branches/users'],
+  });
+
+  const assignBranch = useMutation({
+    mutationFn: async ({ userId, branchId }: { userId: string; branchId: number | null }) => {
+      return apiRequest('PATCH', `/api/users/${userId}/branch`, { branchId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/branches/users'] });
+      toast({ title: "Branch assignment saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error assigning branch",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>;
+  }
+
+  if (branchUsers.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+        No cashiers or merchants to assign
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {branchUsers.map((branchUser) => (
+        <div key={branchUser.id} className="flex items-center justify-between gap-3 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <div className="min-w-0">
+            <p className="text-sm text-gray-800 dark:text-gray-200 truncate">
+              {[branchUser.firstName, branchUser.lastName].filter(Boolean).join(' ') || branchUser.email}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">
+              {branchUser.role}{!branchUser.organizationId && ' • not in an organization yet'}
+            </p>
+          </div>
+          <Select
+            value={branchUser.branchId ? String(branchUser.branchId) : UNASSIGNED}
+            onValueChange={(value) => assignBranch.mutate({
+              userId: branchUser.id,
+              branchId: value === UNASSIGNED ? null : parseInt(value),
+            })}
+            disabled={assignBranch.isPending}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {branches.map(branch => (
+                <SelectItem key={branch.id} value={String(branch.id)}>{branch.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+
+export interface FloatRequest {
+  id: number;
+  cashierName: string | null;
+  branchName: string;
+  branchBalance: string;
+  type: 'top_up' | 'return';
+  amount: string;
+  currency: string;
+  status: string;
+  note: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+export const floatStatusStyles: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// Cashier side of the float workflow - request a top-up from the branch vault or return excess float
+export function CashierFloatCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<'top_up' | 'return'>('top_up');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data: requests = [], isLoading } = useQuery<FloatRequest[]>({
+    queryKey: ['/api/float-requests'],
+    refetchInterval: 30000,
+  });
+
+  const requestFloat = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/float-requests', { type, amount, note });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/float-requests'] });
+      setAmount('');
+      setNote('');
+      toast({
+        title: type === 'top_up' ? "Top-up requested" : "Float return requested",
+        description: "Your wallet updates once finance approves the request.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error requesting float",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!Money.tryParse(amount)?.isPositive()) {
+      toast({ title: "Invalid amount", description: "Enter an amount greater than zero.", variant: "destructive" });
+      return;
+    }
+    requestFloat.mutate();
+  };
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-cash-register text-accent mr-2"></i>
+          Float
+        </h3>
+
+        <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant={type === 'top_up' ? 'default' : 'outline'}
+              onClick={() => setType('top_up')}
+            >
+              <i className="fas fa-arrow-down mr-2"></i>
+              Top Up
+            </Button>
+            <Button
+              variant={type === 'return' ? 'default' : 'outline'}
+              onClick={() => setType('return')}
+            >
+              <i className="fas fa-arrow-up mr-2"></i>
+              Return
+            </Button>
+          </div>
+          <div>
+            <Label htmlFor="floatAmount">Amount</Label>
+            <Input
+              id="floatAmount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="floatNote">Note (optional)</Label>
+            <Input
+              id="floatNote"
+              maxLength={255}
+              placeholder={type === 'top_up' ? 'e.g. Start of shift' : 'e.g. End of shift'}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={handleSubmit}
+            disabled={requestFloat.isPending}
+          >
+            {requestFloat.isPending ? 'Submitting...' : type === 'top_up' ? 'Request Top-Up' : 'Return Float'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : requests.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 text-sm py-4">
+            No float requests yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {requests.slice(0, 5).map((request) => (
+              <div key={request.id} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div>
+                  <p className="text-sm text-gray-800 dark:text-gray-200">
+                    {request.type === 'top_up' ? 'Top-up from' : 'Return to'} {request.branchName}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(request.createdAt).toLocaleString()}
+                    {request.rejectionReason && ` • ${request.rejectionReason}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={`font-semibold text-sm ${request.type === 'top_up' ? 'text-green-600' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {formatCurrency(request.amount, request.currency)}
+                  </p>
+                  <Badge className={floatStatusStyles[request.status] || floatStatusStyles.pending}>
+                    {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+
+interface CommissionStatement {
+  accruals: {
+    id: number;
+    transactionId: number;
+    transactionRef: string | null;
+    amount: string;
+    currency: string;
+    status: string;
+    createdAt: string;
+  }[];
+  payables: {
+    id: number;
+    amount: string;
+    currency: string;
+    periodEnd: string;
+    status: string;
+  }[];
+  totals: { currency: string; accrued: string; payable: string }[];
+}
+
+const statusStyles: Record<string, string> = {
+  accrued: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  payable: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  reversed: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400',
+  paid: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
+
+export function CommissionStatementCard() {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: statement, isLoading } = useQuery<CommissionStatement>({
+    queryKey: ['/api/commissions/statement'],
+    refetchInterval: 30000,
+  });
+
+  const accruals = statement?.accruals ?? [];
+  const totals = statement?.totals.length ? statement.totals : [{ currency: 'ZMW', accrued: '0', payable: '0' }];
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center">
+            <i className="fas fa-coins text-accent mr-2"></i>
+            My Commissions
+          </h3>
+          {accruals.length > 5 && (
+            <Button
+              variant="ghost"
+              className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+              onClick={() => setShowAll(!showAll)}
+            >
+              {showAll ? 'Show Last 5' : 'Show All'}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {totals.map((total) => (
+                <div key={total.currency} className="contents">
+                  <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-950">
+                    <p className="text-xs text-gray-600 dark:text-gray-400">Accrued this period</p>
+                    <p className="font-bold text-blue-700 dark:text-blue-300">{formatCurrency(total.accrued, total.currency)}</p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-green-50 dark:bg-green-950">
+                    <p className="text-xs text-gray-600 dark:text-gray-400">Payable</p>
+                    <p className="font-bold text-green-700 dark:text-green-300">{formatCurrency(total.payable, total.currency)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {accruals.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400 text-sm py-4">
+                Commission appears here as you complete transactions
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {(showAll ? accruals : accruals.slice(0, 5)).map((accrual) => (
+                  <div key={accrual.id} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                    <div>
+                      <p className="text-sm text-gray-800 dark:text-gray-200">
+                        {Money.parse(accrual.amount).isNegative() ? 'Reversal of ' : ''}{accrual.transactionRef || `#${accrual.transactionId}`}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(accrual.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`font-semibold text-sm ${Money.parse(accrual.amount).isNegative() ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(accrual.amount, accrual.currency)}
+                      </p>
+                      <Badge className={statusStyles[accrual.status] || statusStyles.accrued}>
+                        {accrual.status.charAt(0).toUpperCase() + accrual.status.slice(1)}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
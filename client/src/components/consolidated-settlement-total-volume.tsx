@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { Wallet } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
 
 interface Wallet {
   id: number;
@@ -16,15 +17,6 @@ export function ConsolidatedSettlementTotalVolume() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-ZM', {
-      style: 'currency',
-      currency: 'ZMW',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
-
   if (isLoading) {
     return (
       <div className="animate-pulse">
@@ -43,9 +35,6 @@ export function ConsolidatedSettlementTotalVolume() {
     );
   }
 
-  const balance = parseFloat(wallet.balance || '0');
-  const dailySpent = parseFloat(wallet.dailySpent || '0');
-
   return (
     <div className="text-center">
       <div className="flex items-center justify-center gap-2 mb-1">
@@ -53,7 +42,7 @@ export function ConsolidatedSettlementTotalVolume() {
         <p className="text-green-700 dark:text-green-300 text-sm font-medium">ORGANIZATION FUNDS</p>
       </div>
       <h2 className="text-3xl font-bold text-green-800 dark:text-green-200 mb-1">
-        {formatCurrency(balance)}
+        {formatCurrency(wallet.balance)}
       </h2>
       <p className="text-green-600 dark:text-green-400 text-xs mb-2">
         Available for settlements
@@ -61,7 +50,7 @@ export function ConsolidatedSettlementTotalVolume() {
       <div className="flex items-center justify-center gap-3 text-xs">
         <div className="text-center">
           <p className="text-gray-600 dark:text-gray-400">Today's Usage</p>
-          <p className="font-semibold text-gray-800 dark:text-gray-200">{formatCurrency(dailySpent)}</p>
+          <p className="font-semibold text-gray-800 dark:text-gray-200">{formatCurrency(wallet.dailySpent)}</p>
         </div>
         <div className="text-center">
           <p className="text-blue-600 dark:text-blue-400">Last Updated</p>
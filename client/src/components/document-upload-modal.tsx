@@ -2,9 +2,7 @@ import { useState, useMemo, useCallback, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { useTimer } from "@/contexts/timer-context";
 import CameraCapture from "@/components/camera-capture";
 import { useDocumentUpload } from "@/hooks/useDocumentUpload";
 
@@ -23,7 +21,6 @@ interface DocumentType {
 
 export default function DocumentUploadModal({ isOpen, onClose, transactionId }: DocumentUploadModalProps) {
   const { user } = useAuth();
-  const { stopTimer } = useTimer();
   const { toast } = useToast();
   
   // Determine required documents based on user role
@@ -90,7 +87,7 @@ export default function DocumentUploadModal({ isOpen, onClose, transactionId }:
 
 
 
-  const handleCompleteUpload = async () => {
+  const handleCompleteUpload = () => {
     const allUploaded = documents.every(doc => doc.uploaded);
     
     if (!allUploaded) {
@@ -102,35 +99,7 @@ export default function DocumentUploadModal({ isOpen, onClose, transactionId }:
       return;
     }
 
-    // Mark transaction as completed in the database
-    if (transactionId) {
-      try {
-        await apiRequest("PATCH", `/api/transactions/${transactionId}/status`, {
-          status: "completed"
-        });
-        
-        // Invalidate queries to refresh transaction lists
-        queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/transactions/pending"] });
-        
-        toast({
-          title: "Transaction Completed",
-          description: "All VMF documents uploaded and transaction completed successfully",
-        });
-      } catch (error) {
-        console.error("Failed to complete transaction:", error);
-        toast({
-          title: "Error",
-          description: "Failed to complete transaction. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-    }
-
-    // Stop the timer since transaction is complete
-    stopTimer();
-    
+    // Uploading only files the documents against the transaction; closing leaves its status as is
     onClose();
   };
 
@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+
+interface FeeQuote {
+  amount: string;
+  fee: string;
+  net: string;
+  currency: string;
+  feeScheduleId: number | null;
+}
+
+interface FeeQuoteLineProps {
+  label: string;
+  type: 'cash_digitization' | 'qr_code_payment' | 'settlement';
+  amount: string;
+}
+
+// Fee the organization's schedule charges on an amount, before the request is submitted
+export default function FeeQuoteLine({ label, type, amount }: FeeQuoteLineProps) {
+  const parsedAmount = Money.tryParse(amount);
+  const isValidAmount = !!parsedAmount?.isPositive();
+
+  const { data: quote, isLoading } = useQuery<FeeQuote>({
+    queryKey: ['/api/fees/quote', type, parsedAmount?.toDecimal()],
+    queryFn: async () => {
+      const response = await fetch(`/api/fees/quote?type=${type}&amount=${parsedAmount!.toDecimal()}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch fee quote');
+      return response.json();
+    },
+    enabled: isValidAmount,
+  });
+
+  if (!isValidAmount) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+      <span>{label}</span>
+      {isLoading || !quote ? (
+        <span className="h-3 w-24 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></span>
+      ) : Money.parse(quote.fee).isZero() ? (
+        <span>No fee</span>
+      ) : (
+        <span>
+          Fee {formatCurrency(quote.fee, quote.currency)} • Net {formatCurrency(quote.net, quote.currency)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { validateFeeRule, type FeeTier } from "@shared/fees";
+
+interface FeeSchedule {
+  id: number;
+  organizationId: number;
+  transactionType: string;
+  currency: string;
+  feeType: string;
+  flatFee: string;
+  percentage: string;
+  tiers: FeeTier[] | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface FeeScheduleData {
+  schedules: FeeSchedule[];
+  organizations: { id: number; name: string }[];
+  revenueWallets: { id: number; currency: string; balance: string }[];
+  transactionTypes: string[];
+  currencies: string[];
+}
+
+const transactionTypeLabels: Record<string, string> = {
+  cash_digitization: 'Cash Digitization',
+  qr_code_payment: 'QR Payment',
+  settlement: 'Settlement',
+};
+
+const emptyTier: FeeTier = { upTo: '', flatFee: '0', percentage: '0' };
+
+function describeRule(schedule: FeeSchedule): string {
+  if (schedule.feeType === 'flat') {
+    return `Flat ${formatCurrency(schedule.flatFee, schedule.currency)}`;
+  }
+  if (schedule.feeType === 'percentage') {
+    return `${Number(schedule.percentage)}% of amount`;
+  }
+  return (schedule.tiers ?? [])
+    .map(tier => `${tier.upTo ? `up to ${formatCurrency(tier.upTo, schedule.currency)}` : 'above'}: ${formatCurrency(tier.flatFee, schedule.currency)} + ${Number(tier.percentage)}%`)
+    .join(' • ');
+}
+
+export function FeeSchedulesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [organizationId, setOrganizationId] = useState('');
+  const [transactionType, setTransactionType] = useState('cash_digitization');
+  const [currency, setCurrency] = useState('ZMW');
+  const [feeType, setFeeType] = useState('percentage');
+  const [flatFee, setFlatFee] = useState('0');
+  const [percentage, setPercentage] = useState('0');
+  const [tiers, setTiers] = useState<FeeTier[]>([{ ...emptyTier }, { ...emptyTier, upTo: null }]);
+
+  const { data, isLoading } = useQuery<FeeScheduleData>({
+    queryKey: ['/api/admin/fee-schedules'],
+  });
+
+  const createSchedule = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/fee-schedules', {
+        organizationId,
+        transactionType,
+        currency,
+        feeType,
+        flatFee,
+        percentage,
+        tiers: feeType === 'tiered' ? tiers : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/fee-schedules'] });
+      toast({
+        title: "Fee schedule saved",
+        description: "It replaces any active schedule for the same organization, type and currency.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving fee schedule",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateSchedule = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/fee-schedules/${id}/deactivate`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/fee-schedules'] });
+      toast({
+        title: "Fee schedule deactivated",
+        description: "New transactions of this type are no longer charged a fee.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deactivating fee schedule",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!organizationId) {
+      toast({ title: "Organization required", description: "Choose the organization this schedule applies to.", variant: "destructive" });
+      return;
+    }
+    const invalidReason = validateFeeRule({ feeType, flatFee, percentage, tiers });
+    if (invalidReason) {
+      toast({ title: "Invalid fee schedule", description: invalidReason, variant: "destructive" });
+      return;
+    }
+    createSchedule.mutate();
+  };
+
+  const updateTier = (index: number, field: keyof FeeTier, value: string) => {
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const organizationNames = new Map((data?.organizations ?? []).map(org => [org.id, org.name]));
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-percentage text-red-600 mr-2"></i>
+          Fee Schedules
+        </h3>
+
+        {(data?.revenueWallets ?? []).length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {data!.revenueWallets.map(wallet => (
+              <div key={wallet.id} className="px-3 py-2 rounded-lg bg-green-50 dark:bg-green-950 text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Platform revenue </span>
+                <span className="font-semibold text-green-700 dark:text-green-400">{formatCurrency(wallet.balance, wallet.currency)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Organization</Label>
+              <Select value={organizationId} onValueChange={setOrganizationId}>
+                <SelectTrigger><SelectValue placeholder="Select organization" /></SelectTrigger>
+                <SelectContent>
+                  {(data?.organizations ?? []).map(org => (
+                    <SelectItem key={org.id} value={String(org.id)}>{org.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Transaction Type</Label>
+              <Select value={transactionType} onValueChange={setTransactionType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(data?.transactionTypes ?? []).map(type => (
+                    <SelectItem key={type} value={type}>{transactionTypeLabels[type] || type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(data?.currencies ?? []).map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Fee Type</Label>
+              <Select value={feeType} onValueChange={setFeeType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="flat">Flat</SelectItem>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="tiered">Tiered by amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {feeType === 'flat' && (
+            <div>
+              <Label>Flat Fee ({currency})</Label>
+              <Input type="number" step="0.01" min="0" value={flatFee} onChange={(e) => setFlatFee(e.target.value)} />
+            </div>
+          )}
+
+          {feeType === 'percentage' && (
+            <div>
+              <Label>Percentage of Amount</Label>
+              <Input type="number" step="0.0001" min="0" max="100" value={percentage} onChange={(e) => setPercentage(e.target.value)} />
+            </div>
+          )}
+
+          {feeType === 'tiered' && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-4 gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <span>Up to ({currency})</span>
+                <span>Flat fee</span>
+                <span>Percentage</span>
+                <span></span>
+              </div>
+              {tiers.map((tier, index) => {
+                const isLast = index === tiers.length - 1;
+                return (
+                  <div key={index} className="grid grid-cols-4 gap-2">
+                    {isLast ? (
+                      <span className="text-sm text-gray-500 dark:text-gray-400 self-center">and above</span>
+                    ) : (
+                      <Input type="number" step="0.01" min="0" value={tier.upTo ?? ''} onChange={(e) => updateTier(index, 'upTo', e.target.value)} />
+                    )}
+                    <Input type="number" step="0.01" min="0" value={tier.flatFee} onChange={(e) => updateTier(index, 'flatFee', e.target.value)} />
+                    <Input type="number" step="0.0001" min="0" max="100" value={tier.percentage} onChange={(e) => updateTier(index, 'percentage', e.target.value)} />
+                    {!isLast && tiers.length > 2 ? (
+                      <Button size="sm" variant="ghost" onClick={() => setTiers(tiers.filter((_, i) => i !== index))}>
+                        <i className="fas fa-times"></i>
+                      </Button>
+                    ) : <span></span>}
+                  </div>
+                );
+              })}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setTiers([...tiers.slice(0, -1), { ...emptyTier }, tiers[tiers.length - 1]])}
+              >
+                <i className="fas fa-plus mr-2"></i>
+                Add Band
+              </Button>
+            </div>
+          )}
+
+          <Button
+            className="w-full bg-red-600 hover:bg-red-700 text-white"
+            onClick={handleSave}
+            disabled={createSchedule.isPending}
+          >
+            {createSchedule.isPending ? 'Saving...' : 'Save Schedule'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : (data?.schedules ?? []).length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No fee schedules</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Transactions are not charged a fee</p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {data!.schedules.map((schedule) => (
+              <div key={schedule.id} className={`p-3 rounded-lg border-l-4 ${
+                schedule.isActive
+                  ? 'border-green-500 bg-green-50 dark:bg-green-950'
+                  : 'border-gray-400 bg-gray-50 dark:bg-gray-800'
+              }`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {organizationNames.get(schedule.organizationId) || `Organization #${schedule.organizationId}`}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {transactionTypeLabels[schedule.transactionType] || schedule.transactionType} • {schedule.currency} • {describeRule(schedule)}
+                    </p>
+                  </div>
+                  {schedule.isActive ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      onClick={() => deactivateSchedule.mutate(schedule.id)}
+                      disabled={deactivateSchedule.isPending}
+                    >
+                      Deactivate
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Inactive</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { floatStatusStyles, type FloatRequest } from "@/components/cashier-float-card";
+
+// Approver side of the float workflow - finance approves or rejects cashier float moves
+export function FloatApprovalsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const { data: requests = [], isLoading } = useQuery<FloatRequest[]>({
+    queryKey: ['/api/float-requests'],
+    refetchInterval: 30000,
+  });
+
+  const onReviewed = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/float-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/branches'] });
+    setRejectingId(null);
+    setRejectionReason('');
+    toast({ title });
+  };
+
+  const approveRequest = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/float-requests/${id}/approve`, {});
+    },
+    onSuccess: () => onReviewed("Float request approved"),
+    onError: (error: any) => {
+      toast({
+        title: "Error approving float request",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectRequest = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/float-requests/${id}/reject`, { rejectionReason });
+    },
+    onSuccess: () => onReviewed("Float request rejected"),
+    onError: (error: any) => {
+      toast({
+        title: "Error rejecting float request",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pending = requests.filter(request => request.status === 'pending');
+  const reviewed = requests.filter(request => request.status !== 'pending').slice(0, 5);
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200">Cashier Float Requests</h3>
+          {pending.length > 0 && (
+            <Badge className={floatStatusStyles.pending}>{pending.length} pending</Badge>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No float requests</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Cashier top-ups and returns appear here for approval</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {[...pending, ...reviewed].map((request) => (
+              <div key={request.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {request.cashierName || 'Cashier'} • {request.type === 'top_up' ? 'Top-up' : 'Return'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {request.branchName} vault {formatCurrency(request.branchBalance, request.currency)} • {new Date(request.createdAt).toLocaleString()}
+                    </p>
+                    {request.note && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{request.note}</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-sm text-gray-800 dark:text-gray-200">
+                      {formatCurrency(request.amount, request.currency)}
+                    </p>
+                    <Badge className={floatStatusStyles[request.status] || floatStatusStyles.pending}>
+                      {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                    </Badge>
+                  </div>
+                </div>
+
+                {request.status === 'pending' && (
+                  rejectingId === request.id ? (
+                    <div className="flex gap-2 mt-2">
+                      <Input
+                        className="h-8"
+                        placeholder="Reason for rejecting"
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                      />
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => rejectRequest.mutate(request.id)}
+                        disabled={!rejectionReason || rejectRequest.isPending}
+                      >
+                        Reject
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRejectingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2 mt-2">
+                      <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                        onClick={() => approveRequest.mutate(request.id)}
+                        disabled={approveRequest.isPending}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setRejectingId(request.id);
+                          setRejectionReason('');
+                        }}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { fraudRuleLabels, isFraudRuleType } from "@shared/fraud";
+
+interface FraudFlag {
+  id: number;
+  transactionId: number | null;
+  ruleType: string;
+  decision: string;
+  reason: string;
+  requestedBy: string;
+  createdAt: string;
+}
+
+interface FraudReviewQueue {
+  flagged: {
+    id: number;
+    transactionId: string;
+    type: string;
+    amount: string;
+    currency: string;
+    vmfNumber: string | null;
+    createdAt: string;
+    flags: FraudFlag[];
+  }[];
+  blocked: FraudFlag[];
+}
+
+function ruleLabel(ruleType: string): string {
+  return isFraudRuleType(ruleType) ? fraudRuleLabels[ruleType] : ruleType;
+}
+
+// Transactions the fraud rules held back from cashiers - an admin releases or rejects each one
+export function FraudReviewCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const { data, isLoading } = useQuery<FraudReviewQueue>({
+    queryKey: ['/api/admin/fraud-review'],
+    refetchInterval: 30000,
+  });
+
+  const onReviewed = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/fraud-review'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    setRejectingId(null);
+    setRejectionReason('');
+    toast({ title });
+  };
+
+  const releaseTransaction = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/fraud-review/${id}/release`, {});
+    },
+    onSuccess: () => onReviewed("Transaction released to cashiers"),
+    onError: (error: any) => {
+      toast({
+        title: "Error releasing transaction",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectTransaction = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/fraud-review/${id}/reject`, { rejectionReason });
+    },
+    onSuccess: () => onReviewed("Transaction rejected"),
+    onError: (error: any) => {
+      toast({
+        title: "Error rejecting transaction",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const flagged = data?.flagged ?? [];
+  const blocked = (data?.blocked ?? []).slice(0, 5);
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center">
+            <i className="fas fa-user-secret text-red-600 mr-2"></i>
+            Fraud Review
+          </h3>
+          {flagged.length > 0 && (
+            <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+              {flagged.length} held
+            </Badge>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : flagged.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No transactions held for review</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Transactions the fraud rules flag appear here before cashiers see them</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {flagged.map((transaction) => (
+              <div key={transaction.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">{transaction.transactionId}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {transaction.vmfNumber ? `VMF ${transaction.vmfNumber} • ` : ''}{new Date(transaction.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <p className="font-semibold text-sm text-gray-800 dark:text-gray-200">
+                    {formatCurrency(transaction.amount, transaction.currency)}
+                  </p>
+                </div>
+
+                <ul className="mt-2 space-y-1">
+                  {transaction.flags.map(flag => (
+                    <li key={flag.id} className="text-xs text-gray-600 dark:text-gray-400">
+                      <span className="font-medium">{ruleLabel(flag.ruleType)}:</span> {flag.reason}
+                    </li>
+                  ))}
+                </ul>
+
+                {rejectingId === transaction.id ? (
+                  <div className="flex gap-2 mt-2">
+                    <Input
+                      className="h-8"
+                      placeholder="Reason for rejecting"
+                      value={rejectionReason}
+                      onChange={(e) => setRejectionReason(e.target.value)}
+                    />
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => rejectTransaction.mutate(transaction.id)}
+                      disabled={!rejectionReason || rejectTransaction.isPending}
+                    >
+                      Reject
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setRejectingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                      onClick={() => releaseTransaction.mutate(transaction.id)}
+                      disabled={releaseTransaction.isPending}
+                    >
+                      Release
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setRejectingId(transaction.id);
+                        setRejectionReason('');
+                      }}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {blocked.length > 0 && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Recently Blocked</p>
+            <div className="space-y-2">
+              {blocked.map(flag => (
+                <div key={flag.id} className="p-2 rounded-lg border-l-4 border-red-500 bg-red-50 dark:bg-red-950">
+                  <p className="text-xs text-gray-800 dark:text-gray-200">
+                    <span className="font-medium">{ruleLabel(flag.ruleType)}:</span> {flag.reason}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {flag.requestedBy} • {new Date(flag.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
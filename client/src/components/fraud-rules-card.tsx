@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  fraudRuleActions,
+  fraudRuleLabels,
+  fraudRuleTypes,
+  fraudThresholdLabels,
+  isFraudRuleType,
+  validateFraudRule,
+  type FraudRuleType,
+} from "@shared/fraud";
+
+interface FraudRule {
+  id: number;
+  ruleType: string;
+  action: string;
+  transactionType: string | null;
+  threshold: number | null;
+  windowMinutes: number | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+const transactionTypeLabels: Record<string, string> = {
+  all: 'All types',
+  cash_digitization: 'Cash Digitization',
+  qr_code_payment: 'QR Payment',
+  settlement: 'Settlement',
+  transfer: 'Transfer',
+};
+
+function describeRule(rule: FraudRule): string {
+  const parts: string[] = [];
+  if (rule.ruleType === 'near_daily_limit') {
+    parts.push(`${rule.threshold}% or more of daily limit`);
+  } else if (rule.threshold) {
+    parts.push(`More than ${rule.threshold}`);
+  }
+  if (rule.windowMinutes) {
+    parts.push(`in ${rule.windowMinutes} min`);
+  }
+  parts.push(transactionTypeLabels[rule.transactionType ?? 'all'] || rule.transactionType!);
+  return parts.join(' • ');
+}
+
+// Admin view of the fraud and velocity rules checked before each transaction is created
+export function FraudRulesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [ruleType, setRuleType] = useState<FraudRuleType>('merchant_velocity');
+  const [action, setAction] = useState('review');
+  const [transactionType, setTransactionType] = useState('all');
+  const [threshold, setThreshold] = useState('');
+  const [windowMinutes, setWindowMinutes] = useState('60');
+
+  const { data: rules = [], isLoading } = useQuery<FraudRule[]>({
+    queryKey: ['/api/admin/fraud-rules'],
+  });
+
+  const thresholdLabel = fraudThresholdLabels[ruleType];
+
+  const settings = () => ({
+    ruleType,
+    action,
+    threshold: thresholdLabel && threshold ? parseInt(threshold) : null,
+    windowMinutes: windowMinutes ? parseInt(windowMinutes) : null,
+  });
+
+  const createRule = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/fraud-rules', {
+        ...settings(),
+        transactionType: transactionType === 'all' ? null : transactionType,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/fraud-rules'] });
+      setThreshold('');
+      toast({
+        title: "Fraud rule saved",
+        description: "It applies to transactions created from now on.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving fraud rule",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateRule = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/fraud-rules/${id}/deactivate`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/fraud-rules'] });
+      toast({ title: "Fraud rule deactivated" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deactivating fraud rule",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const invalidReason = validateFraudRule(settings());
+    if (invalidReason) {
+      toast({ title: "Invalid fraud rule", description: invalidReason, variant: "destructive" });
+      return;
+    }
+    createRule.mutate();
+  };
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-shield-alt text-red-600 mr-2"></i>
+          Fraud Rules
+        </h3>
+
+        <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Rule</Label>
+              <Select value={ruleType} onValueChange={(value) => isFraudRuleType(value) && setRuleType(value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {fraudRuleTypes.map(type => (
+                    <SelectItem key={type} value={type}>{fraudRuleLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>When It Fires</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {fraudRuleActions.map(value => (
+                    <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Transaction Type</Label>
+              <Select value={transactionType} onValueChange={setTransactionType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(transactionTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {thresholdLabel && (
+              <div>
+                <Label>{thresholdLabel}</Label>
+                <Input type="number" min="1" value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+              </div>
+            )}
+            <div>
+              <Label>Window (minutes)</Label>
+              <Input
+                type="number"
+                min="1"
+                placeholder={ruleType === 'vmf_reuse' ? 'All history' : ''}
+                value={windowMinutes}
+                onChange={(e) => setWindowMinutes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Button
+            className="w-full bg-red-600 hover:bg-red-700 text-white"
+            onClick={handleSave}
+            disabled={createRule.isPending}
+          >
+            {createRule.isPending ? 'Saving...' : 'Add Rule'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No fraud rules</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Every transaction goes straight to cashiers</p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {rules.map((rule) => (
+              <div key={rule.id} className={`p-3 rounded-lg border-l-4 ${
+                !rule.isActive
+                  ? 'border-gray-400 bg-gray-50 dark:bg-gray-800'
+                  : rule.action === 'block'
+                    ? 'border-red-500 bg-red-50 dark:bg-red-950'
+                    : 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950'
+              }`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {isFraudRuleType(rule.ruleType) ? fraudRuleLabels[rule.ruleType] : rule.ruleType}
+                      <span className="ml-2 text-xs uppercase text-gray-500 dark:text-gray-400">{rule.action}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{describeRule(rule)}</p>
+                  </div>
+                  {rule.isActive ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      onClick={() => deactivateRule.mutate(rule.id)}
+                      disabled={deactivateRule.isPending}
+                    >
+                      Deactivate
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Inactive</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
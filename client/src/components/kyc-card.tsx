@@ -0,0 +1,191 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useDocumentUpload } from "@/hooks/useDocumentUpload";
+import { apiRequest } from "@/lib/queryClient";
+import { isHigherKycTier, isKycDocumentType, isKycTier, kycDocumentLabels, kycTierLabels, type KycDocumentType, type KycTier } from "@shared/kyc";
+
+export interface KycDocument {
+  id: number;
+  type: string;
+  originalName: string;
+  createdAt: string;
+  viewUrl: string;
+}
+
+export interface KycRequest {
+  id: number;
+  userId: string;
+  currentTier: string;
+  requestedTier: string;
+  status: string;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+interface KycStatus {
+  tier: KycTier;
+  tiers: { tier: KycTier; requiredDocuments: KycDocumentType[] }[];
+  documents: KycDocument[];
+  requests: KycRequest[];
+}
+
+export const kycStatusStyles: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+export function tierLabel(tier: string): string {
+  return isKycTier(tier) ? kycTierLabels[tier] : tier;
+}
+
+export function documentLabel(type: string): string {
+  return isKycDocumentType(type) ? kycDocumentLabels[type] : type;
+}
+
+// Holder side of KYC - upload identity documents and ask for the next tier, which raises limits
+export function KycCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadingType, setUploadingType] = useState<KycDocumentType | null>(null);
+
+  const { data: status, isLoading } = useQuery<KycStatus>({
+    queryKey: ['/api/kyc'],
+  });
+
+  const { uploadFile, isUploading } = useDocumentUpload({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/kyc'] });
+      setUploadingType(null);
+    },
+    onError: () => setUploadingType(null),
+  });
+
+  const requestTier = useMutation({
+    mutationFn: async (tier: KycTier) => {
+      const response = await apiRequest('POST', '/api/kyc/requests', { tier });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/kyc'] });
+      toast({
+        title: "Verification requested",
+        description: "An admin will review your documents.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error requesting verification",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && uploadingType) {
+      uploadFile(file, uploadingType);
+    }
+    e.target.value = '';
+  };
+
+  const startUpload = (type: KycDocumentType) => {
+    setUploadingType(type);
+    fileInputRef.current?.click();
+  };
+
+  const nextTier = status?.tiers.find(entry => isHigherKycTier(entry.tier, status.tier));
+  const onFile = new Set((status?.documents ?? []).map(doc => doc.type));
+  const pendingRequest = status?.requests.find(request => request.status === 'pending');
+  const latestRequest = status?.requests[0];
+  const missingDocuments = nextTier ? nextTier.requiredDocuments.filter(type => !onFile.has(type)) : [];
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center">
+            <i className="fas fa-id-card text-primary mr-2"></i>
+            Verification
+          </h3>
+          {status && (
+            <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+              {tierLabel(status.tier)}
+            </Badge>
+          )}
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : !nextTier ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            You are fully verified.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Reach {tierLabel(nextTier.tier)} verification for higher wallet limits.
+            </p>
+
+            {nextTier.requiredDocuments.map(type => (
+              <div key={type} className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div className="flex items-center">
+                  <i className={`fas ${onFile.has(type) ? 'fa-check-circle text-green-600' : 'fa-circle text-gray-400'} mr-2`}></i>
+                  <span className="text-sm text-gray-800 dark:text-gray-200">{kycDocumentLabels[type]}</span>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7"
+                  onClick={() => startUpload(type)}
+                  disabled={isUploading || !!pendingRequest}
+                >
+                  {isUploading && uploadingType === type ? 'Uploading...' : onFile.has(type) ? 'Replace' : 'Upload'}
+                </Button>
+              </div>
+            ))}
+
+            {latestRequest && (
+              <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span>
+                  {tierLabel(latestRequest.requestedTier)} request • {new Date(latestRequest.createdAt).toLocaleDateString()}
+                  {latestRequest.rejectionReason && ` • ${latestRequest.rejectionReason}`}
+                </span>
+                <Badge className={kycStatusStyles[latestRequest.status] || kycStatusStyles.pending}>
+                  {latestRequest.status.charAt(0).toUpperCase() + latestRequest.status.slice(1)}
+                </Badge>
+              </div>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={() => requestTier.mutate(nextTier.tier)}
+              disabled={!!pendingRequest || missingDocuments.length > 0 || requestTier.isPending}
+            >
+              {pendingRequest
+                ? 'Awaiting Review'
+                : requestTier.isPending
+                  ? 'Requesting...'
+                  : `Request ${tierLabel(nextTier.tier)} Verification`}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
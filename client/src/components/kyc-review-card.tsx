@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { documentLabel, kycStatusStyles, tierLabel, type KycDocument, type KycRequest } from "@/components/kyc-card";
+
+interface KycReviewRequest extends KycRequest {
+  userName: string | null;
+  userRole: string | null;
+  documents: KycDocument[];
+}
+
+// Admin side of KYC - check the documents on file and promote or turn down the holder
+export function KycReviewCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const { data: requests = [], isLoading } = useQuery<KycReviewRequest[]>({
+    queryKey: ['/api/admin/kyc/requests'],
+    refetchInterval: 30000,
+  });
+
+  const onReviewed = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/kyc/requests'] });
+    setRejectingId(null);
+    setRejectionReason('');
+    toast({ title });
+  };
+
+  const approveRequest = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/kyc/requests/${id}/approve`, {});
+    },
+    onSuccess: () => onReviewed("KYC request approved"),
+    onError: (error: any) => {
+      toast({
+        title: "Error approving KYC request",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectRequest = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/kyc/requests/${id}/reject`, { rejectionReason });
+    },
+    onSuccess: () => onReviewed("KYC request rejected"),
+    onError: (error: any) => {
+      toast({
+        title: "Error rejecting KYC request",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pending = requests.filter(request => request.status === 'pending');
+  const reviewed = requests.filter(request => request.status !== 'pending').slice(0, 5);
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center">
+            <i className="fas fa-id-card text-red-600 mr-2"></i>
+            KYC Reviews
+          </h3>
+          {pending.length > 0 && (
+            <Badge className={kycStatusStyles.pending}>{pending.length} pending</Badge>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No KYC requests</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Tier upgrade requests appear here for review</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {[...pending, ...reviewed].map((request) => (
+              <div key={request.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {request.userName || 'User'} <span className="capitalize">({request.userRole || 'unknown'})</span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {tierLabel(request.currentTier)} → {tierLabel(request.requestedTier)} • {new Date(request.createdAt).toLocaleString()}
+                    </p>
+                    {request.rejectionReason && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{request.rejectionReason}</p>
+                    )}
+                  </div>
+                  <Badge className={kycStatusStyles[request.status] || kycStatusStyles.pending}>
+                    {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                  </Badge>
+                </div>
+
+                {request.status === 'pending' && (
+                  <>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {request.documents.length === 0 ? (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">No documents on file</span>
+                      ) : request.documents.map(doc => (
+                        <a
+                          key={doc.id}
+                          href={doc.viewUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-blue-600 hover:text-blue-700 underline"
+                        >
+                          {documentLabel(doc.type)}
+                        </a>
+                      ))}
+                    </div>
+
+                    {rejectingId === request.id ? (
+                      <div className="flex gap-2 mt-2">
+                        <Input
+                          className="h-8"
+                          placeholder="Reason for rejecting"
+                          value={rejectionReason}
+                          onChange={(e) => setRejectionReason(e.target.value)}
+                        />
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => rejectRequest.mutate(request.id)}
+                          disabled={!rejectionReason || rejectRequest.isPending}
+                        >
+                          Reject
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setRejectingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          size="sm"
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                          onClick={() => approveRequest.mutate(request.id)}
+                          disabled={approveRequest.isPending}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setRejectingId(request.id);
+                            setRejectionReason('');
+                          }}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import {
+  payoutBatchStatusLabels,
+  payoutFileFormatLabels,
+  payoutFileFormats,
+  type PayoutBatchStatus,
+  type PayoutFileFormat,
+} from "@shared/payouts";
+
+interface PayoutBatch {
+  id: number;
+  batchNumber: string;
+  organizationId: number;
+  currency: string;
+  status: PayoutBatchStatus;
+  format: PayoutFileFormat;
+  settlementCount: number;
+  totalAmount: string;
+  fileName: string;
+  fileVersion: number;
+  fileGeneratedAt: string;
+  createdAt: string;
+}
+
+interface PayoutBatchDetails extends PayoutBatch {
+  organizationName: string | null;
+  settlements: {
+    id: number;
+    amount: string;
+    feeAmount: string;
+    currency: string;
+    bankName: string;
+    accountNumber: string;
+    status: string;
+    payoutFailureReason: string | null;
+  }[];
+}
+
+interface ReadyGroup {
+  organizationId: number;
+  organizationName: string | null;
+  currency: string;
+  count: number;
+  amount: string;
+}
+
+const statusStyles: Record<string, string> = {
+  generated: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  processing: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// Payment files for approved settlements. Finance officers download and regenerate their own
+// organization's files; admins also batch settlements and record what the bank did with them.
+export function PayoutBatchesCard({ isAdmin }: { isAdmin: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [format, setFormat] = useState<PayoutFileFormat>('bank_csv');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [failureReasons, setFailureReasons] = useState<Record<number, string>>({});
+
+  const { data: batches = [], isLoading } = useQuery<PayoutBatch[]>({
+    queryKey: ['/api/payout-batches'],
+  });
+
+  const { data: ready = [] } = useQuery<ReadyGroup[]>({
+    queryKey: ['/api/admin/payout-batches/ready'],
+    enabled: isAdmin,
+  });
+
+  const { data: selected } = useQuery<PayoutBatchDetails>({
+    queryKey: [`/api/payout-batches/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  const onChanged = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/payout-batches'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/payout-batches/ready'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/settlement-requests'] });
+    if (selectedId !== null) {
+      queryClient.invalidateQueries({ queryKey: [`/api/payout-batches/${selectedId}`] });
+    }
+    toast({ title });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createBatch = useMutation({
+    mutationFn: async (group: ReadyGroup) => {
+      const response = await apiRequest('POST', '/api/admin/payout-batches', {
+        organizationId: group.organizationId,
+        currency: group.currency,
+        format,
+      });
+      return response.json();
+    },
+    onSuccess: (batch: PayoutBatch) => {
+      setSelectedId(batch.id);
+      onChanged("Payout batch created");
+    },
+    onError: onError("Error creating payout batch"),
+  });
+
+  const regenerateFile = useMutation({
+    mutationFn: async (id: number) => apiRequest('POST', `/api/payout-batches/${id}/regenerate`, { format }),
+    onSuccess: () => onChanged("Payment file regenerated"),
+    onError: onError("Error regenerating payment file"),
+  });
+
+  const markProcessing = useMutation({
+    mutationFn: async (id: number) => apiRequest('PATCH', `/api/admin/payout-batches/${id}/processing`, {}),
+    onSuccess: () => onChanged("Batch marked as sent to the bank"),
+    onError: onError("Error updating payout batch"),
+  });
+
+  const recordResult = useMutation({
+    mutationFn: async ({ id, result }: { id: number; result: 'completed' | 'failed' }) => {
+      return apiRequest('PATCH', `/api/admin/settlement-requests/${id}/payout-result`, {
+        result,
+        failureReason: result === 'failed' ? failureReasons[id] : undefined,
+      });
+    },
+    onSuccess: (_, { result }) => onChanged(result === 'completed' ? "Payment completed" : "Payment failed - amount returned to treasury"),
+    onError: onError("Error recording payment result"),
+  });
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center">
+            <i className="fas fa-money-check-alt text-red-600 mr-2"></i>
+            Settlement Payouts
+          </h3>
+          <Select value={format} onValueChange={(value) => setFormat(value as PayoutFileFormat)}>
+            <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {payoutFileFormats.map(fileFormat => (
+                <SelectItem key={fileFormat} value={fileFormat}>{payoutFileFormatLabels[fileFormat]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isAdmin && ready.length > 0 && (
+          <div className="space-y-2 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Approved and waiting for payment</p>
+            {ready.map(group => (
+              <div key={`${group.organizationId}-${group.currency}`} className="flex items-center justify-between">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {group.organizationName || `Organization #${group.organizationId}`} • {group.count} settlement(s) • {formatCurrency(group.amount, group.currency)}
+                </p>
+                <Button
+                  size="sm"
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                  onClick={() => createBatch.mutate(group)}
+                  disabled={createBatch.isPending}
+                >
+                  Create Batch
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : batches.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No payout batches</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Approved settlements are paid through batches</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {batches.map((batch) => (
+              <div key={batch.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div
+                  className="flex items-center justify-between cursor-pointer"
+                  onClick={() => setSelectedId(selectedId === batch.id ? null : batch.id)}
+                >
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">{batch.batchNumber}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {batch.settlementCount} settlement(s) • {formatCurrency(batch.totalAmount, batch.currency)} •
+                      {' '}{payoutFileFormatLabels[batch.format] ?? batch.format} v{batch.fileVersion}
+                    </p>
+                  </div>
+                  <Badge className={statusStyles[batch.status] || statusStyles.generated}>
+                    {payoutBatchStatusLabels[batch.status] ?? batch.status}
+                  </Badge>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-3">
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/payout-batches/${batch.id}/file`}>
+                      <i className="fas fa-download mr-1"></i>
+                      {batch.fileName}
+                    </a>
+                  </Button>
+                  {batch.status === 'generated' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => regenerateFile.mutate(batch.id)}
+                      disabled={regenerateFile.isPending}
+                    >
+                      Regenerate as {payoutFileFormatLabels[format]}
+                    </Button>
+                  )}
+                  {isAdmin && batch.status === 'generated' && (
+                    <Button
+                      size="sm"
+                      className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                      onClick={() => markProcessing.mutate(batch.id)}
+                      disabled={markProcessing.isPending}
+                    >
+                      Sent to Bank
+                    </Button>
+                  )}
+                </div>
+
+                {selectedId === batch.id && selected?.id === batch.id && (
+                  <div className="mt-3 space-y-2 border-t border-gray-200 dark:border-gray-700 pt-2">
+                    {selected.settlements.map(settlement => (
+                      <div key={settlement.id} className="text-sm">
+                        <div className="flex items-center justify-between">
+                          <p className="text-gray-700 dark:text-gray-300">
+                            #{settlement.id} • {settlement.bankName} {settlement.accountNumber} •
+                            {' '}{formatCurrency(settlement.amount, settlement.currency)}
+                          </p>
+                          <Badge className={statusStyles[settlement.status] || statusStyles.generated}>
+                            {settlement.status}
+                          </Badge>
+                        </div>
+                        {settlement.payoutFailureReason && (
+                          <p className="text-xs text-red-600 dark:text-red-400">{settlement.payoutFailureReason}</p>
+                        )}
+                        {isAdmin && settlement.status === 'processing' && (
+                          <div className="flex gap-2 mt-1">
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700 text-white"
+                              onClick={() => recordResult.mutate({ id: settlement.id, result: 'completed' })}
+                              disabled={recordResult.isPending}
+                            >
+                              Paid
+                            </Button>
+                            <Input
+                              className="h-8 flex-1"
+                              placeholder="Failure reason from the bank"
+                              value={failureReasons[settlement.id] ?? ''}
+                              onChange={(e) => setFailureReasons({ ...failureReasons, [settlement.id]: e.target.value })}
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => recordResult.mutate({ id: settlement.id, result: 'failed' })}
+                              disabled={!failureReasons[settlement.id] || recordResult.isPending}
+                            >
+                              Failed
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
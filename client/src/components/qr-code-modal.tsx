@@ -3,6 +3,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { generateQRCode } from "@/lib/qr-utils";
+import { Money } from "@shared/money";
+import { DEFAULT_CURRENCY } from "@shared/currency";
 import { useTimer } from "@/contexts/timer-context";
 
 interface QRCodeModalProps {
@@ -10,9 +12,10 @@ interface QRCodeModalProps {
   onClose: () => void;
   amount: string;
   vmfNumber: string;
+  currency?: string;
 }
 
-export default function QRCodeModal({ isOpen, onClose, amount, vmfNumber }: QRCodeModalProps) {
+export default function QRCodeModal({ isOpen, onClose, amount, vmfNumber, currency = DEFAULT_CURRENCY }: QRCodeModalProps) {
   const [qrCodeUrl, setQrCodeUrl] = useState<string>("");
   const [transactionId, setTransactionId] = useState<string>("");
   const [uniqueId] = useState(() => `QR${Date.now()}${Math.random().toString(36).substr(2, 9)}`);
@@ -53,10 +56,10 @@ export default function QRCodeModal({ isOpen, onClose, amount, vmfNumber }: QRCo
       if (!transactionId) {
         const transactionData = {
           type: 'qr_code_payment',
-          amount: Math.floor(parseFloat(amount)).toString(),
+          amount: Money.parse(amount).toDecimal(),
           vmfNumber: vmfNumber,
           description: `QR Payment - ${vmfNumber}`,
-          currency: 'ZMW'
+          currency
         };
 
         const transactionResponse = await fetch('/api/transactions', {
@@ -81,8 +84,9 @@ export default function QRCodeModal({ isOpen, onClose, amount, vmfNumber }: QRCo
       const { generatePaymentQR } = await import('@/lib/qr-utils');
       const qrDataUrl = await generatePaymentQR(
         transactionId || 'pending',
-        Math.floor(parseFloat(amount)).toString(),
-        'qr_code_payment'
+        Money.parse(amount).toDecimal(),
+        'qr_code_payment',
+        currency
       );
       
       setQrCodeUrl(qrDataUrl);
@@ -106,14 +110,6 @@ export default function QRCodeModal({ isOpen, onClose, amount, vmfNumber }: QRCo
     return () => clearInterval(interval);
   }, [isOpen, isQrExpired, isActive, transactionId]);
 
-  const formatCurrency = (amount: string | number) => {
-    const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    if (isNaN(numericAmount)) return 'ZMW 0';
-    // Use Math.floor to truncate decimals without rounding
-    const truncatedAmount = Math.floor(numericAmount);
-    return `ZMW ${truncatedAmount.toLocaleString()}`;
-  };
-
   const progressPercentage = ((60 - timeLeft) / 60) * 100;
 
   return (
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+
+interface ReconciliationException {
+  id: number;
+  walletId: number;
+  userId: string;
+  field: string;
+  expectedValue: string;
+  actualValue: string;
+  difference: string;
+  status: string;
+  acknowledgedBy: string | null;
+  acknowledgedAt: string | null;
+  createdAt: string;
+  user: { email: string | null; role: string } | null;
+}
+
+interface ReconciliationData {
+  exceptions: ReconciliationException[];
+  latestRun: {
+    id: number;
+    status: string;
+    walletsChecked: number;
+    exceptionsFound: number;
+    startedAt: string;
+  } | null;
+}
+
+const fieldLabels: Record<string, string> = {
+  balance: 'Balance',
+  dailyCollected: 'Daily Collected',
+  dailyTransferred: 'Daily Transferred',
+};
+
+export function ReconciliationExceptionsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState('open');
+
+  const { data, isLoading } = useQuery<ReconciliationData>({
+    queryKey: ['/api/admin/reconciliation/exceptions', statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/admin/reconciliation/exceptions${query}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch reconciliation exceptions');
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const runReconciliation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/reconciliation/run');
+      return response.json();
+    },
+    onSuccess: (run: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reconciliation/exceptions'] });
+      toast({
+        title: "Reconciliation completed",
+        description: `${run.exceptionsFound} exceptions across ${run.walletsChecked} wallets.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error running reconciliation",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acknowledgeException = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/reconciliation/exceptions/${id}/acknowledge`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reconciliation/exceptions'] });
+      toast({
+        title: "Exception acknowledged",
+        description: "The discrepancy has been marked as reviewed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error acknowledging exception",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exceptions = data?.exceptions ?? [];
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center">
+            <i className="fas fa-balance-scale text-red-600 mr-2"></i>
+            Wallet Reconciliation
+          </h3>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => runReconciliation.mutate()}
+            disabled={runReconciliation.isPending}
+          >
+            <i className={`fas ${runReconciliation.isPending ? 'fa-spinner fa-spin' : 'fa-sync'} mr-2`}></i>
+            Run Now
+          </Button>
+        </div>
+
+        {data?.latestRun && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Last run {new Date(data.latestRun.startedAt).toLocaleString()} • {data.latestRun.walletsChecked} wallets checked • {data.latestRun.exceptionsFound} exceptions
+          </p>
+        )}
+
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="mb-4">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open Exceptions</SelectItem>
+            <SelectItem value="acknowledged">Acknowledged</SelectItem>
+            <SelectItem value="all">All Exceptions</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : exceptions.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
+              <i className="fas fa-check-double text-gray-400 text-xl"></i>
+            </div>
+            <p className="text-gray-600 dark:text-gray-400">No discrepancies</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Wallets match transactions and settlements</p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {exceptions.map((exception) => (
+              <div key={exception.id} className={`p-3 rounded-lg border-l-4 ${
+                exception.status === 'open'
+                  ? 'border-red-500 bg-red-50 dark:bg-red-950'
+                  : 'border-gray-400 bg-gray-50 dark:bg-gray-800'
+              }`}>
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {exception.user?.email || exception.userId}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {exception.user?.role ? `${exception.user.role} • ` : ''}Wallet #{exception.walletId} • {fieldLabels[exception.field] || exception.field}
+                    </p>
+                  </div>
+                  <p className={`font-bold text-sm ${Money.parse(exception.difference).isNegative() ? 'text-red-600' : 'text-orange-600'}`}>
+                    {Money.parse(exception.difference).isPositive() ? '+' : ''}{formatCurrency(exception.difference)}
+                  </p>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+                  <span>Expected {formatCurrency(exception.expectedValue)} • Stored {formatCurrency(exception.actualValue)}</span>
+                  {exception.status === 'open' ? (
+                    <Button
+                      size="sm"
+                      className="h-7 bg-red-600 hover:bg-red-700 text-white"
+                      onClick={() => acknowledgeException.mutate(exception.id)}
+                      disabled={acknowledgeException.isPending}
+                    >
+                      Acknowledge
+                    </Button>
+                  ) : (
+                    <span>Acknowledged {exception.acknowledgedAt ? new Date(exception.acknowledgedAt).toLocaleDateString() : ''}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+
+interface ScreeningMatch {
+  id: number;
+  subjectType: 'user' | 'settlement_request';
+  userId: string | null;
+  settlementRequestId: number | null;
+  screenedValue: string;
+  matchedValue: string;
+  listName: string;
+  score: number;
+  createdAt: string;
+  subjectName: string | null;
+  settlement: { bankName: string; accountNumber: string; amount: string; currency: string; status: string } | null;
+}
+
+// Compliance view - keep the sanctions / PEP list current and decide on possible matches
+export function ScreeningCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const { data: listInfo } = useQuery<{ entries: number; updatedAt: string | null }>({
+    queryKey: ['/api/admin/sanctions-list'],
+  });
+
+  const { data: matches = [], isLoading } = useQuery<ScreeningMatch[]>({
+    queryKey: ['/api/admin/screening-matches?status=pending'],
+  });
+
+  const uploadList = useMutation({
+    mutationFn: async (upload: File) => {
+      const formData = new FormData();
+      formData.append("file", upload);
+      const response = await fetch('/api/admin/sanctions-list', {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `Upload failed: ${response.status}`);
+      }
+      return response.json();
+    },
+    onSuccess: (info: { entries: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sanctions-list'] });
+      setFile(null);
+      toast({ title: "Sanctions list updated", description: `${info.entries} entries loaded` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error uploading list",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMatch = useMutation({
+    mutationFn: async ({ id, decision }: { id: number; decision: 'clear' | 'confirm' }) => {
+      return apiRequest('PATCH', `/api/admin/screening-matches/${id}/${decision}`, { note: notes[id] || undefined });
+    },
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/screening-matches?status=pending'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/settlement-requests'] });
+      toast({ title: decision === 'clear' ? "Match cleared" : "Match confirmed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error reviewing match",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-user-shield text-red-600 mr-2"></i>
+          Sanctions Screening
+        </h3>
+
+        <div className="p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800 space-y-2">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {listInfo?.updatedAt
+              ? `${listInfo.entries} entries, updated ${new Date(listInfo.updatedAt).toLocaleString()}`
+              : 'No list uploaded - nobody is being screened'}
+          </p>
+          <div className="flex gap-2">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <Button
+              className="bg-red-600 hover:bg-red-700 text-white"
+              onClick={() => file && uploadList.mutate(file)}
+              disabled={!file || uploadList.isPending}
+            >
+              {uploadList.isPending ? 'Uploading...' : 'Upload'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            CSV with columns name, list, aliases, identifiers (separate several aliases or identifiers with ;)
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : matches.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No matches awaiting review</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {matches.map((match) => (
+              <div key={match.id} className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {match.subjectType === 'user'
+                        ? `User: ${match.subjectName ?? match.userId}`
+                        : `Settlement #${match.settlementRequestId}`}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      "{match.screenedValue}" resembles "{match.matchedValue}"
+                    </p>
+                    {match.settlement && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {match.settlement.bankName} • {match.settlement.accountNumber} • {formatCurrency(match.settlement.amount, match.settlement.currency)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">{match.listName}</Badge>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{match.score}% match</p>
+                  </div>
+                </div>
+                <div className="flex gap-2 mt-3">
+                  <Input
+                    className="h-8 flex-1"
+                    placeholder="Review note"
+                    value={notes[match.id] ?? ''}
+                    onChange={(e) => setNotes({ ...notes, [match.id]: e.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => reviewMatch.mutate({ id: match.id, decision: 'clear' })}
+                    disabled={reviewMatch.isPending}
+                  >
+                    Clear
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                    onClick={() => reviewMatch.mutate({ id: match.id, decision: 'confirm' })}
+                    disabled={reviewMatch.isPending}
+                  >
+                    Confirm
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,9 +2,8 @@ import { useState, useCallback } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { useTimer } from "@/contexts/timer-context";
 
 interface SimpleDocumentUploadProps {
   isOpen: boolean;
@@ -22,7 +21,6 @@ interface DocumentState {
 
 export default function SimpleDocumentUpload({ isOpen, onClose, transactionId }: SimpleDocumentUploadProps) {
   const { user } = useAuth();
-  const { stopTimer } = useTimer();
   const { toast } = useToast();
 
   const [documents, setDocuments] = useState<DocumentState[]>(() => {
@@ -208,7 +206,7 @@ export default function SimpleDocumentUpload({ isOpen, onClose, transactionId }:
     }
   }, [documents, uploadFile, toast]);
 
-  const handleCompleteUpload = async () => {
+  const handleCompleteUpload = () => {
     const allUploaded = documents.every(doc => doc.uploaded);
     
     if (!allUploaded) {
@@ -220,32 +218,9 @@ export default function SimpleDocumentUpload({ isOpen, onClose, transactionId }:
       return;
     }
 
-    if (transactionId) {
-      try {
-        await apiRequest("PATCH", `/api/transactions/${transactionId}/status`, {
-          status: "completed"
-        });
-        
-        queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/transactions/pending"] });
-        
-        toast({
-          title: "Transaction Completed",
-          description: "All documents uploaded successfully",
-        });
-
-        stopTimer();
-        onClose();
-      } catch (error) {
-        toast({
-          title: "Error",
-          description: "Failed to complete transaction",
-          variant: "destructive",
-        });
-      }
-    } else {
-      onClose();
-    }
+    // The cashier completes the transaction afterwards with their count and VMF number; the
+    // server checks both, and that the cash-bag photo uploaded here is on file
+    onClose();
   };
 
   const handleClose = () => {
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import {
+  MIN_NARRATIVE_LENGTH,
+  isStrReportStatus,
+  strReportFormats,
+  strReportStatusLabels,
+  validateStrDraft,
+  type StrReportContent,
+} from "@shared/str-reports";
+
+interface StrReport {
+  id: number;
+  reportNumber: string;
+  status: string;
+  narrative: string;
+  preparedBy: string;
+  approvedBy: string | null;
+  submittedAt: string | null;
+  snapshotHash: string | null;
+  createdAt: string;
+}
+
+interface StrReportDetails extends StrReport {
+  content: StrReportContent;
+  events: { id: number; action: string; actorId: string; note: string | null; createdAt: string }[];
+}
+
+const statusStyles: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  pending_approval: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  submitted: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
+
+function parseRefs(value: string): string[] {
+  return Array.from(new Set(value.split(/[\s,]+/).map(ref => ref.trim().toUpperCase()).filter(Boolean)));
+}
+
+// Compliance view - draft suspicious transaction reports, approve them and export what was filed
+export function StrReportsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [refs, setRefs] = useState('');
+  const [narrative, setNarrative] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [returnReason, setReturnReason] = useState('');
+
+  const { data: reports = [], isLoading } = useQuery<StrReport[]>({
+    queryKey: ['/api/admin/str-reports'],
+  });
+
+  const { data: selected } = useQuery<StrReportDetails>({
+    queryKey: [`/api/admin/str-reports/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  // Transactions the fraud rules hold are the usual starting point for a report
+  const { data: reviewQueue } = useQuery<{ flagged: { id: number; transactionId: string }[] }>({
+    queryKey: ['/api/admin/fraud-review'],
+  });
+  const flaggedRefs = (reviewQueue?.flagged ?? []).map(transaction => transaction.transactionId);
+
+  const onChanged = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/str-reports'] });
+    if (selectedId !== null) {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/str-reports/${selectedId}`] });
+    }
+    setReturnReason('');
+    toast({ title });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const saveDraft = useMutation({
+    mutationFn: async () => {
+      const body = { transactionRefs: parseRefs(refs), narrative };
+      const response = editingId
+        ? await apiRequest('PATCH', `/api/admin/str-reports/${editingId}`, body)
+        : await apiRequest('POST', '/api/admin/str-reports', body);
+      return response.json();
+    },
+    onSuccess: (report: StrReport) => {
+      setEditingId(null);
+      setRefs('');
+      setNarrative('');
+      setSelectedId(report.id);
+      onChanged("Report draft saved");
+    },
+    onError: onError("Error saving report"),
+  });
+
+  const submitReport = useMutation({
+    mutationFn: async (id: number) => apiRequest('PATCH', `/api/admin/str-reports/${id}/submit`, {}),
+    onSuccess: () => onChanged("Report sent for approval"),
+    onError: onError("Error submitting report"),
+  });
+
+  const approveReport = useMutation({
+    mutationFn: async (id: number) => apiRequest('PATCH', `/api/admin/str-reports/${id}/approve`, {}),
+    onSuccess: () => onChanged("Report approved and submitted"),
+    onError: onError("Error approving report"),
+  });
+
+  const returnReport = useMutation({
+    mutationFn: async (id: number) => apiRequest('PATCH', `/api/admin/str-reports/${id}/return`, { reason: returnReason }),
+    onSuccess: () => onChanged("Report returned to draft"),
+    onError: onError("Error returning report"),
+  });
+
+  const handleSave = () => {
+    const invalidReason = validateStrDraft({ transactionRefs: parseRefs(refs), narrative });
+    if (invalidReason) {
+      toast({ title: "Report incomplete", description: invalidReason, variant: "destructive" });
+      return;
+    }
+    saveDraft.mutate();
+  };
+
+  const startEditing = (report: StrReportDetails) => {
+    setEditingId(report.id);
+    setRefs(report.content.transactions.map(transaction => transaction.transactionId).join(', '));
+    setNarrative(report.narrative);
+  };
+
+  const addRef = (ref: string) => {
+    setRefs(parseRefs(`${refs} ${ref}`).join(', '));
+  };
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-file-alt text-red-600 mr-2"></i>
+          Suspicious Transaction Reports
+        </h3>
+
+        <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div>
+            <Label>Transactions</Label>
+            <Input
+              placeholder="LUS-123456, LUS-654321"
+              value={refs}
+              onChange={(e) => setRefs(e.target.value)}
+            />
+            {flaggedRefs.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400">Flagged:</span>
+                {flaggedRefs.map(ref => (
+                  <button
+                    key={ref}
+                    type="button"
+                    className="text-xs text-blue-600 hover:text-blue-700 underline"
+                    onClick={() => addRef(ref)}
+                  >
+                    {ref}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <Label>Narrative</Label>
+            <Textarea
+              rows={4}
+              placeholder="What makes this activity suspicious"
+              value={narrative}
+              onChange={(e) => setNarrative(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">At least {MIN_NARRATIVE_LENGTH} characters</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              className="flex-1 bg-red-600 hover:bg-red-700 text-white"
+              onClick={handleSave}
+              disabled={saveDraft.isPending}
+            >
+              {saveDraft.isPending ? 'Saving...' : editingId ? 'Update Draft' : 'Save Draft'}
+            </Button>
+            {editingId && (
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setEditingId(null);
+                  setRefs('');
+                  setNarrative('');
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : reports.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No reports</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Draft a report from flagged or selected transactions</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reports.map((report) => (
+              <div key={report.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div
+                  className="flex items-center justify-between cursor-pointer"
+                  onClick={() => setSelectedId(selectedId === report.id ? null : report.id)}
+                >
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">{report.reportNumber}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(report.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Badge className={statusStyles[report.status] || statusStyles.draft}>
+                    {isStrReportStatus(report.status) ? strReportStatusLabels[report.status] : report.status}
+                  </Badge>
+                </div>
+
+                {selectedId === report.id && selected?.id === report.id && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{selected.content.narrative}</p>
+                    <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                      {selected.content.transactions.map(transaction => (
+                        <p key={transaction.transactionId}>
+                          {transaction.transactionId} • {formatCurrency(transaction.amount, transaction.currency)} •
+                          {' '}Merchant: {transaction.merchant?.name ?? 'n/a'} • Cashier: {transaction.cashier?.name ?? 'n/a'} •
+                          {' '}{transaction.documents.length} document(s)
+                        </p>
+                      ))}
+                      <p className="font-medium">
+                        Total: {selected.content.totals.map(total => formatCurrency(total.amount, total.currency)).join(' + ')}
+                      </p>
+                      {selected.snapshotHash && (
+                        <p className="break-all">SHA-256: {selected.snapshotHash}</p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      {selected.status === 'draft' && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => startEditing(selected)}>
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => submitReport.mutate(selected.id)}
+                            disabled={submitReport.isPending}
+                          >
+                            Send for Approval
+                          </Button>
+                        </>
+                      )}
+                      {selected.status === 'pending_approval' && (
+                        <>
+                          <Button
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700 text-white"
+                            onClick={() => approveReport.mutate(selected.id)}
+                            disabled={approveReport.isPending}
+                          >
+                            Approve & Submit
+                          </Button>
+                          <Input
+                            className="h-8 flex-1"
+                            placeholder="Reason for returning"
+                            value={returnReason}
+                            onChange={(e) => setReturnReason(e.target.value)}
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => returnReport.mutate(selected.id)}
+                            disabled={!returnReason || returnReport.isPending}
+                          >
+                            Return
+                          </Button>
+                        </>
+                      )}
+                      {strReportFormats.map(format => (
+                        <Button key={format} size="sm" variant="ghost" asChild>
+                          <a href={`/api/admin/str-reports/${selected.id}/export?format=${format}`}>
+                            <i className="fas fa-download mr-1"></i>
+                            {format.toUpperCase()}
+                          </a>
+                        </Button>
+                      ))}
+                    </div>
+
+                    <div className="border-t border-gray-200 dark:border-gray-700 pt-2">
+                      <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">History</p>
+                      {selected.events.map(event => (
+                        <p key={event.id} className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(event.createdAt).toLocaleString()} • {event.action.replace(/_/g, ' ')} by {event.actorId}
+                          {event.note && ` • ${event.note}`}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
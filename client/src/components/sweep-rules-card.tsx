@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+import { describeBankAccount, type BankAccount } from "@/components/bank-accounts-card";
+import {
+  nextSweepRun,
+  sweepFrequencies,
+  sweepFrequencyLabels,
+  sweepRunStatusLabels,
+  validateSweepRule,
+  type SweepFrequency,
+  type SweepRuleStatus,
+  type SweepRunStatus,
+} from "@shared/sweeps";
+
+interface SweepRule {
+  id: number;
+  organizationId: number;
+  organizationName: string | null;
+  bankAccountId: number;
+  currency: string;
+  frequency: SweepFrequency;
+  runAt: string;
+  reserveAmount: string;
+  minimumAmount: string;
+  status: SweepRuleStatus;
+  createdAt: string;
+}
+
+interface SweepRun {
+  id: number;
+  sweepRuleId: number;
+  businessDate: string;
+  status: SweepRunStatus;
+  capacity: string | null;
+  amount: string | null;
+  settlementRequestId: number | null;
+  settlementStatus: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+const runStatusStyles: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  created: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  skipped: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// Scheduled settlement sweeps. Finance officers set rules for their organization; each run
+// requests the day's settlement capacity less the reserve. Admins can see and pause every rule.
+export function SweepRulesCard({ isAdmin }: { isAdmin: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [bankAccountId, setBankAccountId] = useState('');
+  const [frequency, setFrequency] = useState<SweepFrequency>('business_days');
+  const [runAt, setRunAt] = useState('16:00');
+  const [reserveAmount, setReserveAmount] = useState('0');
+  const [minimumAmount, setMinimumAmount] = useState('0');
+
+  const { data: rules = [], isLoading } = useQuery<SweepRule[]>({
+    queryKey: ['/api/sweep-rules'],
+  });
+
+  const { data: runs = [] } = useQuery<SweepRun[]>({
+    queryKey: ['/api/sweep-runs'],
+    refetchInterval: 60000,
+  });
+
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ['/api/bank-accounts'],
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createRule = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/sweep-rules', { bankAccountId, frequency, runAt, reserveAmount, minimumAmount });
+      return response.json();
+    },
+    onSuccess: (rule: SweepRule) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sweep-rules'] });
+      toast({
+        title: "Sweep scheduled",
+        description: `First run ${nextSweepRun(rule, new Date(rule.createdAt)).toLocaleString()}`,
+      });
+    },
+    onError: onError("Error scheduling sweep"),
+  });
+
+  const setRuleStatus = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'pause' | 'resume' }) => {
+      return apiRequest('PATCH', `/api/sweep-rules/${id}/${action}`, {});
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sweep-rules'] });
+      toast({ title: action === 'pause' ? "Sweep paused" : "Sweep resumed" });
+    },
+    onError: onError("Error updating sweep"),
+  });
+
+  const handleCreate = () => {
+    if (!bankAccountId) {
+      toast({ title: "Bank account required", description: "Choose the account to sweep to.", variant: "destructive" });
+      return;
+    }
+    const invalidReason = validateSweepRule({ runAt, frequency, reserveAmount, minimumAmount });
+    if (invalidReason) {
+      toast({ title: "Invalid sweep", description: invalidReason, variant: "destructive" });
+      return;
+    }
+    createRule.mutate();
+  };
+
+  const accountsById = new Map(bankAccounts.map(account => [account.id, account]));
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+  const selectableAccounts = bankAccounts.filter(account => account.status === 'active' || account.status === 'pending_approval');
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-clock text-red-600 mr-2"></i>
+          Scheduled Settlement Sweeps
+        </h3>
+
+        {!isAdmin && (
+          <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+            <div>
+              <Label>Sweep To</Label>
+              <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                <SelectTrigger><SelectValue placeholder="Select a registered bank account" /></SelectTrigger>
+                <SelectContent>
+                  {selectableAccounts.map(account => (
+                    <SelectItem key={account.id} value={String(account.id)}>{describeBankAccount(account)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Runs</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as SweepFrequency)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {sweepFrequencies.map(option => (
+                      <SelectItem key={option} value={option}>{sweepFrequencyLabels[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>At</Label>
+                <Input type="time" value={runAt} onChange={(e) => setRunAt(e.target.value)} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Keep in Reserve</Label>
+                <Input type="number" step="0.01" min="0" value={reserveAmount} onChange={(e) => setReserveAmount(e.target.value)} />
+              </div>
+              <div>
+                <Label>Minimum Sweep</Label>
+                <Input type="number" step="0.01" min="0" value={minimumAmount} onChange={(e) => setMinimumAmount(e.target.value)} />
+              </div>
+            </div>
+            <Button
+              className="w-full bg-red-600 hover:bg-red-700 text-white"
+              onClick={handleCreate}
+              disabled={createRule.isPending}
+            >
+              {createRule.isPending ? 'Scheduling...' : 'Schedule Sweep'}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No sweeps scheduled</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">Settlement requests are only made by hand</p>
+          </div>
+        ) : (
+          <div className="space-y-3 mb-4">
+            {rules.map(rule => {
+              const account = accountsById.get(rule.bankAccountId);
+              return (
+                <div key={rule.id} className={`p-3 rounded-lg border-l-4 ${
+                  rule.status === 'active'
+                    ? 'border-green-500 bg-green-50 dark:bg-green-950'
+                    : 'border-gray-400 bg-gray-50 dark:bg-gray-800'
+                }`}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                        {sweepFrequencyLabels[rule.frequency] ?? rule.frequency} at {rule.runAt}
+                        {isAdmin ? ` • ${rule.organizationName || `Organization #${rule.organizationId}`}` : ''}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        To {account ? describeBankAccount(account) : `account #${rule.bankAccountId}`} • keeps {formatCurrency(rule.reserveAmount, rule.currency)}
+                        {Money.parse(rule.minimumAmount).isPositive() ? ` • at least ${formatCurrency(rule.minimumAmount, rule.currency)}` : ''}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {rule.status === 'active' ? `Next run ${nextSweepRun(rule, new Date()).toLocaleString()}` : 'Paused'}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      onClick={() => setRuleStatus.mutate({ id: rule.id, action: rule.status === 'active' ? 'pause' : 'resume' })}
+                      disabled={setRuleStatus.isPending}
+                    >
+                      {rule.status === 'active' ? 'Pause' : 'Resume'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {runs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Sweep history</p>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {runs.map(run => (
+                <div key={run.id} className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div>
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      {run.businessDate} • Sweep #{run.sweepRuleId}
+                      {run.amount && run.settlementRequestId
+                        ? ` • ${formatCurrency(run.amount, rulesById.get(run.sweepRuleId)?.currency)} (settlement #${run.settlementRequestId}, ${run.settlementStatus ?? 'unknown'})`
+                        : ''}
+                    </p>
+                    {run.reason && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{run.reason}</p>
+                    )}
+                  </div>
+                  <Badge className={runStatusStyles[run.status] || runStatusStyles.skipped}>
+                    {sweepRunStatusLabels[run.status] ?? run.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
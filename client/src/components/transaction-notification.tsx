@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { formatCurrency } from "@/lib/utils";
 
 interface TransactionNotificationProps {
   isVisible: boolean;
@@ -201,7 +202,7 @@ export default function TransactionNotification({
                     >
                       {amount && (
                         <p className="text-xs font-medium text-gray-800 dark:text-gray-300">
-                          Amount: ZMW {parseFloat(amount).toLocaleString()}
+                          Amount: {formatCurrency(amount)}
                         </p>
                       )}
                       {transactionId && (
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { limitLabels, limitPeriods, validateWalletLimits, type LimitPeriod, type WalletLimitValues } from "@shared/limits";
+import { isKycTier, kycTierLabels } from "@shared/kyc";
+
+interface WalletLimitRule extends WalletLimitValues {
+  id: number;
+  scope: string;
+  role: string | null;
+  kycTier: string | null;
+  organizationId: number | null;
+  branchId: number | null;
+  walletId: number | null;
+  currency: string;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface WalletLimitData {
+  rules: WalletLimitRule[];
+  organizations: { id: number; name: string }[];
+  branches: { id: number; name: string; organizationId: number }[];
+  roles: string[];
+  kycTiers: string[];
+  currencies: string[];
+}
+
+const scopeLabels: Record<string, string> = {
+  role: 'Everyone in role',
+  kyc_tier: 'KYC tier',
+  organization: 'Organization',
+  branch: 'Branch',
+  wallet: 'Single wallet',
+};
+
+const emptyValues: Record<LimitPeriod, string> = { perTransaction: '', daily: '', weekly: '', monthly: '' };
+
+// Admin view of wallet limit rules - for each cap the most specific rule wins
+export function WalletLimitsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState('role');
+  const [role, setRole] = useState('cashier');
+  const [kycTier, setKycTier] = useState('basic');
+  const [organizationId, setOrganizationId] = useState('');
+  const [branchId, setBranchId] = useState('');
+  const [walletId, setWalletId] = useState('');
+  const [currency, setCurrency] = useState('ZMW');
+  const [values, setValues] = useState(emptyValues);
+
+  const { data, isLoading } = useQuery<WalletLimitData>({
+    queryKey: ['/api/admin/wallet-limits'],
+  });
+
+  const limitValues = (): WalletLimitValues => ({
+    perTransaction: values.perTransaction || null,
+    daily: values.daily || null,
+    weekly: values.weekly || null,
+    monthly: values.monthly || null,
+  });
+
+  const createRule = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/wallet-limits', {
+        scope,
+        role: scope === 'wallet' ? null : role,
+        kycTier: scope === 'kyc_tier' ? kycTier : null,
+        organizationId: scope === 'organization' ? organizationId : null,
+        branchId: scope === 'branch' ? branchId : null,
+        walletId: scope === 'wallet' ? walletId : null,
+        currency,
+        ...limitValues(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/wallet-limits'] });
+      setValues(emptyValues);
+      toast({
+        title: "Wallet limit saved",
+        description: "It replaces any active rule for the same target and currency.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving wallet limit",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateRule = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/wallet-limits/${id}/deactivate`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/wallet-limits'] });
+      toast({
+        title: "Wallet limit deactivated",
+        description: "Broader rules or the currency defaults apply again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deactivating wallet limit",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const missingTarget =
+      (scope === 'organization' && !organizationId) ||
+      (scope === 'branch' && !branchId) ||
+      (scope === 'wallet' && !walletId);
+    if (missingTarget) {
+      toast({ title: "Target required", description: "Choose what this limit applies to.", variant: "destructive" });
+      return;
+    }
+    const invalidReason = validateWalletLimits(limitValues());
+    if (invalidReason) {
+      toast({ title: "Invalid wallet limit", description: invalidReason, variant: "destructive" });
+      return;
+    }
+    createRule.mutate();
+  };
+
+  const organizationNames = new Map((data?.organizations ?? []).map(org => [org.id, org.name]));
+  const branchNames = new Map((data?.branches ?? []).map(branch => [branch.id, branch.name]));
+
+  const describeTarget = (rule: WalletLimitRule): string => {
+    if (rule.scope === 'wallet') return `Wallet #${rule.walletId}`;
+    const roleLabel = rule.role ? `${rule.role.charAt(0).toUpperCase()}${rule.role.slice(1)}s` : '';
+    if (rule.scope === 'organization') {
+      return `${roleLabel} in ${organizationNames.get(rule.organizationId!) || `Organization #${rule.organizationId}`}`;
+    }
+    if (rule.scope === 'branch') {
+      return `${roleLabel} in ${branchNames.get(rule.branchId!) || `Branch #${rule.branchId}`} branch`;
+    }
+    if (rule.scope === 'kyc_tier') {
+      return `${roleLabel} on ${isKycTier(rule.kycTier) ? kycTierLabels[rule.kycTier] : rule.kycTier} KYC`;
+    }
+    return `All ${roleLabel.toLowerCase()}`;
+  };
+
+  const describeCaps = (rule: WalletLimitRule): string => {
+    return limitPeriods
+      .filter(period => rule[period])
+      .map(period => `${limitLabels[period]} ${formatCurrency(rule[period]!, rule.currency)}`)
+      .join(' • ');
+  };
+
+  return (
+    <Card className="shadow-sm border border-gray-200 dark:border-gray-700">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center mb-4">
+          <i className="fas fa-sliders-h text-red-600 mr-2"></i>
+          Wallet Limits
+        </h3>
+
+        <div className="space-y-3 p-3 mb-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Applies To</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(scopeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {scope !== 'wallet' ? (
+              <div>
+                <Label>Role</Label>
+                <Select value={role} onValueChange={setRole}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(data?.roles ?? []).map(value => (
+                      <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label>Wallet ID</Label>
+                <Input type="number" min="1" value={walletId} onChange={(e) => setWalletId(e.target.value)} />
+              </div>
+            )}
+            {scope === 'kyc_tier' && (
+              <div>
+                <Label>KYC Tier</Label>
+                <Select value={kycTier} onValueChange={setKycTier}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(data?.kycTiers ?? []).map(value => (
+                      <SelectItem key={value} value={value}>{isKycTier(value) ? kycTierLabels[value] : value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {scope === 'organization' && (
+              <div>
+                <Label>Organization</Label>
+                <Select value={organizationId} onValueChange={setOrganizationId}>
+                  <SelectTrigger><SelectValue placeholder="Select organization" /></SelectTrigger>
+                  <SelectContent>
+                    {(data?.organizations ?? []).map(org => (
+                      <SelectItem key={org.id} value={String(org.id)}>{org.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {scope === 'branch' && (
+              <div>
+                <Label>Branch</Label>
+                <Select value={branchId} onValueChange={setBranchId}>
+                  <SelectTrigger><SelectValue placeholder="Select branch" /></SelectTrigger>
+                  <SelectContent>
+                    {(data?.branches ?? []).map(branch => (
+                      <SelectItem key={branch.id} value={String(branch.id)}>
+                        {branch.name} ({organizationNames.get(branch.organizationId) || 'Organization'})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(data?.currencies ?? []).map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {limitPeriods.map(period => (
+              <div key={period}>
+                <Label>{limitLabels[period]} ({currency})</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Inherit"
+                  value={values[period]}
+                  onChange={(e) => setValues({ ...values, [period]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Leave a cap empty to inherit it from broader rules or the currency default. KYC tier caps
+            are ceilings that no other rule can raise.
+          </p>
+
+          <Button
+            className="w-full bg-red-600 hover:bg-red-700 text-white"
+            onClick={handleSave}
+            disabled={createRule.isPending}
+          >
+            {createRule.isPending ? 'Saving...' : 'Save Limit'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : (data?.rules ?? []).length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">No wallet limit rules</p>
+            <p className="text-gray-500 dark:text-gray-500 text-sm">The currency default daily limits apply</p>
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {data!.rules.map((rule) => (
+              <div key={rule.id} className={`p-3 rounded-lg border-l-4 ${
+                rule.isActive
+                  ? 'border-green-500 bg-green-50 dark:bg-green-950'
+                  : 'border-gray-400 bg-gray-50 dark:bg-gray-800'
+              }`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm text-gray-800 dark:text-gray-200">
+                      {describeTarget(rule)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {rule.currency} • {describeCaps(rule)}
+                    </p>
+                  </div>
+                  {rule.isActive ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      onClick={() => deactivateRule.mutate(rule.id)}
+                      disabled={deactivateRule.isPending}
+                    >
+                      Deactivate
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Inactive</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,49 +1,45 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+import { limitLabels, type EffectiveWalletLimits } from "@shared/limits";
 
 interface WalletLimitsDisplayProps {
   wallet: {
     balance: string;
-    dailyLimit: string;
     dailyCollected: string;
     dailyTransferred: string;
     isActive: boolean;
+    currency?: string;
     todayCompleted?: string;
     todayTotal?: string;
+    limits?: EffectiveWalletLimits | null;
   };
   userRole: string;
 }
 
-export default function WalletLimitsDisplay({ wallet, userRole }: WalletLimitsDisplayProps) {
-  const formatCurrency = (amount: string) => {
-    const numericAmount = parseFloat(amount || '0');
-    if (isNaN(numericAmount)) return 'ZMW 0';
-    // Use Math.floor to truncate decimals without rounding
-    const truncatedAmount = Math.floor(numericAmount);
-    return `ZMW ${truncatedAmount.toLocaleString()}`;
-  };
-
-  const calculatePercentage = (used: string, limit: string) => {
-    const usedAmount = Math.floor(parseFloat(used || '0'));
-    const limitAmount = Math.floor(parseFloat(limit || '1'));
-    return Math.min((usedAmount / limitAmount) * 100, 100);
-  };
+// Longer-period caps shown under the daily one when set
+const longerPeriods = ['weekly', 'monthly'] as const;
 
+export default function WalletLimitsDisplay({ wallet, userRole }: WalletLimitsDisplayProps) {
   // Different logic for merchants vs cashiers
   const isMerchant = userRole === 'merchant';
   const isCashier = userRole === 'cashier';
   
-  const dailyLimit = isMerchant ? 1000000 : 2000000; // Merchants: 1M collection limit, Cashiers: 2M transfer limit
-  const walletBalance = Math.round(parseFloat(wallet.balance || '0'));
+  // Merchants are limited on collections, cashiers on transfers; the server sends the caps in
+  // force for this wallet and what has been used against them
+  const limits = wallet.limits;
+  const walletBalance = Money.parse(wallet.balance);
   
   // For merchants: dailyUsed = wallet balance (today's collections)
   // For cashiers: dailyUsed = daily transferred amount
   const dailyUsed = isMerchant 
     ? walletBalance // Use wallet balance as it represents today's collections for merchants
-    : Math.round(parseFloat(wallet.dailyTransferred || '0'));
+    : Money.parse(wallet.dailyTransferred);
   
-  const dailyRemaining = Math.max(dailyLimit - dailyUsed, 0);
-  const dailyPercentage = Math.min((dailyUsed / dailyLimit) * 100, 100);
+  const dailyLimit = limits?.daily ? Money.parse(limits.daily) : null;
+  const dailyRemaining = dailyLimit ? Money.max(dailyLimit.subtract(dailyUsed), Money.zero()) : null;
+  const dailyPercentage = dailyLimit ? Math.min((dailyUsed.toNgwee() / dailyLimit.toNgwee()) * 100, 100) : 0;
 
   return (
     <div className="space-y-4">
@@ -63,7 +59,7 @@ export default function WalletLimitsDisplay({ wallet, userRole }: WalletLimitsDi
           
           <div className="text-center py-2">
             <div className="text-2xl font-bold text-black dark:text-white">
-              {formatCurrency(walletBalance.toString())}
+              {formatCurrency(walletBalance.toDecimal(), wallet.currency)}
             </div>
             <div className="text-xs text-black/70 dark:text-white/70">
               {isMerchant ? "Total digital money received today" : "Available balance"}
@@ -73,40 +69,59 @@ export default function WalletLimitsDisplay({ wallet, userRole }: WalletLimitsDi
       </Card>
 
       {/* Daily Limit */}
-      <Card className="shadow-sm border border-gray-200 dark:border-gray-700">
-        <CardContent className="p-4">
-          <div className="flex items-center justify-between mb-2">
-            <h4 className="font-medium text-gray-800 dark:text-gray-200">
-              {isMerchant ? 'Daily Collection Limit' : 'Daily Transfer Limit'}
-            </h4>
-            <span className="text-xs text-gray-500 dark:text-gray-400">
-              {formatCurrency(dailyLimit.toString())}
-            </span>
-          </div>
-          
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600 dark:text-gray-400">
-                {isMerchant ? 'Used up Daily Limit' : 'Transferred today'}
-              </span>
-              <span className="font-medium text-red-600">
-                {isMerchant ? '-' : '-'}{formatCurrency(dailyUsed.toString())}
+      {dailyLimit && dailyRemaining && (
+        <Card className="shadow-sm border border-gray-200 dark:border-gray-700">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-800 dark:text-gray-200">
+                {isMerchant ? 'Daily Collection Limit' : 'Daily Transfer Limit'}
+              </h4>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatCurrency(dailyLimit.toDecimal(), wallet.currency)}
               </span>
             </div>
-            <Progress value={dailyPercentage} className="h-2 [&>div]:bg-red-600" />
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600 dark:text-gray-400">
-                {isMerchant ? 'Remaining Limit Today' : 'Remaining'}
-              </span>
-              <span className={`font-medium ${
-                dailyRemaining < 0 ? 'text-red-600' : 'text-green-600'
-              }`}>
-                {formatCurrency(dailyRemaining.toString())}
-              </span>
+            
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">
+                  {isMerchant ? 'Used up Daily Limit' : 'Transferred today'}
+                </span>
+                <span className="font-medium text-red-600">
+                  -{formatCurrency(dailyUsed.toDecimal(), wallet.currency)}
+                </span>
+              </div>
+              <Progress value={dailyPercentage} className="h-2 [&>div]:bg-red-600" />
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">
+                  {isMerchant ? 'Remaining Limit Today' : 'Remaining'}
+                </span>
+                <span className="font-medium text-green-600">
+                  {formatCurrency(dailyRemaining.toDecimal(), wallet.currency)}
+                </span>
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+
+            {limits && (limits.perTransaction || longerPeriods.some(period => limits[period])) && (
+              <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                {limits.perTransaction && (
+                  <div className="flex justify-between">
+                    <span>{limitLabels.perTransaction} limit</span>
+                    <span>{formatCurrency(limits.perTransaction, wallet.currency)}</span>
+                  </div>
+                )}
+                {longerPeriods.map(period => limits[period] && (
+                  <div key={period} className="flex justify-between">
+                    <span>{limitLabels[period]} limit</span>
+                    <span>
+                      {formatCurrency(limits.used[period], wallet.currency)} of {formatCurrency(limits[period]!, wallet.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
       {/* Warning for limits */}
       {dailyPercentage > 80 && (
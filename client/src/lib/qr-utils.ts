@@ -3,6 +3,9 @@
  * Uses client-side QR code generation for better reliability
  */
 import QRCode from 'qrcode';
+import { Money } from '@shared/money';
+import { DEFAULT_CURRENCY } from '@shared/currency';
+import { formatCurrency } from './utils';
 
 export interface PaymentQRData {
   transactionId: string;
@@ -53,6 +56,7 @@ export async function generateQRCode(data: string, size: number = 256): Promise<
  * @param transactionId - The transaction ID
  * @param amount - The payment amount
  * @param type - The transaction type
+ * @param currency - ISO currency of the amount (default: ZMW)
  * @param size - The size of the QR code (default: 256)
  * @returns Promise<string> - The QR code data URL
  */
@@ -60,6 +64,7 @@ export async function generatePaymentQR(
   transactionId: string,
   amount: string,
   type: string = 'cash_digitization',
+  currency: string = DEFAULT_CURRENCY,
   size: number = 256
 ): Promise<string> {
   try {
@@ -69,7 +74,7 @@ export async function generatePaymentQR(
     const paymentData: PaymentQRData = {
       transactionId,
       amount,
-      currency: 'ZMW',
+      currency,
       type,
       nonce: generateNonce(),
       timestamp: now,
@@ -132,8 +137,8 @@ export function getQRParseError(qrData: string): string {
     const parsed = JSON.parse(qrData);
     
     // Validate required fields - handle both string and number amounts
-    const hasValidAmount = (typeof parsed.amount === 'number' && !isNaN(parsed.amount)) ||
-                          (typeof parsed.amount === 'string' && !isNaN(parseFloat(parsed.amount)));
+    const hasValidAmount = (typeof parsed.amount === 'number' || typeof parsed.amount === 'string') &&
+                          Money.tryParse(parsed.amount) !== null;
     
     if (
       !hasValidAmount ||
@@ -177,9 +182,9 @@ export function getQRParseError(qrData: string): string {
 export function validatePaymentQR(paymentData: PaymentQRData): boolean {
   try {
     // Amount validation (handle both string and number)
-    const amount = typeof paymentData.amount === 'string' ? 
-      parseFloat(paymentData.amount) : paymentData.amount;
-    if (isNaN(amount) || amount <= 0 || amount > 1000000) {
+    const amount = Money.tryParse(paymentData.amount);
+    // Wallet limits are enforced by the server when the payment completes
+    if (!amount || !amount.isPositive()) {
       return false;
     }
     
@@ -207,18 +212,19 @@ export function validatePaymentQR(paymentData: PaymentQRData): boolean {
  * Create a shareable QR code with additional metadata
  * @param paymentData - The payment data
  * @param merchantName - The merchant name for display
+ * @param currency - ISO currency of the amount (default: ZMW)
  * @returns Promise<{ qrUrl: string; shareText: string }> - QR code URL and share text
  */
 export async function createShareablePaymentQR(
   transactionId: string,
   amount: string,
   type: string = 'cash_digitization',
-  merchantName?: string
+  merchantName?: string,
+  currency: string = DEFAULT_CURRENCY
 ): Promise<{ qrUrl: string; shareText: string }> {
   try {
-    const qrUrl = await generatePaymentQR(transactionId, amount, type);
-    const numericAmount = parseFloat(amount);
-    const shareText = `Payment Request${merchantName ? ` from ${merchantName}` : ''}: ZMW ${numericAmount.toLocaleString()}`;
+    const qrUrl = await generatePaymentQR(transactionId, amount, type, currency);
+    const shareText = `Payment Request${merchantName ? ` from ${merchantName}` : ''}: ${formatCurrency(amount, currency)}`;
     
     return { qrUrl, shareText };
   } catch (error) {
@@ -7,18 +7,68 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Waits before each retry of a write whose first attempt may have reached the server
+const WRITE_RETRY_DELAYS_MS = [500, 1000, 2000, 4000];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// crypto.randomUUID only exists in secure contexts (https or localhost); on plain http over the
+// LAN a random v4 UUID is built from getRandomValues instead
+function newIdempotencyKey(): string {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// The server is still working on an earlier attempt with the same key
+async function isStillProcessing(res: Response): Promise<boolean> {
+  if (res.status !== 409) return false;
+  const body = await res.clone().json().catch(() => null);
+  return body?.code === "IDEMPOTENCY_REQUEST_IN_PROGRESS";
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  const isWrite = method === "POST" || method === "PATCH";
+  if (isWrite) {
+    // One key per call, so the retries below are answered with the first attempt's response
+    // instead of being processed twice
+    headers["Idempotency-Key"] = newIdempotencyKey();
+  }
+
+  const send = () => fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
+  let res: Response;
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = isWrite && attempt < WRITE_RETRY_DELAYS_MS.length;
+    try {
+      res = await send();
+    } catch (error) {
+      if (!canRetry) throw error;
+      await sleep(WRITE_RETRY_DELAYS_MS[attempt]);
+      continue;
+    }
+    if (!(isWrite && await isStillProcessing(res))) break;
+    if (!canRetry) {
+      throw new Error("Your request is still being processed. Check its status before trying again.");
+    }
+    await sleep(WRITE_RETRY_DELAYS_MS[attempt]);
+  }
+
   await throwIfResNotOk(res);
   return res;
 }
@@ -10,7 +10,29 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import MobileHeader from "@/components/mobile-header";
 import MobileNav from "@/components/mobile-nav";
+import { ReconciliationExceptionsCard } from "@/components/reconciliation-exceptions-card";
+import { BankReconciliationCard } from "@/components/bank-reconciliation-card";
+import { FeeSchedulesCard } from "@/components/fee-schedules-card";
+import { ApprovalMatricesCard } from "@/components/approval-matrices-card";
+import { PayoutBatchesCard } from "@/components/payout-batches-card";
+import { BankAccountsCard } from "@/components/bank-accounts-card";
+import { SweepRulesCard } from "@/components/sweep-rules-card";
+import { WalletLimitsCard } from "@/components/wallet-limits-card";
+import { KycReviewCard } from "@/components/kyc-review-card";
+import { FraudReviewCard } from "@/components/fraud-review-card";
+import { FraudRulesCard } from "@/components/fraud-rules-card";
+import { StrReportsCard } from "@/components/str-reports-card";
+import { ScreeningCard } from "@/components/screening-card";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+
+interface ReversalDialogState {
+  isOpen: boolean;
+  transactionId: number | null;
+  reasonCode: string;
+  reasonComment: string;
+}
 
 interface ActionDialogState {
   isOpen: boolean;
@@ -35,6 +57,13 @@ export default function AdminDashboard() {
     reasonComment: ''
   });
 
+  const [reversalDialog, setReversalDialog] = useState<ReversalDialogState>({
+    isOpen: false,
+    transactionId: null,
+    reasonCode: '',
+    reasonComment: ''
+  });
+
   const queryClient = useQueryClient();
 
   // Redirect if not authenticated
@@ -44,15 +73,6 @@ export default function AdminDashboard() {
     }
   }, [isLoading, isAuthenticated]);
 
-  // Format currency helper
-  const formatCurrency = (amount: string | number) => {
-    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    if (isNaN(numAmount)) return 'ZMW 0';
-    // Use Math.floor to truncate decimals without rounding
-    const truncatedAmount = Math.floor(numAmount);
-    return `ZMW ${truncatedAmount.toLocaleString()}`;
-  };
-
   // Fetch settlement requests
   const { data: settlementRequests = [], isLoading: settlementsLoading } = useQuery({
     queryKey: ['/api/settlement-requests'],
@@ -67,7 +87,7 @@ export default function AdminDashboard() {
 
   // Filter pending requests (include both pending and hold status as "pending approval")
   const pendingRequests = Array.isArray(settlementRequests) ? 
-    settlementRequests.filter((request: any) => request.status === 'pending' || request.status === 'hold') : [];
+    settlementRequests.filter((request: any) => request.status === 'pending' || request.status === 'partially_approved' || request.status === 'hold') : [];
 
   // Filter and sort transactions
   const filteredTransactions = Array.isArray(transactions) ? 
@@ -80,7 +100,7 @@ export default function AdminDashboard() {
           const priorityOrder = { high: 3, medium: 2, low: 1 };
           return (priorityOrder[b.priority as keyof typeof priorityOrder] || 2) - (priorityOrder[a.priority as keyof typeof priorityOrder] || 2);
         case 'amount':
-          return parseFloat(b.amount) - parseFloat(a.amount);
+          return Money.parse(b.amount).compare(Money.parse(a.amount));
         case 'status':
           return a.status.localeCompare(b.status);
         case 'date':
@@ -136,14 +156,15 @@ export default function AdminDashboard() {
   // Approve settlement mutation
   const approveSettlement = useMutation({
     mutationFn: async (id: number) => {
-      return apiRequest('PATCH', `/api/admin/settlement-requests/${id}/approve`);
+      const response = await apiRequest('PATCH', `/api/admin/settlement-requests/${id}/approve`);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { message: string; status: string }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/settlement-requests'] });
       queryClient.invalidateQueries({ queryKey: ['/api/settlement-breakdown'] });
       toast({
-        title: "Settlement request approved",
-        description: "The settlement request has been approved successfully.",
+        title: result.status === 'approved' ? "Settlement request approved" : "Approval recorded",
+        description: result.message,
       });
     },
     onError: (error: any) => {
@@ -158,14 +179,15 @@ export default function AdminDashboard() {
   // Release settlement mutation (for held settlements)
   const releaseSettlement = useMutation({
     mutationFn: async (id: number) => {
-      return apiRequest('PATCH', `/api/admin/settlement-requests/${id}/release`);
+      const response = await apiRequest('PATCH', `/api/admin/settlement-requests/${id}/release`);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { message: string; status: string }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/settlement-requests'] });
       queryClient.invalidateQueries({ queryKey: ['/api/settlement-breakdown'] });
       toast({
-        title: "Settlement request released",
-        description: "The settlement request has been released and approved successfully.",
+        title: result.status === 'approved' ? "Settlement request released" : "Approval recorded",
+        description: result.message,
       });
     },
     onError: (error: any) => {
@@ -198,6 +220,88 @@ export default function AdminDashboard() {
     },
   });
 
+  // Raise reversal mutation (maker)
+  const requestReversal = useMutation({
+    mutationFn: async ({ id, reasonCode, reasonComment }: { id: number; reasonCode: string; reasonComment?: string }) => {
+      return apiRequest('POST', `/api/admin/transactions/${id}/reversals`, { reasonCode, reasonComment });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/transactions'] });
+      toast({
+        title: "Reversal requested",
+        description: "A second admin must approve the reversal before it takes effect.",
+      });
+      setReversalDialog({ isOpen: false, transactionId: null, reasonCode: '', reasonComment: '' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error requesting reversal",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Approve reversal mutation (checker)
+  const approveReversal = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/reversals/${id}/approve`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/transactions'] });
+      toast({
+        title: "Reversal approved",
+        description: "Wallet balances have been rolled back.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error approving reversal",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reject reversal mutation (checker)
+  const rejectReversal = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('PATCH', `/api/admin/reversals/${id}/reject`, { rejectionReason: 'rejected by checker' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/transactions'] });
+      toast({
+        title: "Reversal rejected",
+        description: "The original transaction remains completed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error rejecting reversal",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getReversalReasons = () => [
+    { value: 'customer_dispute', label: 'Customer Dispute' },
+    { value: 'duplicate_transaction', label: 'Duplicate Transaction' },
+    { value: 'amount_error', label: 'Amount Error' },
+    { value: 'fraud', label: 'Fraud' },
+    { value: 'other', label: 'Other (specify below)' }
+  ];
+
+  // Link reversals and originals by internal id for the transaction history
+  const transactionsById = new Map<number, any>(
+    Array.isArray(transactions) ? transactions.map((t: any) => [t.id, t]) : []
+  );
+  const reversalsByOriginalId = new Map<number, any>(
+    Array.isArray(transactions)
+      ? transactions.filter((t: any) => t.reversalOfId && t.status !== 'rejected').map((t: any) => [t.reversalOfId, t])
+      : []
+  );
+
   const handleOpenActionDialog = (settlementId: number, action: 'hold' | 'reject') => {
     setActionDialog({
       isOpen: true,
@@ -266,6 +370,12 @@ export default function AdminDashboard() {
             { id: 'overview', label: 'Overview', icon: 'fas fa-tachometer-alt' },
             { id: 'settlements', label: 'Settlements', icon: 'fas fa-university' },
             { id: 'transactions', label: 'Transactions', icon: 'fas fa-exchange-alt' },
+            { id: 'reconciliation', label: 'Reconciliation', icon: 'fas fa-balance-scale' },
+            { id: 'fees', label: 'Fees', icon: 'fas fa-percentage' },
+            { id: 'limits', label: 'Limits', icon: 'fas fa-sliders-h' },
+            { id: 'kyc', label: 'KYC', icon: 'fas fa-id-card' },
+            { id: 'fraud', label: 'Fraud', icon: 'fas fa-shield-alt' },
+            { id: 'compliance', label: 'Compliance', icon: 'fas fa-file-alt' },
             { id: 'analytics', label: 'Analytics', icon: 'fas fa-chart-bar' },
             { id: 'system', label: 'System', icon: 'fas fa-cogs' }
           ].map((tab) => (
@@ -355,6 +465,11 @@ export default function AdminDashboard() {
         {/* Settlements Tab */}
         {activeTab === 'settlements' && (
           <>
+            <ApprovalMatricesCard />
+            <PayoutBatchesCard isAdmin={(user as any)?.role === 'admin'} />
+            <BankAccountsCard isAdmin={(user as any)?.role === 'admin'} />
+            <SweepRulesCard isAdmin={(user as any)?.role === 'admin'} />
+
             {/* Maker-Checker Queue */}
             <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
               <CardContent className="p-4">
@@ -398,8 +513,9 @@ export default function AdminDashboard() {
                   <div className="space-y-4">
                     {Array.isArray(settlementRequests) && settlementRequests.map((request: any) => (
                       <div key={request.id} className={`border-l-4 rounded-lg p-4 shadow-md ${
-                        request.status === 'pending' ? 'border-orange-500 bg-orange-50 dark:bg-orange-950 dark:border-orange-400' :
-                        request.status === 'approved' ? 'border-green-500 bg-green-50 dark:bg-green-950 dark:border-green-400' :
+                        request.status === 'pending' || request.status === 'partially_approved' ? 'border-orange-500 bg-orange-50 dark:bg-orange-950 dark:border-orange-400' :
+                        request.status === 'approved' || request.status === 'completed' ? 'border-green-500 bg-green-50 dark:bg-green-950 dark:border-green-400' :
+                        request.status === 'processing' ? 'border-blue-500 bg-blue-50 dark:bg-blue-950 dark:border-blue-400' :
                         request.status === 'hold' ? 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950 dark:border-yellow-400' :
                         'border-red-500 bg-red-50 dark:bg-red-950 dark:border-red-400'
                       }`}>
@@ -417,24 +533,43 @@ export default function AdminDashboard() {
                           </div>
                           <div className="text-right">
                             <p className="font-bold text-lg text-gray-800 dark:text-gray-200">
-                              {formatCurrency(request.amount)}
+                              {formatCurrency(request.amount, request.currency)}
                             </p>
                             <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-                              request.status === 'pending' ? 'bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-200' :
-                              request.status === 'approved' ? 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-200' :
+                              request.status === 'pending' || request.status === 'partially_approved' ? 'bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-200' :
+                              request.status === 'approved' || request.status === 'completed' ? 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-200' :
+                              request.status === 'processing' ? 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-200' :
                               request.status === 'held' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-200' :
                               'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-200'
                             }`}>
-                              {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                              {request.status.charAt(0).toUpperCase() + request.status.slice(1).replace(/_/g, ' ')}
                             </span>
                           </div>
                         </div>
 
-                        {request.status === 'pending' ? (
+                        {['pending', 'partially_approved', 'hold'].includes(request.status) && (
+                          <div className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+                            <p>
+                              Approvals: {request.approvals?.length ?? 0} of {request.requiredApprovals}
+                              {(request.approvals ?? []).length > 0 && (
+                                <> • approved by {request.approvals.map((approval: any) => approval.approverName || approval.approverId).join(', ')}</>
+                              )}
+                            </p>
+                            {(request.approvals?.length ?? 0) < request.requiredApprovals && (
+                              <p className="text-xs text-gray-500 dark:text-gray-500">
+                                Awaiting {request.requiredApprovals - (request.approvals?.length ?? 0)} more admin approval(s) from anyone other than the requester
+                                {(request.approvals ?? []).length > 0 && ' and the admins above'}
+                                {(request.userId === (user as any)?.id || (request.approvals ?? []).some((approval: any) => approval.approverId === (user as any)?.id)) && ' - not you'}
+                              </p>
+                            )}
+                          </div>
+                        )}
+
+                        {request.status === 'pending' || request.status === 'partially_approved' ? (
                           <div className="flex space-x-3">
                             <Button 
                               onClick={() => approveSettlement.mutate(request.id)}
-                              disabled={approveSettlement.isPending}
+                              disabled={approveSettlement.isPending || request.userId === (user as any)?.id || (request.approvals ?? []).some((approval: any) => approval.approverId === (user as any)?.id)}
                               className="flex-1 bg-green-600 hover:bg-green-700 text-white py-2 rounded-lg font-medium"
                             >
                               <i className="fas fa-check mr-2"></i>Approve
@@ -458,7 +593,7 @@ export default function AdminDashboard() {
                           <div className="flex space-x-3">
                             <Button 
                               onClick={() => releaseSettlement.mutate(request.id)}
-                              disabled={releaseSettlement.isPending}
+                              disabled={releaseSettlement.isPending || request.userId === (user as any)?.id || (request.approvals ?? []).some((approval: any) => approval.approverId === (user as any)?.id)}
                               className="flex-1 bg-green-600 hover:bg-green-700 text-white py-2 rounded-lg font-medium"
                             >
                               <i className="fas fa-check mr-2"></i>Release & Approve
@@ -617,12 +752,30 @@ export default function AdminDashboard() {
                                   {transaction.description}
                                 </p>
                               )}
+                              {transaction.reversalOfId && (
+                                <p className="text-purple-600 dark:text-purple-400 text-xs truncate mt-1">
+                                  <i className="fas fa-undo mr-1"></i>
+                                  Reversal of {transactionsById.get(transaction.reversalOfId)?.transactionId || `#${transaction.reversalOfId}`}
+                                  {transaction.reversalReasonCode && ` • ${transaction.reversalReasonCode.replace(/_/g, ' ')}`}
+                                </p>
+                              )}
+                              {reversalsByOriginalId.has(transaction.id) && (
+                                <p className="text-purple-600 dark:text-purple-400 text-xs truncate mt-1">
+                                  <i className="fas fa-undo mr-1"></i>
+                                  {transaction.status === 'reversed' ? 'Reversed by' : 'Reversal pending'} {reversalsByOriginalId.get(transaction.id)?.transactionId}
+                                </p>
+                              )}
                             </div>
                           </div>
                           <div className="text-right ml-3">
                             <p className="font-bold text-sm text-gray-800 dark:text-gray-200">
-                              {formatCurrency(transaction.amount)}
+                              {formatCurrency(transaction.amount, transaction.currency)}
                             </p>
+                            {Money.parse(transaction.feeAmount).isPositive() && (
+                              <p className="text-xs text-gray-500 dark:text-gray-500">
+                                Fee {formatCurrency(transaction.feeAmount, transaction.currency)}
+                              </p>
+                            )}
                             <p className="text-xs text-gray-500 dark:text-gray-500">
                               {new Date(transaction.createdAt).toLocaleTimeString()}
                             </p>
@@ -649,6 +802,40 @@ export default function AdminDashboard() {
                             </Select>
                           </div>
                           <div className="flex items-center gap-2">
+                            {transaction.status === 'completed' && transaction.type !== 'reversal' && !reversalsByOriginalId.has(transaction.id) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 text-xs"
+                                onClick={() => setReversalDialog({ isOpen: true, transactionId: transaction.id, reasonCode: '', reasonComment: '' })}
+                              >
+                                <i className="fas fa-undo mr-1"></i>Reverse
+                              </Button>
+                            )}
+                            {transaction.type === 'reversal' && transaction.status === 'pending_approval' && (
+                              transaction.requestedBy === (user as any)?.id ? (
+                                <span className="text-xs text-gray-500 dark:text-gray-400">Awaiting second admin</span>
+                              ) : (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    className="h-7 text-xs bg-green-600 hover:bg-green-700 text-white"
+                                    onClick={() => approveReversal.mutate(transaction.id)}
+                                    disabled={approveReversal.isPending}
+                                  >
+                                    Approve
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    className="h-7 text-xs bg-red-600 hover:bg-red-700 text-white"
+                                    onClick={() => rejectReversal.mutate(transaction.id)}
+                                    disabled={rejectReversal.isPending}
+                                  >
+                                    Reject
+                                  </Button>
+                                </>
+                              )
+                            )}
                             <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                               transaction.status === 'completed' ? 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-200' :
                               transaction.status === 'pending' ? 'bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-200' :
@@ -668,6 +855,42 @@ export default function AdminDashboard() {
           </>
         )}
 
+        {/* Reconciliation Tab */}
+        {activeTab === 'reconciliation' && (
+          <>
+            <BankReconciliationCard />
+            <ReconciliationExceptionsCard />
+          </>
+        )}
+
+        {/* Fees Tab */}
+        {activeTab === 'fees' && (
+          <FeeSchedulesCard />
+        )}
+
+        {/* Limits Tab */}
+        {activeTab === 'limits' && (
+          <WalletLimitsCard />
+        )}
+
+        {activeTab === 'kyc' && (
+          <KycReviewCard />
+        )}
+
+        {activeTab === 'fraud' && (
+          <>
+            <FraudReviewCard />
+            <FraudRulesCard />
+          </>
+        )}
+
+        {activeTab === 'compliance' && (
+          <>
+            <ScreeningCard />
+            <StrReportsCard />
+          </>
+        )}
+
         {/* Analytics Tab */}
         {activeTab === 'analytics' && (
           <>
@@ -742,6 +965,75 @@ export default function AdminDashboard() {
         ]}
       />
 
+      {/* Reversal Dialog */}
+      <Dialog open={reversalDialog.isOpen} onOpenChange={() => setReversalDialog({ isOpen: false, transactionId: null, reasonCode: '', reasonComment: '' })}>
+        <DialogContent className="w-full max-w-sm mx-4">
+          <DialogHeader>
+            <DialogTitle className="text-center">Reverse Transaction</DialogTitle>
+            <DialogDescription className="text-center text-sm text-gray-600 dark:text-gray-400">
+              Raise a compensating transaction. A different admin must approve it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="reversalReason">Reason *</Label>
+              <Select
+                value={reversalDialog.reasonCode}
+                onValueChange={(value) => setReversalDialog(prev => ({ ...prev, reasonCode: value, reasonComment: value === 'other' ? prev.reasonComment : '' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getReversalReasons().map((reason) => (
+                    <SelectItem key={reason.value} value={reason.value}>
+                      {reason.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {reversalDialog.reasonCode === 'other' && (
+              <div>
+                <Label htmlFor="reversalComment">Comment * (125 chars max)</Label>
+                <Textarea
+                  id="reversalComment"
+                  value={reversalDialog.reasonComment}
+                  onChange={(e) => setReversalDialog(prev => ({ ...prev, reasonComment: e.target.value }))}
+                  placeholder="Enter detailed reason..."
+                  maxLength={125}
+                  className="resize-none"
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="flex space-x-3 mt-6">
+            <Button
+              onClick={() => setReversalDialog({ isOpen: false, transactionId: null, reasonCode: '', reasonComment: '' })}
+              variant="outline"
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reversalDialog.transactionId && requestReversal.mutate({
+                id: reversalDialog.transactionId,
+                reasonCode: reversalDialog.reasonCode,
+                reasonComment: reversalDialog.reasonCode === 'other' ? reversalDialog.reasonComment : undefined,
+              })}
+              disabled={!reversalDialog.reasonCode || (reversalDialog.reasonCode === 'other' && !reversalDialog.reasonComment.trim()) || requestReversal.isPending}
+              className="flex-1 bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              <i className="fas fa-undo mr-2"></i>
+              Request Reversal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Action Dialog for Hold/Reject */}
       <Dialog open={actionDialog.isOpen} onOpenChange={() => setActionDialog({ isOpen: false, settlementId: null, action: null, reason: '', reasonComment: '' })}>
         <DialogContent className="w-full max-w-sm mx-4">
@@ -10,12 +10,17 @@ import MobileHeader from "@/components/mobile-header";
 import MobileNav from "@/components/mobile-nav";
 import SimpleDocumentUpload from "@/components/simple-document-upload";
 import QRScannerComponent from "@/components/qr-scanner";
+import { CommissionStatementCard } from "@/components/commission-statement-card";
+import { CashierFloatCard } from "@/components/cashier-float-card";
+import { KycCard } from "@/components/kyc-card";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
 
 export default function CashierDashboard() {
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -23,13 +28,7 @@ export default function CashierDashboard() {
   const { showSuccessNotification, showFailureNotification } = useTransactionNotifications();
 
   // Utility functions for formatting
-  const formatCurrency = (amount: string) => {
-    const numericAmount = parseFloat(amount);
-    if (isNaN(numericAmount)) return 'ZMW 0';
-    // Use Math.floor to truncate decimals without rounding
-    const truncatedAmount = Math.floor(numericAmount);
-    return `ZMW ${truncatedAmount.toLocaleString()}`;
-  };
+  const isPositiveAmount = (amount: string) => Money.tryParse(amount)?.isPositive() ?? false;
 
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -195,7 +194,6 @@ export default function CashierDashboard() {
   const { data: wallet, isLoading: walletLoading } = useQuery<{
     id: number;
     balance: string;
-    dailyLimit: string;
     dailyCollected: string;
     dailyTransferred: string;
     isActive: boolean;
@@ -483,10 +481,9 @@ export default function CashierDashboard() {
       originalVmfNumber: string;
     }) => {
       // Validate amounts match exactly
-      const cashierAmountNum = parseFloat(data.cashierAmount);
-      const originalAmountNum = parseFloat(data.originalAmount);
+      const cashierAmount = Money.tryParse(data.cashierAmount);
       
-      if (Math.abs(cashierAmountNum - originalAmountNum) > 0.01) {
+      if (!cashierAmount || !cashierAmount.equals(Money.parse(data.originalAmount))) {
         throw new Error("AMOUNT_MISMATCH");
       }
       
@@ -755,7 +752,7 @@ export default function CashierDashboard() {
                   <h4 className="font-medium text-gray-800 dark:text-gray-200 text-sm">Enter Cash Amount</h4>
                   {cashAmount && (
                     <p className="text-gray-600 dark:text-gray-400 text-xs mt-1">
-                      ZMW {Math.floor(parseFloat(cashAmount)).toLocaleString()}
+                      {formatCurrency(cashAmount)}
                     </p>
                   )}
                   {cashCountingStep === 1 && (
@@ -987,7 +984,7 @@ export default function CashierDashboard() {
                       </div>
                       <div className="text-right">
                         <p className="font-bold text-xl text-gray-800 dark:text-gray-200">
-                          {formatCurrency(transaction.amount)}
+                          {formatCurrency(transaction.amount, transaction.currency)}
                         </p>
                         <Badge className="status-pending">Pending Approval</Badge>
                       </div>
@@ -1053,6 +1050,15 @@ export default function CashierDashboard() {
           </Card>
         )}
 
+        {/* Float top-ups and returns */}
+        <CashierFloatCard />
+
+        {/* Commissions */}
+        <CommissionStatementCard />
+
+        {/* Verification tier */}
+        <KycCard />
+
         {/* Recent Transactions */}
         <Card className="shadow-sm border border-gray-200 dark:border-gray-700">
           <CardContent className="p-4">
@@ -1124,7 +1130,7 @@ export default function CashierDashboard() {
                           transaction.status === 'rejected' ? 'text-red-600' :
                           'text-gray-600 dark:text-gray-400'
                         }`}>
-                          {formatCurrency(transaction.amount)}
+                          {formatCurrency(transaction.amount, transaction.currency)}
                         </p>
                         {getStatusBadge(transaction.status, transaction.rejectionReason)}
                       </div>
@@ -1182,7 +1188,7 @@ export default function CashierDashboard() {
               </Button>
               <Button 
                 onClick={() => {
-                  if (!cashAmount || parseFloat(cashAmount) <= 0) {
+                  if (!isPositiveAmount(cashAmount)) {
                     toast({
                       title: "Invalid Amount",
                       description: "Please enter a valid cash amount",
@@ -1194,10 +1200,7 @@ export default function CashierDashboard() {
                   // Validation for both RTP and QR transactions
                   const targetTransaction = activeTransaction || activeQrTransaction;
                   if (targetTransaction) {
-                    const cashierAmountNum = Math.floor(parseFloat(cashAmount));
-                    const originalAmountNum = Math.floor(parseFloat(targetTransaction.amount));
-                    
-                    if (cashierAmountNum !== originalAmountNum) {
+                    if (!Money.parse(cashAmount).equals(Money.parse(targetTransaction.amount))) {
                       // Immediate transaction failure due to amount mismatch
                       showFailureNotification();
                       
@@ -1268,10 +1271,10 @@ export default function CashierDashboard() {
                   setShowAmountModal(false);
                   toast({
                     title: "Amount Verified",
-                    description: `Cash amount of ZMW ${Math.floor(parseFloat(cashAmount)).toLocaleString()} matches merchant request`,
+                    description: `Cash amount of ${formatCurrency(cashAmount)} matches merchant request`,
                   });
                 }}
-                disabled={!cashAmount || parseFloat(cashAmount) <= 0}
+                disabled={!isPositiveAmount(cashAmount)}
                 className="flex-1 bg-primary hover:bg-primary/90 text-white"
               >
                 <i className="fas fa-check mr-2"></i>
@@ -1391,17 +1394,31 @@ export default function CashierDashboard() {
             return;
           }
           
-          // Process the scanned QR code data without amount validation
+          // Process the scanned QR code data
           if (currentTransaction && qrData) {
             // Immediately mark QR code as expired/used to prevent reuse
             setCurrentTransaction(null);
             setShowQRScanner(false);
             
-            // Remove amount validation - cashier relies only on VMF verification
+            // The server verifies the cashier's own count and VMF reading, so a scan completes the
+            // payment only once the cashier has entered both for this transaction
+            if (activeQrTransaction?.id !== currentTransaction.id || qrProcessingStep < 4 || !qrAmount || !qrVmfNumber) {
+              setActiveQrTransaction(currentTransaction);
+              setQrProcessingStep(1);
+              setQrAmount("");
+              setQrVmfNumber("");
+              toast({
+                title: "Count Required",
+                description: "Enter the counted amount and VMF number before scanning the QR code",
+                variant: "destructive",
+              });
+              return;
+            }
+            
             approveTransaction.mutate({
               transactionId: currentTransaction.id,
-              cashierAmount: currentTransaction.amount,
-              cashierVmfNumber: currentTransaction.vmfNumber || "",
+              cashierAmount: qrAmount,
+              cashierVmfNumber: qrVmfNumber,
               originalAmount: currentTransaction.amount,
               originalVmfNumber: currentTransaction.vmfNumber || ""
             });
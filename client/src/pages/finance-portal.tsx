@@ -8,6 +8,12 @@ import MobileHeader from "@/components/mobile-header";
 import MobileNav from "@/components/mobile-nav";
 import { ConsolidatedSettlementCard } from "@/components/consolidated-settlement-card";
 import { ConsolidatedSettlementTotalVolume } from "@/components/consolidated-settlement-total-volume";
+import FeeQuoteLine from "@/components/fee-quote";
+import { FloatApprovalsCard } from "@/components/float-approvals-card";
+import { BranchAssignments } from "@/components/branch-assignments";
+import { BankReconciliationCard } from "@/components/bank-reconciliation-card";
+import { BankAccountsCard, describeBankAccount, type BankAccount } from "@/components/bank-accounts-card";
+import { SweepRulesCard } from "@/components/sweep-rules-card";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -20,11 +26,15 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import type { Wallet } from "@shared/schema";
+import { Money } from "@shared/money";
+import { formatCurrency } from "@/lib/utils";
 
 const settlementSchema = z.object({
-  amount: z.string().min(1, "Amount is required").transform((val) => Math.floor(parseFloat(val)).toString()),
-  bankName: z.string().min(1, "Bank name is required"),
-  accountNumber: z.string().min(1, "Account number is required"),
+  amount: z.string()
+    .min(1, "Amount is required")
+    .refine((val) => Money.tryParse(val)?.isPositive() ?? false, "Enter a valid amount")
+    .transform((val) => Money.parse(val).toDecimal()),
+  bankAccountId: z.string().min(1, "Choose a bank account"),
 });
 
 export default function FinancePortal() {
@@ -83,6 +93,15 @@ export default function FinancePortal() {
     staleTime: 2000,
   });
 
+  // Registered bank accounts; settlements go only to approved ones past their cooling-off period
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+    retry: false,
+  });
+  const usableBankAccounts = bankAccounts.filter(account =>
+    account.status === 'active' && account.availableFrom && new Date(account.availableFrom) <= new Date()
+  );
+
   // Fetch settlement breakdown with optimized refresh
   const { data: settlementBreakdown } = useQuery({
     queryKey: ["/api/settlement-breakdown"],
@@ -94,9 +113,11 @@ export default function FinancePortal() {
   });
 
   // Fetch branches
+  // Branch balances move with cashier activity, so keep them fresh
   const { data: branches = [], isLoading: branchesLoading } = useQuery({
     queryKey: ["/api/branches"],
     retry: false,
+    refetchInterval: 30000,
   });
 
   // Fetch transactions for finance user (use admin endpoint since finance sees all transactions)
@@ -123,8 +144,7 @@ export default function FinancePortal() {
     resolver: zodResolver(settlementSchema),
     defaultValues: {
       amount: "",
-      bankName: "",
-      accountNumber: "",
+      bankAccountId: "",
     },
   });
 
@@ -179,16 +199,13 @@ export default function FinancePortal() {
   // Create settlement request mutation
   const createSettlementRequest = useMutation({
     mutationFn: async (data: z.infer<typeof settlementSchema>) => {
-      return await apiRequest("POST", "/api/settlement-requests", {
-        ...data,
-        amount: Math.floor(parseFloat(data.amount)).toString(),
-      });
+      return await apiRequest("POST", "/api/settlement-requests", data);
     },
     onSuccess: async (data: any) => {
-      const amount = Math.floor(parseFloat(settlementForm.getValues('amount'))).toLocaleString();
+      const amount = formatCurrency(settlementForm.getValues('amount'));
       toast({
         title: "Settlement Request Created",
-        description: `Settlement request for ZMW ${amount} submitted successfully`,
+        description: `Settlement request for ${amount} submitted successfully`,
       });
       
       // Force immediate refetch of all related data
@@ -305,69 +322,6 @@ export default function FinancePortal() {
     },
   });
 
-  // Create test settlement requests mutation
-  const createTestSettlementRequests = useMutation({
-    mutationFn: async () => {
-      const testRequests = [
-        {
-          amount: "50000",
-          bankName: "Standard Bank",
-          accountNumber: "123456789",
-          priority: "high" as const,
-        },
-        {
-          amount: "75000",
-          bankName: "Zanaco",
-          accountNumber: "987654321",
-          priority: "medium" as const,
-        },
-        {
-          amount: "25000",
-          bankName: "FNB Bank",
-          accountNumber: "456789123",
-          priority: "low" as const,
-        },
-      ];
-
-      for (const request of testRequests) {
-        await apiRequest("POST", "/api/settlement-requests", request);
-      }
-    },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Test settlement requests created",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/settlement-requests"] });
-    },
-    onError: (error: any) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: error.message || "Failed to create test data",
-        variant: "destructive",
-      });
-    },
-  });
-
-  const formatCurrency = (amount: string | number) => {
-    const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    if (isNaN(numericAmount)) return 'ZMW 0';
-    // Use Math.floor to truncate decimals without rounding
-    const truncatedAmount = Math.floor(numericAmount);
-    return `ZMW ${truncatedAmount.toLocaleString()}`;
-  };
-
   // Helper function to get start of week (Monday)
   const getStartOfWeek = (date: Date) => {
     const d = new Date(date);
@@ -413,10 +367,16 @@ export default function FinancePortal() {
         return <Badge className="bg-green-600 text-white font-medium">Completed</Badge>;
       case 'pending':
         return <Badge className="bg-orange-600 text-white font-medium">Pending Approval</Badge>;
+      case 'partially_approved':
+        return <Badge className="bg-orange-600 text-white font-medium">Partially Approved</Badge>;
       case 'approved':
         return <Badge className="bg-blue-600 text-white font-medium">Approved</Badge>;
       case 'hold':
         return <Badge className="bg-yellow-600 text-white font-medium">On Hold</Badge>;
+      case 'processing':
+        return <Badge className="bg-blue-600 text-white font-medium">Processing</Badge>;
+      case 'failed':
+        return <Badge className="bg-red-600 text-white font-medium">Payment Failed</Badge>;
       case 'rejected':
         return <Badge className="bg-red-600 text-white font-medium">Rejected</Badge>;
       default:
@@ -427,54 +387,54 @@ export default function FinancePortal() {
 
 
   const calculateTotalMerchantCollections = () => {
-    return (merchantWallets as any[]).reduce((total: number, merchantWallet: any) => 
-      total + Math.floor(parseFloat(merchantWallet.dailyCollected || "0")), 0);
+    return Money.sum((merchantWallets as any[]).map((merchantWallet: any) => 
+      Money.parse(merchantWallet.dailyCollected))).toDecimal();
   };
 
   const getCollectionProgress = (collected: string, limit: string = "1000000") => {
-    const collectedAmount = parseFloat(collected || "0");
-    const limitAmount = parseFloat(limit);
-    const percentage = Math.min((collectedAmount / limitAmount) * 100, 100);
-    return { percentage, remaining: Math.max(limitAmount - collectedAmount, 0) };
+    const collectedAmount = Money.parse(collected);
+    const limitAmount = Money.parse(limit);
+    const percentage = Math.min((collectedAmount.toNgwee() / limitAmount.toNgwee()) * 100, 100);
+    return { percentage, remaining: Money.max(limitAmount.subtract(collectedAmount), Money.zero()).toNumber() };
   };
 
   const validateSettlementAmount = (amount: string) => {
-    const requestedAmount = Math.floor(parseFloat(amount || "0"));
-    const todaysCollections = Math.floor(parseFloat((wallet as any)?.todaysCollections || "0"));
-    const todaysUsage = (settlementBreakdown as any)?.todaysUsage || 0;
-    const settlementCapacity = Math.max(0, todaysCollections - todaysUsage);
+    const requestedAmount = Money.tryParse(amount) ?? Money.zero();
+    const todaysCollections = Money.parse((wallet as any)?.todaysCollections);
+    const todaysUsage = Money.parse((settlementBreakdown as any)?.todaysUsage);
+    const settlementCapacity = Money.max(todaysCollections.subtract(todaysUsage), Money.zero());
     
     return {
-      isValid: requestedAmount <= settlementCapacity,
-      todaysCollections,
-      todaysUsage,
-      settlementCapacity,
-      requestedAmount
+      isValid: requestedAmount.lessThanOrEqual(settlementCapacity),
+      todaysCollections: todaysCollections.toNumber(),
+      todaysUsage: todaysUsage.toNumber(),
+      settlementCapacity: settlementCapacity.toNumber(),
+      requestedAmount: requestedAmount.toNumber()
     };
   };
 
   const calculateSettlementCapacity = () => {
-    const todaysCollections = Math.floor(parseFloat((wallet as any)?.todaysCollections || "0"));
-    const todaysUsage = Math.max(0, (settlementBreakdown as any)?.todaysUsage || 0);
+    const todaysCollections = Money.parse((wallet as any)?.todaysCollections);
+    const todaysUsage = Money.max(Money.parse((settlementBreakdown as any)?.todaysUsage), Money.zero());
     
     // Finance Portal: Settlement Capacity = Today's Collections - Today's Usage (pending + hold + approved)
-    const settlementCapacity = Math.max(0, todaysCollections - todaysUsage);
+    const settlementCapacity = Money.max(todaysCollections.subtract(todaysUsage), Money.zero());
     
     // Debug logging for finance portal calculations
     console.log("Finance Settlement Capacity Debug:", {
-      todaysCollections,
-      todaysUsage,
-      settlementCapacity,
+      todaysCollections: todaysCollections.toDecimal(),
+      todaysUsage: todaysUsage.toDecimal(),
+      settlementCapacity: settlementCapacity.toDecimal(),
       walletData: wallet,
       settlementData: settlementBreakdown
     });
     
-    return settlementCapacity;
+    return settlementCapacity.toNumber();
   };
 
   const getOrganizationFunds = () => {
     // Organization funds = persistent wallet balance (different from settlement capacity)
-    return Math.floor(parseFloat((wallet as any)?.balance || "0"));
+    return Money.parse((wallet as any)?.balance).toNumber();
   };
 
   const getStatusBreakdown = () => {
@@ -616,7 +576,7 @@ export default function FinancePortal() {
                     {formatCurrency(calculateTotalMerchantCollections())}
                   </h2>
                   <p className="text-blue-600 dark:text-blue-400 text-xs">
-                    Collected across {(merchantWallets as any[]).filter(m => parseFloat(m.dailyCollected || '0') > 0).length} active merchants
+                    Collected across {(merchantWallets as any[]).filter(m => Money.parse(m.dailyCollected).isPositive()).length} active merchants
                   </p>
                 </div>
               </div>
@@ -643,7 +603,7 @@ export default function FinancePortal() {
               <div>
                 <h3 className="font-semibold text-gray-800 dark:text-gray-200">Merchant Daily Collections</h3>
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Tracking amounts reset at midnight, funds flow to master wallet
+                  Tracking amounts reset at midnight, funds flow to the organization treasury
                 </p>
               </div>
               <div className="text-right">
@@ -707,7 +667,7 @@ export default function FinancePortal() {
                         <Badge className={merchantWallet.isActive ? "bg-green-600 text-white" : "bg-red-600 text-white"}>
                           {merchantWallet.isActive ? "Active" : "Inactive"}
                         </Badge>
-                        {parseFloat(merchantWallet.dailyCollected || '0') > 0 && (
+                        {Money.parse(merchantWallet.dailyCollected).isPositive() && (
                           <Badge className="bg-blue-100 text-blue-800 text-xs">
                             Last: {new Date(merchantWallet.lastTransactionDate).toLocaleTimeString('en-GB', { 
                               hour: '2-digit', 
@@ -745,7 +705,7 @@ export default function FinancePortal() {
                   {getFilteredTransactions().length} transactions
                 </div>
                 <div className="text-xs text-gray-500 dark:text-gray-400">
-                  Total: {formatCurrency(getFilteredTransactions().reduce((sum, t) => sum + parseFloat(t.amount || '0'), 0))}
+                  Total: {formatCurrency(Money.sum(getFilteredTransactions().map(t => Money.parse(t.amount))).toDecimal())}
                 </div>
               </div>
             </div>
@@ -817,7 +777,7 @@ export default function FinancePortal() {
                     </div>
                     <div className="text-right">
                       <p className="font-semibold text-gray-800 dark:text-gray-200 text-sm">
-                        {formatCurrency(transaction.amount)}
+                        {formatCurrency(transaction.amount, transaction.currency)}
                       </p>
                       <Badge className={`text-xs ${
                         transaction.status === 'completed' ? 'bg-green-600 text-white' :
@@ -909,25 +869,30 @@ export default function FinancePortal() {
                           {settlementForm.formState.errors.amount && (
                             <p className="text-sm text-destructive">{settlementForm.formState.errors.amount.message}</p>
                           )}
+                          <div className="mt-2">
+                            <FeeQuoteLine label="Withheld from payout" type="settlement" amount={settlementForm.watch("amount")} />
+                          </div>
                         </div>
                         <div>
-                          <Label htmlFor="bankName">Bank Name</Label>
-                          <Input
-                            {...settlementForm.register("bankName")}
-                            placeholder="e.g., Standard Bank"
-                          />
-                          {settlementForm.formState.errors.bankName && (
-                            <p className="text-sm text-destructive">{settlementForm.formState.errors.bankName.message}</p>
+                          <Label htmlFor="bankAccountId">Pay To</Label>
+                          <Select
+                            value={settlementForm.watch("bankAccountId")}
+                            onValueChange={(value) => settlementForm.setValue("bankAccountId", value, { shouldValidate: true })}
+                          >
+                            <SelectTrigger><SelectValue placeholder="Select a registered bank account" /></SelectTrigger>
+                            <SelectContent>
+                              {usableBankAccounts.map(account => (
+                                <SelectItem key={account.id} value={String(account.id)}>{describeBankAccount(account)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {settlementForm.formState.errors.bankAccountId && (
+                            <p className="text-sm text-destructive">{settlementForm.formState.errors.bankAccountId.message}</p>
                           )}
-                        </div>
-                        <div>
-                          <Label htmlFor="accountNumber">Account Number</Label>
-                          <Input
-                            {...settlementForm.register("accountNumber")}
-                            placeholder="Enter account number"
-                          />
-                          {settlementForm.formState.errors.accountNumber && (
-                            <p className="text-sm text-destructive">{settlementForm.formState.errors.accountNumber.message}</p>
+                          {usableBankAccounts.length === 0 && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              No approved account is past its cooling-off period yet - add one under Management
+                            </p>
                           )}
                         </div>
                         
@@ -982,12 +947,18 @@ export default function FinancePortal() {
                             <h4 className="font-medium text-gray-800 dark:text-gray-200 text-sm">Bank Settlement Request</h4>
                             <p className="text-gray-600 dark:text-gray-400 text-xs">
                               To: {request.bankName} - ACC: ****{request.accountNumber.slice(-4)}
+                              {request.sweepRuleId ? ' • Scheduled sweep' : ''}
                             </p>
                           </div>
                           <div className="text-right">
                             <p className="font-bold text-lg text-gray-800 dark:text-gray-200">
-                              {formatCurrency(request.amount)}
+                              {formatCurrency(request.amount, request.currency)}
                             </p>
+                            {Money.parse(request.feeAmount).isPositive() && (
+                              <p className="text-gray-500 dark:text-gray-400 text-xs">
+                                Fee {formatCurrency(request.feeAmount, request.currency)}
+                              </p>
+                            )}
                             {getStatusBadge(request.status)}
                           </div>
                         </div>
@@ -1029,12 +1000,19 @@ export default function FinancePortal() {
                 )}
               </CardContent>
             </Card>
+
+            <div className="mt-6">
+              <SweepRulesCard isAdmin={false} />
+              <BankReconciliationCard />
+            </div>
           </>
         )}
 
         {/* Management Tab */}
         {activeTab === "management" && (
           <>
+            <BankAccountsCard isAdmin={false} />
+
             {/* Organization Management */}
             <Card className="shadow-sm border border-purple-200 dark:border-purple-700 mb-6">
               <CardContent className="p-4">
@@ -1077,6 +1055,9 @@ export default function FinancePortal() {
               </CardContent>
             </Card>
 
+            {/* Cashier Float */}
+            <FloatApprovalsCard />
+
             {/* Branch Management */}
             <Card className="shadow-sm border border-green-200 dark:border-green-700 mb-6">
               <CardContent className="p-4">
@@ -1145,10 +1126,21 @@ export default function FinancePortal() {
                             {branch.contactPhone}
                           </p>
                         )}
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          <i className="fas fa-piggy-bank mr-2"></i>
+                          Cash held: {formatCurrency(branch.balance ?? '0', branch.currency)}
+                        </p>
                       </div>
                     ))}
                   </div>
                 )}
+
+                {(branches as any[]).length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="font-medium text-gray-800 dark:text-gray-200 mb-3">Staff Assignments</h4>
+                    <BranchAssignments branches={branches as any[]} />
+                  </div>
+                )}
               </CardContent>
             </Card>
           </>
@@ -5,11 +5,16 @@ import { useToast } from "@/hooks/use-toast";
 import { useTransactionNotifications } from "@/hooks/use-transaction-notifications";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Money } from "@shared/money";
+import { limitHeadroom, type EffectiveWalletLimits } from "@shared/limits";
 import MobileHeader from "@/components/mobile-header";
 import MobileNav from "@/components/mobile-nav";
 import QRCodeModal from "@/components/qr-code-modal";
 
 import WalletLimitsDisplay from "@/components/wallet-limits-display";
+import { KycCard } from "@/components/kyc-card";
+import FeeQuoteLine from "@/components/fee-quote";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -48,12 +53,13 @@ export default function MerchantDashboard() {
   const { data: wallet, isLoading: walletLoading } = useQuery<{
     id: number;
     balance: string;
-    dailyLimit: string;
     dailyCollected: string;
     dailyTransferred: string;
     isActive: boolean;
+    currency: string;
     todayCompleted?: string;
     todayTotal?: string;
+    limits: EffectiveWalletLimits | null;
   }>({
     queryKey: ["/api/wallet"],
     retry: false,
@@ -69,6 +75,7 @@ export default function MerchantDashboard() {
     id: number;
     transactionId: string;
     amount: string;
+    currency: string;
     status: string;
     vmfNumber?: string;
     createdAt: string;
@@ -101,7 +108,7 @@ export default function MerchantDashboard() {
       if (recentQrTransaction.status === "completed") {
         toast({
           title: "QR Payment Completed",
-          description: `Payment of ZMW ${Math.round(parseFloat(recentQrTransaction.amount)).toLocaleString()} has been processed successfully`,
+          description: `Payment of ${formatCurrency(recentQrTransaction.amount, recentQrTransaction.currency)} has been processed successfully`,
         });
       } else if (recentQrTransaction.status === "rejected") {
         toast({
@@ -116,15 +123,11 @@ export default function MerchantDashboard() {
   // Create payment request mutation
   const createPaymentRequest = useMutation({
     mutationFn: async ({ amount, vmfNumber, type = "cash_digitization" }: { amount: string; vmfNumber: string; type?: string }) => {
-      // For QR code payments, we need to route to a cashier
-      let targetUserId = (user as any)?.id || "";
+      // Cash digitization is addressed to the merchant's own wallet; QR payments go to the
+      // system queue that every cashier sees
+      const targetUserId = type === "qr_code_payment" ? undefined : (user as any)?.id;
       
-      if (type === "qr_code_payment") {
-        // QR payments should go to the cashier for processing
-        targetUserId = "test-cashier-user"; // Route QR payments to cashier
-      }
-      
-      await apiRequest("POST", "/api/transactions", {
+      const response = await apiRequest("POST", "/api/transactions", {
         toUserId: targetUserId,
         amount,
         vmfNumber,
@@ -134,6 +137,7 @@ export default function MerchantDashboard() {
           ? `QR code payment request - VMF: ${vmfNumber}`
           : `Cash digitization request - VMF: ${vmfNumber}`,
       });
+      return response.json();
     },
     onSuccess: (data: any, variables) => {
       // For QR code payments, track the transaction ID for auto-closing
@@ -144,10 +148,17 @@ export default function MerchantDashboard() {
       // Clear form and show success toast
       setPaymentAmount("");
       setVmfNumber("");
-      toast({
-        title: "Request Sent",
-        description: "Your payment request has been sent to the security cashier",
-      });
+      if (data?.status === 'under_review') {
+        toast({
+          title: "Request Under Review",
+          description: "Your payment request needs a quick review before it reaches the security cashier",
+        });
+      } else {
+        toast({
+          title: "Request Sent",
+          description: "Your payment request has been sent to the security cashier",
+        });
+      }
       
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
     },
@@ -174,6 +185,16 @@ export default function MerchantDashboard() {
         return;
       }
       
+      // Refused by the fraud rules - the reasons stay with the admins
+      if (/TRANSACTION_BLOCKED/.test(error?.message)) {
+        toast({
+          title: "Request Blocked",
+          description: "This payment request was blocked by risk controls. Contact support if you think this is wrong.",
+          variant: "destructive",
+        });
+        return;
+      }
+      
       toast({
         title: "Error",
         description: "Failed to create payment request",
@@ -194,15 +215,22 @@ export default function MerchantDashboard() {
       return;
     }
 
-    const amount = Math.floor(parseFloat(paymentAmount));
-    const dailyCollected = Math.floor(parseFloat(wallet?.dailyCollected || "0"));
-    const dailyLimit = 1000000; // K1,000,000 collection limit
-    const remainingLimit = dailyLimit - dailyCollected;
+    const amount = Money.tryParse(paymentAmount);
+    if (!amount?.isPositive()) {
+      toast({
+        title: "Invalid Amount",
+        description: "Please enter a valid amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const remainingLimit = wallet?.limits ? limitHeadroom(wallet.limits) : null;
 
-    if (amount > remainingLimit) {
+    if (remainingLimit && amount.greaterThan(remainingLimit)) {
       toast({
-        title: "Daily Limit Exceeded",
-        description: `Transaction amount (ZMW ${Math.floor(amount).toLocaleString()}) exceeds your available daily limit. Available: ZMW ${Math.floor(remainingLimit).toLocaleString()}`,
+        title: "Collection Limit Exceeded",
+        description: `Transaction amount (${amount.format(wallet?.currency)}) exceeds your available collection limit. Available: ${remainingLimit.format(wallet?.currency)}`,
         variant: "destructive",
       });
       return;
@@ -211,14 +239,6 @@ export default function MerchantDashboard() {
     createPaymentRequest.mutate({ amount: paymentAmount, vmfNumber });
   };
 
-  const formatCurrency = (amount: string | number) => {
-    const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    if (isNaN(numericAmount)) return 'ZMW 0';
-    // Use Math.floor to truncate decimals without rounding
-    const truncatedAmount = Math.floor(numericAmount);
-    return `ZMW ${truncatedAmount.toLocaleString()}`;
-  };
-
   const getStatusBadge = (status: string, rejectionReason?: string) => {
     switch (status) {
       case 'completed':
@@ -275,32 +295,45 @@ export default function MerchantDashboard() {
         {/* Transfer Limits - Shows Wallet Balance */}
         {wallet && <WalletLimitsDisplay wallet={{
           balance: wallet.balance,
-          dailyLimit: wallet.dailyLimit,
           dailyCollected: wallet.dailyCollected || '0',
           dailyTransferred: wallet.dailyTransferred || '0',
           isActive: wallet.isActive,
+          currency: wallet.currency,
           todayCompleted: wallet.todayCompleted,
-          todayTotal: wallet.todayTotal
+          todayTotal: wallet.todayTotal,
+          limits: wallet.limits
         }} userRole="merchant" />}
 
+        {/* Verification tier */}
+        <KycCard />
+
         {/* Payment Request Form */}
         <Card className="shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
           <CardContent className="p-4">
             <h3 className="font-semibold text-gray-800 dark:text-gray-200 mb-4">Request Payment</h3>
             <div className="space-y-4">
               <div>
-                <Label htmlFor="amount">Amount (ZMW)</Label>
+                <Label htmlFor="amount">Amount ({wallet?.currency ?? 'ZMW'})</Label>
                 <Input
                   id="amount"
                   type="number"
+                  step="0.01"
+                  min="0"
                   value={paymentAmount}
                   onChange={(e) => {
-                    // Round any input to whole numbers only
-                    const rounded = Math.round(parseFloat(e.target.value) || 0);
-                    setPaymentAmount(rounded > 0 ? rounded.toString() : "");
+                    // Accept kwacha and ngwee only - no more than two decimal places
+                    if (/^\d*(\.\d{0,2})?$/.test(e.target.value)) {
+                      setPaymentAmount(e.target.value);
+                    }
                   }}
-                  placeholder="Enter amount (whole numbers only)"
+                  placeholder="Enter amount"
                 />
+                {Money.tryParse(paymentAmount)?.isPositive() && (
+                  <div className="mt-2 space-y-1">
+                    <FeeQuoteLine label="QR payment" type="qr_code_payment" amount={paymentAmount} />
+                    <FeeQuoteLine label="Request to Pay" type="cash_digitization" amount={paymentAmount} />
+                  </div>
+                )}
               </div>
               <div>
                 <Label htmlFor="vmf">VMF Number *</Label>
@@ -321,7 +354,7 @@ export default function MerchantDashboard() {
         <div className="grid grid-cols-2 gap-4 mb-6 mt-6">
           <Button
             onClick={() => {
-              if (!paymentAmount || !vmfNumber.trim()) {
+              if (!Money.tryParse(paymentAmount)?.isPositive() || !vmfNumber.trim()) {
                 toast({
                   title: "Missing Information",
                   description: "Please enter both amount and VMF number before generating QR code",
@@ -330,15 +363,13 @@ export default function MerchantDashboard() {
                 return;
               }
               
-              const amount = Math.floor(parseFloat(paymentAmount));
-              const dailyCollected = Math.round(parseFloat(wallet?.dailyCollected || "0"));
-              const dailyLimit = 1000000;
-              const remainingLimit = dailyLimit - dailyCollected;
+              const amount = Money.parse(paymentAmount);
+              const remainingLimit = wallet?.limits ? limitHeadroom(wallet.limits) : null;
 
-              if (amount > remainingLimit) {
+              if (remainingLimit && amount.greaterThan(remainingLimit)) {
                 toast({
-                  title: "Daily Limit Exceeded",
-                  description: `Amount (ZMW ${amount.toLocaleString()}) exceeds available daily limit. Available: ZMW ${remainingLimit.toLocaleString()}`,
+                  title: "Collection Limit Exceeded",
+                  description: `Amount (${amount.format(wallet?.currency)}) exceeds available collection limit. Available: ${remainingLimit.format(wallet?.currency)}`,
                   variant: "destructive",
                 });
                 return;
@@ -447,7 +478,7 @@ export default function MerchantDashboard() {
                           transaction.status === 'rejected' ? 'text-red-600' :
                           'text-gray-600 dark:text-gray-400'
                         }`}>
-                          +{formatCurrency(transaction.amount)}
+                          +{formatCurrency(transaction.amount, transaction.currency)}
                         </p>
                         {getStatusBadge(transaction.status, transaction.rejectionReason)}
                       </div>
@@ -486,6 +517,7 @@ export default function MerchantDashboard() {
         }}
         amount={paymentAmount}
         vmfNumber={vmfNumber}
+        currency={wallet?.currency}
       />
 
 
@@ -0,0 +1,41 @@
+-- Store amounts as integer ngwee (1 ZMW = 100 ngwee) instead of decimal(12,2).
+-- Run once against an existing database before `npm run db:push`; push alone
+-- would cast 1234.56 to 1235 and then read it back as ZMW 12.35.
+-- Every value is multiplied by 100, so no ngwee are lost in the conversion.
+
+BEGIN;
+
+ALTER TABLE branches
+  ALTER COLUMN balance DROP DEFAULT,
+  ALTER COLUMN balance TYPE bigint USING round(balance * 100)::bigint,
+  ALTER COLUMN balance SET DEFAULT 0;
+
+ALTER TABLE wallets
+  ALTER COLUMN balance DROP DEFAULT,
+  ALTER COLUMN balance TYPE bigint USING round(balance * 100)::bigint,
+  ALTER COLUMN balance SET DEFAULT 0,
+  ALTER COLUMN daily_limit DROP DEFAULT,
+  ALTER COLUMN daily_limit TYPE bigint USING round(daily_limit * 100)::bigint,
+  ALTER COLUMN daily_limit SET DEFAULT 100000000,
+  ALTER COLUMN daily_collected DROP DEFAULT,
+  ALTER COLUMN daily_collected TYPE bigint USING round(daily_collected * 100)::bigint,
+  ALTER COLUMN daily_collected SET DEFAULT 0,
+  ALTER COLUMN daily_transferred DROP DEFAULT,
+  ALTER COLUMN daily_transferred TYPE bigint USING round(daily_transferred * 100)::bigint,
+  ALTER COLUMN daily_transferred SET DEFAULT 0;
+
+ALTER TABLE transactions
+  ALTER COLUMN amount TYPE bigint USING round(amount * 100)::bigint;
+
+ALTER TABLE settlement_requests
+  ALTER COLUMN amount TYPE bigint USING round(amount * 100)::bigint;
+
+ALTER TABLE ledger_entries
+  ALTER COLUMN amount TYPE bigint USING round(amount * 100)::bigint;
+
+ALTER TABLE reconciliation_exceptions
+  ALTER COLUMN expected_value TYPE bigint USING round(expected_value * 100)::bigint,
+  ALTER COLUMN actual_value TYPE bigint USING round(actual_value * 100)::bigint,
+  ALTER COLUMN difference TYPE bigint USING round(difference * 100)::bigint;
+
+COMMIT;
@@ -0,0 +1,56 @@
+-- Move each organization's funds out of its finance officers' wallets into a treasury
+-- wallet owned by the organization. Run once, after `npm run db:push` has added
+-- wallets.organization_id and its unique constraint.
+-- Collections used to be credited to whichever finance officer the database returned
+-- first, so an organization's balance may be split across several officer wallets; the
+-- treasury receives their sum. Every move is posted to the ledger, so both sides still
+-- reconcile against their entries. Officer balances in a currency other than the
+-- treasury's are left in place for finance to review.
+
+BEGIN;
+
+-- One treasury per organization with a finance officer, in the currency of the
+-- organization's oldest finance wallet
+INSERT INTO wallets (user_id, organization_id, balance, opening_balance, currency, last_reset_date, is_active)
+SELECT DISTINCT ON (u.organization_id)
+  'org_treasury_' || u.organization_id, u.organization_id, 0, 0, w.currency, now(), true
+FROM users u
+JOIN wallets w ON w.user_id = u.id
+WHERE u.role = 'finance' AND u.organization_id IS NOT NULL
+ORDER BY u.organization_id, w.id
+ON CONFLICT (organization_id) DO NOTHING;
+
+CREATE TEMP TABLE treasury_moves ON COMMIT DROP AS
+SELECT
+  w.id AS from_wallet_id,
+  t.id AS treasury_id,
+  w.balance AS amount,
+  w.currency,
+  'JRN-TREASURY-' || w.id AS journal_id
+FROM wallets w
+JOIN users u ON u.id = w.user_id
+JOIN wallets t ON t.organization_id = u.organization_id
+WHERE u.role = 'finance' AND w.balance > 0 AND w.currency = t.currency;
+
+INSERT INTO ledger_entries (journal_id, account, wallet_id, direction, amount, currency, description)
+SELECT journal_id, 'finance_master', from_wallet_id, 'debit', amount, currency, 'Balance moved to organization treasury'
+FROM treasury_moves
+UNION ALL
+SELECT journal_id, 'finance_master', treasury_id, 'credit', amount, currency, 'Balance moved from finance officer wallet'
+FROM treasury_moves;
+
+UPDATE wallets t
+SET balance = t.balance + m.total,
+    opening_balance = t.opening_balance + m.total,
+    updated_at = now()
+FROM (SELECT treasury_id, sum(amount) AS total FROM treasury_moves GROUP BY treasury_id) m
+WHERE t.id = m.treasury_id;
+
+UPDATE wallets w
+SET balance = 0,
+    opening_balance = 0,
+    updated_at = now()
+FROM treasury_moves m
+WHERE w.id = m.from_wallet_id;
+
+COMMIT;
@@ -0,0 +1,36 @@
+-- Make filed suspicious transaction reports tamper-proof in the database itself, not just in
+-- the application. Run once, after `npm run db:push` has created str_reports and
+-- str_report_events.
+-- A submitted report can no longer be updated or deleted, and the event log only ever grows.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION str_reports_block_submitted_changes() RETURNS trigger AS $$
+BEGIN
+  IF OLD.status = 'submitted' THEN
+    RAISE EXCEPTION 'STR_REPORT_LOCKED: report % has been submitted and cannot change', OLD.report_number;
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS str_reports_immutable ON str_reports;
+CREATE TRIGGER str_reports_immutable
+  BEFORE UPDATE OR DELETE ON str_reports
+  FOR EACH ROW EXECUTE FUNCTION str_reports_block_submitted_changes();
+
+CREATE OR REPLACE FUNCTION str_report_events_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'STR report events are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS str_report_events_append_only ON str_report_events;
+CREATE TRIGGER str_report_events_append_only
+  BEFORE UPDATE OR DELETE ON str_report_events
+  FOR EACH ROW EXECUTE FUNCTION str_report_events_append_only();
+
+COMMIT;
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseBankStatement, statementLineMatches } from "./bank-statements";
+
+const settlement = {
+  amount: "1000.00",
+  feeAmount: "15.00",
+  currency: "ZMW",
+  accountNumber: "1234 5678 90123",
+  createdAt: new Date(2026, 2, 10, 9, 0),
+};
+
+const line = {
+  direction: "debit" as const,
+  amount: "985.00",
+  currency: "ZMW",
+  valueDate: "2026-03-11",
+  counterpartyAccount: "1234567890123",
+  description: null,
+};
+
+describe("statementLineMatches", () => {
+  it("matches the payout net of the fee to the beneficiary account", () => {
+    assert.equal(statementLineMatches(line, null, settlement), true);
+  });
+
+  it("needs the net amount and the currency", () => {
+    assert.equal(statementLineMatches({ ...line, amount: "1000.00" }, null, settlement), false);
+    assert.equal(statementLineMatches({ ...line, currency: "USD" }, null, settlement), false);
+  });
+
+  it("takes the statement's own account for a credit", () => {
+    const credit = { ...line, direction: "credit" as const, counterpartyAccount: "5550001112223" };
+    assert.equal(statementLineMatches(credit, "1234-5678-90123", settlement), true);
+    assert.equal(statementLineMatches(credit, "9999999999999", settlement), false);
+  });
+
+  it("falls back to the account quoted in the payment details", () => {
+    const quoted = { ...line, counterpartyAccount: null, description: "SETTLEMENT TO 1234567890123 REF 7" };
+    assert.equal(statementLineMatches(quoted, null, settlement), true);
+    assert.equal(statementLineMatches({ ...quoted, description: "SETTLEMENT REF 7" }, null, settlement), false);
+  });
+
+  it("only matches lines dated within the window after the request", () => {
+    assert.equal(statementLineMatches({ ...line, valueDate: "2026-03-10" }, null, settlement), true);
+    assert.equal(statementLineMatches({ ...line, valueDate: "2026-03-09" }, null, settlement), false);
+    assert.equal(statementLineMatches({ ...line, valueDate: "2026-04-09" }, null, settlement), true);
+    assert.equal(statementLineMatches({ ...line, valueDate: "2026-04-10" }, null, settlement), false);
+  });
+});
+
+describe("parseBankStatement", () => {
+  it("reads signed CSV amounts as debits and credits", () => {
+    const statement = parseBankStatement("csv", "date,amount,currency,reference,account\n11/03/2026,-985.00,zmw,BR123,1234567890123\n2026-03-12,50,ZMW,,\n");
+    assert.equal(statement.lines.length, 2);
+    assert.deepEqual(statement.lines[0], {
+      direction: "debit",
+      amount: "985.00",
+      currency: "ZMW",
+      valueDate: "2026-03-11",
+      bankReference: "BR123",
+      counterpartyAccount: "1234567890123",
+      description: null,
+    });
+    assert.equal(statement.lines[1].direction, "credit");
+  });
+
+  it("treats an MT940 NONREF customer reference as no reference", () => {
+    const mt940 = [
+      ":20:STMT1",
+      ":25:1234567890123",
+      ":28C:1/1",
+      ":60F:C260310ZMW10000,00",
+      ":61:2603110311D985,00NTRFNONREF",
+      ":86:SETTLEMENT 7",
+      ":62F:C260311ZMW9015,00",
+    ].join("\n");
+    const [parsed] = parseBankStatement("mt940", mt940).lines;
+    assert.equal(parsed.direction, "debit");
+    assert.equal(parsed.amount, "985.00");
+    assert.equal(parsed.bankReference, null);
+    assert.equal(parsed.description, "SETTLEMENT 7");
+  });
+
+  it("refuses a file with no statement lines", () => {
+    assert.throws(() => parseBankStatement("csv", "date,amount,currency\n"), /INVALID_BANK_STATEMENT/);
+  });
+});
@@ -0,0 +1,241 @@
+import { Money } from "@shared/money";
+import { STATEMENT_MATCH_WINDOW_DAYS, type BankStatementFormat } from "@shared/bank-statements";
+import type { BankStatementLine, SettlementRequest } from "@shared/schema";
+import { parseCsv, toBusinessDate } from "./utils";
+
+export interface ParsedStatementLine {
+  direction: 'credit' | 'debit';
+  amount: string; // always positive
+  currency: string;
+  valueDate: string; // YYYY-MM-DD
+  bankReference: string | null;
+  counterpartyAccount: string | null;
+  description: string | null;
+}
+
+export interface ParsedStatement {
+  accountNumber: string | null; // the account the statement is for
+  currency: string | null;
+  lines: ParsedStatementLine[];
+}
+
+function invalid(): never {
+  throw new Error('INVALID_BANK_STATEMENT');
+}
+
+function parseAmount(value: string): Money {
+  const amount = Money.tryParse(value.trim().replace(/,/g, ''));
+  return amount ?? invalid();
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// Inner XML of each <tag> element, namespace prefixes ignored. Good enough for the flat,
+// non-recursive elements of a CAMT statement; not a general XML parser.
+function xmlBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function xmlText(xml: string | undefined, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    current = current === undefined ? undefined : xmlBlocks(current, tag)[0];
+  }
+  return current === undefined ? null : decodeXml(current);
+}
+
+function xmlAttribute(xml: string, tag: string, attribute: string): string | null {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\s[^>]*${attribute}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+// IBAN or other account identifier inside an <Acct>-style element
+function xmlAccount(xml: string | undefined): string | null {
+  return xmlText(xml, 'IBAN') ?? xmlText(xml, 'Othr', 'Id');
+}
+
+// ISO 20022 bank-to-customer statement (camt.053). Booked entries only.
+function parseCamt053(content: string): ParsedStatement {
+  const statement = xmlBlocks(content, 'Stmt')[0] ?? invalid();
+  const account = xmlBlocks(statement, 'Acct')[0];
+  const lines: ParsedStatementLine[] = [];
+
+  for (const entry of xmlBlocks(statement, 'Ntry')) {
+    const status = xmlText(entry, 'Sts', 'Cd') ?? xmlText(entry, 'Sts');
+    if (status && status !== 'BOOK') {
+      continue;
+    }
+
+    const direction = xmlText(entry, 'CdtDbtInd') === 'DBIT' ? 'debit' : 'credit';
+    const amount = parseAmount(xmlText(entry, 'Amt') ?? invalid());
+    const valueDate = (xmlText(entry, 'ValDt', 'Dt') ?? xmlText(entry, 'ValDt', 'DtTm') ?? xmlText(entry, 'BookgDt', 'Dt') ?? invalid()).slice(0, 10);
+    // The other party is the creditor of a payment out and the debtor of a payment in
+    const parties = xmlBlocks(entry, 'RltdPties')[0];
+    const counterpartyAccount = xmlAccount(xmlBlocks(parties ?? '', direction === 'debit' ? 'CdtrAcct' : 'DbtrAcct')[0]);
+
+    lines.push({
+      direction,
+      amount: amount.toDecimal(),
+      currency: xmlAttribute(entry, 'Amt', 'Ccy') ?? xmlText(account, 'Ccy') ?? invalid(),
+      valueDate,
+      bankReference: xmlText(entry, 'AcctSvcrRef') ?? xmlText(entry, 'Refs', 'EndToEndId') ?? xmlText(entry, 'NtryRef'),
+      counterpartyAccount,
+      description: xmlBlocks(entry, 'Ustrd').map(decodeXml).join(' ') || xmlText(entry, 'AddtlNtryInf'),
+    });
+  }
+
+  return { accountNumber: xmlAccount(account), currency: xmlText(account, 'Ccy'), lines };
+}
+
+// YYMMDD -> YYYY-MM-DD (SWIFT years 00-79 are 20xx)
+function mt940Date(value: string): string {
+  const year = Number(value.slice(0, 2));
+  return `${year < 80 ? 2000 + year : 1900 + year}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+// SWIFT MT940 customer statement. Fields start with :tag: and may continue on following lines.
+function parseMt940(content: string): ParsedStatement {
+  const fields: { tag: string; value: string }[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const tagged = rawLine.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) {
+      fields.push({ tag: tagged[1], value: tagged[2] });
+    } else if (fields.length > 0 && rawLine.trim() && !rawLine.startsWith('-}')) {
+      fields[fields.length - 1].value += `\n${rawLine}`;
+    }
+  }
+
+  const accountNumber = fields.find(field => field.tag === '25')?.value.trim() ?? invalid();
+  const opening = fields.find(field => field.tag === '60F' || field.tag === '60M')?.value ?? invalid();
+  const currency = opening.match(/^[CD]\d{6}([A-Z]{3})/)?.[1] ?? invalid();
+  const lines: ParsedStatementLine[] = [];
+
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') {
+      return;
+    }
+    // YYMMDD[MMDD](C|D|RC|RD)[funds code]amount N|F|S type, customer reference[//bank reference]
+    const match = field.value.match(/^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)[NFS][A-Z0-9]{3}([^\n/]*)(?:\/\/([^\n]*))?/);
+    if (!match) {
+      invalid();
+    }
+    const [, date, , mark, , amount, customerReference, bankReference] = match;
+    const next = fields[index + 1];
+
+    lines.push({
+      // Reversals (RC/RD) move money the other way
+      direction: mark === 'D' || mark === 'RC' ? 'debit' : 'credit',
+      amount: parseAmount(amount.replace(',', '.')).toDecimal(),
+      currency,
+      valueDate: mt940Date(date),
+      bankReference: bankReference?.trim() || (customerReference.trim() !== 'NONREF' && customerReference.trim()) || null,
+      counterpartyAccount: null,
+      description: next?.tag === '86' ? next.value.replace(/\n/g, ' ').trim() : null,
+    });
+  });
+
+  return { accountNumber, currency, lines };
+}
+
+// DD/MM/YYYY or YYYY-MM-DD -> YYYY-MM-DD
+function csvDate(value: string): string {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    return trimmed.slice(0, 10);
+  }
+  const match = trimmed.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : invalid();
+}
+
+// Simple CSV export. Columns: date, amount, currency, and optionally direction (credit/debit;
+// otherwise a negative amount is a debit), reference, account (the other party) and description.
+function parseStatementCsv(content: string): ParsedStatement {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column('date') === -1 || column('amount') === -1 || column('currency') === -1) {
+    invalid();
+  }
+
+  const value = (fields: string[], name: string) => {
+    const index = column(name);
+    return index === -1 ? null : (fields[index] ?? '').trim() || null;
+  };
+
+  const lines = rows.map((fields): ParsedStatementLine => {
+    const amount = parseAmount(value(fields, 'amount') ?? invalid());
+    const direction = value(fields, 'direction')?.toLowerCase();
+    return {
+      direction: direction === 'debit' || (!direction && amount.isNegative()) ? 'debit' : 'credit',
+      amount: amount.abs().toDecimal(),
+      currency: (value(fields, 'currency') ?? invalid()).toUpperCase(),
+      valueDate: csvDate(value(fields, 'date') ?? invalid()),
+      bankReference: value(fields, 'reference'),
+      counterpartyAccount: value(fields, 'account'),
+      description: value(fields, 'description'),
+    };
+  });
+
+  return { accountNumber: null, currency: lines[0]?.currency ?? null, lines };
+}
+
+/**
+ * Parses an uploaded statement. Throws INVALID_BANK_STATEMENT when the file is not a readable
+ * statement in the given format.
+ */
+export function parseBankStatement(format: BankStatementFormat, content: string): ParsedStatement {
+  const statement = format === 'camt_053'
+    ? parseCamt053(content)
+    : format === 'mt940' ? parseMt940(content) : parseStatementCsv(content);
+  if (statement.lines.length === 0) {
+    invalid();
+  }
+  return statement;
+}
+
+/**
+ * Account numbers compare without spaces, dashes or case
+ */
+export function normalizeAccountNumber(value: string): string {
+  return value.replace(/[\s-]/g, '').toLowerCase();
+}
+
+/**
+ * Whether a statement line pays a settlement: it is for the payout amount (net of the withheld
+ * fee) in the same currency, reaches the settlement's bank account, and is dated within the match
+ * window after the request. The account is the other party of a debit (the platform paying out)
+ * or the statement's own account for a credit (the organization being paid); failing both, the
+ * payment details must quote it.
+ */
+export function statementLineMatches(
+  line: Pick<BankStatementLine, 'direction' | 'amount' | 'currency' | 'valueDate' | 'counterpartyAccount' | 'description'>,
+  statementAccount: string | null,
+  settlement: Pick<SettlementRequest, 'amount' | 'feeAmount' | 'currency' | 'accountNumber' | 'createdAt'>
+): boolean {
+  const payout = Money.parse(settlement.amount).subtract(Money.parse(settlement.feeAmount));
+  if (line.currency !== settlement.currency || !Money.parse(line.amount).equals(payout)) {
+    return false;
+  }
+
+  const beneficiary = normalizeAccountNumber(settlement.accountNumber);
+  const lineAccount = line.direction === 'debit' ? line.counterpartyAccount : statementAccount;
+  const accountMatches = lineAccount
+    ? normalizeAccountNumber(lineAccount) === beneficiary
+    : normalizeAccountNumber(line.description ?? '').includes(beneficiary);
+  if (!accountMatches || !settlement.createdAt) {
+    return false;
+  }
+
+  const earliest = toBusinessDate(settlement.createdAt);
+  const latest = toBusinessDate(new Date(settlement.createdAt.getTime() + STATEMENT_MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000));
+  return line.valueDate >= earliest && line.valueDate <= latest;
+}
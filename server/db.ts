@@ -1,16 +1,20 @@
-import { neon } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-http';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import ws from "ws";
 import * as schema from "@shared/schema";
 
+neonConfig.webSocketConstructor = ws;
+
 if (!process.env.DATABASE_URL) {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
-// Use HTTP-based connection instead of WebSocket for better stability
-const sql = neon(process.env.DATABASE_URL);
-export const db = drizzle(sql, { schema });
+// Pooled WebSocket connection - the HTTP driver cannot run interactive
+// transactions, which balance updates need for SELECT ... FOR UPDATE
+export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+export const db = drizzle({ client: pool, schema });
 
-// Keep pool export for backward compatibility (using the same connection)
-export const pool = { query: sql };
\ No newline at end of file
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | DbTransaction;
@@ -0,0 +1,71 @@
+import type { RequestHandler } from "express";
+import crypto from "crypto";
+import { storage } from "./storage";
+
+const IDEMPOTENCY_HEADER = "idempotency-key";
+const MAX_KEY_LENGTH = 255;
+
+// Uploads are fingerprinted by their file too: the content when it is held in memory, its
+// name and size when multer has already written it to disk
+function fingerprintRequest(method: string, path: string, body: unknown, file?: Express.Multer.File): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${method} ${path}\n${JSON.stringify(body ?? {})}`);
+  if (file) {
+    hash.update(file.buffer ?? `${file.originalname}:${file.size}`);
+  }
+  return hash.digest('hex');
+}
+
+// Makes a write route safe to retry. Requests carrying an Idempotency-Key header run
+// once per user and key; a retry with the same key and body gets the stored response back,
+// and reusing the key for a different request is refused. Requests without the header run
+// as before. Must come after isAuthenticated, and after multer on upload routes.
+export const withIdempotency: RequestHandler = async (req: any, res, next) => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `Idempotency-Key must be ${MAX_KEY_LENGTH} characters or less`, code: "INVALID_IDEMPOTENCY_KEY" });
+  }
+
+  try {
+    const userId = req.user.claims.sub;
+    const path = req.originalUrl;
+    const requestHash = fingerprintRequest(req.method, path, req.body, req.file);
+    const { record, isNew } = await storage.claimIdempotencyKey(userId, key, req.method, path, requestHash);
+
+    if (!isNew) {
+      if (record.requestHash !== requestHash) {
+        return res.status(422).json({ message: "Idempotency-Key was already used for a different request", code: "IDEMPOTENCY_KEY_REUSED" });
+      }
+      if (record.status !== 'completed') {
+        return res.status(409).json({ message: "A request with this Idempotency-Key is still being processed", code: "IDEMPOTENCY_REQUEST_IN_PROGRESS" });
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(record.responseStatus ?? 200).json(record.responseBody);
+    }
+
+    // Store the answer before sending it, and even if the client has already gone away - the
+    // money has moved by then and a retry must not move it again. Server errors free the key
+    // so the retry runs afresh.
+    const originalJson = res.json;
+    res.json = function (body) {
+      const settle = res.statusCode < 500
+        ? storage.completeIdempotencyKey(record.id, res.statusCode, body ?? null)
+        : storage.releaseIdempotencyKey(record.id);
+      settle
+        .catch(error => console.error("Error saving idempotency record:", error))
+        .finally(() => originalJson.call(res, body));
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    console.error("Error checking idempotency key:", error);
+    res.status(500).json({ message: "Failed to check idempotency key" });
+  }
+};
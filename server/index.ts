@@ -2,41 +2,20 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
+import { runDueSweeps } from "./sweeps";
 
 const app = express();
 
-// Daily reset scheduler - actively resets all wallets at midnight
-// Uses a more flexible approach to handle timezone differences
+// End-of-day close - snapshots and resets every wallet still open from an earlier business day
 setInterval(async () => {
   try {
-    // Check if any wallet needs reset based on lastResetDate comparison
-    const { db } = await import("./db");
-    const { users, wallets } = await import("../shared/schema");
-    
-    // Get all users with wallets and check if they need reset
-    const allUsers = await db.select().from(users);
-    let resetCount = 0;
-    
-    for (const user of allUsers) {
-      const wallet = await storage.getOrCreateWallet(user.id);
-      const now = new Date();
-      const lastReset = new Date(wallet.lastResetDate);
-      
-      // Check if it's a new day (more reliable than time-based check)
-      const nowDateOnly = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const lastResetDateOnly = new Date(lastReset.getFullYear(), lastReset.getMonth(), lastReset.getDate());
-      
-      if (nowDateOnly.getTime() !== lastResetDateOnly.getTime()) {
-        await storage.checkAndResetDailySpending(wallet);
-        resetCount++;
-      }
-    }
-    
-    if (resetCount > 0) {
-      log(`Daily reset completed for ${resetCount} users`);
+    const closedCount = await storage.closeBusinessDay();
+
+    if (closedCount > 0) {
+      log(`End-of-day close completed for ${closedCount} wallets`);
     }
   } catch (error) {
-    log(`Error during daily reset check: ${error}`);
+    log(`Error during end-of-day close: ${error}`);
   }
 }, 10 * 60 * 1000); // Check every 10 minutes
 
@@ -49,6 +28,47 @@ setInterval(async () => {
     log(`Error cleaning up expired transactions/QR codes: ${error}`);
   }
 }, 30 * 1000); // Check every 30 seconds
+
+// Nightly wallet reconciliation - runs once in the last hour before midnight,
+// while the daily counters still hold the day's figures
+setInterval(async () => {
+  try {
+    const now = new Date();
+    if (now.getHours() !== 23) return;
+
+    const latestRun = await storage.getLatestReconciliationRun('system');
+    if (latestRun && new Date(latestRun.startedAt).toDateString() === now.toDateString()) return;
+
+    const run = await storage.runWalletReconciliation('system');
+    log(`Wallet reconciliation found ${run.exceptionsFound} exceptions across ${run.walletsChecked} wallets`);
+  } catch (error) {
+    log(`Error during wallet reconciliation: ${error}`);
+  }
+}, 10 * 60 * 1000); // Check every 10 minutes
+
+// Scheduled settlement sweeps - each due rule requests its settlement once per business day
+setInterval(async () => {
+  try {
+    const createdCount = await runDueSweeps();
+    if (createdCount > 0) {
+      log(`Settlement sweeps requested ${createdCount} settlements`);
+    }
+  } catch (error) {
+    log(`Error running settlement sweeps: ${error}`);
+  }
+}, 60 * 1000); // Check every minute
+
+// Idempotency-Key cleanup - responses are only replayed for 24 hours
+setInterval(async () => {
+  try {
+    const purgedCount = await storage.purgeExpiredIdempotencyKeys();
+    if (purgedCount > 0) {
+      log(`Purged ${purgedCount} expired idempotency keys`);
+    }
+  } catch (error) {
+    log(`Error purging idempotency keys: ${error}`);
+  }
+}, 60 * 60 * 1000); // Check every hour
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
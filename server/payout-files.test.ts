@@ -0,0 +1,53 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PayoutFileBatch, PayoutFileItem, renderPayoutFile as RenderPayoutFile } from "./payout-files";
+
+let renderPayoutFile: typeof RenderPayoutFile;
+
+before(async () => {
+  // The debtor account is read when the module loads
+  process.env.PAYOUT_DEBTOR_ACCOUNT = "0010000000001";
+  ({ renderPayoutFile } = await import("./payout-files"));
+});
+
+const batch: PayoutFileBatch = {
+  batchNumber: "PB-000042",
+  fileVersion: 2,
+  currency: "ZMW",
+  beneficiaryName: "Acme, Traders & Sons",
+};
+
+const items: PayoutFileItem[] = [
+  { settlementRequestId: 7, bankName: "Zanaco", accountNumber: "1234567890123", amount: "1500.50" },
+  { settlementRequestId: 9, bankName: "Stanbic Bank Zambia", accountNumber: "9876543210987", amount: "249.50" },
+];
+
+const createdAt = new Date(2026, 2, 4, 10, 30);
+
+describe("renderPayoutFile", () => {
+  it("names the file after the batch and its version", () => {
+    assert.equal(renderPayoutFile("bank_csv", batch, items, createdAt).fileName, "PB-000042-v2.csv");
+    assert.equal(renderPayoutFile("pain_001", batch, items, createdAt).fileName, "PB-000042-v2.xml");
+  });
+
+  it("writes one CSV row per settlement, quoting fields that need it", () => {
+    const rows = renderPayoutFile("bank_csv", batch, items, createdAt).content.trimEnd().split("\r\n");
+    assert.equal(rows.length, 3);
+    assert.equal(rows[0], "reference,beneficiary_name,beneficiary_bank,account_number,amount,currency,narrative");
+    assert.equal(rows[1], 'PB-000042-7,"Acme, Traders & Sons",Zanaco,1234567890123,1500.50,ZMW,Settlement #7');
+  });
+
+  it("gives each pain.001 version its own message id and totals the payments", () => {
+    const xml = renderPayoutFile("pain_001", batch, items, createdAt).content;
+    assert.match(xml, /<MsgId>PB-000042-V2<\/MsgId>/);
+    assert.equal(xml.match(/<NbOfTxs>2<\/NbOfTxs>/g)?.length, 2);
+    assert.equal(xml.match(/<CtrlSum>1750.00<\/CtrlSum>/g)?.length, 2);
+    assert.match(xml, /<ReqdExctnDt>2026-03-04<\/ReqdExctnDt>/);
+    assert.match(xml, /<EndToEndId>PB-000042-9<\/EndToEndId>/);
+  });
+
+  it("escapes names in pain.001", () => {
+    const xml = renderPayoutFile("pain_001", batch, items, createdAt).content;
+    assert.match(xml, /<Cdtr><Nm>Acme, Traders &amp; Sons<\/Nm><\/Cdtr>/);
+  });
+});
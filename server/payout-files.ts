@@ -0,0 +1,112 @@
+import { Money } from "@shared/money";
+import type { PayoutFileFormat } from "@shared/payouts";
+import { escapeXml } from "./str-export";
+import { toBusinessDate } from "./utils";
+
+// The platform bank account settlements are paid from, named as the debtor in payment files
+const PAYOUT_DEBTOR_NAME = process.env.PAYOUT_DEBTOR_NAME || 'Platform Treasury';
+const PAYOUT_DEBTOR_ACCOUNT = process.env.PAYOUT_DEBTOR_ACCOUNT;
+const PAYOUT_DEBTOR_BIC = process.env.PAYOUT_DEBTOR_BIC;
+
+export interface PayoutFileBatch {
+  batchNumber: string;
+  fileVersion: number;
+  currency: string;
+  beneficiaryName: string; // the organization being settled
+}
+
+export interface PayoutFileItem {
+  settlementRequestId: number;
+  bankName: string;
+  accountNumber: string;
+  amount: string; // net of the withheld fee
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderBankCsv(batch: PayoutFileBatch, items: PayoutFileItem[]): string {
+  const rows = [
+    ['reference', 'beneficiary_name', 'beneficiary_bank', 'account_number', 'amount', 'currency', 'narrative'],
+    ...items.map(item => [
+      `${batch.batchNumber}-${item.settlementRequestId}`,
+      batch.beneficiaryName,
+      item.bankName,
+      item.accountNumber,
+      item.amount,
+      batch.currency,
+      `Settlement #${item.settlementRequestId}`,
+    ]),
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ISO 20022 customer credit transfer initiation, version pain.001.001.03
+function renderPain001(batch: PayoutFileBatch, items: PayoutFileItem[], createdAt: Date): string {
+  if (!PAYOUT_DEBTOR_ACCOUNT) {
+    throw new Error('PAYOUT_DEBTOR_NOT_CONFIGURED');
+  }
+
+  const messageId = `${batch.batchNumber}-V${batch.fileVersion}`;
+  const controlSum = Money.sum(items.map(item => Money.parse(item.amount))).toDecimal();
+  const debtorAgent = PAYOUT_DEBTOR_BIC
+    ? `<BIC>${escapeXml(PAYOUT_DEBTOR_BIC)}</BIC>`
+    : '<Othr><Id>NOTPROVIDED</Id></Othr>';
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03">',
+    '  <CstmrCdtTrfInitn>',
+    '    <GrpHdr>',
+    `      <MsgId>${escapeXml(messageId)}</MsgId>`,
+    `      <CreDtTm>${createdAt.toISOString().slice(0, 19)}</CreDtTm>`,
+    `      <NbOfTxs>${items.length}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    `      <InitgPty><Nm>${escapeXml(PAYOUT_DEBTOR_NAME)}</Nm></InitgPty>`,
+    '    </GrpHdr>',
+    '    <PmtInf>',
+    `      <PmtInfId>${escapeXml(messageId)}</PmtInfId>`,
+    '      <PmtMtd>TRF</PmtMtd>',
+    `      <NbOfTxs>${items.length}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    `      <ReqdExctnDt>${toBusinessDate(createdAt)}</ReqdExctnDt>`,
+    `      <Dbtr><Nm>${escapeXml(PAYOUT_DEBTOR_NAME)}</Nm></Dbtr>`,
+    `      <DbtrAcct><Id><Othr><Id>${escapeXml(PAYOUT_DEBTOR_ACCOUNT)}</Id></Othr></Id><Ccy>${escapeXml(batch.currency)}</Ccy></DbtrAcct>`,
+    `      <DbtrAgt><FinInstnId>${debtorAgent}</FinInstnId></DbtrAgt>`,
+    '      <ChrgBr>SLEV</ChrgBr>',
+  ];
+
+  for (const item of items) {
+    lines.push(
+      '      <CdtTrfTxInf>',
+      `        <PmtId><EndToEndId>${escapeXml(`${batch.batchNumber}-${item.settlementRequestId}`)}</EndToEndId></PmtId>`,
+      `        <Amt><InstdAmt Ccy="${escapeXml(batch.currency)}">${item.amount}</InstdAmt></Amt>`,
+      `        <CdtrAgt><FinInstnId><Nm>${escapeXml(item.bankName)}</Nm></FinInstnId></CdtrAgt>`,
+      `        <Cdtr><Nm>${escapeXml(batch.beneficiaryName)}</Nm></Cdtr>`,
+      `        <CdtrAcct><Id><Othr><Id>${escapeXml(item.accountNumber)}</Id></Othr></Id></CdtrAcct>`,
+      `        <RmtInf><Ustrd>Settlement #${item.settlementRequestId}</Ustrd></RmtInf>`,
+      '      </CdtTrfTxInf>',
+    );
+  }
+
+  lines.push('    </PmtInf>', '  </CstmrCdtTrfInitn>', '</Document>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders a batch's payment file. Throws PAYOUT_DEBTOR_NOT_CONFIGURED when a pain.001 file is
+ * requested but PAYOUT_DEBTOR_ACCOUNT is not set.
+ */
+export function renderPayoutFile(
+  format: PayoutFileFormat,
+  batch: PayoutFileBatch,
+  items: PayoutFileItem[],
+  createdAt: Date = new Date()
+): { fileName: string; content: string } {
+  const baseName = `${batch.batchNumber}-v${batch.fileVersion}`;
+  if (format === 'pain_001') {
+    return { fileName: `${baseName}.xml`, content: renderPain001(batch, items, createdAt) };
+  }
+  return { fileName: `${baseName}.csv`, content: renderBankCsv(batch, items) };
+}
@@ -6,18 +6,43 @@ import path from "path";
 import fs from "fs";
 import { storage } from "./storage";
 import { setupDevAuth, isAuthenticated } from "./devAuth";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { withIdempotency } from "./idempotency";
+import { requireClearedUser } from "./screening";
+import { getSanctionsListInfo, replaceSanctionsList } from "./sanctions";
+import { renderStrReportPdf, renderStrReportXml } from "./str-export";
+import { parseBankStatement } from "./bank-statements";
+import { bankAccountUnavailableReason, getSettlementCapacity, submitSettlementRequest } from "./settlements";
 import {
   insertOrganizationSchema,
   insertBranchSchema,
   insertTransactionSchema,
   insertDocumentSchema,
-  insertSettlementRequestSchema,
   insertQrCodeSchema,
-  users,
-  wallets,
+  insertFxConversionSchema,
+  insertFeeScheduleSchema,
+  insertOrganizationBankAccountSchema,
+  insertSettlementSweepRuleSchema,
+  insertApprovalMatrixSchema,
+  insertWalletLimitSchema,
+  insertFraudRuleSchema,
+  insertCommissionPlanSchema,
+  reversalReasonCodes,
+  floatRequestTypes,
 } from "@shared/schema";
+import { Money } from "@shared/money";
+import { isSupportedCurrency, supportedCurrencies } from "@shared/currency";
+import { feeTransactionTypes, isFeeTransactionType, validateFeeRule } from "@shared/fees";
+import { isCommissionTransactionType, validateCommissionRule } from "@shared/commissions";
+import { isLimitedRole, isLimitScope, limitedRoles, validateWalletLimits } from "@shared/limits";
+import { isKycDocumentType, isKycTier, kycTiers, requiredKycDocuments } from "@shared/kyc";
+import { validateFraudRule } from "@shared/fraud";
+import { validateApprovalMatrix } from "@shared/approvals";
+import { isPayoutFileFormat, isPayoutResult } from "@shared/payouts";
+import { isBankStatementFormat } from "@shared/bank-statements";
+import { normalizeBankAccountNumber, validateBankAccount } from "@shared/bank-accounts";
+import { validateSweepRule } from "@shared/sweeps";
+import { isStrReportFormat, validateStrDraft } from "@shared/str-reports";
+import { allowedTransactionStatuses, canTransitionTransaction, isInitialTransactionStatus } from "@shared/transaction-status";
 import crypto from "crypto";
 
 // Optimized image processing - minimal conversion for faster uploads
@@ -51,6 +76,15 @@ const upload = multer({
   },
 });
 
+// Sanctions lists and bank statements are read straight into memory and validated before
+// anything is stored
+const memoryUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024,
+  },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupDevAuth(app);
@@ -68,7 +102,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Organization routes
-  app.post('/api/organizations', isAuthenticated, async (req: any, res) => {
+  app.post('/api/organizations', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -104,7 +138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/organizations/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/organizations/:id', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -128,7 +162,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Branch routes
-  app.post('/api/branches', isAuthenticated, async (req: any, res) => {
+  app.post('/api/branches', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -185,7 +219,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/branches/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/branches/:id', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -215,6 +249,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cashiers and merchants the finance officer can assign to the organization's branches
+  app.get('/api/branches/users', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'finance' || !user.organizationId) {
+        return res.status(403).json({ message: "Only finance officers with organizations can assign branches" });
+      }
+
+      const assignableUsers = await storage.getBranchAssignableUsers(user.organizationId);
+      res.json(assignableUsers.map(assignable => ({
+        id: assignable.id,
+        email: assignable.email,
+        firstName: assignable.firstName,
+        lastName: assignable.lastName,
+        role: assignable.role,
+        organizationId: assignable.organizationId,
+        branchId: assignable.branchId,
+      })));
+    } catch (error) {
+      console.error("Error fetching branch users:", error);
+      res.status(500).json({ message: "Failed to fetch branch users" });
+    }
+  });
+
+  app.patch('/api/users/:id/branch', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'finance' || !user.organizationId) {
+        return res.status(403).json({ message: "Only finance officers with organizations can assign branches" });
+      }
+
+      const assignee = await storage.getUser(req.params.id);
+      if (
+        !assignee ||
+        (assignee.role !== 'cashier' && assignee.role !== 'merchant') ||
+        (assignee.organizationId && assignee.organizationId !== user.organizationId)
+      ) {
+        return res.status(404).json({ message: "User not found or access denied" });
+      }
+
+      const branchId = req.body.branchId === null || req.body.branchId === undefined ? null : parseInt(req.body.branchId);
+      if (branchId !== null) {
+        const branches = await storage.getBranchesByOrganization(user.organizationId);
+        if (!branches.some(branch => branch.id === branchId)) {
+          return res.status(404).json({ message: "Branch not found or access denied" });
+        }
+      }
+
+      const updatedUser = await storage.assignUserToBranch(assignee.id, user.organizationId, branchId);
+      res.json({ id: updatedUser.id, organizationId: updatedUser.organizationId, branchId: updatedUser.branchId });
+    } catch (error) {
+      console.error("Error assigning branch:", error);
+      res.status(400).json({ message: "Failed to assign branch" });
+    }
+  });
+
   // Fetch merchant wallets for finance portal
   app.get('/api/merchant-wallets', isAuthenticated, async (req: any, res) => {
     try {
@@ -243,9 +337,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only finance officers can access settlement data" });
       }
 
+      const wallet = await storage.getOperatingWallet(user);
       const breakdown = await storage.getSettlementBreakdown(user.organizationId);
-      const pendingTotal = await storage.getPendingSettlementsTotal(user.organizationId);
-      const todaysUsage = await storage.getTodaysSettlementUsage(user.organizationId);
+      const pendingTotal = await storage.getPendingSettlementsTotal(user.organizationId, wallet.currency);
+      const todaysUsage = await storage.getTodaysSettlementUsage(user.organizationId, wallet.currency);
       
       res.json({
         breakdown,
@@ -287,7 +382,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const wallet = await storage.getOrCreateWallet(userId);
+      const wallet = user ? await storage.getOperatingWallet(user) : await storage.getOrCreateWallet(userId);
       
       // Get today's transaction totals
       const todayTotals = await storage.getTodayTransactionTotals(userId);
@@ -295,7 +390,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // For finance users, include organization-wide today's collections
       let todaysCollections = 0;
       if (user?.role === 'finance' && user.organizationId) {
-        todaysCollections = await storage.getTodaysCollectionsByOrganization(user.organizationId);
+        todaysCollections = await storage.getTodaysCollectionsByOrganization(user.organizationId, wallet.currency);
       }
       
       // Disable caching for real-time balance updates
@@ -309,6 +404,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         todayCompleted: todayTotals.completed,
         todayTotal: todayTotals.total,
         todaysCollections, // Organization-wide collections for finance users
+        limits: await storage.getEffectiveWalletLimits(wallet, user), // Caps in force and usage, for cashiers and merchants
         userRole: user?.role,
         timestamp: new Date().getTime() // Force cache busting
       });
@@ -318,8 +414,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ledger entries behind the current user's wallet balance
+  app.get('/api/wallet/ledger', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const wallet = user ? await storage.getOperatingWallet(user) : await storage.getOrCreateWallet(userId);
+      const entries = await storage.getLedgerEntriesByWallet(wallet.id);
+      const ledgerBalance = await storage.getWalletLedgerBalance(wallet.id);
+      const storedBalance = Money.parse(wallet.balance);
+
+      res.json({
+        walletId: wallet.id,
+        storedBalance,
+        ledgerBalance,
+        difference: storedBalance.subtract(ledgerBalance),
+        entries,
+      });
+    } catch (error) {
+      console.error("Error fetching wallet ledger:", error);
+      res.status(500).json({ message: "Failed to fetch wallet ledger" });
+    }
+  });
+
+  // Ledger entries for any wallet (audit view for admin and finance)
+  app.get('/api/ledger/wallets/:walletId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can view the ledger" });
+      }
+
+      const walletId = parseInt(req.params.walletId);
+      const entries = await storage.getLedgerEntriesByWallet(walletId);
+      const ledgerBalance = await storage.getWalletLedgerBalance(walletId);
+      res.json({ walletId, ledgerBalance, entries });
+    } catch (error) {
+      console.error("Error fetching wallet ledger:", error);
+      res.status(500).json({ message: "Failed to fetch wallet ledger" });
+    }
+  });
+
+  // All legs of one journal posting
+  app.get('/api/ledger/journals/:journalId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can view the ledger" });
+      }
+
+      const entries = await storage.getLedgerEntriesByJournal(req.params.journalId);
+      if (entries.length === 0) {
+        return res.status(404).json({ message: "Journal not found" });
+      }
+
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching journal:", error);
+      res.status(500).json({ message: "Failed to fetch journal" });
+    }
+  });
+
+  // Daily wallet snapshots taken at end-of-day close (admin sees all, finance its own organization)
+  app.get('/api/wallet-snapshots', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can view wallet snapshots" });
+      }
+
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const { from, to } = req.query;
+      if (typeof from !== 'string' || typeof to !== 'string' || !datePattern.test(from) || !datePattern.test(to) || from > to) {
+        return res.status(400).json({ message: "from and to must be dates (YYYY-MM-DD) with from on or before to" });
+      }
+
+      const walletId = req.query.walletId ? parseInt(req.query.walletId) : undefined;
+      if (walletId !== undefined && isNaN(walletId)) {
+        return res.status(400).json({ message: "walletId must be a number" });
+      }
+
+      if (user.role === 'finance' && !user.organizationId) {
+        return res.status(400).json({ message: "Finance user must belong to an organization" });
+      }
+
+      const organizationId = user.role === 'finance' ? user.organizationId! : undefined;
+      const snapshots = await storage.getWalletSnapshots(from, to, organizationId, walletId);
+      res.json(snapshots);
+    } catch (error) {
+      console.error("Error fetching wallet snapshots:", error);
+      res.status(500).json({ message: "Failed to fetch wallet snapshots" });
+    }
+  });
+
+  // FX conversions - recorded rates that let a transaction post to a wallet in another currency
+  app.get('/api/fx-conversions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can view FX conversions" });
+      }
+
+      const conversions = await storage.getRecentFxConversions();
+      res.json({ currencies: supportedCurrencies, conversions });
+    } catch (error) {
+      console.error("Error fetching FX conversions:", error);
+      res.status(500).json({ message: "Failed to fetch FX conversions" });
+    }
+  });
+
+  app.post('/api/fx-conversions', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can record FX conversions" });
+      }
+
+      const { fromCurrency, toCurrency, rate } = req.body;
+      if (!isSupportedCurrency(fromCurrency) || !isSupportedCurrency(toCurrency) || fromCurrency === toCurrency) {
+        return res.status(400).json({ message: "Choose two different supported currencies", code: "UNSUPPORTED_CURRENCY" });
+      }
+      if (typeof rate !== 'string' || !/^\d+(\.\d{1,8})?$/.test(rate) || !/[1-9]/.test(rate)) {
+        return res.status(400).json({ message: "Rate must be a positive decimal with at most 8 places" });
+      }
+
+      const sourceAmount = Money.parse(req.body.sourceAmount);
+      if (!sourceAmount.isPositive()) {
+        return res.status(400).json({ message: "Amount must be greater than zero" });
+      }
+
+      const conversionData = insertFxConversionSchema.parse({
+        fromCurrency,
+        toCurrency,
+        rate,
+        sourceAmount: sourceAmount.toDecimal(),
+        convertedAmount: sourceAmount.multiply(rate, 'half_even').toDecimal(),
+        recordedBy: userId,
+      });
+
+      const conversion = await storage.createFxConversion(conversionData);
+      res.json(conversion);
+    } catch (error) {
+      console.error("Error recording FX conversion:", error);
+      res.status(400).json({
+        message: "Failed to record FX conversion",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Fee quote for the current user's organization and wallet currency, shown before a
+  // payment request or settlement is submitted
+  app.get('/api/fees/quote', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const { type } = req.query;
+      if (!isFeeTransactionType(type)) {
+        return res.status(400).json({ message: "Unknown transaction type for fees" });
+      }
+
+      const amount = Money.tryParse(req.query.amount as string);
+      if (!amount || amount.isNegative()) {
+        return res.status(400).json({ message: "Invalid amount", code: "INVALID_AMOUNT" });
+      }
+
+      const wallet = user ? await storage.getOperatingWallet(user) : await storage.getOrCreateWallet(userId);
+      const { fee, feeScheduleId } = await storage.quoteFee(user?.organizationId, type, wallet.currency, amount);
+      res.json({
+        amount,
+        fee,
+        net: amount.subtract(fee),
+        currency: wallet.currency,
+        feeScheduleId,
+      });
+    } catch (error) {
+      console.error("Error quoting fee:", error);
+      res.status(500).json({ message: "Failed to quote fee" });
+    }
+  });
+
   // Daily reset endpoint for manual testing
-  app.post('/api/wallet/reset-daily', isAuthenticated, async (req: any, res) => {
+  app.post('/api/wallet/reset-daily', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const wallet = await storage.getOrCreateWallet(userId);
@@ -333,7 +620,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Force daily reset for all users (admin testing endpoint)
-  app.post('/api/admin/force-daily-reset', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/force-daily-reset', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -342,26 +629,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied. Admin role required." });
       }
 
-      // Force reset all users by updating their lastResetDate to yesterday
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      
-      // Get all users and force reset their wallets
-      const allUsers = await db.select().from(users);
-      
-      for (const userRecord of allUsers) {
-        const wallet = await storage.getOrCreateWallet(userRecord.id);
-        // Force the wallet's lastResetDate to yesterday to trigger reset
-        await db
-          .update(wallets)
-          .set({ lastResetDate: yesterday })
-          .where(eq(wallets.userId, userRecord.id));
-        
-        // Now trigger the reset
-        await storage.checkAndResetDailySpending({...wallet, lastResetDate: yesterday});
-      }
-      
-      res.json({ message: `Forced daily reset completed for ${allUsers.length} users` });
+      // Close every wallet's business day now, snapshotting it, regardless of the date
+      const closedCount = await storage.closeBusinessDay(true);
+
+      res.json({ message: `Forced daily reset completed for ${closedCount} wallets` });
     } catch (error) {
       console.error("Error forcing daily reset:", error);
       res.status(500).json({ message: "Failed to force daily reset" });
@@ -369,7 +640,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Simple wallet balance reset for testing (any user can reset their own wallet)
-  app.post('/api/wallet/force-reset', isAuthenticated, async (req: any, res) => {
+  app.post('/api/wallet/force-reset', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -378,27 +649,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Direct wallet reset based on user role
-      if (user.role === 'merchant') {
-        await db
-          .update(wallets)
-          .set({
-            dailyCollected: "0",
-            balance: "0",
-            lastResetDate: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(wallets.userId, userId));
-      } else if (user.role === 'cashier') {
-        await db
-          .update(wallets)
-          .set({
-            dailyTransferred: "0",
-            lastResetDate: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(wallets.userId, userId));
-      }
+      // Run the regular daily reset as if the wallet was last reset yesterday,
+      // so the merchant display balance is cleared through the ledger
+      const wallet = await storage.getOrCreateWallet(userId);
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      await storage.checkAndResetDailySpending({ ...wallet, lastResetDate: yesterday });
       
       // Get updated wallet
       const updatedWallet = await storage.getOrCreateWallet(userId);
@@ -415,7 +671,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Transaction routes
-  app.post('/api/transactions', isAuthenticated, async (req: any, res) => {
+  app.post('/api/transactions', isAuthenticated, requireClearedUser, withIdempotency, async (req: any, res) => {
     console.log("POST /api/transactions - Request received");
     console.log("Request body:", JSON.stringify(req.body, null, 2));
     console.log("User:", req.user?.claims?.sub);
@@ -428,70 +684,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.type === 'qr_code_payment') {
         finalStatus = 'pending';
       }
+      // under_review is only ever set by the fraud rules below, and money moves only when a
+      // cashier completes the transaction through the status route. Reversals are raised
+      // through the admin reversal route only, so the maker is always the session user.
+      if (req.body.type === 'reversal') {
+        return res.status(400).json({ message: "Reversals are requested through the admin reversal route", code: "INVALID_TYPE" });
+      }
+      if (finalStatus === 'under_review' || !isInitialTransactionStatus(req.body.type, finalStatus)) {
+        return res.status(400).json({ message: `A ${req.body.type} transaction cannot be created as ${finalStatus}`, code: "INVALID_STATUS" });
+      }
       
       // Set expiration time for all pending transactions (both QR and RTP)
       const expiresAt = (finalStatus === 'pending') 
         ? new Date(Date.now() + 120 * 1000) 
         : null;
       
-      // Parse amount as decimal for accurate currency handling
-      const parsedAmount = parseFloat(req.body.amount || "0");
+      // Parse amount into ngwee for accurate currency handling
+      const amount = Money.tryParse(req.body.amount);
+      if (!amount?.isPositive()) {
+        return res.status(400).json({ message: "Amount must be greater than zero", code: "INVALID_AMOUNT" });
+      }
+
+      // Transactions default to the creator's wallet currency
+      const creatorWallet = await storage.getOrCreateWallet(userId);
+      const currency = req.body.currency || creatorWallet.currency;
+      if (!isSupportedCurrency(currency)) {
+        return res.status(400).json({ message: `Unsupported currency ${currency}`, code: "UNSUPPORTED_CURRENCY" });
+      }
+
+      // Cross-currency transactions must name a recorded, unused conversion from their currency
+      const fxConversion = req.body.fxConversionId
+        ? await storage.getFxConversionById(parseInt(req.body.fxConversionId))
+        : undefined;
+      if (req.body.fxConversionId && (!fxConversion || fxConversion.transactionId || fxConversion.fromCurrency !== currency || !Money.parse(fxConversion.sourceAmount).equals(amount))) {
+        return res.status(400).json({ message: "FX conversion does not match this transaction or has already been used", code: "INVALID_FX_CONVERSION" });
+      }
+      // The creator is always the sender. The only other party a client may name is a cashier;
+      // requests to themselves or to the system wait for any cashier to pick them up.
+      const fromUserId = userId;
+      const toUserId = req.body.toUserId || "system"; // Default to system for QR transactions
+      if (toUserId !== userId && toUserId !== "system") {
+        const counterparty = await storage.getUser(toUserId);
+        if (counterparty?.role !== 'cashier') {
+          return res.status(400).json({ message: "A transaction can only be sent to a cashier", code: "INVALID_COUNTERPARTY" });
+        }
+      }
+
+      // Fees come from the creating merchant's organization schedule and are fixed at creation
+      const creator = await storage.getUser(userId);
+      const merchantOrganizationId = creator?.role === 'merchant' ? creator.organizationId : undefined;
+      const { fee, feeScheduleId } = await storage.quoteFee(merchantOrganizationId, req.body.type, currency, amount);
       
+      // Only these fields come from the client; the rest are set here or by later steps
       const transactionData = insertTransactionSchema.parse({
-        ...req.body,
+        type: req.body.type,
+        description: req.body.description,
+        vmfNumber: req.body.vmfNumber,
         status: finalStatus,
-        amount: parsedAmount.toFixed(2),
-        fromUserId: req.body.fromUserId || userId,
-        toUserId: req.body.toUserId || "system", // Default to system for QR transactions
+        amount: amount.toDecimal(),
+        currency,
+        fxConversionId: fxConversion?.id ?? null,
+        feeAmount: fee.toDecimal(),
+        feeScheduleId,
+        fromUserId,
+        toUserId,
         expiresAt,
       });
       
-      const amount = parsedAmount;
-      
-      // For completed transactions, check transfer limits and update balances
-      if (transactionData.status === 'completed') {
-        const fromUser = await storage.getUser(transactionData.fromUserId || userId);
-        const toUser = await storage.getUser(transactionData.toUserId);
-        
-        // Check limits for cashier (sender)
-        if (fromUser?.role === 'cashier') {
-          const limitCheck = await storage.checkTransferLimits(fromUser.id, amount);
-          if (!limitCheck.allowed) {
-            return res.status(400).json({ 
-              message: "Transfer limit exceeded", 
-              reason: limitCheck.reason 
-            });
-          }
-        }
-        
-        // Check collection limits for merchant (receiver)
-        if (toUser?.role === 'merchant') {
-          const limitCheck = await storage.checkTransferLimits(toUser.id, amount);
-          if (!limitCheck.allowed) {
-            return res.status(400).json({ 
-              message: "Collection limit exceeded", 
-              reason: limitCheck.reason 
-            });
-          }
-        }
+      // Fraud and velocity rules: blocked requests are refused, held ones wait for an admin
+      // instead of reaching cashiers and move no money until released
+      const fraudCheck = await storage.evaluateFraudRules(transactionData);
+      if (fraudCheck.decision === 'block') {
+        await storage.recordFraudFlags(null, userId, fraudCheck.hits);
+        return res.status(403).json({
+          message: "This transaction was blocked by risk controls. Contact support if you think this is wrong.",
+          code: "TRANSACTION_BLOCKED"
+        });
+      }
+      if (fraudCheck.decision === 'review') {
+        transactionData.status = 'under_review';
+        transactionData.expiresAt = null;
       }
       
       // Mark expired transactions before creating new ones
       await storage.markExpiredTransactions();
       
-      const transaction = await storage.createTransaction(transactionData);
-      
-      // Update balances only for completed transactions
-      if (transactionData.status === 'completed') {
-        const fromUser = await storage.getUser(transactionData.fromUserId || userId);
-        const toUser = await storage.getUser(transactionData.toUserId);
-        
-        if (fromUser) {
-          await storage.updateDailyTransactionAmounts(fromUser.id, amount, fromUser.role, transactionData.type);
-        }
-        if (toUser) {
-          await storage.updateDailyTransactionAmounts(toUser.id, amount, toUser.role, transactionData.type);
-        }
+      const transaction = await storage.createTransaction(transactionData, userId);
+      await storage.recordFraudFlags(transaction.id, userId, fraudCheck.hits);
+      if (fxConversion) {
+        await storage.linkFxConversionToTransaction(fxConversion.id, transaction.id);
       }
       
       res.json(transaction);
@@ -505,6 +786,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: "A pending transaction already exists. Please wait for it to be completed or expired before creating a new one.",
           code: "PENDING_TRANSACTION_EXISTS"
         });
+      } else if (error instanceof Error && error.message === 'CURRENCY_MISMATCH') {
+        res.status(400).json({
+          message: "A participant wallet holds a different currency. Record an FX conversion first.",
+          code: "CURRENCY_MISMATCH"
+        });
       } else {
         res.status(400).json({ 
           message: "Failed to create transaction",
@@ -605,7 +891,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin-only endpoint to update transaction priority
-  app.patch('/api/transactions/:id/priority', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/transactions/:id/priority', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const transactionId = parseInt(req.params.id);
       const { priority } = req.body;
@@ -634,11 +920,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/transactions/:id/status', isAuthenticated, async (req: any, res) => {
+  // Reversal routes - one admin raises the reversal (maker), a different admin approves it (checker)
+  app.post('/api/admin/transactions/:id/reversals', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const transactionId = parseInt(req.params.id);
+      const { reasonCode, reasonComment } = req.body;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      if (!reversalReasonCodes.includes(reasonCode)) {
+        return res.status(400).json({ message: "Invalid reason code" });
+      }
+
+      if (reasonCode === 'other' && !reasonComment) {
+        return res.status(400).json({ message: "Comment is required when selecting 'other' reason" });
+      }
+
+      if (reasonComment && reasonComment.length > 125) {
+        return res.status(400).json({ message: "Comment must be 125 characters or less" });
+      }
+
+      const reversal = await storage.createReversalRequest(transactionId, userId, reasonCode, reasonComment);
+      res.json(reversal);
+    } catch (error) {
+      console.error("Error requesting reversal:", error);
+
+      if (error instanceof Error && error.message === 'REVERSAL_NOT_ALLOWED') {
+        return res.status(400).json({ message: "Only completed transactions can be reversed", code: "REVERSAL_NOT_ALLOWED" });
+      }
+      if (error instanceof Error && error.message === 'REVERSAL_ALREADY_REQUESTED') {
+        return res.status(409).json({ message: "A reversal for this transaction already exists", code: "REVERSAL_ALREADY_REQUESTED" });
+      }
+
+      res.status(400).json({
+        message: "Failed to request reversal",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/admin/reversals/:id/approve', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const reversalId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admin users can approve reversals" });
+      }
+
+      const reversal = await storage.approveReversal(reversalId, userId);
+      res.json(reversal);
+    } catch (error) {
+      console.error("Error approving reversal:", error);
+
+      if (error instanceof Error && error.message === 'SAME_APPROVER') {
+        return res.status(403).json({ message: "A reversal must be approved by a different admin than the one who raised it", code: "SAME_APPROVER" });
+      }
+      if (error instanceof Error && error.message === 'REVERSAL_NOT_ALLOWED') {
+        return res.status(409).json({ message: "Reversal is no longer awaiting approval", code: "REVERSAL_NOT_ALLOWED" });
+      }
+      if (error instanceof Error && error.message === 'CURRENCY_MISMATCH') {
+        return res.status(400).json({ message: "A participant wallet no longer holds the transaction currency", code: "CURRENCY_MISMATCH" });
+      }
+
+      res.status(400).json({
+        message: "Failed to approve reversal",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/admin/reversals/:id/reject', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const reversalId = parseInt(req.params.id);
+      const { rejectionReason } = req.body;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admin users can reject reversals" });
+      }
+
+      if (!rejectionReason) {
+        return res.status(400).json({ message: "Rejection reason is required" });
+      }
+
+      await storage.rejectReversal(reversalId, userId, rejectionReason);
+      res.json({ message: "Reversal rejected" });
+    } catch (error) {
+      console.error("Error rejecting reversal:", error);
+
+      if (error instanceof Error && error.message === 'REVERSAL_NOT_ALLOWED') {
+        return res.status(409).json({ message: "Reversal is no longer awaiting approval", code: "REVERSAL_NOT_ALLOWED" });
+      }
+
+      res.status(500).json({ message: "Failed to reject reversal" });
+    }
+  });
+
+  app.patch('/api/transactions/:id/status', isAuthenticated, requireClearedUser, withIdempotency, async (req: any, res) => {
     try {
       const transactionId = parseInt(req.params.id);
       const { status, rejectionReason, verifiedAmount, verifiedVmfNumber } = req.body;
       const cashierId = req.user.claims.sub;
+
+      // Only cashiers process transactions - merchants must not complete their own requests
+      const cashier = await storage.getUser(cashierId);
+      if (cashier?.role !== 'cashier') {
+        return res.status(403).json({ message: "Only cashiers can process transactions" });
+      }
       
       if (!['pending', 'approved', 'completed', 'rejected'].includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
@@ -649,38 +1044,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Transaction not found" });
       }
 
-      // Set the cashier as the processor for completed and rejected transactions
-      if (status === 'completed' || status === 'rejected') {
-        await storage.updateTransactionProcessor(transactionId, cashierId);
+      // Held transactions are released or rejected through the fraud review queue only
+      if (transaction.status === 'under_review') {
+        return res.status(409).json({
+          message: "Transaction is held for fraud review",
+          code: "TRANSACTION_UNDER_REVIEW"
+        });
       }
 
-      // Update transaction status with rejection reason if provided
-      await storage.updateTransactionStatus(transactionId, status, rejectionReason);
-      
-      // If approved, update wallet balances and daily tracking
-      if (status === 'completed' && transaction.toUserId) {
-        const fromUser = transaction.fromUserId ? await storage.getUser(transaction.fromUserId) : null;
-        const toUser = await storage.getUser(transaction.toUserId);
-        const amount = parseFloat(transaction.amount);
-        
-        // Update daily amounts for both users if applicable
-        if (fromUser && fromUser.id !== toUser?.id) {
-          await storage.updateDailyTransactionAmounts(fromUser.id, amount, fromUser.role, transaction.type);
+      if (status === 'completed' && transaction.status === 'completed') {
+        return res.status(409).json({
+          message: "Transaction has already been completed",
+          code: "TRANSACTION_ALREADY_COMPLETED"
+        });
+      }
+      if (!canTransitionTransaction(transaction.type, transaction.status, status)) {
+        return res.status(409).json({
+          message: `A ${transaction.status} transaction cannot be moved to ${status}`,
+          code: "INVALID_STATUS_TRANSITION",
+          currentStatus: transaction.status,
+          requestedStatus: status,
+          allowedStatuses: allowedTransactionStatuses(transaction.type, transaction.status),
+        });
+      }
+
+      if (status === 'completed') {
+        // The cashier's own count and VMF reading are checked against the transaction here,
+        // not just in the browser
+        const countedAmount = typeof verifiedAmount === 'string' ? Money.tryParse(verifiedAmount) : null;
+        if (!countedAmount || typeof verifiedVmfNumber !== 'string' || !verifiedVmfNumber.trim()) {
+          return res.status(400).json({
+            message: "Enter the counted amount and VMF number to complete the transaction",
+            code: "VERIFICATION_REQUIRED"
+          });
+        }
+
+        const limitCheck = await storage.checkTransactionLimits(transaction);
+        if (!limitCheck.allowed) {
+          return res.status(400).json({
+            message: "Transaction limit exceeded",
+            reason: limitCheck.reason,
+            code: "LIMIT_EXCEEDED"
+          });
+        }
+
+        // Rules about the cashier and merchant pair can only run now that the cashier is known
+        const fraudCheck = await storage.evaluateCompletionFraudRules(transaction, cashierId);
+        if (fraudCheck.decision === 'block') {
+          await storage.recordFraudFlags(transaction.id, cashierId, fraudCheck.hits);
+          return res.status(403).json({
+            message: "Completing this transaction was blocked by risk controls. Contact support if you think this is wrong.",
+            code: "TRANSACTION_BLOCKED"
+          });
         }
-        if (toUser) {
-          await storage.updateDailyTransactionAmounts(toUser.id, amount, toUser.role, transaction.type);
+        if (fraudCheck.decision === 'review') {
+          await storage.holdTransactionForReview(transaction.id, cashierId);
+          await storage.recordFraudFlags(transaction.id, cashierId, fraudCheck.hits);
+          return res.status(409).json({
+            message: "Transaction is held for fraud review",
+            code: "TRANSACTION_UNDER_REVIEW"
+          });
         }
+
+        // Status, processor and wallet balances move together in one locked database transaction
+        await storage.completeTransaction(transactionId, cashierId, { amount: countedAmount, vmfNumber: verifiedVmfNumber });
+      } else {
+        // Rejections record the cashier as the processor, with the reason if provided
+        await storage.updateTransactionStatus(transactionId, status, cashierId, rejectionReason);
       }
 
       res.json({ message: "Transaction status updated" });
     } catch (error) {
       console.error("Error updating transaction status:", error);
+
+      if (error instanceof Error && error.message === 'TRANSACTION_ALREADY_COMPLETED') {
+        return res.status(409).json({
+          message: "Transaction has already been completed",
+          code: "TRANSACTION_ALREADY_COMPLETED"
+        });
+      }
+      if (error instanceof Error && error.message === 'AMOUNT_MISMATCH') {
+        return res.status(400).json({
+          message: "Counted amount does not match the transaction amount",
+          code: "AMOUNT_MISMATCH"
+        });
+      }
+      if (error instanceof Error && error.message === 'VMF_MISMATCH') {
+        return res.status(400).json({
+          message: "VMF number does not match the transaction",
+          code: "VMF_MISMATCH"
+        });
+      }
+      if (error instanceof Error && error.message === 'VMF_DOCUMENT_REQUIRED') {
+        return res.status(400).json({
+          message: "Upload your own photo of the VMF on the cash bag before completing the transaction",
+          code: "VMF_DOCUMENT_REQUIRED"
+        });
+      }
+      if (error instanceof Error && error.message === 'INVALID_STATUS_TRANSITION') {
+        // Another request moved the transaction between the check above and the row lock
+        return res.status(409).json({
+          message: "Transaction status changed while updating. Refresh and try again.",
+          code: "INVALID_STATUS_TRANSITION"
+        });
+      }
+      if (error instanceof Error && error.message === 'CURRENCY_MISMATCH') {
+        return res.status(400).json({
+          message: "A participant wallet holds a different currency and the transaction has no matching FX conversion",
+          code: "CURRENCY_MISMATCH"
+        });
+      }
+
       res.status(500).json({ message: "Failed to update transaction status" });
     }
   });
 
-  // Document upload routes with error handling
-  app.post('/api/documents', isAuthenticated, (req: any, res, next) => {
+  // Status changes of a transaction, oldest first, with who made them
+  app.get('/api/transactions/:id/history', isAuthenticated, async (req: any, res) => {
+    try {
+      const transactionId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const transaction = await storage.getTransactionById(transactionId);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const user = await storage.getUser(userId);
+      const canView =
+        transaction.fromUserId === userId ||
+        transaction.toUserId === userId ||
+        transaction.processedBy === userId ||
+        user?.role === 'admin' ||
+        user?.role === 'finance';
+
+      if (!canView) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const history = await storage.getTransactionStatusHistory(transactionId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching transaction status history:", error);
+      res.status(500).json({ message: "Failed to fetch transaction status history" });
+    }
+  });
+
+  // Document upload routes with error handling
+  app.post('/api/documents', isAuthenticated, (req: any, res, next) => {
     const uploadHandler = upload.single('file');
     uploadHandler(req, res, (err: any) => {
       if (err) {
@@ -695,7 +1206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       next();
     });
-  }, async (req: any, res) => {
+  }, withIdempotency, async (req: any, res) => {
     try {
       console.log('Document upload request received:', {
         file: req.file ? {
@@ -737,9 +1248,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "File too small. Please capture a valid photo" });
       }
 
+      // Cash-bag VMF photos are the processing cashier's evidence for completing a transaction
+      if (req.body.type === 'vmf_cashbag') {
+        const uploader = await storage.getUser(userId);
+        if (uploader?.role !== 'cashier') {
+          return res.status(403).json({ message: "Only cashiers can upload cash-bag VMF photos" });
+        }
+      }
+
+      // KYC documents belong to the user, not a transaction
+      const isKycDocument = isKycDocumentType(req.body.type);
       const documentData = insertDocumentSchema.parse({
         userId,
-        transactionId: req.body.transactionId ? parseInt(req.body.transactionId) : null,
+        transactionId: req.body.transactionId && !isKycDocument ? parseInt(req.body.transactionId) : null,
         filename: req.file.filename,
         originalName: req.file.originalname,
         mimeType: req.file.mimetype,
@@ -771,7 +1292,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Settlement request routes
-  app.post('/api/settlement-requests', isAuthenticated, async (req: any, res) => {
+  app.post('/api/settlement-requests', isAuthenticated, requireClearedUser, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -780,33 +1301,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only finance officers with organizations can create settlement requests" });
       }
 
+      // Settlements are paid in the treasury's currency, and capacity is counted in it
+      const wallet = await storage.getOperatingWallet(user);
+      const currency = wallet.currency;
+      if (req.body.currency && req.body.currency !== currency) {
+        return res.status(400).json({ message: `Settlements for this wallet must be requested in ${currency}`, code: "CURRENCY_MISMATCH" });
+      }
+
+      // Settlements are paid only to the organization's registered, approved accounts
+      const bankAccountId = parseInt(req.body.bankAccountId);
+      const bankAccount = bankAccountId ? await storage.getBankAccountById(bankAccountId) : undefined;
+      const unavailable = bankAccountUnavailableReason(bankAccount, user.organizationId);
+      if (unavailable) {
+        return res.status(400).json({ message: unavailable.message, code: unavailable.code, availableFrom: bankAccount?.availableFrom });
+      }
+
       // Calculate settlement capacity based on today's collections for finance users
-      const todaysCollections = await storage.getTodaysCollectionsByOrganization(user.organizationId);
-      const todaysUsage = await storage.getTodaysSettlementUsage(user.organizationId);
-      const settlementCapacity = Math.max(0, todaysCollections - todaysUsage);
+      const { todaysCollections, todaysUsage, capacity: settlementCapacity } = await getSettlementCapacity(user.organizationId, currency);
       
-      const requestAmount = Math.floor(parseFloat(req.body.amount || '0'));
+      const requestAmount = Money.tryParse(req.body.amount);
+      if (!requestAmount?.isPositive()) {
+        return res.status(400).json({ message: "Amount must be greater than zero", code: "INVALID_AMOUNT" });
+      }
       
       // Validate against settlement capacity
-      if (requestAmount > settlementCapacity) {
+      if (requestAmount.greaterThan(settlementCapacity)) {
         return res.status(400).json({ 
-          message: `Insufficient settlement capacity. Available: ZMW ${settlementCapacity.toLocaleString()}, Requested: ZMW ${requestAmount.toLocaleString()}`,
+          message: `Insufficient settlement capacity. Available: ${settlementCapacity.format(currency)}, Requested: ${requestAmount.format(currency)}`,
           todaysCollections,
           todaysUsage,
-          settlementCapacity,
-          requestAmount
+          settlementCapacity: settlementCapacity.toNumber(),
+          requestAmount: requestAmount.toNumber()
         });
       }
 
-      const requestData = insertSettlementRequestSchema.parse({
-        ...req.body,
-        userId,
+      const request = await submitSettlementRequest({
         organizationId: user.organizationId,
-        status: "pending", // Default status for new settlement requests
+        userId,
+        amount: requestAmount,
+        currency,
+        bankAccount: bankAccount!,
         priority: "medium", // Default priority for finance portal requests
       });
-      
-      const request = await storage.createSettlementRequest(requestData);
       res.json(request);
     } catch (error) {
       console.error("Error creating settlement request:", error);
@@ -836,7 +1372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/settlement-requests/:id/status', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/settlement-requests/:id/status', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -848,20 +1384,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const requestId = parseInt(req.params.id);
       const { status } = req.body;
       
-      if (!['pending', 'approved', 'rejected', 'completed'].includes(status)) {
+      // Settlements are completed by the payout lifecycle, not by hand
+      if (!['pending', 'approved', 'rejected'].includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
 
+      if (status === 'approved') {
+        // Approving counts as one approval towards the request's quorum
+        const request = await storage.approveSettlementRequest(requestId, userId);
+        return res.json({ message: "Settlement request status updated", status: request.status });
+      }
+
       await storage.updateSettlementRequestStatus(requestId, status, userId);
       res.json({ message: "Settlement request status updated" });
     } catch (error) {
       console.error("Error updating settlement request status:", error);
+      if (error instanceof Error && error.message === 'SCREENING_REVIEW_PENDING') {
+        return res.status(409).json({ message: "The beneficiary has an unresolved sanctions screening match", code: "SCREENING_REVIEW_PENDING" });
+      }
+      if (error instanceof Error && error.message === 'Settlement request not found') {
+        return res.status(404).json({ message: "Settlement request not found" });
+      }
+      if (error instanceof Error && error.message === 'SELF_APPROVAL') {
+        return res.status(403).json({ message: "You cannot approve a settlement request you raised", code: "SELF_APPROVAL" });
+      }
+      if (error instanceof Error && error.message === 'BANK_ACCOUNT_NOT_ACTIVE') {
+        return res.status(409).json({ message: "The beneficiary bank account has been deactivated", code: "BANK_ACCOUNT_NOT_ACTIVE" });
+      }
+      if (error instanceof Error && error.message === 'ALREADY_APPROVED') {
+        return res.status(409).json({ message: "You have already approved this settlement request", code: "ALREADY_APPROVED" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_SETTLEMENT_STATUS') {
+        return res.status(409).json({ message: "This settlement request is no longer awaiting approval", code: "INVALID_SETTLEMENT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'APPROVAL_QUORUM_NOT_MET') {
+        return res.status(409).json({ message: "This settlement request still needs more approvals", code: "APPROVAL_QUORUM_NOT_MET" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_STATUS_TRANSITION') {
+        return res.status(409).json({ message: "This settlement request cannot be moved to that status from its current one", code: "INVALID_STATUS_TRANSITION" });
+      }
       res.status(500).json({ message: "Failed to update settlement request status" });
     }
   });
 
   // QR Code generation and management endpoints
-  app.post('/api/qr-codes/generate', isAuthenticated, async (req: any, res) => {
+  app.post('/api/qr-codes/generate', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const { transactionId } = req.body;
       const userId = req.user.claims.sub;
@@ -889,7 +1456,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generate unique QR data with strong cryptographic security
       const qrPayload = {
         transactionId: transaction.transactionId,
-        amount: Math.floor(parseFloat(transaction.amount)),
+        amount: transaction.amount,
+        currency: transaction.currency,
         type: "qr_code_payment",
         timestamp: Date.now(),
         nonce: crypto.randomBytes(16).toString('hex'),
@@ -927,7 +1495,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/qr-codes/verify', isAuthenticated, async (req: any, res) => {
+  app.post('/api/qr-codes/verify', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const { qrData } = req.body;
       const userId = req.user.claims.sub;
@@ -984,11 +1552,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Verify amount matches
-        const qrAmount = parseFloat(parsedQR.amount);
-        const transactionAmount = parseFloat(transaction.amount);
-        if (Math.abs(qrAmount - transactionAmount) > 0.01) {
+        const qrAmount = Money.tryParse(parsedQR.amount);
+        if (!qrAmount || !qrAmount.equals(Money.parse(transaction.amount))) {
           return res.status(400).json({ message: "QR code amount does not match transaction" });
         }
+        if (parsedQR.currency !== transaction.currency) {
+          return res.status(400).json({ message: "QR code currency does not match transaction" });
+        }
 
         // Return successful verification for client-side QR
         return res.json({
@@ -997,6 +1567,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             id: transaction.id,
             transactionId: transaction.transactionId,
             amount: transaction.amount,
+            currency: transaction.currency,
             vmfNumber: transaction.vmfNumber,
             type: transaction.type
           }
@@ -1026,6 +1597,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: transaction.id,
           transactionId: transaction.transactionId,
           amount: transaction.amount,
+          currency: transaction.currency,
           vmfNumber: transaction.vmfNumber,
           type: transaction.type
         }
@@ -1037,8 +1609,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin settlement approval routes for maker-checker workflow
-  app.patch('/api/admin/settlement-requests/:id/approve', isAuthenticated, async (req: any, res) => {
+  // Admin settlement approval routes for maker-checker workflow. Releasing a held request is
+  // an approval like any other and counts towards the same quorum.
+  const approveSettlement = async (req: any, res: any) => {
     try {
       const settlementId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
@@ -1048,33 +1621,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only admin users can approve settlements" });
       }
 
-      await storage.updateSettlementRequestStatus(settlementId, 'approved', userId);
-      res.json({ message: "Settlement request approved successfully" });
+      const request = await storage.approveSettlementRequest(settlementId, userId);
+      res.json({
+        message: request.status === 'approved'
+          ? "Settlement request approved successfully"
+          : "Approval recorded; further approvals are required",
+        status: request.status,
+      });
     } catch (error) {
       console.error("Error approving settlement:", error);
+      if (error instanceof Error && error.message === 'SCREENING_REVIEW_PENDING') {
+        return res.status(409).json({ message: "The beneficiary has an unresolved sanctions screening match", code: "SCREENING_REVIEW_PENDING" });
+      }
+      if (error instanceof Error && error.message === 'Settlement request not found') {
+        return res.status(404).json({ message: "Settlement request not found" });
+      }
+      if (error instanceof Error && error.message === 'SELF_APPROVAL') {
+        return res.status(403).json({ message: "You cannot approve a settlement request you raised", code: "SELF_APPROVAL" });
+      }
+      if (error instanceof Error && error.message === 'BANK_ACCOUNT_NOT_ACTIVE') {
+        return res.status(409).json({ message: "The beneficiary bank account has been deactivated", code: "BANK_ACCOUNT_NOT_ACTIVE" });
+      }
+      if (error instanceof Error && error.message === 'ALREADY_APPROVED') {
+        return res.status(409).json({ message: "You have already approved this settlement request", code: "ALREADY_APPROVED" });
+      }
+      if (error instanceof Error && (error.message === 'INVALID_SETTLEMENT_STATUS' || error.message === 'INVALID_STATUS_TRANSITION')) {
+        return res.status(409).json({ message: "This settlement request is no longer awaiting approval", code: "INVALID_SETTLEMENT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'APPROVAL_QUORUM_NOT_MET') {
+        return res.status(409).json({ message: "This settlement request still needs more approvals", code: "APPROVAL_QUORUM_NOT_MET" });
+      }
+      if (error instanceof Error && error.message === 'CURRENCY_MISMATCH') {
+        return res.status(409).json({ message: "The organization treasury holds a different currency from this settlement", code: "CURRENCY_MISMATCH" });
+      }
+      if (error instanceof Error && error.message.startsWith('Insufficient funds')) {
+        return res.status(409).json({ message: error.message, code: "INSUFFICIENT_FUNDS" });
+      }
       res.status(500).json({ message: "Failed to approve settlement request" });
     }
-  });
-
-  app.patch('/api/admin/settlement-requests/:id/release', isAuthenticated, async (req: any, res) => {
-    try {
-      const settlementId = parseInt(req.params.id);
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admin users can release settlements" });
-      }
+  };
 
-      await storage.updateSettlementRequestStatus(settlementId, 'approved', userId);
-      res.json({ message: "Settlement request released and approved successfully" });
-    } catch (error) {
-      console.error("Error releasing settlement:", error);
-      res.status(500).json({ message: "Failed to release settlement request" });
-    }
-  });
+  app.patch('/api/admin/settlement-requests/:id/approve', isAuthenticated, withIdempotency, approveSettlement);
+  app.patch('/api/admin/settlement-requests/:id/release', isAuthenticated, withIdempotency, approveSettlement);
 
-  app.patch('/api/admin/settlement-requests/:id/hold', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/admin/settlement-requests/:id/hold', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const settlementId = parseInt(req.params.id);
       const { holdReason, reasonComment } = req.body;
@@ -1101,11 +1691,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ message: "Settlement request placed on hold" });
     } catch (error) {
       console.error("Error holding settlement:", error);
+      if (error instanceof Error && error.message === 'INVALID_STATUS_TRANSITION') {
+        return res.status(409).json({ message: "This settlement request can no longer be put on hold", code: "INVALID_STATUS_TRANSITION" });
+      }
       res.status(500).json({ message: "Failed to hold settlement request" });
     }
   });
 
-  app.patch('/api/admin/settlement-requests/:id/reject', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/admin/settlement-requests/:id/reject', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const settlementId = parseInt(req.params.id);
       const { rejectReason, reasonComment } = req.body;
@@ -1132,63 +1725,2038 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ message: "Settlement request rejected" });
     } catch (error) {
       console.error("Error rejecting settlement:", error);
+      if (error instanceof Error && error.message === 'INVALID_STATUS_TRANSITION') {
+        return res.status(409).json({ message: "This settlement request can no longer be rejected", code: "INVALID_STATUS_TRANSITION" });
+      }
       res.status(500).json({ message: "Failed to reject settlement request" });
     }
   });
 
-  // Notification routes
-  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+  // Settlement payouts - approved settlements are batched into bank payment files. Finance
+  // officers can see, download and regenerate their organization's batches; admins run the rest.
+  app.get('/api/payout-batches', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const notifications = await storage.getNotificationsByUserId(userId);
-      res.json(notifications);
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'admin') {
+        const batches = await storage.getPayoutBatches();
+        return res.json(batches.map(({ fileContent, ...batch }) => batch));
+      }
+      if (user?.role === 'finance' && user.organizationId) {
+        const batches = await storage.getPayoutBatches(user.organizationId);
+        return res.json(batches.map(({ fileContent, ...batch }) => batch));
+      }
+      res.status(403).json({ message: "Access denied. Finance or admin role required." });
     } catch (error) {
-      console.error("Error fetching notifications:", error);
-      res.status(500).json({ message: "Failed to fetch notifications" });
+      console.error("Error fetching payout batches:", error);
+      res.status(500).json({ message: "Failed to fetch payout batches" });
     }
   });
 
-  app.patch('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+  app.get('/api/payout-batches/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      await storage.markNotificationAsRead(notificationId);
-      res.json({ message: "Notification marked as read" });
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const batch = await storage.getPayoutBatchById(parseInt(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId === batch.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { fileContent, ...details } = batch;
+      res.json(details);
     } catch (error) {
-      console.error("Error marking notification as read:", error);
-      res.status(500).json({ message: "Failed to mark notification as read" });
+      console.error("Error fetching payout batch:", error);
+      res.status(500).json({ message: "Failed to fetch payout batch" });
     }
   });
 
-  // Document viewing endpoint
-  app.get("/api/documents/:id/view", isAuthenticated, async (req: any, res) => {
+  app.get('/api/payout-batches/:id/file', isAuthenticated, async (req: any, res) => {
     try {
-      const documentId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
-      
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const user = await storage.getUser(userId);
+
+      const batch = await storage.getPayoutBatchById(parseInt(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId === batch.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      // Get document info
-      const document = await storage.getDocumentById(documentId);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      res.setHeader('Content-Type', batch.format === 'pain_001' ? 'application/xml' : 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${batch.fileName}"`);
+      res.send(batch.fileContent);
+    } catch (error) {
+      console.error("Error downloading payout file:", error);
+      res.status(500).json({ message: "Failed to download payout file" });
+    }
+  });
+
+  app.post('/api/payout-batches/:id/regenerate', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const { format } = req.body;
+      if (format !== undefined && !isPayoutFileFormat(format)) {
+        return res.status(400).json({ message: "Payment files are bank CSV or pain.001 XML" });
       }
 
-      // Check if user has permission to view this document
-      const transaction = await storage.getTransactionById(document.transactionId!);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      const batch = await storage.getPayoutBatchById(parseInt(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId === batch.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { fileContent, ...regenerated } = await storage.regeneratePayoutBatchFile(batch.id, format, userId);
+      res.json(regenerated);
+    } catch (error) {
+      console.error("Error regenerating payout file:", error);
+      if (error instanceof Error && error.message === 'Payout batch not found') {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_PAYOUT_BATCH_STATUS') {
+        return res.status(409).json({ message: "The payout batch is no longer in a state that allows this", code: "INVALID_PAYOUT_BATCH_STATUS" });
       }
+      if (error instanceof Error && error.message === 'PAYOUT_DEBTOR_NOT_CONFIGURED') {
+        return res.status(400).json({ message: "Set PAYOUT_DEBTOR_ACCOUNT before generating pain.001 files", code: "PAYOUT_DEBTOR_NOT_CONFIGURED" });
+      }
+      res.status(500).json({ message: "Failed to regenerate payout file" });
+    }
+  });
 
-      // Allow access if user is involved in the transaction or is admin/finance
+  app.get('/api/admin/payout-batches/ready', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const canView = 
-        transaction.fromUserId === userId || 
-        transaction.toUserId === userId ||
-        transaction.processedBy === userId ||
-        user?.role === 'admin' ||
-        user?.role === 'finance';
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const ready = await storage.getSettlementsReadyForPayout();
+      res.json(ready);
+    } catch (error) {
+      console.error("Error fetching settlements ready for payout:", error);
+      res.status(500).json({ message: "Failed to fetch settlements ready for payout" });
+    }
+  });
+
+  app.post('/api/admin/payout-batches', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { organizationId, currency, format } = req.body;
+      if (!await storage.getOrganizationById(parseInt(organizationId))) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+      if (!isSupportedCurrency(currency)) {
+        return res.status(400).json({ message: `Unsupported currency ${currency}`, code: "UNSUPPORTED_CURRENCY" });
+      }
+      if (!isPayoutFileFormat(format)) {
+        return res.status(400).json({ message: "Payment files are bank CSV or pain.001 XML" });
+      }
+
+      const { fileContent, ...batch } = await storage.createPayoutBatch(parseInt(organizationId), currency, format, userId);
+      res.json(batch);
+    } catch (error) {
+      console.error("Error creating payout batch:", error);
+      if (error instanceof Error && error.message === 'NO_SETTLEMENTS_TO_PAY') {
+        return res.status(409).json({ message: "There are no approved settlements waiting to be paid", code: "NO_SETTLEMENTS_TO_PAY" });
+      }
+      if (error instanceof Error && error.message === 'Payout batch not found') {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_PAYOUT_BATCH_STATUS') {
+        return res.status(409).json({ message: "The payout batch is no longer in a state that allows this", code: "INVALID_PAYOUT_BATCH_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'PAYOUT_DEBTOR_NOT_CONFIGURED') {
+        return res.status(400).json({ message: "Set PAYOUT_DEBTOR_ACCOUNT before generating pain.001 files", code: "PAYOUT_DEBTOR_NOT_CONFIGURED" });
+      }
+      res.status(500).json({ message: "Failed to create payout batch" });
+    }
+  });
+
+  app.patch('/api/admin/payout-batches/:id/processing', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { fileContent, ...batch } = await storage.markPayoutBatchProcessing(parseInt(req.params.id), userId);
+      res.json(batch);
+    } catch (error) {
+      console.error("Error marking payout batch as processing:", error);
+      if (error instanceof Error && error.message === 'Payout batch not found') {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_PAYOUT_BATCH_STATUS') {
+        return res.status(409).json({ message: "The payout batch is no longer in a state that allows this", code: "INVALID_PAYOUT_BATCH_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'PAYOUT_DEBTOR_NOT_CONFIGURED') {
+        return res.status(400).json({ message: "Set PAYOUT_DEBTOR_ACCOUNT before generating pain.001 files", code: "PAYOUT_DEBTOR_NOT_CONFIGURED" });
+      }
+      res.status(500).json({ message: "Failed to update payout batch" });
+    }
+  });
+
+  app.patch('/api/admin/settlement-requests/:id/payout-result', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { result, failureReason } = req.body;
+      if (!isPayoutResult(result)) {
+        return res.status(400).json({ message: "Result must be completed or failed" });
+      }
+      if (result === 'failed' && !failureReason) {
+        return res.status(400).json({ message: "A failure reason is required" });
+      }
+      if (failureReason && failureReason.length > 255) {
+        return res.status(400).json({ message: "Failure reason must be 255 characters or less" });
+      }
+
+      const settlement = await storage.recordPayoutResult(parseInt(req.params.id), result, userId, failureReason);
+      res.json(settlement);
+    } catch (error) {
+      console.error("Error recording payout result:", error);
+      if (error instanceof Error && error.message === 'Settlement request not found') {
+        return res.status(404).json({ message: "Settlement request not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_SETTLEMENT_STATUS') {
+        return res.status(409).json({ message: "Only settlements being processed by the bank can be completed or failed", code: "INVALID_SETTLEMENT_STATUS" });
+      }
+      res.status(500).json({ message: "Failed to record payout result" });
+    }
+  });
+
+  // Bank statements - finance officers import their organization's account statements, admins
+  // the platform's. Lines are matched to settlements; the rest is worked through by hand.
+  app.post('/api/bank-statements', isAuthenticated, memoryUpload.single('file'), withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId)) {
+        return res.status(403).json({ message: "Access denied. Finance or admin role required." });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { format, accountNumber } = req.body;
+      if (!isBankStatementFormat(format)) {
+        return res.status(400).json({ message: "Statements are CAMT.053 XML, MT940 or CSV" });
+      }
+
+      const parsed = parseBankStatement(format, req.file.buffer.toString('utf8'));
+      const statement = await storage.importBankStatement(parsed, {
+        organizationId: user.role === 'admin' ? null : user.organizationId,
+        format,
+        fileName: req.file.originalname,
+        fileHash: crypto.createHash('sha256').update(req.file.buffer).digest('hex'),
+        accountNumber: accountNumber?.trim() || undefined,
+        importedBy: userId,
+      });
+      res.json(statement);
+    } catch (error) {
+      console.error("Error importing bank statement:", error);
+      if (error instanceof Error && error.message === 'INVALID_BANK_STATEMENT') {
+        return res.status(400).json({ message: "The file is not a readable statement in the chosen format", code: "INVALID_BANK_STATEMENT" });
+      }
+      if (error instanceof Error && error.message === 'DUPLICATE_BANK_STATEMENT') {
+        return res.status(409).json({ message: "This statement has already been imported", code: "DUPLICATE_BANK_STATEMENT" });
+      }
+      res.status(500).json({ message: "Failed to import bank statement" });
+    }
+  });
+
+  app.get('/api/bank-statements', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'admin') {
+        return res.json(await storage.getBankStatements());
+      }
+      if (user?.role === 'finance' && user.organizationId) {
+        return res.json(await storage.getBankStatements(user.organizationId));
+      }
+      res.status(403).json({ message: "Access denied. Finance or admin role required." });
+    } catch (error) {
+      console.error("Error fetching bank statements:", error);
+      res.status(500).json({ message: "Failed to fetch bank statements" });
+    }
+  });
+
+  app.get('/api/bank-reconciliation/worklist', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'admin') {
+        return res.json(await storage.getBankReconciliationWorklist());
+      }
+      if (user?.role === 'finance' && user.organizationId) {
+        return res.json(await storage.getBankReconciliationWorklist(user.organizationId));
+      }
+      res.status(403).json({ message: "Access denied. Finance or admin role required." });
+    } catch (error) {
+      console.error("Error fetching bank reconciliation worklist:", error);
+      res.status(500).json({ message: "Failed to fetch bank reconciliation worklist" });
+    }
+  });
+
+  app.patch('/api/bank-statement-lines/:id/match', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const line = await storage.getBankStatementLineById(parseInt(req.params.id));
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId && user.organizationId === line.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const settlementRequestId = parseInt(req.body.settlementRequestId);
+      if (!settlementRequestId) {
+        return res.status(400).json({ message: "Choose the settlement request this line pays" });
+      }
+
+      const matched = await storage.matchBankStatementLine(line.id, settlementRequestId, userId);
+      res.json(matched);
+    } catch (error) {
+      console.error("Error matching bank statement line:", error);
+      if (error instanceof Error && (error.message === 'Statement line not found' || error.message === 'Settlement request not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'STATEMENT_LINE_NOT_OPEN') {
+        return res.status(409).json({ message: "This statement line has already been matched or resolved", code: "STATEMENT_LINE_NOT_OPEN" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_SETTLEMENT_STATUS') {
+        return res.status(409).json({ message: "Only approved settlements awaiting payment can be matched", code: "INVALID_SETTLEMENT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'AMOUNT_MISMATCH') {
+        return res.status(400).json({ message: "The line amount is not the settlement's payout amount", code: "AMOUNT_MISMATCH" });
+      }
+      res.status(500).json({ message: "Failed to match statement line" });
+    }
+  });
+
+  app.patch('/api/bank-statement-lines/:id/resolve', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const line = await storage.getBankStatementLineById(parseInt(req.params.id));
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId && user.organizationId === line.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { note } = req.body;
+      if (!note || typeof note !== 'string') {
+        return res.status(400).json({ message: "Explain why this line needs no settlement" });
+      }
+      if (note.length > 255) {
+        return res.status(400).json({ message: "Note must be 255 characters or less" });
+      }
+
+      const resolved = await storage.resolveBankStatementLine(line.id, userId, note);
+      res.json(resolved);
+    } catch (error) {
+      console.error("Error resolving bank statement line:", error);
+      if (error instanceof Error && error.message === 'Statement line not found') {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+      if (error instanceof Error && error.message === 'STATEMENT_LINE_NOT_OPEN') {
+        return res.status(409).json({ message: "This statement line has already been matched or resolved", code: "STATEMENT_LINE_NOT_OPEN" });
+      }
+      res.status(500).json({ message: "Failed to resolve statement line" });
+    }
+  });
+
+  // Wallet reconciliation routes
+  app.get('/api/admin/reconciliation/exceptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const status = req.query.status as string | undefined;
+      const exceptions = await storage.getReconciliationExceptions(status);
+      const latestRun = await storage.getLatestReconciliationRun();
+      res.json({ exceptions, latestRun });
+    } catch (error) {
+      console.error("Error fetching reconciliation exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation exceptions" });
+    }
+  });
+
+  app.post('/api/admin/reconciliation/run', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const run = await storage.runWalletReconciliation(userId);
+      res.json(run);
+    } catch (error) {
+      console.error("Error running wallet reconciliation:", error);
+      res.status(500).json({ message: "Failed to run wallet reconciliation" });
+    }
+  });
+
+  app.patch('/api/admin/reconciliation/exceptions/:id/acknowledge', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { note } = req.body;
+      if (note && note.length > 255) {
+        return res.status(400).json({ message: "Note must be 255 characters or less" });
+      }
+
+      const exception = await storage.acknowledgeReconciliationException(parseInt(req.params.id), userId, note);
+      res.json(exception);
+    } catch (error) {
+      console.error("Error acknowledging reconciliation exception:", error);
+      res.status(400).json({
+        message: "Failed to acknowledge reconciliation exception",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Fee schedule management
+  app.get('/api/admin/fee-schedules', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const schedules = await storage.getFeeSchedules();
+      const organizations = await storage.getAllOrganizations();
+      const revenueWallets = await storage.getPlatformRevenueWallets();
+      res.json({
+        schedules,
+        organizations,
+        revenueWallets,
+        transactionTypes: feeTransactionTypes,
+        currencies: supportedCurrencies,
+      });
+    } catch (error) {
+      console.error("Error fetching fee schedules:", error);
+      res.status(500).json({ message: "Failed to fetch fee schedules" });
+    }
+  });
+
+  app.post('/api/admin/fee-schedules', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { organizationId, transactionType, currency, feeType, flatFee = "0", percentage = "0", tiers = null } = req.body;
+      if (!await storage.getOrganizationById(parseInt(organizationId))) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+      if (!isFeeTransactionType(transactionType)) {
+        return res.status(400).json({ message: "Fees apply to cash digitization, QR payments and settlements only" });
+      }
+      if (!isSupportedCurrency(currency)) {
+        return res.status(400).json({ message: `Unsupported currency ${currency}`, code: "UNSUPPORTED_CURRENCY" });
+      }
+
+      const rule = { feeType, flatFee, percentage, tiers: feeType === 'tiered' ? tiers : null };
+      const invalidReason = validateFeeRule(rule);
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const scheduleData = insertFeeScheduleSchema.parse({
+        ...rule,
+        organizationId: parseInt(organizationId),
+        transactionType,
+        currency,
+        createdBy: userId,
+      });
+
+      const schedule = await storage.createFeeSchedule(scheduleData);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error creating fee schedule:", error);
+      res.status(400).json({
+        message: "Failed to create fee schedule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/admin/fee-schedules/:id/deactivate', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const schedule = await storage.deactivateFeeSchedule(parseInt(req.params.id));
+      if (!schedule) {
+        return res.status(404).json({ message: "Fee schedule not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error deactivating fee schedule:", error);
+      res.status(500).json({ message: "Failed to deactivate fee schedule" });
+    }
+  });
+
+  // Beneficiary bank account registry - finance officers add their organization's accounts,
+  // an admin other than the one who added it approves, and the cooling-off period follows
+  app.get('/api/bank-accounts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'admin') {
+        return res.json(await storage.getBankAccounts());
+      }
+      if (user?.role === 'finance' && user.organizationId) {
+        return res.json(await storage.getBankAccounts(user.organizationId));
+      }
+      res.status(403).json({ message: "Access denied. Finance or admin role required." });
+    } catch (error) {
+      console.error("Error fetching bank accounts:", error);
+      res.status(500).json({ message: "Failed to fetch bank accounts" });
+    }
+  });
+
+  app.post('/api/bank-accounts', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'finance' || !user.organizationId) {
+        return res.status(403).json({ message: "Only finance officers with organizations can add bank accounts" });
+      }
+
+      const { bankCode, branchCode, accountNumber, accountName } = req.body;
+      const invalidReason = validateBankAccount({
+        bankCode: String(bankCode ?? ''),
+        branchCode: String(branchCode ?? ''),
+        accountNumber: String(accountNumber ?? ''),
+        accountName: String(accountName ?? ''),
+      });
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason, code: "INVALID_BANK_ACCOUNT" });
+      }
+
+      const accountData = insertOrganizationBankAccountSchema.parse({
+        organizationId: user.organizationId,
+        bankCode,
+        branchCode,
+        accountNumber: normalizeBankAccountNumber(accountNumber),
+        accountName: accountName.trim(),
+        requestedBy: userId,
+      });
+
+      const account = await storage.createBankAccount(accountData);
+      res.json(account);
+    } catch (error) {
+      console.error("Error adding bank account:", error);
+      if (error instanceof Error && error.message === 'DUPLICATE_BANK_ACCOUNT') {
+        return res.status(409).json({ message: "This account is already registered or awaiting approval", code: "DUPLICATE_BANK_ACCOUNT" });
+      }
+      res.status(400).json({ message: "Failed to add bank account" });
+    }
+  });
+
+  app.patch('/api/bank-accounts/:id/deactivate', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const account = await storage.getBankAccountById(parseInt(req.params.id));
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId === account.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const deactivated = await storage.deactivateBankAccount(account.id, userId);
+      res.json(deactivated);
+    } catch (error) {
+      console.error("Error deactivating bank account:", error);
+      if (error instanceof Error && error.message === 'Bank account not found') {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_BANK_ACCOUNT_STATUS') {
+        return res.status(409).json({ message: "This bank account is already rejected or deactivated", code: "INVALID_BANK_ACCOUNT_STATUS" });
+      }
+      res.status(500).json({ message: "Failed to deactivate bank account" });
+    }
+  });
+
+  app.patch('/api/admin/bank-accounts/:id/approve', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const account = await storage.approveBankAccount(parseInt(req.params.id), userId);
+      res.json(account);
+    } catch (error) {
+      console.error("Error approving bank account:", error);
+      if (error instanceof Error && error.message === 'Bank account not found') {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_BANK_ACCOUNT_STATUS') {
+        return res.status(409).json({ message: "This bank account has already been reviewed", code: "INVALID_BANK_ACCOUNT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'SELF_APPROVAL') {
+        return res.status(403).json({ message: "You cannot approve a bank account you added", code: "SELF_APPROVAL" });
+      }
+      res.status(500).json({ message: "Failed to approve bank account" });
+    }
+  });
+
+  app.patch('/api/admin/bank-accounts/:id/reject', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { reason } = req.body;
+      if (!reason || typeof reason !== 'string') {
+        return res.status(400).json({ message: "A rejection reason is required" });
+      }
+      if (reason.length > 255) {
+        return res.status(400).json({ message: "Rejection reason must be 255 characters or less" });
+      }
+
+      const account = await storage.rejectBankAccount(parseInt(req.params.id), userId, reason);
+      res.json(account);
+    } catch (error) {
+      console.error("Error rejecting bank account:", error);
+      if (error instanceof Error && error.message === 'Bank account not found') {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_BANK_ACCOUNT_STATUS') {
+        return res.status(409).json({ message: "This bank account has already been reviewed", code: "INVALID_BANK_ACCOUNT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'SELF_APPROVAL') {
+        return res.status(403).json({ message: "You cannot reject a bank account you added", code: "SELF_APPROVAL" });
+      }
+      res.status(500).json({ message: "Failed to reject bank account" });
+    }
+  });
+
+  // Settlement sweeps - finance officers schedule automatic settlement requests for their
+  // organization; finance and admins can pause, resume and review them
+  app.get('/api/sweep-rules', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'admin') {
+        return res.json(await storage.getSweepRules());
+      }
+      if (user?.role === 'finance' && user.organizationId) {
+        return res.json(await storage.getSweepRules(user.organizationId));
+      }
+      res.status(403).json({ message: "Access denied. Finance or admin role required." });
+    } catch (error) {
+      console.error("Error fetching sweep rules:", error);
+      res.status(500).json({ message: "Failed to fetch sweep rules" });
+    }
+  });
+
+  app.post('/api/sweep-rules', isAuthenticated, requireClearedUser, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'finance' || !user.organizationId) {
+        return res.status(403).json({ message: "Only finance officers with organizations can schedule settlement sweeps" });
+      }
+
+      const { bankAccountId, frequency, runAt, reserveAmount = '0', minimumAmount = '0' } = req.body;
+      const invalidReason = validateSweepRule({
+        runAt: String(runAt ?? ''),
+        frequency: String(frequency ?? ''),
+        reserveAmount: String(reserveAmount),
+        minimumAmount: String(minimumAmount),
+      });
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      // The account may still be awaiting approval or cooling off; those sweeps are skipped
+      const bankAccount = await storage.getBankAccountById(parseInt(bankAccountId) || 0);
+      if (!bankAccount || bankAccount.organizationId !== user.organizationId
+        || !['pending_approval', 'active'].includes(bankAccount.status)) {
+        return res.status(400).json({ message: "Choose one of your organization's registered bank accounts", code: "BANK_ACCOUNT_NOT_FOUND" });
+      }
+
+      // Sweeps settle in the treasury's currency, like requests made by hand
+      const wallet = await storage.getOperatingWallet(user);
+
+      const ruleData = insertSettlementSweepRuleSchema.parse({
+        organizationId: user.organizationId,
+        bankAccountId: bankAccount.id,
+        currency: wallet.currency,
+        frequency,
+        runAt,
+        reserveAmount: Money.parse(reserveAmount).toDecimal(),
+        minimumAmount: Money.parse(minimumAmount).toDecimal(),
+        createdBy: userId,
+      });
+
+      const rule = await storage.createSweepRule(ruleData);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating sweep rule:", error);
+      res.status(400).json({ message: "Failed to create sweep rule" });
+    }
+  });
+
+  app.patch('/api/sweep-rules/:id/pause', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const rule = await storage.getSweepRuleById(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Sweep rule not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId === rule.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updated = await storage.setSweepRuleStatus(rule.id, 'paused', userId);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error pausing sweep rule:", error);
+      if (error instanceof Error && error.message === 'Sweep rule not found') {
+        return res.status(404).json({ message: "Sweep rule not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_SWEEP_RULE_STATUS') {
+        return res.status(409).json({ message: "This sweep is already paused", code: "INVALID_SWEEP_RULE_STATUS" });
+      }
+      res.status(500).json({ message: "Failed to pause sweep rule" });
+    }
+  });
+
+  app.patch('/api/sweep-rules/:id/resume', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const rule = await storage.getSweepRuleById(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Sweep rule not found" });
+      }
+      if (user?.role !== 'admin' && !(user?.role === 'finance' && user.organizationId === rule.organizationId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updated = await storage.setSweepRuleStatus(rule.id, 'active', userId);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error resuming sweep rule:", error);
+      if (error instanceof Error && error.message === 'Sweep rule not found') {
+        return res.status(404).json({ message: "Sweep rule not found" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_SWEEP_RULE_STATUS') {
+        return res.status(409).json({ message: "This sweep is already running", code: "INVALID_SWEEP_RULE_STATUS" });
+      }
+      res.status(500).json({ message: "Failed to resume sweep rule" });
+    }
+  });
+
+  app.get('/api/sweep-runs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'admin') {
+        return res.json(await storage.getSweepRuns());
+      }
+      if (user?.role === 'finance' && user.organizationId) {
+        return res.json(await storage.getSweepRuns(user.organizationId));
+      }
+      res.status(403).json({ message: "Access denied. Finance or admin role required." });
+    } catch (error) {
+      console.error("Error fetching sweep history:", error);
+      res.status(500).json({ message: "Failed to fetch sweep history" });
+    }
+  });
+
+  // Settlement approval matrices
+  app.get('/api/admin/approval-matrices', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const matrices = await storage.getApprovalMatrices();
+      const organizations = await storage.getAllOrganizations();
+      res.json({ matrices, organizations, currencies: supportedCurrencies });
+    } catch (error) {
+      console.error("Error fetching approval matrices:", error);
+      res.status(500).json({ message: "Failed to fetch approval matrices" });
+    }
+  });
+
+  app.post('/api/admin/approval-matrices', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { organizationId, currency, tiers = [] } = req.body;
+      if (!await storage.getOrganizationById(parseInt(organizationId))) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+      if (!isSupportedCurrency(currency)) {
+        return res.status(400).json({ message: `Unsupported currency ${currency}`, code: "UNSUPPORTED_CURRENCY" });
+      }
+      if (!Array.isArray(tiers)) {
+        return res.status(400).json({ message: "Approval bands are required" });
+      }
+
+      const invalidReason = validateApprovalMatrix(tiers);
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const matrixData = insertApprovalMatrixSchema.parse({
+        organizationId: parseInt(organizationId),
+        currency,
+        tiers,
+        createdBy: userId,
+      });
+
+      const matrix = await storage.createApprovalMatrix(matrixData);
+      res.json(matrix);
+    } catch (error) {
+      console.error("Error creating approval matrix:", error);
+      res.status(400).json({
+        message: "Failed to create approval matrix",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/admin/approval-matrices/:id/deactivate', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const matrix = await storage.deactivateApprovalMatrix(parseInt(req.params.id));
+      if (!matrix) {
+        return res.status(404).json({ message: "Approval matrix not found" });
+      }
+      res.json(matrix);
+    } catch (error) {
+      console.error("Error deactivating approval matrix:", error);
+      res.status(500).json({ message: "Failed to deactivate approval matrix" });
+    }
+  });
+
+  // Wallet limit rules
+  app.get('/api/admin/wallet-limits', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const rules = await storage.getWalletLimits();
+      const organizations = await storage.getAllOrganizations();
+      const branches = [];
+      for (const organization of organizations) {
+        branches.push(...await storage.getBranchesByOrganization(organization.id));
+      }
+      res.json({
+        rules,
+        organizations,
+        branches,
+        roles: limitedRoles,
+        kycTiers,
+        currencies: supportedCurrencies,
+      });
+    } catch (error) {
+      console.error("Error fetching wallet limits:", error);
+      res.status(500).json({ message: "Failed to fetch wallet limits" });
+    }
+  });
+
+  app.post('/api/admin/wallet-limits', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { scope, role, kycTier, organizationId, branchId, walletId, currency } = req.body;
+      if (!isLimitScope(scope)) {
+        return res.status(400).json({ message: "Scope must be role, KYC tier, organization, branch or wallet" });
+      }
+      if (scope === 'kyc_tier' && !isKycTier(kycTier)) {
+        return res.status(400).json({ message: "KYC tier must be basic, standard or enhanced" });
+      }
+      if (scope !== 'wallet' && !isLimitedRole(role)) {
+        return res.status(400).json({ message: "Limits apply to cashiers and merchants only" });
+      }
+      if (!isSupportedCurrency(currency)) {
+        return res.status(400).json({ message: `Unsupported currency ${currency}`, code: "UNSUPPORTED_CURRENCY" });
+      }
+
+      const target = { role: scope === 'wallet' ? null : role, kycTier: scope === 'kyc_tier' ? kycTier : null, organizationId: null as number | null, branchId: null as number | null, walletId: null as number | null };
+      if (scope === 'organization') {
+        target.organizationId = parseInt(organizationId);
+        if (!await storage.getOrganizationById(target.organizationId)) {
+          return res.status(400).json({ message: "Organization not found" });
+        }
+      }
+      if (scope === 'branch') {
+        target.branchId = parseInt(branchId);
+        if (!await storage.getBranchById(target.branchId)) {
+          return res.status(400).json({ message: "Branch not found" });
+        }
+      }
+      if (scope === 'wallet') {
+        target.walletId = parseInt(walletId);
+        const wallet = await storage.getWalletById(target.walletId);
+        if (!wallet) {
+          return res.status(400).json({ message: "Wallet not found" });
+        }
+        if (wallet.currency !== currency) {
+          return res.status(400).json({ message: `Wallet holds ${wallet.currency}`, code: "CURRENCY_MISMATCH" });
+        }
+      }
+
+      // Empty caps are left to broader levels
+      const values = {
+        perTransaction: req.body.perTransaction || null,
+        daily: req.body.daily || null,
+        weekly: req.body.weekly || null,
+        monthly: req.body.monthly || null,
+      };
+      const invalidReason = validateWalletLimits(values);
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const ruleData = insertWalletLimitSchema.parse({
+        ...values,
+        ...target,
+        scope,
+        currency,
+        createdBy: userId,
+      });
+
+      const rule = await storage.createWalletLimit(ruleData);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating wallet limit:", error);
+      res.status(400).json({
+        message: "Failed to create wallet limit",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/admin/wallet-limits/:id/deactivate', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const rule = await storage.deactivateWalletLimit(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Wallet limit not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error deactivating wallet limit:", error);
+      res.status(500).json({ message: "Failed to deactivate wallet limit" });
+    }
+  });
+
+  // Fraud rules and the review queue of transactions they hold - admin only
+  app.get('/api/admin/fraud-rules', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const rules = await storage.getFraudRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching fraud rules:", error);
+      res.status(500).json({ message: "Failed to fetch fraud rules" });
+    }
+  });
+
+  app.post('/api/admin/fraud-rules', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const settings = {
+        ruleType: req.body.ruleType,
+        action: req.body.action,
+        threshold: req.body.threshold ? parseInt(req.body.threshold) : null,
+        windowMinutes: req.body.windowMinutes ? parseInt(req.body.windowMinutes) : null,
+      };
+      const invalidReason = validateFraudRule(settings);
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const ruleData = insertFraudRuleSchema.parse({
+        ...settings,
+        transactionType: req.body.transactionType || null,
+        createdBy: userId,
+      });
+
+      const rule = await storage.createFraudRule(ruleData);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating fraud rule:", error);
+      res.status(400).json({
+        message: "Failed to create fraud rule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/admin/fraud-rules/:id/deactivate', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const rule = await storage.deactivateFraudRule(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Fraud rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error deactivating fraud rule:", error);
+      res.status(500).json({ message: "Failed to deactivate fraud rule" });
+    }
+  });
+
+  app.get('/api/admin/fraud-review', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const flagged = await storage.getFlaggedTransactions();
+      const blocked = await storage.getBlockedFraudFlags();
+      res.json({ flagged, blocked });
+    } catch (error) {
+      console.error("Error fetching fraud review queue:", error);
+      res.status(500).json({ message: "Failed to fetch fraud review queue" });
+    }
+  });
+
+  app.patch('/api/admin/fraud-review/:id/release', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      // Released transactions get the same window to be picked up as new ones
+      const expiresAt = new Date(Date.now() + 120 * 1000);
+      const transaction = await storage.releaseFlaggedTransaction(parseInt(req.params.id), userId, expiresAt);
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error releasing flagged transaction:", error);
+
+      if (error instanceof Error && error.message === 'INVALID_STATUS_TRANSITION') {
+        return res.status(409).json({ message: "Transaction is no longer held for review", code: "INVALID_STATUS_TRANSITION" });
+      }
+      if (error instanceof Error && error.message === 'Transaction not found') {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      res.status(500).json({ message: "Failed to release transaction" });
+    }
+  });
+
+  app.patch('/api/admin/fraud-review/:id/reject', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { rejectionReason } = req.body;
+      if (!rejectionReason || typeof rejectionReason !== 'string') {
+        return res.status(400).json({ message: "A rejection reason is required" });
+      }
+
+      const transaction = await storage.getTransactionById(parseInt(req.params.id));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (transaction.status !== 'under_review') {
+        return res.status(409).json({ message: "Transaction is no longer held for review", code: "INVALID_STATUS_TRANSITION" });
+      }
+
+      await storage.updateTransactionStatus(transaction.id, 'rejected', userId, rejectionReason);
+      res.json({ message: "Transaction rejected" });
+    } catch (error) {
+      console.error("Error rejecting flagged transaction:", error);
+
+      if (error instanceof Error && error.message === 'INVALID_STATUS_TRANSITION') {
+        return res.status(409).json({ message: "Transaction is no longer held for review", code: "INVALID_STATUS_TRANSITION" });
+      }
+
+      res.status(500).json({ message: "Failed to reject transaction" });
+    }
+  });
+
+  // Sanctions / PEP screening - admins keep the list current and review possible matches
+  app.get('/api/admin/sanctions-list', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      res.json(getSanctionsListInfo());
+    } catch (error) {
+      console.error("Error fetching sanctions list info:", error);
+      res.status(500).json({ message: "Failed to fetch sanctions list" });
+    }
+  });
+
+  app.post('/api/admin/sanctions-list', isAuthenticated, memoryUpload.single('file'), withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const entries = replaceSanctionsList(req.file.buffer.toString('utf8'));
+      console.log(`Sanctions list replaced by ${userId}: ${entries} entries`);
+      res.json(getSanctionsListInfo());
+    } catch (error) {
+      console.error("Error uploading sanctions list:", error);
+      if (error instanceof Error && error.message === 'INVALID_SANCTIONS_LIST') {
+        return res.status(400).json({ message: "The list must be a CSV with a name column and at least one entry", code: "INVALID_SANCTIONS_LIST" });
+      }
+      res.status(500).json({ message: "Failed to upload sanctions list" });
+    }
+  });
+
+  app.get('/api/admin/screening-matches', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const matches = await storage.getScreeningMatches(status);
+      res.json(matches);
+    } catch (error) {
+      console.error("Error fetching screening matches:", error);
+      res.status(500).json({ message: "Failed to fetch screening matches" });
+    }
+  });
+
+  app.patch('/api/admin/screening-matches/:id/clear', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const match = await storage.reviewScreeningMatch(parseInt(req.params.id), userId, 'cleared', req.body.note);
+      res.json(match);
+    } catch (error) {
+      console.error("Error reviewing screening match:", error);
+      if (error instanceof Error && error.message === 'Screening match not found') {
+        return res.status(404).json({ message: "Screening match not found" });
+      }
+      if (error instanceof Error && error.message === 'SCREENING_MATCH_NOT_PENDING') {
+        return res.status(409).json({ message: "This match has already been reviewed", code: "SCREENING_MATCH_NOT_PENDING" });
+      }
+      res.status(500).json({ message: "Failed to review screening match" });
+    }
+  });
+
+  app.patch('/api/admin/screening-matches/:id/confirm', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const match = await storage.reviewScreeningMatch(parseInt(req.params.id), userId, 'confirmed', req.body.note);
+      res.json(match);
+    } catch (error) {
+      console.error("Error reviewing screening match:", error);
+      if (error instanceof Error && error.message === 'Screening match not found') {
+        return res.status(404).json({ message: "Screening match not found" });
+      }
+      if (error instanceof Error && error.message === 'SCREENING_MATCH_NOT_PENDING') {
+        return res.status(409).json({ message: "This match has already been reviewed", code: "SCREENING_MATCH_NOT_PENDING" });
+      }
+      res.status(500).json({ message: "Failed to review screening match" });
+    }
+  });
+
+  // Suspicious transaction reports - drafted by compliance (admins), approved by a second admin
+  app.get('/api/admin/str-reports', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const reports = await storage.getStrReports();
+      res.json(reports.map(({ snapshot, ...report }) => report));
+    } catch (error) {
+      console.error("Error fetching STR reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  app.get('/api/admin/str-reports/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const report = await storage.getStrReportById(parseInt(req.params.id));
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const { snapshot, ...details } = report;
+      const content = await storage.getStrReportContent(report);
+      const events = await storage.getStrReportEvents(report.id);
+      res.json({ ...details, content, events });
+    } catch (error) {
+      console.error("Error fetching STR report:", error);
+      res.status(500).json({ message: "Failed to fetch report" });
+    }
+  });
+
+  app.post('/api/admin/str-reports', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const transactionRefs: string[] = Array.isArray(req.body.transactionRefs) ? req.body.transactionRefs : [];
+      const narrative = typeof req.body.narrative === 'string' ? req.body.narrative.trim() : '';
+      const invalidReason = validateStrDraft({ transactionRefs, narrative });
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const reported = await storage.getTransactionsByRefs(transactionRefs);
+      const unknownRefs = transactionRefs.filter(ref => !reported.some(transaction => transaction.transactionId === ref));
+      if (unknownRefs.length > 0) {
+        return res.status(400).json({ message: `Unknown transactions: ${unknownRefs.join(', ')}`, code: "TRANSACTION_NOT_FOUND" });
+      }
+
+      const report = await storage.createStrReport(userId, reported.map(transaction => transaction.id), narrative);
+      res.json(report);
+    } catch (error) {
+      console.error("Error creating STR report:", error);
+      res.status(500).json({ message: "Failed to create report" });
+    }
+  });
+
+  app.patch('/api/admin/str-reports/:id', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const transactionRefs: string[] = Array.isArray(req.body.transactionRefs) ? req.body.transactionRefs : [];
+      const narrative = typeof req.body.narrative === 'string' ? req.body.narrative.trim() : '';
+      const invalidReason = validateStrDraft({ transactionRefs, narrative });
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const reported = await storage.getTransactionsByRefs(transactionRefs);
+      const unknownRefs = transactionRefs.filter(ref => !reported.some(transaction => transaction.transactionId === ref));
+      if (unknownRefs.length > 0) {
+        return res.status(400).json({ message: `Unknown transactions: ${unknownRefs.join(', ')}`, code: "TRANSACTION_NOT_FOUND" });
+      }
+
+      const report = await storage.updateStrReport(parseInt(req.params.id), userId, {
+        transactionIds: reported.map(transaction => transaction.id),
+        narrative,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Error updating STR report:", error);
+
+      if (error instanceof Error && error.message === 'STR_REPORT_LOCKED') {
+        return res.status(409).json({ message: "Submitted reports cannot be changed", code: "STR_REPORT_LOCKED" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_STR_REPORT_STATUS') {
+        return res.status(409).json({ message: "The report is not in a state that allows this", code: "INVALID_STR_REPORT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'STR report not found') {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      res.status(500).json({ message: "Failed to update report" });
+    }
+  });
+
+  app.patch('/api/admin/str-reports/:id/submit', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const report = await storage.submitStrReportForApproval(parseInt(req.params.id), userId);
+      res.json(report);
+    } catch (error) {
+      console.error("Error submitting STR report for approval:", error);
+
+      if (error instanceof Error && error.message === 'STR_REPORT_LOCKED') {
+        return res.status(409).json({ message: "Submitted reports cannot be changed", code: "STR_REPORT_LOCKED" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_STR_REPORT_STATUS') {
+        return res.status(409).json({ message: "The report is not in a state that allows this", code: "INVALID_STR_REPORT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'STR report not found') {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      res.status(500).json({ message: "Failed to submit report" });
+    }
+  });
+
+  app.patch('/api/admin/str-reports/:id/return', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { reason } = req.body;
+      if (!reason || typeof reason !== 'string') {
+        return res.status(400).json({ message: "A reason is required to return a report" });
+      }
+
+      const report = await storage.returnStrReport(parseInt(req.params.id), userId, reason);
+      res.json(report);
+    } catch (error) {
+      console.error("Error returning STR report:", error);
+
+      if (error instanceof Error && error.message === 'STR_REPORT_LOCKED') {
+        return res.status(409).json({ message: "Submitted reports cannot be changed", code: "STR_REPORT_LOCKED" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_STR_REPORT_STATUS') {
+        return res.status(409).json({ message: "The report is not in a state that allows this", code: "INVALID_STR_REPORT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'STR report not found') {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      res.status(500).json({ message: "Failed to return report" });
+    }
+  });
+
+  app.patch('/api/admin/str-reports/:id/approve', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { snapshot, ...report } = await storage.approveStrReport(parseInt(req.params.id), userId);
+      res.json(report);
+    } catch (error) {
+      console.error("Error approving STR report:", error);
+
+      if (error instanceof Error && error.message === 'SAME_APPROVER') {
+        return res.status(403).json({ message: "A report must be approved by someone other than its preparer", code: "SAME_APPROVER" });
+      }
+      if (error instanceof Error && error.message === 'STR_REPORT_LOCKED') {
+        return res.status(409).json({ message: "Submitted reports cannot be changed", code: "STR_REPORT_LOCKED" });
+      }
+      if (error instanceof Error && error.message === 'INVALID_STR_REPORT_STATUS') {
+        return res.status(409).json({ message: "The report is not in a state that allows this", code: "INVALID_STR_REPORT_STATUS" });
+      }
+      if (error instanceof Error && error.message === 'STR report not found') {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      res.status(500).json({ message: "Failed to approve report" });
+    }
+  });
+
+  app.get('/api/admin/str-reports/:id/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const format = req.query.format;
+      if (!isStrReportFormat(format)) {
+        return res.status(400).json({ message: "Format must be xml or pdf" });
+      }
+
+      const report = await storage.getStrReportById(parseInt(req.params.id));
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const content = await storage.getStrReportContent(report);
+      await storage.recordStrReportExport(report.id, userId, format);
+
+      res.setHeader('Content-Disposition', `attachment; filename="${report.reportNumber}.${format}"`);
+      if (format === 'xml') {
+        res.type('application/xml').send(renderStrReportXml(content));
+      } else {
+        res.type('application/pdf').send(renderStrReportPdf(content));
+      }
+    } catch (error) {
+      console.error("Error exporting STR report:", error);
+      res.status(500).json({ message: "Failed to export report" });
+    }
+  });
+
+  // Commission plans - admins manage any organization, finance officers their own
+  app.get('/api/commission-plans', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can view commission plans" });
+      }
+
+      const organizationId = user.role === 'admin'
+        ? (req.query.organizationId ? parseInt(req.query.organizationId as string) : undefined)
+        : user.organizationId;
+      if (user.role === 'finance' && !organizationId) {
+        return res.json([]);
+      }
+
+      const plans = await storage.getCommissionPlans(organizationId ?? undefined);
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching commission plans:", error);
+      res.status(500).json({ message: "Failed to fetch commission plans" });
+    }
+  });
+
+  app.post('/api/commission-plans', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can create commission plans" });
+      }
+
+      const organizationId = user.role === 'admin' ? parseInt(req.body.organizationId) : user.organizationId;
+      if (!organizationId || !await storage.getOrganizationById(organizationId)) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+
+      const { transactionType = 'cash_digitization', currency, commissionType, flatAmount = "0", percentage = "0", tiers = null } = req.body;
+      const branchId = req.body.branchId ? parseInt(req.body.branchId) : null;
+      if (branchId) {
+        const branches = await storage.getBranchesByOrganization(organizationId);
+        if (!branches.some(branch => branch.id === branchId)) {
+          return res.status(400).json({ message: "Branch does not belong to this organization" });
+        }
+      }
+      if (!isCommissionTransactionType(transactionType)) {
+        return res.status(400).json({ message: "Commission applies to cash digitization and QR payments only" });
+      }
+      if (!isSupportedCurrency(currency)) {
+        return res.status(400).json({ message: `Unsupported currency ${currency}`, code: "UNSUPPORTED_CURRENCY" });
+      }
+
+      const rule = { commissionType, flatAmount, percentage, tiers: commissionType === 'tiered' ? tiers : null };
+      const invalidReason = validateCommissionRule(rule);
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const planData = insertCommissionPlanSchema.parse({
+        ...rule,
+        organizationId,
+        branchId,
+        transactionType,
+        currency,
+        createdBy: userId,
+      });
+
+      const plan = await storage.createCommissionPlan(planData);
+      res.json(plan);
+    } catch (error) {
+      console.error("Error creating commission plan:", error);
+      res.status(400).json({
+        message: "Failed to create commission plan",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/commission-plans/:id/deactivate', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can deactivate commission plans" });
+      }
+
+      const planId = parseInt(req.params.id);
+      if (user.role === 'finance') {
+        const ownPlans = user.organizationId ? await storage.getCommissionPlans(user.organizationId) : [];
+        if (!ownPlans.some(plan => plan.id === planId)) {
+          return res.status(404).json({ message: "Commission plan not found" });
+        }
+      }
+
+      const plan = await storage.deactivateCommissionPlan(planId);
+      if (!plan) {
+        return res.status(404).json({ message: "Commission plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error("Error deactivating commission plan:", error);
+      res.status(500).json({ message: "Failed to deactivate commission plan" });
+    }
+  });
+
+  // Commission statement - cashiers see their own, finance their organization's cashiers
+  app.get('/api/commissions/statement', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const cashierId = (req.query.cashierId as string) || userId;
+      const cashier = await storage.getUser(cashierId);
+      if (!cashier || cashier.role !== 'cashier') {
+        return res.status(404).json({ message: "Cashier not found" });
+      }
+
+      const canView =
+        user?.role === 'admin' ||
+        cashierId === userId ||
+        (user?.role === 'finance' && !!user.organizationId && user.organizationId === cashier.organizationId);
+      if (!canView) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      const statement = await storage.getCommissionStatement(cashierId, from, to);
+      res.json(statement);
+    } catch (error) {
+      console.error("Error fetching commission statement:", error);
+      res.status(500).json({ message: "Failed to fetch commission statement" });
+    }
+  });
+
+  // Period close - turns accrued commission into payables
+  app.post('/api/commissions/close-period', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only admin and finance users can close commission periods" });
+      }
+
+      const organizationId = user.role === 'admin' ? parseInt(req.body.organizationId) : user.organizationId;
+      if (!organizationId || !await storage.getOrganizationById(organizationId)) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+
+      const periodEnd = req.body.periodEnd ? new Date(req.body.periodEnd) : new Date();
+      if (isNaN(periodEnd.getTime()) || periodEnd > new Date()) {
+        return res.status(400).json({ message: "Period end must be a date that is not in the future" });
+      }
+
+      const payables = await storage.closeCommissionPeriod(organizationId, periodEnd, userId);
+      res.json({ periodEnd, payables });
+    } catch (error) {
+      console.error("Error closing commission period:", error);
+      res.status(500).json({ message: "Failed to close commission period" });
+    }
+  });
+
+  // Float routes - a cashier requests float from (or returns it to) their branch vault,
+  // and a finance officer of the organization or an admin approves the move
+  app.get('/api/float-requests', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'cashier') {
+        return res.json(await storage.getFloatRequests({ cashierId: userId }));
+      }
+      if (user?.role === 'finance' && user.organizationId) {
+        return res.json(await storage.getFloatRequests({ organizationId: user.organizationId }));
+      }
+      if (user?.role === 'admin') {
+        return res.json(await storage.getFloatRequests({}));
+      }
+
+      res.status(403).json({ message: "Access denied" });
+    } catch (error) {
+      console.error("Error fetching float requests:", error);
+      res.status(500).json({ message: "Failed to fetch float requests" });
+    }
+  });
+
+  app.post('/api/float-requests', isAuthenticated, requireClearedUser, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'cashier') {
+        return res.status(403).json({ message: "Only cashiers can request float" });
+      }
+
+      const { type, note } = req.body;
+      if (!floatRequestTypes.includes(type)) {
+        return res.status(400).json({ message: "Type must be top_up or return" });
+      }
+
+      const amount = Money.tryParse(String(req.body.amount ?? ''));
+      if (!amount?.isPositive()) {
+        return res.status(400).json({ message: "Amount must be a positive amount" });
+      }
+
+      if (note && note.length > 255) {
+        return res.status(400).json({ message: "Note must be 255 characters or less" });
+      }
+
+      const request = await storage.createFloatRequest(userId, type, amount, note);
+      res.json(request);
+    } catch (error) {
+      console.error("Error requesting float:", error);
+
+      if (error instanceof Error && error.message === 'NO_BRANCH') {
+        return res.status(400).json({ message: "You must be assigned to a branch to request float", code: "NO_BRANCH" });
+      }
+      if (error instanceof Error && error.message === 'CURRENCY_MISMATCH') {
+        return res.status(400).json({ message: "Your wallet and branch vault hold different currencies", code: "CURRENCY_MISMATCH" });
+      }
+      if (error instanceof Error && error.message === 'INSUFFICIENT_FLOAT') {
+        return res.status(400).json({ message: "You cannot return more float than your wallet holds", code: "INSUFFICIENT_FLOAT" });
+      }
+
+      res.status(400).json({
+        message: "Failed to request float",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/float-requests/:id/approve', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only finance and admin users can approve float requests" });
+      }
+
+      const request = await storage.getFloatRequestById(requestId);
+      if (!request || (user.role === 'finance' && request.organizationId !== user.organizationId)) {
+        return res.status(404).json({ message: "Float request not found" });
+      }
+
+      const approved = await storage.approveFloatRequest(requestId, userId);
+      res.json(approved);
+    } catch (error) {
+      console.error("Error approving float request:", error);
+
+      if (error instanceof Error && error.message === 'SAME_APPROVER') {
+        return res.status(403).json({ message: "A float request must be approved by someone other than the cashier who raised it", code: "SAME_APPROVER" });
+      }
+      if (error instanceof Error && error.message === 'FLOAT_REQUEST_NOT_PENDING') {
+        return res.status(409).json({ message: "Float request is no longer pending", code: "FLOAT_REQUEST_NOT_PENDING" });
+      }
+      if (error instanceof Error && error.message === 'INSUFFICIENT_BRANCH_FLOAT') {
+        return res.status(400).json({ message: "The branch vault does not hold enough to cover this top-up", code: "INSUFFICIENT_BRANCH_FLOAT" });
+      }
+      if (error instanceof Error && error.message === 'INSUFFICIENT_FLOAT') {
+        return res.status(400).json({ message: "The cashier wallet no longer holds the amount being returned", code: "INSUFFICIENT_FLOAT" });
+      }
+      if (error instanceof Error && error.message === 'CURRENCY_MISMATCH') {
+        return res.status(400).json({ message: "The cashier wallet and branch vault hold different currencies", code: "CURRENCY_MISMATCH" });
+      }
+
+      res.status(400).json({
+        message: "Failed to approve float request",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.patch('/api/float-requests/:id/reject', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const { rejectionReason } = req.body;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin' && user?.role !== 'finance') {
+        return res.status(403).json({ message: "Only finance and admin users can reject float requests" });
+      }
+
+      if (!rejectionReason) {
+        return res.status(400).json({ message: "Rejection reason is required" });
+      }
+
+      const request = await storage.getFloatRequestById(requestId);
+      if (!request || (user.role === 'finance' && request.organizationId !== user.organizationId)) {
+        return res.status(404).json({ message: "Float request not found" });
+      }
+
+      await storage.rejectFloatRequest(requestId, userId, rejectionReason);
+      res.json({ message: "Float request rejected" });
+    } catch (error) {
+      console.error("Error rejecting float request:", error);
+
+      if (error instanceof Error && error.message === 'FLOAT_REQUEST_NOT_PENDING') {
+        return res.status(409).json({ message: "Float request is no longer pending", code: "FLOAT_REQUEST_NOT_PENDING" });
+      }
+
+      res.status(500).json({ message: "Failed to reject float request" });
+    }
+  });
+
+  // Notification routes
+  // KYC - users upload documents through /api/documents and request a higher tier
+  app.get('/api/kyc', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const documents = await storage.getKycDocuments(userId);
+      const requests = await storage.getKycRequests({ userId });
+      res.json({
+        tier: user.kycTier,
+        tiers: kycTiers.map(tier => ({ tier, requiredDocuments: requiredKycDocuments(tier, user.role) })),
+        documents: documents.map(doc => ({ ...doc, viewUrl: `/api/documents/${doc.id}/view` })),
+        requests,
+      });
+    } catch (error) {
+      console.error("Error fetching KYC status:", error);
+      res.status(500).json({ message: "Failed to fetch KYC status" });
+    }
+  });
+
+  app.post('/api/kyc/requests', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { tier } = req.body;
+
+      if (!isKycTier(tier)) {
+        return res.status(400).json({ message: "KYC tier must be basic, standard or enhanced" });
+      }
+
+      const request = await storage.createKycRequest(userId, tier);
+      res.json(request);
+    } catch (error) {
+      console.error("Error creating KYC request:", error);
+
+      if (error instanceof Error && error.message === 'KYC_TIER_NOT_HIGHER') {
+        return res.status(400).json({ message: "You already hold this tier or a higher one", code: "KYC_TIER_NOT_HIGHER" });
+      }
+      if (error instanceof Error && error.message === 'KYC_DOCUMENTS_MISSING') {
+        return res.status(400).json({ message: "Upload every document the tier requires first", code: "KYC_DOCUMENTS_MISSING" });
+      }
+      if (error instanceof Error && error.message === 'KYC_REQUEST_PENDING') {
+        return res.status(409).json({ message: "A KYC request is already waiting for review", code: "KYC_REQUEST_PENDING" });
+      }
+
+      res.status(500).json({ message: "Failed to create KYC request" });
+    }
+  });
+
+  app.get('/api/admin/kyc/requests', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const requests = await storage.getKycRequests({ status });
+      res.json(requests.map(request => ({
+        ...request,
+        documents: request.documents.map(doc => ({ ...doc, viewUrl: `/api/documents/${doc.id}/view` })),
+      })));
+    } catch (error) {
+      console.error("Error fetching KYC requests:", error);
+      res.status(500).json({ message: "Failed to fetch KYC requests" });
+    }
+  });
+
+  app.patch('/api/admin/kyc/requests/:id/approve', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const request = await storage.approveKycRequest(parseInt(req.params.id), userId);
+      res.json(request);
+    } catch (error) {
+      console.error("Error approving KYC request:", error);
+
+      if (error instanceof Error && error.message === 'SAME_APPROVER') {
+        return res.status(403).json({ message: "You cannot approve your own KYC request", code: "SAME_APPROVER" });
+      }
+      if (error instanceof Error && error.message === 'KYC_DOCUMENTS_MISSING') {
+        return res.status(400).json({ message: "The documents this tier requires are no longer on file", code: "KYC_DOCUMENTS_MISSING" });
+      }
+      if (error instanceof Error && error.message === 'KYC_REQUEST_NOT_PENDING') {
+        return res.status(409).json({ message: "KYC request has already been reviewed", code: "KYC_REQUEST_NOT_PENDING" });
+      }
+      if (error instanceof Error && error.message === 'KYC request not found') {
+        return res.status(404).json({ message: "KYC request not found" });
+      }
+
+      res.status(500).json({ message: "Failed to approve KYC request" });
+    }
+  });
+
+  app.patch('/api/admin/kyc/requests/:id/reject', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied. Admin role required." });
+      }
+
+      const { rejectionReason } = req.body;
+      if (!rejectionReason || typeof rejectionReason !== 'string') {
+        return res.status(400).json({ message: "A rejection reason is required" });
+      }
+
+      await storage.rejectKycRequest(parseInt(req.params.id), userId, rejectionReason);
+      res.json({ message: "KYC request rejected" });
+    } catch (error) {
+      console.error("Error rejecting KYC request:", error);
+
+      if (error instanceof Error && error.message === 'KYC_REQUEST_NOT_PENDING') {
+        return res.status(409).json({ message: "KYC request has already been reviewed", code: "KYC_REQUEST_NOT_PENDING" });
+      }
+
+      res.status(500).json({ message: "Failed to reject KYC request" });
+    }
+  });
+
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const notifications = await storage.getNotificationsByUserId(userId);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', isAuthenticated, withIdempotency, async (req: any, res) => {
+    try {
+      const notificationId = parseInt(req.params.id);
+      await storage.markNotificationAsRead(notificationId);
+      res.json({ message: "Notification marked as read" });
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  // Document viewing endpoint
+  app.get("/api/documents/:id/view", isAuthenticated, async (req: any, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      // Get document info
+      const document = await storage.getDocumentById(documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      // Check if user has permission to view this document
+      const user = await storage.getUser(userId);
+      let canView: boolean;
+      if (document.transactionId) {
+        const transaction = await storage.getTransactionById(document.transactionId);
+        if (!transaction) {
+          return res.status(404).json({ message: "Transaction not found" });
+        }
+
+        // Allow access if user is involved in the transaction or is admin/finance
+        canView = 
+          transaction.fromUserId === userId || 
+          transaction.toUserId === userId ||
+          transaction.processedBy === userId ||
+          user?.role === 'admin' ||
+          user?.role === 'finance';
+      } else {
+        // Documents without a transaction (KYC) are seen by their owner and admins
+        canView = document.userId === userId || user?.role === 'admin';
+      }
 
       if (!canView) {
         return res.status(403).json({ message: "Access denied" });
@@ -1260,7 +3828,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
   // Development endpoint to create test settlement requests
-  app.post('/api/dev/settlement-requests', isAuthenticated, async (req: any, res) => {
+  app.post('/api/dev/settlement-requests', isAuthenticated, withIdempotency, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const testRequests = [
@@ -0,0 +1,219 @@
+import fs from "fs";
+import path from "path";
+import { parseCsv } from "./utils";
+
+// Sanctions / PEP list, kept as a CSV file on the server and refreshed by admins. Columns:
+// name, list, aliases (semicolon separated), identifiers (account or document numbers,
+// semicolon separated). The header row is required.
+const SANCTIONS_LIST_PATH = process.env.SANCTIONS_LIST_PATH || path.join('data', 'sanctions-list.csv');
+
+// Names scoring at least this similarity (0-1) are treated as a possible match
+const NAME_MATCH_THRESHOLD = 0.85;
+
+export interface SanctionsEntry {
+  name: string;
+  list: string;
+  aliases: string[];
+  identifiers: string[];
+}
+
+export interface SanctionsMatch {
+  entry: SanctionsEntry;
+  matchedValue: string; // the listed name, alias or identifier that matched
+  score: number; // 0-100
+}
+
+let cachedEntries: SanctionsEntry[] | null = null;
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(';').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parses an uploaded list. Throws INVALID_SANCTIONS_LIST when the header is missing the name
+ * column or no entry has a name.
+ */
+export function parseSanctionsList(csv: string): SanctionsEntry[] {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  const nameIndex = columns.indexOf('name');
+  if (nameIndex === -1) {
+    throw new Error('INVALID_SANCTIONS_LIST');
+  }
+  const listIndex = columns.indexOf('list');
+  const aliasesIndex = columns.indexOf('aliases');
+  const identifiersIndex = columns.indexOf('identifiers');
+
+  const entries = rows
+    .map(fields => ({
+      name: (fields[nameIndex] ?? '').trim(),
+      list: listIndex === -1 ? 'sanctions' : (fields[listIndex] ?? '').trim() || 'sanctions',
+      aliases: aliasesIndex === -1 ? [] : splitList(fields[aliasesIndex]),
+      identifiers: identifiersIndex === -1 ? [] : splitList(fields[identifiersIndex]),
+    }))
+    .filter(entry => entry.name);
+  if (entries.length === 0) {
+    throw new Error('INVALID_SANCTIONS_LIST');
+  }
+  return entries;
+}
+
+function loadSanctionsList(): SanctionsEntry[] {
+  if (cachedEntries) {
+    return cachedEntries;
+  }
+  if (!fs.existsSync(SANCTIONS_LIST_PATH)) {
+    console.warn(`No sanctions list at ${SANCTIONS_LIST_PATH} - screening passes everyone until one is uploaded`);
+    cachedEntries = [];
+    return cachedEntries;
+  }
+  cachedEntries = parseSanctionsList(fs.readFileSync(SANCTIONS_LIST_PATH, 'utf8'));
+  return cachedEntries;
+}
+
+/**
+ * Validates and stores a new list, replacing the old one. Returns the number of entries.
+ */
+export function replaceSanctionsList(csv: string): number {
+  const entries = parseSanctionsList(csv);
+  fs.mkdirSync(path.dirname(SANCTIONS_LIST_PATH), { recursive: true });
+  // Write beside the old list and swap, so screening never reads a half-written file
+  const tempPath = `${SANCTIONS_LIST_PATH}.tmp`;
+  fs.writeFileSync(tempPath, csv);
+  fs.renameSync(tempPath, SANCTIONS_LIST_PATH);
+  cachedEntries = entries;
+  return entries.length;
+}
+
+export function getSanctionsListInfo(): { entries: number; updatedAt: Date | null } {
+  const updatedAt = fs.existsSync(SANCTIONS_LIST_PATH) ? fs.statSync(SANCTIONS_LIST_PATH).mtime : null;
+  return { entries: loadSanctionsList().length, updatedAt };
+}
+
+// Lower case, accents and punctuation removed, single spaces
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * How alike two names are, 0-1. Tolerates spelling differences, reordered names
+ * ("Smith John") and a missing middle name.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return 0;
+  }
+
+  const leftTokens = left.split(' ');
+  const rightTokens = right.split(' ');
+  let score = Math.max(
+    similarity(left, right),
+    similarity(leftTokens.slice().sort().join(' '), rightTokens.slice().sort().join(' '))
+  );
+
+  // Every part of the shorter name closely matches a part of the longer one
+  const [shorter, longer] = leftTokens.length <= rightTokens.length ? [leftTokens, rightTokens] : [rightTokens, leftTokens];
+  if (shorter.length >= 2) {
+    const tokenScores = shorter.map(token => Math.max(...longer.map(other => similarity(token, other))));
+    const weakest = Math.min(...tokenScores);
+    if (weakest >= NAME_MATCH_THRESHOLD) {
+      score = Math.max(score, weakest * 0.95);
+    }
+  }
+  return score;
+}
+
+/**
+ * Listed names or aliases that look like the given name, best match first
+ */
+export function screenName(name: string): SanctionsMatch[] {
+  if (!normalizeName(name)) {
+    return [];
+  }
+
+  const matches: SanctionsMatch[] = [];
+  for (const entry of loadSanctionsList()) {
+    let best: { value: string; score: number } | null = null;
+    for (const candidate of [entry.name, ...entry.aliases]) {
+      const score = nameSimilarity(name, candidate);
+      if (score >= NAME_MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { value: candidate, score };
+      }
+    }
+    if (best) {
+      matches.push({ entry, matchedValue: best.value, score: Math.round(best.score * 100) });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Listed entries carrying the given account or document number. Identifiers match exactly,
+ * ignoring spaces, dashes and case.
+ */
+export function screenIdentifier(value: string): SanctionsMatch[] {
+  const normalize = (identifier: string) => identifier.replace(/[\s-]/g, '').toLowerCase();
+  const wanted = normalize(value);
+  if (!wanted) {
+    return [];
+  }
+
+  const matches: SanctionsMatch[] = [];
+  for (const entry of loadSanctionsList()) {
+    const identifier = entry.identifiers.find(candidate => normalize(candidate) === wanted);
+    if (identifier) {
+      matches.push({ entry, matchedValue: identifier, score: 100 });
+    }
+  }
+  return matches;
+}
+
+// A possible match together with the value that was screened
+export interface ScreeningHit {
+  screenedValue: string;
+  match: SanctionsMatch;
+}
+
+export function screenPerson(name: string): ScreeningHit[] {
+  return screenName(name).map(match => ({ screenedValue: name, match }));
+}
+
+/**
+ * Screens a settlement beneficiary - the account holder and the bank by name, the account by number
+ */
+export function screenSettlementBeneficiary(bankName: string, accountName: string, accountNumber: string): ScreeningHit[] {
+  return [
+    ...screenName(accountName).map(match => ({ screenedValue: accountName, match })),
+    ...screenName(bankName).map(match => ({ screenedValue: bankName, match })),
+    ...screenIdentifier(accountNumber).map(match => ({ screenedValue: accountNumber, match })),
+  ];
+}
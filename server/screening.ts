@@ -0,0 +1,22 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+
+// Keeps users whose sanctions screening is unresolved (hold) or confirmed (blocked) away from
+// money-moving routes. Must come after isAuthenticated.
+export const requireClearedUser: RequestHandler = async (req: any, res, next) => {
+  try {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (user && user.screeningStatus !== 'clear') {
+      return res.status(403).json({
+        message: user.screeningStatus === 'blocked'
+          ? "Your account has been blocked following a compliance review"
+          : "Your account is on hold pending a compliance review",
+        code: "ACCOUNT_ON_HOLD",
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Error checking screening status:", error);
+    res.status(500).json({ message: "Failed to check account status" });
+  }
+};
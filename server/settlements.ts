@@ -0,0 +1,98 @@
+import { storage } from "./storage";
+import { screenSettlementBeneficiary } from "./sanctions";
+import { Money } from "@shared/money";
+import { findBank } from "@shared/bank-accounts";
+import { insertSettlementRequestSchema, type OrganizationBankAccount, type SettlementRequest } from "@shared/schema";
+
+// Settlement request creation, shared by the finance portal and scheduled sweeps so both apply
+// the same capacity, beneficiary, fee, approval and screening rules.
+
+export interface SettlementCapacity {
+  todaysCollections: number;
+  todaysUsage: number;
+  capacity: Money; // what can still be settled today, never negative
+}
+
+/**
+ * Today's collections less what has already been requested for settlement today
+ */
+export async function getSettlementCapacity(organizationId: number, currency: string): Promise<SettlementCapacity> {
+  const todaysCollections = await storage.getTodaysCollectionsByOrganization(organizationId, currency);
+  const todaysUsage = await storage.getTodaysSettlementUsage(organizationId, currency);
+  return {
+    todaysCollections,
+    todaysUsage,
+    capacity: Money.max(Money.parse(todaysCollections).subtract(Money.parse(todaysUsage)), Money.zero()),
+  };
+}
+
+/**
+ * Why an account cannot receive an organization's settlement right now, or null when it can.
+ * Settlements are paid only to the organization's approved accounts past their cooling-off period.
+ */
+export function bankAccountUnavailableReason(
+  account: OrganizationBankAccount | undefined,
+  organizationId: number
+): { code: string; message: string } | null {
+  if (!account || account.organizationId !== organizationId) {
+    return { code: "BANK_ACCOUNT_NOT_FOUND", message: "Choose one of your organization's registered bank accounts" };
+  }
+  if (account.status !== 'active') {
+    return { code: "BANK_ACCOUNT_NOT_ACTIVE", message: "This bank account is not approved for settlements" };
+  }
+  if (!account.availableFrom || account.availableFrom > new Date()) {
+    return {
+      code: "BANK_ACCOUNT_COOLING_OFF",
+      message: `This bank account can receive settlements from ${account.availableFrom?.toLocaleString()}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Creates a settlement request for an amount already checked against capacity and an account
+ * already checked with bankAccountUnavailableReason. The fee and approval quorum are fixed now;
+ * a beneficiary resembling a sanctions or watch list entry puts the request on hold.
+ */
+export async function submitSettlementRequest(details: {
+  organizationId: number;
+  userId: string;
+  amount: Money;
+  currency: string;
+  bankAccount: OrganizationBankAccount;
+  priority: string;
+  sweepRuleId?: number;
+}): Promise<SettlementRequest> {
+  const { organizationId, amount, currency, bankAccount } = details;
+  const bankName = findBank(bankAccount.bankCode)?.name ?? bankAccount.bankCode;
+
+  // The settlement fee is withheld from the payout
+  const { fee, feeScheduleId } = await storage.quoteFee(organizationId, 'settlement', currency, amount);
+
+  // The approval matrix sets how many distinct admins must approve this amount
+  const requiredApprovals = await storage.getRequiredApprovals(organizationId, currency, amount);
+
+  const screeningHits = screenSettlementBeneficiary(bankName, bankAccount.accountName, bankAccount.accountNumber);
+
+  const requestData = insertSettlementRequestSchema.parse({
+    organizationId,
+    userId: details.userId,
+    amount: amount.toDecimal(),
+    currency,
+    feeAmount: fee.toDecimal(),
+    feeScheduleId,
+    bankAccountId: bankAccount.id,
+    bankName,
+    accountNumber: bankAccount.accountNumber,
+    sweepRuleId: details.sweepRuleId ?? null,
+    requiredApprovals,
+    status: screeningHits.length > 0 ? "hold" : "pending",
+    priority: details.priority,
+  });
+
+  const request = await storage.createSettlementRequest(requestData);
+  if (screeningHits.length > 0) {
+    await storage.recordScreeningMatches({ settlementRequestId: request.id }, screeningHits);
+  }
+  return request;
+}
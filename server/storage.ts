@@ -8,6 +8,33 @@ import {
   settlementRequests,
   qrCodes,
   notifications,
+  ledgerEntries,
+  reconciliationRuns,
+  reconciliationExceptions,
+  fxConversions,
+  feeSchedules,
+  approvalMatrices,
+  organizationBankAccounts,
+  settlementSweepRules,
+  settlementSweepRuns,
+  settlementApprovals,
+  payoutBatches,
+  bankStatements,
+  bankStatementLines,
+  walletLimits,
+  commissionPlans,
+  commissionAccruals,
+  commissionPayables,
+  walletDailySnapshots,
+  floatRequests,
+  kycRequests,
+  fraudRules,
+  fraudFlags,
+  strReports,
+  strReportEvents,
+  screeningMatches,
+  idempotencyKeys,
+  transactionStatusHistory,
   type User,
   type UpsertUser,
   type Organization,
@@ -17,6 +44,7 @@ import {
   type Wallet,
   type Transaction,
   type InsertTransaction,
+  type TransactionStatusChange,
   type Document,
   type InsertDocument,
   type SettlementRequest,
@@ -25,10 +53,199 @@ import {
   type InsertQrCode,
   type Notification,
   type InsertNotification,
+  type LedgerEntry,
+  type ReconciliationRun,
+  type ReconciliationException,
+  type FxConversion,
+  type InsertFxConversion,
+  type FeeSchedule,
+  type InsertFeeSchedule,
+  type OrganizationBankAccount,
+  type InsertOrganizationBankAccount,
+  type SettlementSweepRule,
+  type InsertSettlementSweepRule,
+  type SettlementSweepRun,
+  type ApprovalMatrix,
+  type InsertApprovalMatrix,
+  type SettlementApproval,
+  type PayoutBatch,
+  type BankStatement,
+  type BankStatementLine,
+  type WalletLimit,
+  type InsertWalletLimit,
+  type CommissionPlan,
+  type InsertCommissionPlan,
+  type CommissionAccrual,
+  type CommissionPayable,
+  type WalletDailySnapshot,
+  type FloatRequest,
+  type KycRequest,
+  type FraudRule,
+  type InsertFraudRule,
+  type FraudFlag,
+  type StrReport,
+  type StrReportEvent,
+  type ScreeningMatch,
+  type IdempotencyKey,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, gte, lt, sql, or, isNull, gt, not, inArray } from "drizzle-orm";
-import { generateTransactionId } from "./utils";
+import { db, type DbExecutor, type DbTransaction } from "./db";
+import { eq, desc, and, gte, lt, lte, sql, or, isNull, isNotNull, gt, not, inArray } from "drizzle-orm";
+import { Money } from "@shared/money";
+import { DEFAULT_CURRENCY } from "@shared/currency";
+import { calculateFee } from "@shared/fees";
+import { requiredApprovals } from "@shared/approvals";
+import { bankAccountAvailableFrom, findBank } from "@shared/bank-accounts";
+import type { SweepRuleStatus, SweepRunStatus } from "@shared/sweeps";
+import type { PayoutFileFormat, PayoutResult } from "@shared/payouts";
+import { capWalletLimits, defaultWalletLimits, isLimitedRole, limitLabels, resolveWalletLimits, type EffectiveWalletLimits } from "@shared/limits";
+import { isHigherKycTier, isKycTier, kycDocumentTypes, requiredKycDocuments, type KycTier } from "@shared/kyc";
+import { calculateCommission } from "@shared/commissions";
+import { completionFraudRuleTypes, strongestFraudDecision, type FraudDecision, type FraudRuleType } from "@shared/fraud";
+import type { StrReportContent, StrReportParty } from "@shared/str-reports";
+import { canTransitionTransaction } from "@shared/transaction-status";
+import { canReviewSettlement } from "@shared/settlement-status";
+import { generateTransactionId, generateJournalId, generateStrReportNumber, generatePayoutBatchNumber, isNewBusinessDay, toBusinessDate } from "./utils";
+import { renderPayoutFile } from "./payout-files";
+import { statementLineMatches, type ParsedStatement } from "./bank-statements";
+import { screenPerson, type ScreeningHit } from "./sanctions";
+import crypto from "crypto";
+
+// One debit or credit leg of a journal; walletId is omitted for system accounts
+export interface LedgerLeg {
+  account: string;
+  walletId?: number | null;
+  direction: 'debit' | 'credit';
+  amount: Money;
+  currency: string;
+}
+
+export interface JournalPosting {
+  description: string;
+  transactionId?: number;
+  settlementRequestId?: number;
+  floatRequestId?: number;
+  legs: LedgerLeg[];
+}
+
+// What a transaction moves: its amount in its own currency, plus the recorded conversion
+// used for any participant wallet held in another currency. The fee (same currency as the
+// amount) is withheld from what reaches the organization treasury.
+export interface PostingAmount {
+  amount: Money;
+  currency: string;
+  fxConversion?: FxConversion | null;
+  fee?: Money;
+}
+
+// What the processing cashier counted and read off the VMF when completing a transaction
+export interface CashVerification {
+  amount: Money;
+  vmfNumber: string;
+}
+
+export interface CommissionStatement {
+  accruals: (CommissionAccrual & { transactionRef: string | null })[];
+  payables: CommissionPayable[];
+  totals: { currency: string; accrued: string; payable: string }[];
+}
+
+// Float request with who raised it and the branch vault it draws on
+export interface FloatRequestWithDetails extends FloatRequest {
+  cashierName: string | null;
+  branchName: string;
+  branchBalance: string;
+}
+
+// KYC request with who raised it and the documents they have on file
+export interface KycRequestWithDetails extends KycRequest {
+  userName: string | null;
+  userRole: string | null;
+  documents: Document[];
+}
+
+// A fraud rule that fired on a transaction request, and why
+export interface FraudRuleHit {
+  rule: FraudRule;
+  decision: FraudDecision;
+  reason: string;
+}
+
+export interface FraudEvaluation {
+  decision: FraudDecision;
+  hits: FraudRuleHit[];
+}
+
+// Transaction held for review with the flags that held it
+export interface FlaggedTransaction extends Transaction {
+  flags: FraudFlag[];
+}
+
+// Screening match with who or what was screened, for analyst review
+export interface ScreeningMatchWithSubject extends ScreeningMatch {
+  subjectName: string | null;
+  settlement: { bankName: string; accountNumber: string; amount: string; currency: string; status: string } | null;
+}
+
+// Registered bank account with its organization's name
+export interface OrganizationBankAccountWithOrganization extends OrganizationBankAccount {
+  organizationName: string | null;
+}
+
+// Sweep rule with its organization's name
+export interface SettlementSweepRuleWithOrganization extends SettlementSweepRule {
+  organizationName: string | null;
+}
+
+// Sweep run with the current status of the settlement it requested
+export interface SettlementSweepRunWithSettlement extends SettlementSweepRun {
+  settlementStatus: string | null;
+}
+
+// Settlement request with the admins who have approved it so far
+export interface SettlementRequestWithApprovals extends SettlementRequest {
+  approvals: { approverId: string; approverName: string | null; createdAt: Date | null }[];
+}
+
+// Payout batch with the settlements it pays
+export interface PayoutBatchWithSettlements extends PayoutBatch {
+  organizationName: string | null;
+  settlements: SettlementRequest[];
+}
+
+// Statement line with the statement it came from
+export interface BankStatementLineWithStatement extends BankStatementLine {
+  organizationId: number | null;
+  fileName: string;
+}
+
+export interface BankReconciliationWorklist {
+  lines: BankStatementLineWithStatement[];
+  settlements: SettlementRequest[];
+}
+
+// Statuses a settlement request can still collect approvals in
+const SETTLEMENT_AWAITING_APPROVAL = ['pending', 'partially_approved', 'hold'];
+
+// Statuses of an approved settlement whose money has not yet been seen to arrive
+const SETTLEMENT_AWAITING_PAYMENT = ['approved', 'processing'];
+
+// Statuses of a settlement whose amount has left the treasury (a failed payout is refunded)
+const SETTLEMENT_DEBITED = [...SETTLEMENT_AWAITING_PAYMENT, 'completed'];
+
+// Platform revenue wallets (one per currency) belong to no user; fees are posted to them
+const PLATFORM_REVENUE_USER_ID = "platform_revenue";
+
+// An organization's treasury wallet is owned by the organization, not a finance officer. Its
+// userId is a reserved key so it locks alongside user wallets (see migrations/0002).
+function treasuryUserId(organizationId: number): string {
+  return `org_treasury_${organizationId}`;
+}
+
+// How long a stored Idempotency-Key response is replayed for
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Transaction types where the cashier takes in physical cash, so the cashier's branch holds more
+const BRANCH_CASH_TRANSACTION_TYPES = ['cash_digitization', 'qr_code_payment'];
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -39,30 +256,46 @@ export interface IStorage {
   createOrganization(org: InsertOrganization): Promise<Organization>;
   getOrganizationById(id: number): Promise<Organization | undefined>;
   getOrganizationsByUserId(userId: string): Promise<Organization[]>;
+  getAllOrganizations(): Promise<Organization[]>;
   updateOrganization(organizationId: number, data: Partial<InsertOrganization>): Promise<Organization>;
   
   // Branch operations
   createBranch(branch: InsertBranch): Promise<Branch>;
   getBranchesByOrganization(organizationId: number): Promise<Branch[]>;
+  getBranchById(branchId: number): Promise<Branch | undefined>;
   updateBranch(branchId: number, data: Partial<InsertBranch>): Promise<Branch>;
   updateBranchBalance(branchId: number, balance: string): Promise<void>;
+  getBranchAssignableUsers(organizationId: number): Promise<User[]>;
+  assignUserToBranch(userId: string, organizationId: number, branchId: number | null): Promise<User>;
   
   // Wallet operations
   getOrCreateWallet(userId: string): Promise<Wallet>;
+  getWalletById(walletId: number): Promise<Wallet | undefined>;
+  getOrCreateTreasuryWallet(organizationId: number): Promise<Wallet>;
+  getOperatingWallet(user: User): Promise<Wallet>;
   updateWalletBalance(userId: string, balance: string): Promise<void>;
-  checkTransferLimits(userId: string, amount: number): Promise<{ allowed: boolean; reason?: string }>;
-  updateDailyTransactionAmounts(userId: string, amount: number, role: string, transactionType?: string): Promise<void>;
+  checkTransferLimits(userId: string, posting: PostingAmount): Promise<{ allowed: boolean; reason?: string }>;
+  updateDailyTransactionAmounts(userId: string, posting: PostingAmount, role: string, transactionType?: string, transactionId?: number): Promise<void>;
+  completeTransaction(id: number, processorId: string, verification: CashVerification): Promise<Transaction>;
+  
+  // Reversal operations (maker-checker)
+  createReversalRequest(originalId: number, requestedBy: string, reasonCode: string, reasonComment?: string): Promise<Transaction>;
+  approveReversal(reversalId: number, approvedBy: string): Promise<Transaction>;
+  rejectReversal(reversalId: number, rejectedBy: string, rejectionReason: string): Promise<void>;
   checkAndResetDailySpending(wallet: Wallet): Promise<void>;
+  closeBusinessDay(force?: boolean): Promise<number>;
+  getWalletSnapshots(from: string, to: string, organizationId?: number, walletId?: number): Promise<(WalletDailySnapshot & { user: { email: string | null; role: string } | null })[]>;
   getTodayTransactionTotals(userId: string): Promise<{ completed: string; total: string }>;
   
   // Transaction operations
-  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  createTransaction(transaction: InsertTransaction, createdBy?: string): Promise<Transaction>;
   getTransactionsByUserId(userId: string): Promise<Transaction[]>;
   getAllTransactionsByCashier(userId: string): Promise<Transaction[]>;
   getAllTransactions(): Promise<Transaction[]>;
   getTransactionById(id: number): Promise<Transaction | undefined>;
-  updateTransactionStatus(id: number, status: string, rejectionReason?: string): Promise<void>;
-  updateTransactionProcessor(id: number, processorId: string): Promise<void>;
+  getTransactionsByRefs(refs: string[]): Promise<Transaction[]>;
+  updateTransactionStatus(id: number, status: string, actorId: string, rejectionReason?: string): Promise<Transaction>;
+  getTransactionStatusHistory(transactionId: number): Promise<TransactionStatusChange[]>;
   updateTransactionPriority(id: number, priority: string): Promise<void>;
   getPendingTransactionsByReceiver(userId: string): Promise<Transaction[]>;
   getAllPendingTransactions(): Promise<Transaction[]>;
@@ -78,9 +311,145 @@ export interface IStorage {
   createSettlementRequest(request: InsertSettlementRequest): Promise<SettlementRequest>;
   getSettlementRequestsByOrganization(organizationId: number): Promise<SettlementRequest[]>;
   getPendingSettlementRequests(): Promise<SettlementRequest[]>;
-  getAllSettlementRequests(): Promise<SettlementRequest[]>;
+  getAllSettlementRequests(): Promise<SettlementRequestWithApprovals[]>;
+  approveSettlementRequest(id: number, approverId: string): Promise<SettlementRequest>;
   updateSettlementRequestStatus(id: number, status: string, reviewedBy?: string, holdReason?: string, rejectReason?: string, reasonComment?: string): Promise<void>;
   
+  // Ledger operations
+  postJournal(posting: JournalPosting): Promise<LedgerEntry[]>;
+  getLedgerEntriesByWallet(walletId: number): Promise<LedgerEntry[]>;
+  getLedgerEntriesByJournal(journalId: string): Promise<LedgerEntry[]>;
+  getWalletLedgerBalance(walletId: number): Promise<Money>;
+  
+  // FX operations
+  createFxConversion(conversion: InsertFxConversion): Promise<FxConversion>;
+  getFxConversionById(id: number): Promise<FxConversion | undefined>;
+  getRecentFxConversions(limit?: number): Promise<FxConversion[]>;
+  linkFxConversionToTransaction(id: number, transactionId: number): Promise<void>;
+  
+  // Fee operations
+  createFeeSchedule(schedule: InsertFeeSchedule): Promise<FeeSchedule>;
+  getFeeSchedules(organizationId?: number): Promise<FeeSchedule[]>;
+  deactivateFeeSchedule(id: number): Promise<FeeSchedule | undefined>;
+  quoteFee(organizationId: number | null | undefined, transactionType: string, currency: string, amount: Money): Promise<{ fee: Money; feeScheduleId: number | null }>;
+  getPlatformRevenueWallets(): Promise<Wallet[]>;
+  
+  // Bank account operations (registered beneficiary accounts, approved under dual control)
+  createBankAccount(account: InsertOrganizationBankAccount): Promise<OrganizationBankAccount>;
+  getBankAccounts(organizationId?: number): Promise<OrganizationBankAccountWithOrganization[]>;
+  getBankAccountById(id: number): Promise<OrganizationBankAccount | undefined>;
+  approveBankAccount(id: number, reviewerId: string): Promise<OrganizationBankAccount>;
+  rejectBankAccount(id: number, reviewerId: string, rejectionReason: string): Promise<OrganizationBankAccount>;
+  deactivateBankAccount(id: number, userId: string): Promise<OrganizationBankAccount>;
+  
+  // Sweep operations (settlement requests raised on a schedule)
+  createSweepRule(rule: InsertSettlementSweepRule): Promise<SettlementSweepRule>;
+  getSweepRules(organizationId?: number): Promise<SettlementSweepRuleWithOrganization[]>;
+  getSweepRuleById(id: number): Promise<SettlementSweepRule | undefined>;
+  setSweepRuleStatus(id: number, status: SweepRuleStatus, userId: string): Promise<SettlementSweepRule>;
+  getSweepRuns(organizationId?: number): Promise<SettlementSweepRunWithSettlement[]>;
+  getSweepRulesAwaitingRun(businessDate: string): Promise<SettlementSweepRule[]>;
+  claimSweepRun(rule: SettlementSweepRule, businessDate: string): Promise<SettlementSweepRun | undefined>;
+  finishSweepRun(
+    id: number,
+    outcome: { status: SweepRunStatus; capacity?: string; amount?: string; settlementRequestId?: number; reason?: string }
+  ): Promise<SettlementSweepRun>;
+  
+  // Approval matrix operations
+  createApprovalMatrix(matrix: InsertApprovalMatrix): Promise<ApprovalMatrix>;
+  getApprovalMatrices(): Promise<ApprovalMatrix[]>;
+  deactivateApprovalMatrix(id: number): Promise<ApprovalMatrix | undefined>;
+  getRequiredApprovals(organizationId: number, currency: string, amount: Money): Promise<number>;
+  
+  // Limit operations
+  createWalletLimit(rule: InsertWalletLimit): Promise<WalletLimit>;
+  getWalletLimits(): Promise<WalletLimit[]>;
+  deactivateWalletLimit(id: number): Promise<WalletLimit | undefined>;
+  getEffectiveWalletLimits(wallet: Wallet, user: User | undefined): Promise<EffectiveWalletLimits | null>;
+  checkTransactionLimits(transaction: Transaction): Promise<{ allowed: boolean; reason?: string }>;
+  
+  // Fraud operations (rules run before a transaction is created or completed, admins review what they hold)
+  createFraudRule(rule: InsertFraudRule): Promise<FraudRule>;
+  getFraudRules(): Promise<FraudRule[]>;
+  deactivateFraudRule(id: number): Promise<FraudRule | undefined>;
+  evaluateFraudRules(candidate: InsertTransaction): Promise<FraudEvaluation>;
+  evaluateCompletionFraudRules(transaction: Transaction, processorId: string): Promise<FraudEvaluation>;
+  holdTransactionForReview(id: number, heldBy: string): Promise<Transaction>;
+  recordFraudFlags(transactionId: number | null, requestedBy: string, hits: FraudRuleHit[]): Promise<void>;
+  getFlaggedTransactions(): Promise<FlaggedTransaction[]>;
+  getBlockedFraudFlags(limit?: number): Promise<FraudFlag[]>;
+  releaseFlaggedTransaction(id: number, releasedBy: string, expiresAt: Date): Promise<Transaction>;
+  
+  // Commission operations
+  createCommissionPlan(plan: InsertCommissionPlan): Promise<CommissionPlan>;
+  getCommissionPlans(organizationId?: number): Promise<CommissionPlan[]>;
+  deactivateCommissionPlan(id: number): Promise<CommissionPlan | undefined>;
+  getCommissionStatement(cashierId: string, from?: Date, to?: Date): Promise<CommissionStatement>;
+  closeCommissionPeriod(organizationId: number, periodEnd: Date, closedBy: string): Promise<CommissionPayable[]>;
+  
+  // Float operations (cashier raises, finance or admin approves)
+  createFloatRequest(cashierId: string, type: string, amount: Money, note?: string): Promise<FloatRequest>;
+  getFloatRequestById(id: number): Promise<FloatRequest | undefined>;
+  getFloatRequests(filter: { cashierId?: string; organizationId?: number }): Promise<FloatRequestWithDetails[]>;
+  approveFloatRequest(id: number, approvedBy: string): Promise<FloatRequest>;
+  rejectFloatRequest(id: number, rejectedBy: string, rejectionReason: string): Promise<void>;
+  
+  // KYC operations (user uploads and requests a tier, admin approves)
+  getKycDocuments(userId: string): Promise<Document[]>;
+  createKycRequest(userId: string, requestedTier: KycTier): Promise<KycRequest>;
+  getKycRequests(filter: { userId?: string; status?: string }): Promise<KycRequestWithDetails[]>;
+  approveKycRequest(id: number, approvedBy: string): Promise<KycRequest>;
+  rejectKycRequest(id: number, rejectedBy: string, rejectionReason: string): Promise<void>;
+  
+  // Screening operations (sanctions / PEP matches wait for an analyst)
+  recordScreeningMatches(subject: { userId: string } | { settlementRequestId: number }, hits: ScreeningHit[]): Promise<void>;
+  getScreeningMatches(status?: string): Promise<ScreeningMatchWithSubject[]>;
+  reviewScreeningMatch(id: number, reviewerId: string, decision: 'cleared' | 'confirmed', note?: string): Promise<ScreeningMatch>;
+  
+  // Payout operations (approved settlements -> payment file -> processing -> completed/failed)
+  createPayoutBatch(organizationId: number, currency: string, format: PayoutFileFormat, generatedBy: string): Promise<PayoutBatch>;
+  getPayoutBatches(organizationId?: number): Promise<PayoutBatch[]>;
+  getSettlementsReadyForPayout(): Promise<{ organizationId: number; organizationName: string | null; currency: string; count: number; amount: string }[]>;
+  getPayoutBatchById(id: number): Promise<PayoutBatchWithSettlements | undefined>;
+  regeneratePayoutBatchFile(id: number, format: PayoutFileFormat | undefined, generatedBy: string): Promise<PayoutBatch>;
+  markPayoutBatchProcessing(id: number, userId: string): Promise<PayoutBatch>;
+  recordPayoutResult(settlementRequestId: number, result: PayoutResult, userId: string, failureReason?: string): Promise<SettlementRequest>;
+  
+  // Bank statement operations (imported statements prove settlements were paid)
+  importBankStatement(
+    parsed: ParsedStatement,
+    details: { organizationId: number | null; format: string; fileName: string; fileHash: string; accountNumber?: string; importedBy: string }
+  ): Promise<BankStatement>;
+  getBankStatements(organizationId?: number): Promise<BankStatement[]>;
+  getBankReconciliationWorklist(organizationId?: number): Promise<BankReconciliationWorklist>;
+  getBankStatementLineById(id: number): Promise<BankStatementLineWithStatement | undefined>;
+  matchBankStatementLine(lineId: number, settlementRequestId: number, userId: string): Promise<BankStatementLine>;
+  resolveBankStatementLine(lineId: number, userId: string, note: string): Promise<BankStatementLine>;
+  
+  // STR operations (compliance drafts a report, a second admin approves and it is frozen)
+  createStrReport(preparedBy: string, transactionIds: number[], narrative: string): Promise<StrReport>;
+  getStrReports(): Promise<StrReport[]>;
+  getStrReportById(id: number): Promise<StrReport | undefined>;
+  updateStrReport(id: number, actorId: string, changes: { transactionIds: number[]; narrative: string }): Promise<StrReport>;
+  submitStrReportForApproval(id: number, actorId: string): Promise<StrReport>;
+  returnStrReport(id: number, actorId: string, reason: string): Promise<StrReport>;
+  approveStrReport(id: number, approvedBy: string): Promise<StrReport>;
+  getStrReportContent(report: StrReport): Promise<StrReportContent>;
+  getStrReportEvents(reportId: number): Promise<StrReportEvent[]>;
+  recordStrReportExport(reportId: number, actorId: string, format: string): Promise<void>;
+  
+  // Reconciliation operations
+  runWalletReconciliation(triggeredBy: string): Promise<ReconciliationRun>;
+  getLatestReconciliationRun(triggeredBy?: string): Promise<ReconciliationRun | undefined>;
+  getReconciliationExceptions(status?: string): Promise<(ReconciliationException & { user: User | null })[]>;
+  acknowledgeReconciliationException(id: number, acknowledgedBy: string, note?: string): Promise<ReconciliationException>;
+  
+  // Idempotency operations
+  claimIdempotencyKey(userId: string, key: string, method: string, path: string, requestHash: string): Promise<{ record: IdempotencyKey; isNew: boolean }>;
+  completeIdempotencyKey(id: number, responseStatus: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(id: number): Promise<void>;
+  purgeExpiredIdempotencyKeys(): Promise<number>;
+  
   // Notification operations
   createNotification(notification: InsertNotification): Promise<Notification>;
   getNotificationsByUserId(userId: string): Promise<Notification[]>;
@@ -88,11 +457,11 @@ export interface IStorage {
   
   // Finance operations
   getMerchantWalletsByOrganization(organizationId: number): Promise<(Wallet & { user: User })[]>;
-  getPendingSettlementsTotal(organizationId: number): Promise<number>;
-  getTodaysSettlementUsage(organizationId: number): Promise<number>;
+  getPendingSettlementsTotal(organizationId: number, currency?: string): Promise<number>;
+  getTodaysSettlementUsage(organizationId: number, currency?: string): Promise<number>;
   getSettlementBreakdown(organizationId: number): Promise<{ status: string; total: number; count: number }[]>;
   getMonthlySettlementBreakdown(organizationId: number, period: 'weekly' | 'monthly' | 'yearly'): Promise<{ approved: number; rejected: number; pending: number; approvedCount: number; rejectedCount: number; pendingCount: number }>;
-  getTodaysCollectionsByOrganization(organizationId: number): Promise<number>;
+  getTodaysCollectionsByOrganization(organizationId: number, currency?: string): Promise<number>;
   
   // QR Code operations
   createQrCode(qrCodeData: InsertQrCode): Promise<QrCode>;
@@ -110,6 +479,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = await this.getUser(userData.id!);
     const [user] = await db
       .insert(users)
       .values(userData)
@@ -127,6 +497,18 @@ export class DatabaseStorage implements IStorage {
       await this.getOrCreateWallet(user.id);
     }
 
+    // Users are screened when they join and whenever their name changes; a possible match
+    // holds them until an analyst decides
+    const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+    const previousName = existing ? [existing.firstName, existing.lastName].filter(Boolean).join(' ') : null;
+    if (user && name && name !== previousName) {
+      const hits = screenPerson(name);
+      if (hits.length > 0) {
+        await this.recordScreeningMatches({ userId: user.id }, hits);
+        return (await this.getUser(user.id))!;
+      }
+    }
+
     return user;
   }
 
@@ -147,6 +529,13 @@ export class DatabaseStorage implements IStorage {
     return org;
   }
 
+  async getAllOrganizations(): Promise<Organization[]> {
+    return await db
+      .select()
+      .from(organizations)
+      .orderBy(organizations.name);
+  }
+
   async getOrganizationsByUserId(userId: string): Promise<Organization[]> {
     const user = await this.getUser(userId);
     if (!user?.organizationId) return [];
@@ -201,6 +590,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(branches.name);
   }
 
+  async getBranchById(branchId: number): Promise<Branch | undefined> {
+    const [branch] = await db.select().from(branches).where(eq(branches.id, branchId));
+    return branch;
+  }
+
   async updateBranch(branchId: number, data: Partial<InsertBranch>): Promise<Branch> {
     // Convert empty strings to null for optional fields
     const updateData: any = {
@@ -239,7 +633,104 @@ export class DatabaseStorage implements IStorage {
       .where(eq(branches.id, branchId));
   }
 
+  // Cashiers and merchants a finance officer can place in a branch: those already in the
+  // organization and those not yet in any organization
+  async getBranchAssignableUsers(organizationId: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(
+        and(
+          inArray(users.role, ['cashier', 'merchant']),
+          or(eq(users.organizationId, organizationId), isNull(users.organizationId))
+        )
+      )
+      .orderBy(users.role, users.email);
+  }
+
+  // Assigning a branch also places the user in the branch's organization
+  async assignUserToBranch(userId: string, organizationId: number, branchId: number | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        branchId,
+        ...(branchId !== null && { organizationId }),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error("User not found");
+    }
+
+    return updatedUser;
+  }
+
+  // Moves a branch's cash holding by delta (negative to reduce it) and locks the branch row
+  private async adjustBranchBalance(tx: DbTransaction, branchId: number, delta: Money): Promise<void> {
+    const [branch] = await tx
+      .select()
+      .from(branches)
+      .where(eq(branches.id, branchId))
+      .for('update');
+    if (!branch) return;
+
+    await tx
+      .update(branches)
+      .set({
+        balance: Money.parse(branch.balance).add(delta).toDecimal(),
+        updatedAt: new Date(),
+      })
+      .where(eq(branches.id, branchId));
+  }
+
+  // Branch that takes in the cash of a completed transaction: the processing cashier's branch,
+  // for cash-in transaction types and only when the branch holds the transaction currency
+  private async getCashBranch(transaction: Transaction, processorId: string): Promise<Branch | undefined> {
+    if (!BRANCH_CASH_TRANSACTION_TYPES.includes(transaction.type)) return undefined;
+
+    const processor = await this.getUser(processorId);
+    if (processor?.role !== 'cashier' || !processor.branchId) return undefined;
+
+    const [branch] = await db.select().from(branches).where(eq(branches.id, processor.branchId));
+    return branch?.currency === transaction.currency ? branch : undefined;
+  }
+
   // Wallet operations
+  // The organization's treasury - collections land here and settlements are paid from it.
+  // Any finance officer of the organization operates it.
+  async getOrCreateTreasuryWallet(organizationId: number): Promise<Wallet> {
+    const [existingTreasury] = await db
+      .select()
+      .from(wallets)
+      .where(eq(wallets.organizationId, organizationId));
+    if (existingTreasury) {
+      return await this.getOrCreateWallet(existingTreasury.userId);
+    }
+
+    await db
+      .insert(wallets)
+      .values({
+        userId: treasuryUserId(organizationId),
+        organizationId,
+        balance: "0.00",
+        currency: DEFAULT_CURRENCY,
+        isActive: true,
+      })
+      .onConflictDoNothing({ target: wallets.organizationId });
+
+    return await this.getOrCreateWallet(treasuryUserId(organizationId));
+  }
+
+  // Wallet a user transacts from - finance officers operate their organization's treasury
+  async getOperatingWallet(user: User): Promise<Wallet> {
+    if (user.role === 'finance' && user.organizationId) {
+      return await this.getOrCreateTreasuryWallet(user.organizationId);
+    }
+    return await this.getOrCreateWallet(user.id);
+  }
+
   async getOrCreateWallet(userId: string): Promise<Wallet> {
     const [existingWallet] = await db
       .select()
@@ -261,10 +752,9 @@ export class DatabaseStorage implements IStorage {
       .insert(wallets)
       .values({ 
         userId,
-        balance: "0",
-        dailyLimit: "1000000",
-        dailyCollected: "0",
-        dailyTransferred: "0",
+        balance: "0.00",
+        dailyCollected: "0.00",
+        dailyTransferred: "0.00",
         lastResetDate: new Date(),
         isActive: true
       })
@@ -272,52 +762,134 @@ export class DatabaseStorage implements IStorage {
     return wallet;
   }
 
+  async getWalletById(walletId: number): Promise<Wallet | undefined> {
+    const [wallet] = await db.select().from(wallets).where(eq(wallets.id, walletId));
+    return wallet;
+  }
+
+  // End-of-day close, run lazily the first time a wallet is touched on a new business day
   async checkAndResetDailySpending(wallet: Wallet): Promise<void> {
+    if (isNewBusinessDay(wallet.lastResetDate)) {
+      await this.closeWalletDay(wallet.id);
+    }
+  }
+
+  // Closes every wallet still open from an earlier business day (or every wallet when forced)
+  async closeBusinessDay(force: boolean = false): Promise<number> {
+    const allWallets = await db.select().from(wallets).orderBy(wallets.id);
+
+    let closedCount = 0;
+    for (const wallet of allWallets) {
+      if (force || isNewBusinessDay(wallet.lastResetDate)) {
+        await this.closeWalletDay(wallet.id);
+        closedCount++;
+      }
+    }
+    return closedCount;
+  }
+
+  // Snapshots the wallet's business day and then resets it, in one transaction. Closing the
+  // same day twice (forced resets) adds to that day's snapshot rather than replacing it.
+  private async closeWalletDay(walletId: number): Promise<void> {
     const now = new Date();
-    const lastReset = new Date(wallet.lastResetDate);
-    
-    // Check if it's a new day (after midnight) - using local date comparison
-    const nowDateOnly = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const lastResetDateOnly = new Date(lastReset.getFullYear(), lastReset.getMonth(), lastReset.getDate());
-    const isNewDay = nowDateOnly.getTime() !== lastResetDateOnly.getTime();
-    
-    if (isNewDay) {
-      const user = await this.getUser(wallet.userId);
-      
-      // Reset daily amounts for all users at midnight
-      if (user?.role === 'merchant') {
-        await db
+
+    await db.transaction(async (tx) => {
+      const [wallet] = await tx
+        .select()
+        .from(wallets)
+        .where(eq(wallets.id, walletId))
+        .for('update');
+      const [owner] = await tx.select().from(users).where(eq(users.id, wallet.userId));
+
+      await tx
+        .insert(walletDailySnapshots)
+        .values({
+          walletId: wallet.id,
+          userId: wallet.userId,
+          businessDate: toBusinessDate(new Date(wallet.lastResetDate)),
+          currency: wallet.currency,
+          openingBalance: wallet.openingBalance,
+          collected: wallet.dailyCollected,
+          transferred: wallet.dailyTransferred,
+          closingBalance: wallet.balance ?? "0",
+        })
+        .onConflictDoUpdate({
+          target: [walletDailySnapshots.walletId, walletDailySnapshots.businessDate],
+          set: {
+            collected: sql`${walletDailySnapshots.collected} + excluded.collected`,
+            transferred: sql`${walletDailySnapshots.transferred} + excluded.transferred`,
+            closingBalance: sql`excluded.closing_balance`,
+          },
+        });
+
+      if (owner?.role === 'merchant') {
+        const displayBalance = Money.parse(wallet.balance);
+        if (displayBalance.isPositive()) {
+          // Clear the display balance back against merchant collections
+          await this.postJournal({
+            description: "Merchant display balance reset at end of day",
+            legs: [
+              { account: 'merchant_display', walletId: wallet.id, direction: 'debit', amount: displayBalance, currency: wallet.currency },
+              { account: 'merchant_collections', direction: 'credit', amount: displayBalance, currency: wallet.currency },
+            ],
+          }, tx);
+        }
+
+        await tx
           .update(wallets)
           .set({
-            dailyCollected: "0",
-            balance: "0", // Reset display-only balance since actual funds are in finance master wallet
+            dailyCollected: "0.00",
+            balance: "0.00", // Reset display-only balance since actual funds are in the organization treasury
+            openingBalance: "0.00",
             lastResetDate: now,
             updatedAt: now,
           })
-          .where(eq(wallets.userId, wallet.userId));
-      } else if (user?.role === 'cashier') {
-        await db
+          .where(eq(wallets.id, wallet.id));
+      } else {
+        // Cashier, finance and platform wallets carry their balance into the next day
+        await tx
           .update(wallets)
           .set({
-            dailyTransferred: "0",
+            ...(owner?.role === 'cashier' && { dailyTransferred: "0.00" }),
+            openingBalance: wallet.balance ?? "0.00",
             lastResetDate: now,
             updatedAt: now,
           })
-          .where(eq(wallets.userId, wallet.userId));
+          .where(eq(wallets.id, wallet.id));
       }
-    }
+    });
+  }
+
+  async getWalletSnapshots(from: string, to: string, organizationId?: number, walletId?: number): Promise<(WalletDailySnapshot & { user: { email: string | null; role: string } | null })[]> {
+    const rows = await db
+      .select({ snapshot: walletDailySnapshots, email: users.email, role: users.role })
+      .from(walletDailySnapshots)
+      .innerJoin(wallets, eq(walletDailySnapshots.walletId, wallets.id))
+      .leftJoin(users, eq(walletDailySnapshots.userId, users.id))
+      .where(
+        and(
+          gte(walletDailySnapshots.businessDate, from),
+          lte(walletDailySnapshots.businessDate, to),
+          organizationId ? or(eq(users.organizationId, organizationId), eq(wallets.organizationId, organizationId)) : undefined,
+          walletId ? eq(walletDailySnapshots.walletId, walletId) : undefined
+        )
+      )
+      .orderBy(desc(walletDailySnapshots.businessDate), walletDailySnapshots.walletId);
+
+    return rows.map(row => ({
+      ...row.snapshot,
+      user: row.role ? { email: row.email, role: row.role } : null,
+    }));
   }
 
   async updateWalletBalance(userId: string, balance: string): Promise<void> {
-    // Use Math.floor to truncate decimals without rounding (183.97 becomes 183, not 184)
-    const truncatedBalance = Math.floor(parseFloat(balance)).toString();
     await db
       .update(wallets)
-      .set({ balance: truncatedBalance, updatedAt: new Date() })
+      .set({ balance: Money.parse(balance).toDecimal(), updatedAt: new Date() })
       .where(eq(wallets.userId, userId));
   }
 
-  async checkTransferLimits(userId: string, amount: number): Promise<{ allowed: boolean; reason?: string }> {
+  async checkTransferLimits(userId: string, posting: PostingAmount): Promise<{ allowed: boolean; reason?: string }> {
     const wallet = await this.getOrCreateWallet(userId);
     const user = await this.getUser(userId);
     
@@ -326,152 +898,659 @@ export class DatabaseStorage implements IStorage {
       return { allowed: false, reason: "Wallet is inactive" };
     }
 
-    // For cashiers - check their balance and daily transfer limits
+    if (!this.canPostToWallet(posting, wallet)) {
+      return { allowed: false, reason: `Wallet holds ${wallet.currency} but the transaction is in ${posting.currency} with no FX conversion` };
+    }
+
+    // Limits are per currency and apply to what the wallet itself would be posted
+    const amount = this.amountForWallet(posting, wallet);
+
+    // For cashiers - the float has to cover the transfer
     if (user?.role === 'cashier') {
-      const currentBalance = parseFloat(wallet.balance || '0');
-      if (amount > currentBalance) {
+      const currentBalance = Money.parse(wallet.balance);
+      if (amount.greaterThan(currentBalance)) {
         return { 
           allowed: false, 
-          reason: `Insufficient cashier balance. Available: ZMW ${currentBalance.toLocaleString()}` 
+          reason: `Insufficient cashier balance. Available: ${currentBalance.format(wallet.currency)}` 
         };
       }
+    }
 
-      const currentDailyTransferred = parseFloat(wallet.dailyTransferred || '0');
-      const dailyTransferLimit = 2000000; // ZMW 2,000,000 daily transfer limit for cashiers
+    // Cashiers are limited on transfers and merchants on collections
+    const limits = await this.getEffectiveWalletLimits(wallet, user);
+    if (limits) {
+      const activity = user?.role === 'merchant' ? 'collection' : 'transfer';
 
-      if (currentDailyTransferred + amount > dailyTransferLimit) {
-        const remaining = Math.max(dailyTransferLimit - currentDailyTransferred, 0);
-        return { 
-          allowed: false, 
-          reason: `Daily transfer limit exceeded. Remaining: ZMW ${remaining.toLocaleString()}` 
+      if (limits.perTransaction !== null && amount.greaterThan(Money.parse(limits.perTransaction))) {
+        return {
+          allowed: false,
+          reason: `${limitLabels.perTransaction} ${activity} limit exceeded. Maximum: ${Money.parse(limits.perTransaction).format(wallet.currency)}`
         };
       }
-    }
 
-    // For merchants - check their daily collection limit
-    if (user?.role === 'merchant') {
-      const currentDailyCollected = parseFloat(wallet.dailyCollected || '0');
-      const dailyCollectionLimit = 1000000; // ZMW 1,000,000 daily collection limit for merchants
+      const periods = ['daily', 'weekly', 'monthly'] as const;
+      for (const period of periods) {
+        const cap = limits[period];
+        if (cap === null) continue;
 
-      if (currentDailyCollected + amount > dailyCollectionLimit) {
-        const remaining = Math.max(dailyCollectionLimit - currentDailyCollected, 0);
-        return { 
-          allowed: false, 
-          reason: `Daily collection limit exceeded. Remaining: ZMW ${remaining.toLocaleString()}` 
-        };
+        const used = Money.parse(limits.used[period]);
+        if (used.add(amount).greaterThan(Money.parse(cap))) {
+          const remaining = Money.max(Money.parse(cap).subtract(used), Money.zero());
+          return { 
+            allowed: false, 
+            reason: `${limitLabels[period]} ${activity} limit exceeded. Remaining: ${remaining.format(wallet.currency)}` 
+          };
+        }
       }
     }
 
     return { allowed: true };
   }
 
-  async updateDailyTransactionAmounts(userId: string, amount: number, role: string, transactionType?: string): Promise<void> {
-    // For merchants - track ALL types of digital money received
-    // This includes: QR code payments, RTP (Request to Pay), direct transfers, settlements, etc.
-    if (role === 'merchant') {
-      const merchantUser = await this.getUser(userId);
-      const wallet = await this.getOrCreateWallet(userId);
-      const currentDailyCollected = parseFloat(wallet.dailyCollected || '0');
-      const newDailyCollected = currentDailyCollected + amount;
+  async updateDailyTransactionAmounts(userId: string, posting: PostingAmount, role: string, transactionType?: string, transactionId?: number): Promise<void> {
+    const walletUserIds = await this.prepareWalletsForPosting(userId, role);
 
-      // Update merchant wallet (for tracking daily collections - balance is display-only)
-      await db
-        .update(wallets)
-        .set({
-          dailyCollected: Math.floor(newDailyCollected).toString(),
-          balance: Math.floor(parseFloat(wallet.balance || '0') + amount).toString(), // Display-only tracking
-          lastTransactionDate: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(wallets.userId, userId));
+    await db.transaction(async (tx) => {
+      await this.lockWallets(tx, walletUserIds);
+      await this.applyDailyTransactionAmounts(tx, userId, posting, role, transactionType, transactionId);
+    });
+  }
 
-      // Real-time finance aggregation: Transfer to finance master wallet immediately
-      if (merchantUser?.organizationId) {
-        // Find finance user for this organization
-        const [financeUser] = await db
-          .select()
-          .from(users)
-          .where(
-            and(
-              eq(users.organizationId, merchantUser.organizationId),
-              eq(users.role, 'finance')
-            )
-          )
-          .limit(1);
+  async completeTransaction(id: number, processorId: string, verification: CashVerification): Promise<Transaction> {
+    const transaction = await this.getTransactionById(id);
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
 
-        if (financeUser) {
-          const financeWallet = await this.getOrCreateWallet(financeUser.id);
-          const newFinanceBalance = Math.floor(parseFloat(financeWallet.balance || '0') + amount);
-
-          // Add to finance master wallet
-          await db
-            .update(wallets)
-            .set({
-              balance: newFinanceBalance.toString(),
-              lastTransactionDate: new Date(),
-              updatedAt: new Date(),
-            })
-            .where(eq(wallets.userId, financeUser.id));
-        }
-      }
+    const participants = await this.getPostingParticipants(transaction);
+    const posting = await this.getPostingAmount(transaction);
+    const cashBranch = await this.getCashBranch(transaction, processorId);
+
+    const walletUserIds: string[] = [];
+    for (const participant of participants) {
+      walletUserIds.push(...await this.prepareWalletsForPosting(participant.id, participant.role));
     }
-    
-    // For cashiers - track daily transfers (money sent)
-    if (role === 'cashier') {
-      const wallet = await this.getOrCreateWallet(userId);
-      const currentDailyTransferred = parseFloat(wallet.dailyTransferred || '0');
-      const newDailyTransferred = currentDailyTransferred + amount;
 
-      await db
-        .update(wallets)
+    return await db.transaction(async (tx) => {
+      // Lock the transaction row first so a concurrent approval waits and then sees it completed
+      const [current] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, id))
+        .for('update');
+
+      if (current.status === 'completed') {
+        throw new Error('TRANSACTION_ALREADY_COMPLETED');
+      }
+      this.assertTransition(current, 'completed');
+      await this.assertCashVerified(tx, current, processorId, verification);
+
+      const [completed] = await tx
+        .update(transactions)
         .set({
-          dailyTransferred: Math.floor(newDailyTransferred).toString(),
-          balance: Math.floor(parseFloat(wallet.balance || '0') - amount).toString(),
-          lastTransactionDate: new Date(),
+          status: 'completed',
+          processedBy: processorId,
+          verifiedAmount: verification.amount.toDecimal(),
+          verifiedVmfNumber: verification.vmfNumber,
+          branchId: cashBranch?.id ?? null,
           updatedAt: new Date(),
         })
-        .where(eq(wallets.userId, userId));
-    }
+        .where(eq(transactions.id, id))
+        .returning();
+      await this.recordStatusChange(tx, id, current.status, 'completed', processorId);
+
+      // Branch row before wallet rows, the same order float approvals lock in
+      if (cashBranch) {
+        await this.adjustBranchBalance(tx, cashBranch.id, posting.amount);
+      }
+
+      await this.lockWallets(tx, walletUserIds);
+      for (const participant of participants) {
+        await this.applyDailyTransactionAmounts(tx, participant.id, posting, participant.role, transaction.type, transaction.id);
+      }
+
+      await this.accrueCommission(tx, completed);
+
+      return completed;
+    });
   }
 
-  async getTodayTransactionTotals(userId: string): Promise<{ completed: string; total: string }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const now = new Date();
+  // The processing cashier's count must match what the merchant declared, and that cashier's
+  // own photo of the VMF on the cash bag must be on file, before any money moves. The
+  // merchant's copy, or a cash-bag photo anyone else uploaded, does not count.
+  private async assertCashVerified(executor: DbExecutor, transaction: Transaction, processorId: string, verification: CashVerification): Promise<void> {
+    if (!verification.amount.equals(Money.parse(transaction.amount))) {
+      throw new Error('AMOUNT_MISMATCH');
+    }
 
-    const [result] = await db
-      .select({
-        completed: sql<string>`COALESCE(SUM(CASE WHEN status = 'completed' THEN CAST(amount AS DECIMAL) ELSE 0 END), 0)`,
-        total: sql<string>`COALESCE(SUM(CASE WHEN status IN ('completed', 'pending') AND (expires_at IS NULL OR expires_at > NOW()) THEN CAST(amount AS DECIMAL) ELSE 0 END), 0)`
-      })
-      .from(transactions)
+    const vmfNumber = transaction.vmfNumber?.trim().toUpperCase();
+    if (!vmfNumber || vmfNumber !== verification.vmfNumber.trim().toUpperCase()) {
+      throw new Error('VMF_MISMATCH');
+    }
+
+    const [vmfDocument] = await executor
+      .select({ id: documents.id })
+      .from(documents)
       .where(
         and(
-          eq(transactions.fromUserId, userId),
-          gte(transactions.createdAt, today),
-          lt(transactions.createdAt, tomorrow),
-          sql`status NOT IN ('rejected', 'failed')`
+          eq(documents.transactionId, transaction.id),
+          eq(documents.type, 'vmf_cashbag'),
+          eq(documents.userId, processorId)
         )
-      );
+      )
+      .limit(1);
+    if (!vmfDocument) {
+      throw new Error('VMF_DOCUMENT_REQUIRED');
+    }
+  }
+
+  // Users whose wallets a completed transaction moves - both parties, counted once
+  private async getPostingParticipants(transaction: Transaction): Promise<User[]> {
+    const fromUser = transaction.fromUserId ? await this.getUser(transaction.fromUserId) : undefined;
+    const toUser = await this.getUser(transaction.toUserId);
+
+    const participants: User[] = [];
+    if (fromUser && fromUser.id !== toUser?.id) {
+      participants.push(fromUser);
+    }
+    if (toUser) {
+      participants.push(toUser);
+    }
+    return participants;
+  }
 
+  private async getPostingAmount(transaction: Transaction): Promise<PostingAmount> {
     return {
-      completed: Math.floor(parseFloat(result?.completed || "0")).toString(),
-      total: Math.floor(parseFloat(result?.total || "0")).toString()
+      amount: Money.parse(transaction.amount),
+      currency: transaction.currency,
+      fxConversion: transaction.fxConversionId ? await this.getFxConversionById(transaction.fxConversionId) : null,
+      fee: Money.parse(transaction.feeAmount),
     };
   }
 
-  // Mark expired pending transactions as expired
-  async markExpiredTransactions(): Promise<void> {
-    const now = new Date();
-    
-    // First, get the transactions that will be expired, but exclude those with document uploads
-    const expiredTransactions = await db
+  private canPostToWallet(posting: PostingAmount, wallet: Wallet): boolean {
+    const fx = posting.fxConversion;
+    return wallet.currency === posting.currency || (
+      !!fx &&
+      fx.fromCurrency === posting.currency &&
+      fx.toCurrency === wallet.currency &&
+      Money.parse(fx.sourceAmount).equals(posting.amount)
+    );
+  }
+
+  // Wallets only take postings in their own currency - anything else needs a recorded conversion
+  private amountForWallet(posting: PostingAmount, wallet: Wallet): Money {
+    if (!this.canPostToWallet(posting, wallet)) {
+      throw new Error('CURRENCY_MISMATCH');
+    }
+    return wallet.currency === posting.currency ? posting.amount : Money.parse(posting.fxConversion!.convertedAmount);
+  }
+
+  // The fee in a wallet's currency. Converted fees round half up at the conversion rate,
+  // the same way reconciliation recomputes them in SQL.
+  private feeForWallet(posting: PostingAmount, wallet: Wallet): Money {
+    const fee = posting.fee ?? Money.zero();
+    if (!this.canPostToWallet(posting, wallet)) {
+      throw new Error('CURRENCY_MISMATCH');
+    }
+    return wallet.currency === posting.currency ? fee : fee.multiply(posting.fxConversion!.rate, 'half_up');
+  }
+
+  private async getOrCreatePlatformRevenueWallet(currency: string): Promise<Wallet> {
+    const findWallet = async () => {
+      const [wallet] = await db
+        .select()
+        .from(wallets)
+        .where(and(eq(wallets.userId, PLATFORM_REVENUE_USER_ID), eq(wallets.currency, currency)));
+      return wallet as Wallet | undefined;
+    };
+
+    const existingWallet = await findWallet();
+    if (existingWallet) return existingWallet;
+
+    // A concurrent completion may create it first - the unique index keeps only one
+    await db
+      .insert(wallets)
+      .values({ userId: PLATFORM_REVENUE_USER_ID, currency, balance: "0.00", isActive: true })
+      .onConflictDoNothing();
+    return (await findWallet())!;
+  }
+
+  // Credits (or, for reversals, debits) the platform revenue wallet of the given currency.
+  // The caller must already hold the lock from lockWallets.
+  private async adjustPlatformRevenue(tx: DbTransaction, currency: string, fee: Money): Promise<Wallet> {
+    const [revenueWallet] = await tx
       .select()
-      .from(transactions)
-      .leftJoin(documents, eq(documents.transactionId, transactions.id))
-      .where(
+      .from(wallets)
+      .where(and(eq(wallets.userId, PLATFORM_REVENUE_USER_ID), eq(wallets.currency, currency)));
+
+    await tx
+      .update(wallets)
+      .set({
+        balance: Money.parse(revenueWallet.balance).add(fee).toDecimal(),
+        lastTransactionDate: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(wallets.id, revenueWallet.id));
+    return revenueWallet;
+  }
+
+  // Creates (and resets for the day) every wallet a posting will touch. This runs on the
+  // regular connection before locking, since the reset itself writes to the wallet rows.
+  private async prepareWalletsForPosting(userId: string, role: string): Promise<string[]> {
+    await this.getOrCreateWallet(userId);
+    const walletUserIds = [userId];
+
+    if (role === 'merchant') {
+      const user = await this.getUser(userId);
+      if (user?.organizationId) {
+        const treasury = await this.getOrCreateTreasuryWallet(user.organizationId);
+        await this.getOrCreatePlatformRevenueWallet(treasury.currency);
+        walletUserIds.push(treasury.userId, PLATFORM_REVENUE_USER_ID);
+      }
+    }
+
+    return walletUserIds;
+  }
+
+  // Locks wallet rows in id order so concurrent postings cannot deadlock each other
+  private async lockWallets(tx: DbTransaction, userIds: string[]): Promise<Wallet[]> {
+    if (userIds.length === 0) return [];
+
+    return await tx
+      .select()
+      .from(wallets)
+      .where(inArray(wallets.userId, userIds))
+      .orderBy(wallets.id)
+      .for('update');
+  }
+
+  // Treasury wallet of the organization the user belongs to, if any
+  private async getUserOrganizationTreasury(executor: DbExecutor, userId: string): Promise<Wallet | undefined> {
+    const [user] = await executor.select().from(users).where(eq(users.id, userId));
+    if (!user?.organizationId) return undefined;
+
+    const [treasury] = await executor
+      .select()
+      .from(wallets)
+      .where(eq(wallets.organizationId, user.organizationId));
+    return treasury;
+  }
+
+  private async applyDailyTransactionAmounts(tx: DbTransaction, userId: string, posting: PostingAmount, role: string, transactionType?: string, transactionId?: number): Promise<void> {
+    // For merchants - track ALL types of digital money received
+    // This includes: QR code payments, RTP (Request to Pay), direct transfers, settlements, etc.
+    if (role === 'merchant') {
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, userId)).for('update');
+      const amount = this.amountForWallet(posting, wallet);
+      const newDailyCollected = Money.parse(wallet.dailyCollected).add(amount);
+
+      // Update merchant wallet (for tracking daily collections - balance is display-only)
+      await tx
+        .update(wallets)
+        .set({
+          dailyCollected: newDailyCollected.toDecimal(),
+          balance: Money.parse(wallet.balance).add(amount).toDecimal(), // Display-only tracking
+          lastTransactionDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.userId, userId));
+
+      const legs: LedgerLeg[] = [
+        { account: 'merchant_display', walletId: wallet.id, direction: 'credit', amount, currency: wallet.currency },
+        { account: 'merchant_collections', direction: 'debit', amount, currency: wallet.currency },
+      ];
+
+      // Real-time finance aggregation: Transfer to the organization treasury immediately
+      const treasury = await this.getUserOrganizationTreasury(tx, userId);
+      if (treasury) {
+        const [financeWallet] = await tx.select().from(wallets).where(eq(wallets.id, treasury.id)).for('update');
+        const financeAmount = this.amountForWallet(posting, financeWallet);
+        const financeFee = this.feeForWallet(posting, financeWallet);
+        const netAmount = financeAmount.subtract(financeFee);
+        const newFinanceBalance = Money.parse(financeWallet.balance).add(netAmount);
+
+        // Add the amount net of fees to the treasury
+        await tx
+          .update(wallets)
+          .set({
+            balance: newFinanceBalance.toDecimal(),
+            lastTransactionDate: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.id, financeWallet.id));
+
+        legs.push(
+          { account: 'digitization_clearing', direction: 'debit', amount: financeAmount, currency: financeWallet.currency },
+          { account: 'finance_master', walletId: financeWallet.id, direction: 'credit', amount: netAmount, currency: financeWallet.currency },
+        );
+
+        if (financeFee.isPositive()) {
+          const revenueWallet = await this.adjustPlatformRevenue(tx, financeWallet.currency, financeFee);
+          legs.push({ account: 'platform_revenue', walletId: revenueWallet.id, direction: 'credit', amount: financeFee, currency: financeWallet.currency });
+        }
+      }
+
+      await this.postJournal({
+        description: `Merchant collection${transactionType ? ` (${transactionType})` : ''}`,
+        transactionId,
+        legs,
+      }, tx);
+    }
+    
+    // For cashiers - track daily transfers (money sent)
+    if (role === 'cashier') {
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, userId)).for('update');
+      const amount = this.amountForWallet(posting, wallet);
+      const newDailyTransferred = Money.parse(wallet.dailyTransferred).add(amount);
+
+      await tx
+        .update(wallets)
+        .set({
+          dailyTransferred: newDailyTransferred.toDecimal(),
+          balance: Money.parse(wallet.balance).subtract(amount).toDecimal(),
+          lastTransactionDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.userId, userId));
+
+      await this.postJournal({
+        description: `Cashier float transfer${transactionType ? ` (${transactionType})` : ''}`,
+        transactionId,
+        legs: [
+          { account: 'cashier_float', walletId: wallet.id, direction: 'debit', amount, currency: wallet.currency },
+          { account: 'digitization_clearing', direction: 'credit', amount, currency: wallet.currency },
+        ],
+      }, tx);
+    }
+  }
+
+  // Reversal operations
+  async createReversalRequest(originalId: number, requestedBy: string, reasonCode: string, reasonComment?: string): Promise<Transaction> {
+    const original = await this.getTransactionById(originalId);
+    if (!original) {
+      throw new Error("Transaction not found");
+    }
+
+    if (!canTransitionTransaction(original.type, original.status, 'reversed')) {
+      throw new Error('REVERSAL_NOT_ALLOWED');
+    }
+
+    const [existingReversal] = await db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.reversalOfId, originalId),
+          inArray(transactions.status, ['pending_approval', 'completed'])
+        )
+      )
+      .limit(1);
+
+    if (existingReversal) {
+      throw new Error('REVERSAL_ALREADY_REQUESTED');
+    }
+
+    return await this.createTransaction({
+      fromUserId: original.fromUserId,
+      toUserId: original.toUserId,
+      amount: original.amount,
+      currency: original.currency,
+      fxConversionId: original.fxConversionId,
+      feeAmount: original.feeAmount,
+      feeScheduleId: original.feeScheduleId,
+      type: 'reversal',
+      status: 'pending_approval',
+      priority: 'high',
+      description: `Reversal of ${original.transactionId}${reasonComment ? ` - ${reasonComment}` : ''}`,
+      vmfNumber: original.vmfNumber,
+      reversalOfId: original.id,
+      reversalReasonCode: reasonCode,
+      requestedBy,
+    }, requestedBy);
+  }
+
+  async approveReversal(reversalId: number, approvedBy: string): Promise<Transaction> {
+    const reversal = await this.getTransactionById(reversalId);
+    if (!reversal || reversal.type !== 'reversal' || !reversal.reversalOfId) {
+      throw new Error("Reversal not found");
+    }
+
+    if (reversal.requestedBy === approvedBy) {
+      throw new Error('SAME_APPROVER');
+    }
+
+    const original = await this.getTransactionById(reversal.reversalOfId);
+    if (!original) {
+      throw new Error("Transaction not found");
+    }
+
+    const participants = await this.getPostingParticipants(original);
+    const posting = await this.getPostingAmount(original);
+
+    const walletUserIds: string[] = [];
+    for (const participant of participants) {
+      walletUserIds.push(...await this.prepareWalletsForPosting(participant.id, participant.role));
+    }
+
+    return await db.transaction(async (tx) => {
+      const [currentReversal] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, reversalId))
+        .for('update');
+      const [currentOriginal] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, original.id))
+        .for('update');
+
+      if (!canTransitionTransaction(currentReversal.type, currentReversal.status, 'completed') ||
+          !canTransitionTransaction(currentOriginal.type, currentOriginal.status, 'reversed')) {
+        throw new Error('REVERSAL_NOT_ALLOWED');
+      }
+
+      // Completion time of the original decides whether today's counters still include it
+      const originalCompletedAt = currentOriginal.updatedAt || currentOriginal.createdAt || new Date();
+
+      await tx
+        .update(transactions)
+        .set({ status: 'reversed', updatedAt: new Date() })
+        .where(eq(transactions.id, original.id));
+
+      const [approved] = await tx
+        .update(transactions)
+        .set({
+          status: 'completed',
+          processedBy: approvedBy,
+          branchId: currentOriginal.branchId,
+          updatedAt: new Date(),
+        })
+        .where(eq(transactions.id, reversalId))
+        .returning();
+
+      await this.recordStatusChange(tx, original.id, currentOriginal.status, 'reversed', approvedBy, `Reversed by ${approved.transactionId}`);
+      await this.recordStatusChange(tx, reversalId, currentReversal.status, 'completed', approvedBy);
+
+      // The cash the original brought into its branch is handed back
+      if (currentOriginal.branchId) {
+        await this.adjustBranchBalance(tx, currentOriginal.branchId, posting.amount.negate());
+      }
+
+      await this.lockWallets(tx, walletUserIds);
+      for (const participant of participants) {
+        await this.reverseDailyTransactionAmounts(tx, participant.id, posting, participant.role, originalCompletedAt, reversalId);
+      }
+
+      await this.reverseCommission(tx, original.id, reversalId);
+
+      return approved;
+    });
+  }
+
+  async rejectReversal(reversalId: number, rejectedBy: string, rejectionReason: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [rejected] = await tx
+        .update(transactions)
+        .set({
+          status: 'rejected',
+          rejectionReason,
+          processedBy: rejectedBy,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(transactions.id, reversalId),
+            eq(transactions.type, 'reversal'),
+            eq(transactions.status, 'pending_approval')
+          )
+        )
+        .returning();
+
+      if (!rejected) {
+        throw new Error('REVERSAL_NOT_ALLOWED');
+      }
+
+      await this.recordStatusChange(tx, reversalId, 'pending_approval', 'rejected', rejectedBy, rejectionReason);
+    });
+  }
+
+  // Mirror of applyDailyTransactionAmounts. Daily counters and the merchant display balance
+  // are only rolled back when the original completed in the wallet's current business day,
+  // since earlier days have already been reset.
+  private async reverseDailyTransactionAmounts(tx: DbTransaction, userId: string, posting: PostingAmount, role: string, originalCompletedAt: Date, reversalId: number): Promise<void> {
+    if (role === 'merchant') {
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, userId)).for('update');
+      const amount = this.amountForWallet(posting, wallet);
+      const legs: LedgerLeg[] = [];
+
+      if (originalCompletedAt >= wallet.lastResetDate) {
+        await tx
+          .update(wallets)
+          .set({
+            dailyCollected: Money.parse(wallet.dailyCollected).subtract(amount).toDecimal(),
+            balance: Money.parse(wallet.balance).subtract(amount).toDecimal(),
+            lastTransactionDate: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.userId, userId));
+
+        legs.push(
+          { account: 'merchant_display', walletId: wallet.id, direction: 'debit', amount, currency: wallet.currency },
+          { account: 'merchant_collections', direction: 'credit', amount, currency: wallet.currency },
+        );
+      }
+
+      const treasury = await this.getUserOrganizationTreasury(tx, userId);
+      if (treasury) {
+        const [financeWallet] = await tx.select().from(wallets).where(eq(wallets.id, treasury.id)).for('update');
+        const financeAmount = this.amountForWallet(posting, financeWallet);
+        const financeFee = this.feeForWallet(posting, financeWallet);
+        const netAmount = financeAmount.subtract(financeFee);
+        const currentFinanceBalance = Money.parse(financeWallet.balance);
+
+        // Funds may already have left through a settlement
+        if (currentFinanceBalance.lessThan(netAmount)) {
+          throw new Error(`Insufficient funds: Available ${currentFinanceBalance.format(financeWallet.currency)}, Requested ${netAmount.format(financeWallet.currency)}`);
+        }
+
+        await tx
+          .update(wallets)
+          .set({
+            balance: currentFinanceBalance.subtract(netAmount).toDecimal(),
+            lastTransactionDate: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.id, financeWallet.id));
+
+        legs.push(
+          { account: 'finance_master', walletId: financeWallet.id, direction: 'debit', amount: netAmount, currency: financeWallet.currency },
+          { account: 'digitization_clearing', direction: 'credit', amount: financeAmount, currency: financeWallet.currency },
+        );
+
+        // The fee is refunded along with the collection
+        if (financeFee.isPositive()) {
+          const revenueWallet = await this.adjustPlatformRevenue(tx, financeWallet.currency, financeFee.negate());
+          legs.push({ account: 'platform_revenue', walletId: revenueWallet.id, direction: 'debit', amount: financeFee, currency: financeWallet.currency });
+        }
+      }
+
+      if (legs.length > 0) {
+        await this.postJournal({
+          description: "Reversal of merchant collection",
+          transactionId: reversalId,
+          legs,
+        }, tx);
+      }
+    }
+
+    if (role === 'cashier') {
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, userId)).for('update');
+      const amount = this.amountForWallet(posting, wallet);
+      const sameDay = originalCompletedAt >= wallet.lastResetDate;
+
+      await tx
+        .update(wallets)
+        .set({
+          ...(sameDay && {
+            dailyTransferred: Money.parse(wallet.dailyTransferred).subtract(amount).toDecimal(),
+          }),
+          balance: Money.parse(wallet.balance).add(amount).toDecimal(),
+          lastTransactionDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.userId, userId));
+
+      await this.postJournal({
+        description: "Reversal of cashier float transfer",
+        transactionId: reversalId,
+        legs: [
+          { account: 'digitization_clearing', direction: 'debit', amount, currency: wallet.currency },
+          { account: 'cashier_float', walletId: wallet.id, direction: 'credit', amount, currency: wallet.currency },
+        ],
+      }, tx);
+    }
+  }
+
+  async getTodayTransactionTotals(userId: string): Promise<{ completed: string; total: string }> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const now = new Date();
+
+    const [result] = await db
+      .select({
+        completed: sql<string>`COALESCE(SUM(CASE WHEN status = 'completed' THEN amount ELSE 0 END), 0)`.mapWith(transactions.amount),
+        total: sql<string>`COALESCE(SUM(CASE WHEN status IN ('completed', 'pending') AND (expires_at IS NULL OR expires_at > NOW()) THEN amount ELSE 0 END), 0)`.mapWith(transactions.amount)
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.fromUserId, userId),
+          gte(transactions.createdAt, today),
+          lt(transactions.createdAt, tomorrow),
+          sql`status NOT IN ('rejected', 'failed')`,
+          sql`type != 'reversal'`
+        )
+      );
+
+    return {
+      completed: result?.completed ?? "0.00",
+      total: result?.total ?? "0.00"
+    };
+  }
+
+  // Mark expired pending transactions as expired
+  async markExpiredTransactions(): Promise<void> {
+    const now = new Date();
+    
+    // First, get the transactions that will be expired, but exclude those with document uploads
+    const expiredTransactions = await db
+      .select()
+      .from(transactions)
+      .leftJoin(documents, eq(documents.transactionId, transactions.id))
+      .where(
         and(
           eq(transactions.status, 'pending'),
           sql`expires_at IS NOT NULL AND expires_at <= NOW()`,
@@ -485,24 +1564,36 @@ export class DatabaseStorage implements IStorage {
       // Get the transaction IDs to expire
       const transactionIds = expiredTransactions.map(row => row.transactions.id);
       
-      await db
-        .update(transactions)
-        .set({ 
-          status: 'rejected',
-          rejectionReason: 'timed out',
-          updatedAt: now
-        })
-        .where(
-          and(
-            inArray(transactions.id, transactionIds),
-            eq(transactions.status, 'pending')
+      await db.transaction(async (tx) => {
+        const expired = await tx
+          .update(transactions)
+          .set({ 
+            status: 'rejected',
+            rejectionReason: 'timed out',
+            updatedAt: now
+          })
+          .where(
+            and(
+              inArray(transactions.id, transactionIds),
+              eq(transactions.status, 'pending')
+            )
           )
-        );
+          .returning({ id: transactions.id });
+
+        if (expired.length > 0) {
+          await tx.insert(transactionStatusHistory).values(expired.map(row => ({
+            transactionId: row.id,
+            fromStatus: 'pending',
+            toStatus: 'rejected',
+            reason: 'timed out',
+          })));
+        }
+      });
     }
   }
 
   // Transaction operations
-  async createTransaction(transactionData: InsertTransaction): Promise<Transaction> {
+  async createTransaction(transactionData: InsertTransaction, createdBy?: string): Promise<Transaction> {
     // Check for existing pending transactions from the same user
     const fromUserId = transactionData.fromUserId;
     if (fromUserId) {
@@ -538,14 +1629,17 @@ export class DatabaseStorage implements IStorage {
       isUnique = existing.length === 0;
     }
     
-    const [transaction] = await db
-      .insert(transactions)
-      .values({
-        ...transactionData,
-        transactionId: transactionId!
-      })
-      .returning();
-    return transaction;
+    return await db.transaction(async (tx) => {
+      const [transaction] = await tx
+        .insert(transactions)
+        .values({
+          ...transactionData,
+          transactionId: transactionId!
+        })
+        .returning();
+      await this.recordStatusChange(tx, transaction.id, null, transaction.status, createdBy ?? null);
+      return transaction;
+    });
   }
 
   async getTransactionsByUserId(userId: string): Promise<Transaction[]> {
@@ -590,33 +1684,79 @@ export class DatabaseStorage implements IStorage {
     return transaction;
   }
 
-  async updateTransactionStatus(id: number, status: string, rejectionReason?: string): Promise<void> {
-    const updateData: any = { 
-      status, 
-      updatedAt: new Date() 
-    };
-    
-    if (rejectionReason) {
-      updateData.rejectionReason = rejectionReason;
+  // Looks transactions up by their LUS-XXXXXX reference
+  async getTransactionsByRefs(refs: string[]): Promise<Transaction[]> {
+    if (refs.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(transactions)
+      .where(inArray(transactions.transactionId, refs));
+  }
+
+  // Moves a transaction along the state machine without posting anything - completion posts
+  // balances and goes through completeTransaction instead. Rejections record the actor as
+  // the processor.
+  async updateTransactionStatus(id: number, status: string, actorId: string, rejectionReason?: string): Promise<Transaction> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, id))
+        .for('update');
+      if (!current) {
+        throw new Error("Transaction not found");
+      }
+      this.assertTransition(current, status);
+
+      const updateData: any = { 
+        status, 
+        updatedAt: new Date() 
+      };
+      
+      if (rejectionReason) {
+        updateData.rejectionReason = rejectionReason;
+      }
+      if (status === 'rejected') {
+        updateData.processedBy = actorId;
+      }
+      
+      const [updated] = await tx
+        .update(transactions)
+        .set(updateData)
+        .where(eq(transactions.id, id))
+        .returning();
+      await this.recordStatusChange(tx, id, current.status, status, actorId, rejectionReason);
+      return updated;
+    });
+  }
+
+  async getTransactionStatusHistory(transactionId: number): Promise<TransactionStatusChange[]> {
+    return await db
+      .select()
+      .from(transactionStatusHistory)
+      .where(eq(transactionStatusHistory.transactionId, transactionId))
+      .orderBy(transactionStatusHistory.createdAt, transactionStatusHistory.id);
+  }
+
+  private assertTransition(transaction: Transaction, to: string): void {
+    if (!canTransitionTransaction(transaction.type, transaction.status, to)) {
+      throw new Error('INVALID_STATUS_TRANSITION');
     }
-    
-    await db
-      .update(transactions)
-      .set(updateData)
-      .where(eq(transactions.id, id));
   }
 
-  async updateTransactionProcessor(id: number, processorId: string): Promise<void> {
-    await db
-      .update(transactions)
-      .set({ 
-        processedBy: processorId,
-        updatedAt: new Date()
-      })
-      .where(eq(transactions.id, id));
-  }
-
-  async updateTransactionPriority(id: number, priority: string): Promise<void> {
+  private async recordStatusChange(executor: DbExecutor, transactionId: number, fromStatus: string | null, toStatus: string, actorId: string | null, reason?: string): Promise<void> {
+    await executor.insert(transactionStatusHistory).values({
+      transactionId,
+      fromStatus,
+      toStatus,
+      actorId,
+      reason: reason || null,
+    });
+  }
+
+  async updateTransactionPriority(id: number, priority: string): Promise<void> {
     await db
       .update(transactions)
       .set({ 
@@ -710,12 +1850,102 @@ export class DatabaseStorage implements IStorage {
       .orderBy(settlementRequests.priority, desc(settlementRequests.createdAt));
   }
 
-  async getAllSettlementRequests(): Promise<SettlementRequest[]> {
-    return await db
+  async getAllSettlementRequests(): Promise<SettlementRequestWithApprovals[]> {
+    const requests = await db
       .select()
       .from(settlementRequests)
       .orderBy(desc(settlementRequests.createdAt))
       .limit(50); // Show last 50 requests to avoid overwhelming the admin
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const approvals = await db
+      .select({
+        settlementRequestId: settlementApprovals.settlementRequestId,
+        approverId: settlementApprovals.approverId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        createdAt: settlementApprovals.createdAt,
+      })
+      .from(settlementApprovals)
+      .leftJoin(users, eq(settlementApprovals.approverId, users.id))
+      .where(inArray(settlementApprovals.settlementRequestId, requests.map(request => request.id)))
+      .orderBy(settlementApprovals.createdAt);
+
+    return requests.map(request => ({
+      ...request,
+      approvals: approvals
+        .filter(approval => approval.settlementRequestId === request.id)
+        .map(approval => ({
+          approverId: approval.approverId,
+          approverName: [approval.firstName, approval.lastName].filter(Boolean).join(' ') || approval.email,
+          createdAt: approval.createdAt,
+        })),
+    }));
+  }
+
+  // Records one admin's approval. The request stays partially_approved until it has as many
+  // distinct approvers as its quorum, then goes through the usual approval (and payout).
+  async approveSettlementRequest(id: number, approverId: string): Promise<SettlementRequest> {
+    const [request] = await db.select().from(settlementRequests).where(eq(settlementRequests.id, id));
+    if (!request) {
+      throw new Error('Settlement request not found');
+    }
+
+    // Make sure the treasury and revenue wallets exist before locking
+    const treasury = await this.getOrCreateTreasuryWallet(request.organizationId);
+    await this.getOrCreatePlatformRevenueWallet(request.currency);
+
+    // The approval and the status change it causes commit together, so an approval that
+    // cannot be applied (funds, screening, a concurrent decision) is not left recorded
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(settlementRequests)
+        .where(eq(settlementRequests.id, id))
+        .for('update');
+      if (!SETTLEMENT_AWAITING_APPROVAL.includes(current.status)) {
+        throw new Error('INVALID_SETTLEMENT_STATUS');
+      }
+      // Maker-checker: whoever raised the request cannot approve it
+      if (current.userId === approverId) {
+        throw new Error('SELF_APPROVAL');
+      }
+      // The beneficiary account may have been deactivated since the request was made
+      if (current.bankAccountId) {
+        const [account] = await tx
+          .select()
+          .from(organizationBankAccounts)
+          .where(eq(organizationBankAccounts.id, current.bankAccountId));
+        if (account?.status !== 'active') {
+          throw new Error('BANK_ACCOUNT_NOT_ACTIVE');
+        }
+      }
+
+      const existing = await tx
+        .select()
+        .from(settlementApprovals)
+        .where(eq(settlementApprovals.settlementRequestId, id));
+      if (existing.some(approval => approval.approverId === approverId)) {
+        throw new Error('ALREADY_APPROVED');
+      }
+
+      await tx.insert(settlementApprovals).values({ settlementRequestId: id, approverId });
+      const status = existing.length + 1 >= current.requiredApprovals ? 'approved' : 'partially_approved';
+      if (status === 'approved') {
+        await this.applySettlementStatus(tx, current, treasury, 'approved', approverId);
+      } else {
+        await tx
+          .update(settlementRequests)
+          .set({ status, updatedAt: new Date() })
+          .where(eq(settlementRequests.id, id));
+      }
+
+      const [updated] = await tx.select().from(settlementRequests).where(eq(settlementRequests.id, id));
+      return updated;
+    });
   }
 
   async updateSettlementRequestStatus(id: number, status: string, reviewedBy?: string, holdReason?: string, rejectReason?: string, reasonComment?: string): Promise<void> {
@@ -730,6 +1960,26 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Settlement request not found");
     }
 
+    // Make sure the treasury and revenue wallets exist before locking
+    const treasury = await this.getOrCreateTreasuryWallet(settlementRequest.organizationId);
+    await this.getOrCreatePlatformRevenueWallet(settlementRequest.currency);
+
+    await db.transaction(async (tx) => {
+      // Lock the request so two concurrent approvals cannot both see it as pending
+      const [current] = await tx
+        .select()
+        .from(settlementRequests)
+        .where(eq(settlementRequests.id, id))
+        .for('update');
+
+      await this.applySettlementStatus(tx, current, treasury, status, reviewedBy, holdReason, rejectReason, reasonComment);
+    });
+  }
+
+  // Moves a settlement request the caller has locked in tx to a review status, debiting the
+  // treasury on approval. The treasury and revenue wallets must already exist.
+  private async applySettlementStatus(tx: DbTransaction, current: SettlementRequest, treasury: Wallet, status: string, reviewedBy?: string, holdReason?: string, rejectReason?: string, reasonComment?: string): Promise<void> {
+    const id = current.id;
     const updateData: any = { 
       status, 
       updatedAt: new Date() 
@@ -754,58 +2004,101 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    // Approved, batched, paid and rejected requests are past review
+    if (!canReviewSettlement(current.status, status)) {
+      throw new Error('INVALID_STATUS_TRANSITION');
+    }
+
+    // Nothing is paid out before the request has its quorum of approvers
+    if (status === 'approved') {
+      const approvals = await tx
+        .select({ id: settlementApprovals.id })
+        .from(settlementApprovals)
+        .where(eq(settlementApprovals.settlementRequestId, id));
+      if (approvals.length < current.requiredApprovals) {
+        throw new Error('APPROVAL_QUORUM_NOT_MET');
+      }
+    }
+
+    // A beneficiary with an open or confirmed sanctions match is never paid
+    if (status === 'approved') {
+      const [openMatch] = await tx
+        .select({ id: screeningMatches.id })
+        .from(screeningMatches)
+        .where(
+          and(
+            eq(screeningMatches.settlementRequestId, id),
+            inArray(screeningMatches.status, ['pending', 'confirmed'])
+          )
+        )
+        .limit(1);
+      if (openMatch) {
+        throw new Error('SCREENING_REVIEW_PENDING');
+      }
+    }
+
     // Update settlement request status
-    await db
+    await tx
       .update(settlementRequests)
       .set(updateData)
       .where(eq(settlementRequests.id, id));
 
     // Create notification for status change
     await this.createNotification({
-      userId: settlementRequest.userId,
+      userId: current.userId,
       type: "settlement_status_change",
       title: `Settlement Request ${status.charAt(0).toUpperCase() + status.slice(1)}`,
       message: this.getSettlementStatusMessage(status, holdReason, rejectReason, reasonComment),
       relatedEntityType: "settlement_request",
       relatedEntityId: id,
-    });
+    }, tx);
 
-    // If settlement is approved or completed, deduct from finance master wallet
-    if ((status === 'approved' || status === 'completed') && settlementRequest.status === 'pending') {
-      // Find finance user for this organization
-      const [financeUser] = await db
-        .select()
-        .from(users)
-        .where(
-          and(
-            eq(users.organizationId, settlementRequest.organizationId),
-            eq(users.role, 'finance')
-          )
-        )
-        .limit(1);
+    // The treasury is debited once, when the request leaves the approval stage (held requests
+    // released by an admin or a screening review included)
+    if (status === 'approved') {
+      const lockedWallets = await this.lockWallets(tx, [treasury.userId, PLATFORM_REVENUE_USER_ID]);
+      const financeWallet = lockedWallets.find(wallet => wallet.id === treasury.id)!;
+      // Settlements pay out of the treasury in its own currency only
+      if (financeWallet.currency !== current.currency) {
+        throw new Error('CURRENCY_MISMATCH');
+      }
 
-      if (financeUser) {
-        const financeWallet = await this.getOrCreateWallet(financeUser.id);
-        const currentBalance = Math.floor(parseFloat(financeWallet.balance || '0'));
-        const settlementAmount = Math.floor(parseFloat(settlementRequest.amount));
-        
-        // Validate sufficient funds
-        if (currentBalance < settlementAmount) {
-          throw new Error(`Insufficient funds: Available ZMW ${currentBalance}, Requested ZMW ${settlementAmount}`);
-        }
+      const currentBalance = Money.parse(financeWallet.balance);
+      const settlementAmount = Money.parse(current.amount);
+      
+      // Validate sufficient funds - throwing rolls back the status change as well
+      if (currentBalance.lessThan(settlementAmount)) {
+        throw new Error(`Insufficient funds: Available ${currentBalance.format(current.currency)}, Requested ${settlementAmount.format(current.currency)}`);
+      }
 
-        const newBalance = currentBalance - settlementAmount;
+      const newBalance = currentBalance.subtract(settlementAmount);
 
-        // Deduct settlement amount from finance master wallet
-        await db
-          .update(wallets)
-          .set({
-            balance: newBalance.toString(),
-            lastTransactionDate: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(wallets.userId, financeUser.id));
+      // Deduct settlement amount from the treasury
+      await tx
+        .update(wallets)
+        .set({
+          balance: newBalance.toDecimal(),
+          lastTransactionDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.id, financeWallet.id));
+
+      // The fee is withheld from the payout and kept as platform revenue
+      const settlementFee = Money.parse(current.feeAmount);
+      const legs: LedgerLeg[] = [
+        { account: 'finance_master', walletId: financeWallet.id, direction: 'debit', amount: settlementAmount, currency: current.currency },
+        { account: 'settlement_outflow', direction: 'credit', amount: settlementAmount.subtract(settlementFee), currency: current.currency },
+      ];
+      if (settlementFee.isPositive()) {
+        const revenueWallet = await this.adjustPlatformRevenue(tx, current.currency, settlementFee);
+        legs.push({ account: 'platform_revenue', walletId: revenueWallet.id, direction: 'credit', amount: settlementFee, currency: current.currency });
       }
+
+      await this.postJournal({
+        description: `Settlement to ${current.bankName} ${current.accountNumber}`,
+        settlementRequestId: id,
+        legs,
+      }, tx);
     }
   }
 
@@ -867,10 +2160,13 @@ export class DatabaseStorage implements IStorage {
       .select({
         id: wallets.id,
         userId: wallets.userId,
+        organizationId: wallets.organizationId,
         balance: wallets.balance,
         dailyLimit: wallets.dailyLimit,
         dailyCollected: wallets.dailyCollected,
         dailyTransferred: wallets.dailyTransferred,
+        openingBalance: wallets.openingBalance,
+        currency: wallets.currency,
         lastResetDate: wallets.lastResetDate,
         lastTransactionDate: wallets.lastTransactionDate,
         isActive: wallets.isActive,
@@ -890,7 +2186,7 @@ export class DatabaseStorage implements IStorage {
     return merchantWallets;
   }
 
-  async getPendingSettlementsTotal(organizationId: number): Promise<number> {
+  async getPendingSettlementsTotal(organizationId: number, currency?: string): Promise<number> {
     const processingRequests = await db
       .select({
         amount: settlementRequests.amount
@@ -899,25 +2195,24 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(settlementRequests.organizationId, organizationId),
+          currency ? eq(settlementRequests.currency, currency) : undefined,
           or(
             eq(settlementRequests.status, 'pending'),
+            eq(settlementRequests.status, 'partially_approved'),
             eq(settlementRequests.status, 'hold')
           )
         )
       );
 
-    const total = processingRequests.reduce((sum, request) => 
-      sum + Math.floor(parseFloat(request.amount || '0')), 0);
-    
-    return total;
+    return Money.sum(processingRequests.map(request => Money.parse(request.amount))).toNumber();
   }
 
-  async getTodaysSettlementUsage(organizationId: number): Promise<number> {
+  async getTodaysSettlementUsage(organizationId: number, currency?: string): Promise<number> {
     // Get start of today
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
-    // Get all settlements from today (pending, hold, and approved)
+    // Get all settlements from today still awaiting approval or already paid out of the treasury
     const todaysRequests = await db
       .select({
         amount: settlementRequests.amount
@@ -926,19 +2221,13 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(settlementRequests.organizationId, organizationId),
+          currency ? eq(settlementRequests.currency, currency) : undefined,
           gte(settlementRequests.createdAt, today),
-          or(
-            eq(settlementRequests.status, 'pending'),
-            eq(settlementRequests.status, 'hold'),
-            eq(settlementRequests.status, 'approved')
-          )
+          inArray(settlementRequests.status, [...SETTLEMENT_AWAITING_APPROVAL, ...SETTLEMENT_DEBITED])
         )
       );
 
-    const total = todaysRequests.reduce((sum, request) => 
-      sum + Math.floor(parseFloat(request.amount || '0')), 0);
-    
-    return total;
+    return Money.sum(todaysRequests.map(request => Money.parse(request.amount))).toNumber();
   }
 
   async getSettlementBreakdown(organizationId: number): Promise<{ status: string; total: number; count: number }[]> {
@@ -983,19 +2272,19 @@ export class DatabaseStorage implements IStorage {
     // Group by status and calculate totals
     const breakdown = combinedRequests.reduce((acc, request) => {
       const status = request.status;
-      const amount = Math.floor(parseFloat(request.amount || '0'));
+      const amount = Money.parse(request.amount);
       
       if (!acc[status]) {
-        acc[status] = { status, total: 0, count: 0 };
+        acc[status] = { status, total: Money.zero(), count: 0 };
       }
       
-      acc[status].total += amount;
+      acc[status].total = acc[status].total.add(amount);
       acc[status].count += 1;
       
       return acc;
-    }, {} as Record<string, { status: string; total: number; count: number }>);
+    }, {} as Record<string, { status: string; total: Money; count: number }>);
 
-    return Object.values(breakdown);
+    return Object.values(breakdown).map(entry => ({ ...entry, total: entry.total.toNumber() }));
   }
 
   async getMonthlySettlementBreakdown(organizationId: number, period: 'weekly' | 'monthly' | 'yearly'): Promise<{ approved: number; rejected: number; pending: number; approvedCount: number; rejectedCount: number; pendingCount: number }> {
@@ -1032,39 +2321,40 @@ export class DatabaseStorage implements IStorage {
       );
 
     // Calculate totals by status
+    let approved = Money.zero();
+    let rejected = Money.zero();
+    let pending = Money.zero();
     const breakdown = {
-      approved: 0,
-      rejected: 0,
-      pending: 0,
       approvedCount: 0,
       rejectedCount: 0,
       pendingCount: 0,
     };
 
+    // Approved covers everything past the quorum, whether batched, sent or paid
     requests.forEach(request => {
-      const amount = Math.floor(parseFloat(request.amount || '0'));
+      const amount = Money.parse(request.amount);
       
-      switch (request.status) {
-        case 'approved':
-          breakdown.approved += amount;
-          breakdown.approvedCount++;
-          break;
-        case 'rejected':
-          breakdown.rejected += amount;
-          breakdown.rejectedCount++;
-          break;
-        case 'pending':
-        case 'hold':
-          breakdown.pending += amount;
-          breakdown.pendingCount++;
-          break;
+      if (SETTLEMENT_DEBITED.includes(request.status)) {
+        approved = approved.add(amount);
+        breakdown.approvedCount++;
+      } else if (request.status === 'rejected') {
+        rejected = rejected.add(amount);
+        breakdown.rejectedCount++;
+      } else if (SETTLEMENT_AWAITING_APPROVAL.includes(request.status)) {
+        pending = pending.add(amount);
+        breakdown.pendingCount++;
       }
     });
 
-    return breakdown;
+    return {
+      approved: approved.toNumber(),
+      rejected: rejected.toNumber(),
+      pending: pending.toNumber(),
+      ...breakdown,
+    };
   }
 
-  async getTodaysCollectionsByOrganization(organizationId: number): Promise<number> {
+  async getTodaysCollectionsByOrganization(organizationId: number, currency?: string): Promise<number> {
     // Get start of today
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -1079,20 +2369,2524 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(users.organizationId, organizationId),
-          eq(users.role, 'merchant')
+          eq(users.role, 'merchant'),
+          currency ? eq(wallets.currency, currency) : undefined
         )
       );
 
     // Sum up all daily collections from merchants
-    const todaysTotal = merchantWallets.reduce((sum, wallet) => 
-      sum + Math.floor(parseFloat(wallet.dailyCollected || '0')), 0);
-    
-    return todaysTotal;
+    return Money.sum(merchantWallets.map(wallet => Money.parse(wallet.dailyCollected))).toNumber();
+  }
+
+  // Ledger operations
+  async postJournal(posting: JournalPosting, executor: DbExecutor = db): Promise<LedgerEntry[]> {
+    if (posting.legs.length < 2) {
+      throw new Error('UNBALANCED_JOURNAL: a journal needs at least two legs');
+    }
+
+    // Amounts in different currencies never offset each other
+    for (const currency of Array.from(new Set(posting.legs.map(leg => leg.currency)))) {
+      const legs = posting.legs.filter(leg => leg.currency === currency);
+      const debits = Money.sum(legs.filter(leg => leg.direction === 'debit').map(leg => leg.amount));
+      const credits = Money.sum(legs.filter(leg => leg.direction === 'credit').map(leg => leg.amount));
+
+      if (!debits.equals(credits)) {
+        throw new Error(`UNBALANCED_JOURNAL: ${currency} debits ${debits.toDecimal()}, credits ${credits.toDecimal()}`);
+      }
+    }
+
+    const journalId = generateJournalId();
+    return await executor
+      .insert(ledgerEntries)
+      .values(posting.legs.map(leg => ({
+        journalId,
+        account: leg.account,
+        walletId: leg.walletId ?? null,
+        direction: leg.direction,
+        amount: leg.amount.toDecimal(),
+        currency: leg.currency,
+        transactionId: posting.transactionId ?? null,
+        settlementRequestId: posting.settlementRequestId ?? null,
+        floatRequestId: posting.floatRequestId ?? null,
+        description: posting.description,
+      })))
+      .returning();
+  }
+
+  async getLedgerEntriesByWallet(walletId: number): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.walletId, walletId))
+      .orderBy(desc(ledgerEntries.createdAt), desc(ledgerEntries.id));
+  }
+
+  async getLedgerEntriesByJournal(journalId: string): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.journalId, journalId))
+      .orderBy(ledgerEntries.id);
+  }
+
+  async getWalletLedgerBalance(walletId: number): Promise<Money> {
+    const [result] = await db
+      .select({
+        balance: sql<string>`COALESCE(SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END), 0)`
+      })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.walletId, walletId));
+
+    return Money.fromNgwee(result?.balance ?? 0);
+  }
+
+  // FX operations
+  async createFxConversion(conversion: InsertFxConversion): Promise<FxConversion> {
+    const [created] = await db
+      .insert(fxConversions)
+      .values(conversion)
+      .returning();
+    return created;
+  }
+
+  async getFxConversionById(id: number): Promise<FxConversion | undefined> {
+    const [conversion] = await db.select().from(fxConversions).where(eq(fxConversions.id, id));
+    return conversion;
+  }
+
+  async getRecentFxConversions(limit: number = 50): Promise<FxConversion[]> {
+    return await db
+      .select()
+      .from(fxConversions)
+      .orderBy(desc(fxConversions.createdAt))
+      .limit(limit);
+  }
+
+  // A conversion backs exactly one transaction (and that transaction's reversal)
+  async linkFxConversionToTransaction(id: number, transactionId: number): Promise<void> {
+    const [linked] = await db
+      .update(fxConversions)
+      .set({ transactionId })
+      .where(and(eq(fxConversions.id, id), isNull(fxConversions.transactionId)))
+      .returning();
+
+    if (!linked) {
+      throw new Error('FX_CONVERSION_USED');
+    }
+  }
+
+  // Fee operations
+  async createFeeSchedule(schedule: InsertFeeSchedule): Promise<FeeSchedule> {
+    return await db.transaction(async (tx) => {
+      // Only one schedule applies per organization, transaction type and currency
+      await tx
+        .update(feeSchedules)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(feeSchedules.organizationId, schedule.organizationId),
+            eq(feeSchedules.transactionType, schedule.transactionType),
+            eq(feeSchedules.currency, schedule.currency ?? DEFAULT_CURRENCY),
+            eq(feeSchedules.isActive, true)
+          )
+        );
+
+      const [created] = await tx
+        .insert(feeSchedules)
+        .values(schedule)
+        .returning();
+      return created;
+    });
+  }
+
+  async getFeeSchedules(organizationId?: number): Promise<FeeSchedule[]> {
+    return await db
+      .select()
+      .from(feeSchedules)
+      .where(organizationId ? eq(feeSchedules.organizationId, organizationId) : undefined)
+      .orderBy(desc(feeSchedules.isActive), desc(feeSchedules.createdAt));
+  }
+
+  async deactivateFeeSchedule(id: number): Promise<FeeSchedule | undefined> {
+    const [schedule] = await db
+      .update(feeSchedules)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(feeSchedules.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async quoteFee(organizationId: number | null | undefined, transactionType: string, currency: string, amount: Money): Promise<{ fee: Money; feeScheduleId: number | null }> {
+    if (!organizationId) {
+      return { fee: Money.zero(), feeScheduleId: null };
+    }
+
+    const [schedule] = await db
+      .select()
+      .from(feeSchedules)
+      .where(
+        and(
+          eq(feeSchedules.organizationId, organizationId),
+          eq(feeSchedules.transactionType, transactionType),
+          eq(feeSchedules.currency, currency),
+          eq(feeSchedules.isActive, true)
+        )
+      )
+      .orderBy(desc(feeSchedules.createdAt))
+      .limit(1);
+
+    return { fee: calculateFee(schedule, amount), feeScheduleId: schedule?.id ?? null };
+  }
+
+  async getPlatformRevenueWallets(): Promise<Wallet[]> {
+    return await db
+      .select()
+      .from(wallets)
+      .where(eq(wallets.userId, PLATFORM_REVENUE_USER_ID))
+      .orderBy(wallets.currency);
+  }
+
+  // Bank account operations
+  async createBankAccount(account: InsertOrganizationBankAccount): Promise<OrganizationBankAccount> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: organizationBankAccounts.id })
+        .from(organizationBankAccounts)
+        .where(
+          and(
+            eq(organizationBankAccounts.organizationId, account.organizationId),
+            eq(organizationBankAccounts.bankCode, account.bankCode),
+            eq(organizationBankAccounts.accountNumber, account.accountNumber),
+            inArray(organizationBankAccounts.status, ['pending_approval', 'active'])
+          )
+        );
+      if (existing) {
+        throw new Error('DUPLICATE_BANK_ACCOUNT');
+      }
+
+      const [created] = await tx
+        .insert(organizationBankAccounts)
+        .values(account)
+        .returning();
+      return created;
+    });
+  }
+
+  async getBankAccounts(organizationId?: number): Promise<OrganizationBankAccountWithOrganization[]> {
+    const rows = await db
+      .select({ account: organizationBankAccounts, organizationName: organizations.name })
+      .from(organizationBankAccounts)
+      .leftJoin(organizations, eq(organizationBankAccounts.organizationId, organizations.id))
+      .where(organizationId === undefined ? undefined : eq(organizationBankAccounts.organizationId, organizationId))
+      .orderBy(desc(organizationBankAccounts.createdAt));
+    return rows.map(({ account, organizationName }) => ({ ...account, organizationName }));
+  }
+
+  async getBankAccountById(id: number): Promise<OrganizationBankAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(organizationBankAccounts)
+      .where(eq(organizationBankAccounts.id, id));
+    return account;
+  }
+
+  // Dual control: someone other than the person who added the account approves it, and the
+  // cooling-off period starts from that approval
+  async approveBankAccount(id: number, reviewerId: string): Promise<OrganizationBankAccount> {
+    return await this.reviewBankAccount(id, reviewerId, (reviewedAt) => ({
+      status: 'active',
+      availableFrom: bankAccountAvailableFrom(reviewedAt),
+    }));
+  }
+
+  async rejectBankAccount(id: number, reviewerId: string, rejectionReason: string): Promise<OrganizationBankAccount> {
+    return await this.reviewBankAccount(id, reviewerId, () => ({ status: 'rejected', rejectionReason }));
+  }
+
+  async deactivateBankAccount(id: number, userId: string): Promise<OrganizationBankAccount> {
+    const [account] = await db
+      .update(organizationBankAccounts)
+      .set({ status: 'deactivated', deactivatedBy: userId, deactivatedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(organizationBankAccounts.id, id),
+          inArray(organizationBankAccounts.status, ['pending_approval', 'active'])
+        )
+      )
+      .returning();
+    if (!account) {
+      throw new Error(await this.getBankAccountById(id) ? 'INVALID_BANK_ACCOUNT_STATUS' : 'Bank account not found');
+    }
+    return account;
+  }
+
+  private async reviewBankAccount(
+    id: number,
+    reviewerId: string,
+    decision: (reviewedAt: Date) => Partial<OrganizationBankAccount>
+  ): Promise<OrganizationBankAccount> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(organizationBankAccounts)
+        .where(eq(organizationBankAccounts.id, id))
+        .for('update');
+      if (!current) {
+        throw new Error('Bank account not found');
+      }
+      if (current.status !== 'pending_approval') {
+        throw new Error('INVALID_BANK_ACCOUNT_STATUS');
+      }
+      if (current.requestedBy === reviewerId) {
+        throw new Error('SELF_APPROVAL');
+      }
+
+      const reviewedAt = new Date();
+      const [reviewed] = await tx
+        .update(organizationBankAccounts)
+        .set({ ...decision(reviewedAt), reviewedBy: reviewerId, reviewedAt, updatedAt: reviewedAt })
+        .where(eq(organizationBankAccounts.id, id))
+        .returning();
+
+      const bankName = findBank(reviewed.bankCode)?.name ?? reviewed.bankCode;
+      await this.createNotification({
+        userId: reviewed.requestedBy,
+        type: "system_alert",
+        title: reviewed.status === 'active' ? "Bank Account Approved" : "Bank Account Rejected",
+        message: reviewed.status === 'active'
+          ? `${bankName} account ${reviewed.accountNumber} can receive settlements from ${reviewed.availableFrom!.toLocaleString()}.`
+          : `${bankName} account ${reviewed.accountNumber} was rejected: ${reviewed.rejectionReason}`,
+        relatedEntityType: "bank_account",
+        relatedEntityId: reviewed.id,
+      }, tx);
+      return reviewed;
+    });
+  }
+
+  // Sweep operations
+  async createSweepRule(rule: InsertSettlementSweepRule): Promise<SettlementSweepRule> {
+    const [created] = await db
+      .insert(settlementSweepRules)
+      .values(rule)
+      .returning();
+    return created;
+  }
+
+  async getSweepRules(organizationId?: number): Promise<SettlementSweepRuleWithOrganization[]> {
+    const rows = await db
+      .select({ rule: settlementSweepRules, organizationName: organizations.name })
+      .from(settlementSweepRules)
+      .leftJoin(organizations, eq(settlementSweepRules.organizationId, organizations.id))
+      .where(organizationId === undefined ? undefined : eq(settlementSweepRules.organizationId, organizationId))
+      .orderBy(settlementSweepRules.status, desc(settlementSweepRules.createdAt));
+    return rows.map(({ rule, organizationName }) => ({ ...rule, organizationName }));
+  }
+
+  async getSweepRuleById(id: number): Promise<SettlementSweepRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(settlementSweepRules)
+      .where(eq(settlementSweepRules.id, id));
+    return rule;
+  }
+
+  // Pauses or resumes a rule. A rule resumed after today's run time still runs today.
+  async setSweepRuleStatus(id: number, status: SweepRuleStatus, userId: string): Promise<SettlementSweepRule> {
+    const [rule] = await db
+      .update(settlementSweepRules)
+      .set({ status, statusChangedBy: userId, statusChangedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(settlementSweepRules.id, id), not(eq(settlementSweepRules.status, status))))
+      .returning();
+    if (!rule) {
+      throw new Error(await this.getSweepRuleById(id) ? 'INVALID_SWEEP_RULE_STATUS' : 'Sweep rule not found');
+    }
+    return rule;
+  }
+
+  async getSweepRuns(organizationId?: number): Promise<SettlementSweepRunWithSettlement[]> {
+    const rows = await db
+      .select({ run: settlementSweepRuns, settlementStatus: settlementRequests.status })
+      .from(settlementSweepRuns)
+      .leftJoin(settlementRequests, eq(settlementSweepRuns.settlementRequestId, settlementRequests.id))
+      .where(organizationId === undefined ? undefined : eq(settlementSweepRuns.organizationId, organizationId))
+      .orderBy(desc(settlementSweepRuns.createdAt))
+      .limit(100);
+    return rows.map(({ run, settlementStatus }) => ({ ...run, settlementStatus }));
+  }
+
+  // Active rules that have not yet run on the given business day
+  async getSweepRulesAwaitingRun(businessDate: string): Promise<SettlementSweepRule[]> {
+    const rows = await db
+      .select({ rule: settlementSweepRules })
+      .from(settlementSweepRules)
+      .leftJoin(
+        settlementSweepRuns,
+        and(
+          eq(settlementSweepRuns.sweepRuleId, settlementSweepRules.id),
+          eq(settlementSweepRuns.businessDate, businessDate)
+        )
+      )
+      .where(and(eq(settlementSweepRules.status, 'active'), isNull(settlementSweepRuns.id)));
+    return rows.map(({ rule }) => rule);
+  }
+
+  // Claims a rule's run for the day. Undefined means it has already been claimed, by this
+  // server or another.
+  async claimSweepRun(rule: SettlementSweepRule, businessDate: string): Promise<SettlementSweepRun | undefined> {
+    const [run] = await db
+      .insert(settlementSweepRuns)
+      .values({ sweepRuleId: rule.id, organizationId: rule.organizationId, businessDate })
+      .onConflictDoNothing()
+      .returning();
+    return run;
+  }
+
+  async finishSweepRun(
+    id: number,
+    outcome: { status: SweepRunStatus; capacity?: string; amount?: string; settlementRequestId?: number; reason?: string }
+  ): Promise<SettlementSweepRun> {
+    const [run] = await db
+      .update(settlementSweepRuns)
+      .set({ ...outcome, reason: outcome.reason?.slice(0, 255) })
+      .where(eq(settlementSweepRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  // Approval matrix operations
+  async createApprovalMatrix(matrix: InsertApprovalMatrix): Promise<ApprovalMatrix> {
+    return await db.transaction(async (tx) => {
+      // Only one matrix applies per organization and currency
+      await tx
+        .update(approvalMatrices)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(approvalMatrices.organizationId, matrix.organizationId),
+            eq(approvalMatrices.currency, matrix.currency ?? DEFAULT_CURRENCY),
+            eq(approvalMatrices.isActive, true)
+          )
+        );
+
+      const [created] = await tx
+        .insert(approvalMatrices)
+        .values(matrix)
+        .returning();
+      return created;
+    });
+  }
+
+  async getApprovalMatrices(): Promise<ApprovalMatrix[]> {
+    return await db
+      .select()
+      .from(approvalMatrices)
+      .orderBy(desc(approvalMatrices.isActive), desc(approvalMatrices.createdAt));
+  }
+
+  async deactivateApprovalMatrix(id: number): Promise<ApprovalMatrix | undefined> {
+    const [matrix] = await db
+      .update(approvalMatrices)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(approvalMatrices.id, id))
+      .returning();
+    return matrix;
+  }
+
+  async getRequiredApprovals(organizationId: number, currency: string, amount: Money): Promise<number> {
+    const [matrix] = await db
+      .select()
+      .from(approvalMatrices)
+      .where(
+        and(
+          eq(approvalMatrices.organizationId, organizationId),
+          eq(approvalMatrices.currency, currency),
+          eq(approvalMatrices.isActive, true)
+        )
+      )
+      .orderBy(desc(approvalMatrices.createdAt))
+      .limit(1);
+
+    return requiredApprovals(matrix?.tiers, amount);
+  }
+
+  // Limit operations
+  async createWalletLimit(rule: InsertWalletLimit): Promise<WalletLimit> {
+    return await db.transaction(async (tx) => {
+      // Only one rule applies per target and currency
+      await tx
+        .update(walletLimits)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(walletLimits.scope, rule.scope),
+            rule.role ? eq(walletLimits.role, rule.role) : isNull(walletLimits.role),
+            rule.kycTier ? eq(walletLimits.kycTier, rule.kycTier) : isNull(walletLimits.kycTier),
+            rule.organizationId ? eq(walletLimits.organizationId, rule.organizationId) : isNull(walletLimits.organizationId),
+            rule.branchId ? eq(walletLimits.branchId, rule.branchId) : isNull(walletLimits.branchId),
+            rule.walletId ? eq(walletLimits.walletId, rule.walletId) : isNull(walletLimits.walletId),
+            eq(walletLimits.currency, rule.currency ?? DEFAULT_CURRENCY),
+            eq(walletLimits.isActive, true)
+          )
+        );
+
+      const [created] = await tx
+        .insert(walletLimits)
+        .values(rule)
+        .returning();
+      return created;
+    });
+  }
+
+  async getWalletLimits(): Promise<WalletLimit[]> {
+    return await db
+      .select()
+      .from(walletLimits)
+      .orderBy(desc(walletLimits.isActive), desc(walletLimits.createdAt));
+  }
+
+  async deactivateWalletLimit(id: number): Promise<WalletLimit | undefined> {
+    const [rule] = await db
+      .update(walletLimits)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(walletLimits.id, id))
+      .returning();
+    return rule;
+  }
+
+  // Caps in force for the wallet and what it has used against them. Null for wallets whose
+  // owner's role is not limited.
+  async getEffectiveWalletLimits(wallet: Wallet, user: User | undefined): Promise<EffectiveWalletLimits | null> {
+    if (!user || !isLimitedRole(user.role) || wallet.userId !== user.id) {
+      return null;
+    }
+    const role = user.role;
+
+    const rules = await db
+      .select()
+      .from(walletLimits)
+      .where(
+        and(
+          eq(walletLimits.isActive, true),
+          eq(walletLimits.currency, wallet.currency),
+          or(
+            and(eq(walletLimits.scope, 'role'), eq(walletLimits.role, role)),
+            user.organizationId ? and(eq(walletLimits.scope, 'organization'), eq(walletLimits.role, role), eq(walletLimits.organizationId, user.organizationId)) : undefined,
+            user.branchId ? and(eq(walletLimits.scope, 'branch'), eq(walletLimits.role, role), eq(walletLimits.branchId, user.branchId)) : undefined,
+            and(eq(walletLimits.scope, 'wallet'), eq(walletLimits.walletId, wallet.id)),
+            and(eq(walletLimits.scope, 'kyc_tier'), eq(walletLimits.role, role), eq(walletLimits.kycTier, user.kycTier))
+          )
+        )
+      );
+
+    // Broadest first, so the most specific rule is applied last and wins
+    const scopeOrder = ['role', 'organization', 'branch', 'wallet'];
+    const levelRules = rules
+      .filter(rule => rule.scope !== 'kyc_tier')
+      .sort((a, b) => scopeOrder.indexOf(a.scope) - scopeOrder.indexOf(b.scope));
+    let limits = resolveWalletLimits(defaultWalletLimits(role, wallet.currency), levelRules);
+
+    // The holder's KYC tier caps whatever the other rules allow
+    const tierRule = rules.find(rule => rule.scope === 'kyc_tier');
+    if (tierRule) {
+      limits = capWalletLimits(limits, tierRule);
+    }
+
+    // Merchants are limited on what they collect, cashiers on what they transfer out
+    const today = Money.parse(role === 'merchant' ? wallet.dailyCollected : wallet.dailyTransferred);
+    const now = new Date();
+    const weekStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    // Earlier days of the period come from the end-of-day snapshots. Today's snapshot only
+    // exists after a forced reset, and then holds what was used before it.
+    const usedColumn = role === 'merchant' ? walletDailySnapshots.collected : walletDailySnapshots.transferred;
+    const [usage] = await db
+      .select({
+        week: sql<string>`COALESCE(SUM(CASE WHEN ${walletDailySnapshots.businessDate} >= ${toBusinessDate(weekStart)} THEN ${usedColumn} ELSE 0 END), 0)::text`,
+        month: sql<string>`COALESCE(SUM(${usedColumn}), 0)::text`,
+      })
+      .from(walletDailySnapshots)
+      .where(
+        and(
+          eq(walletDailySnapshots.walletId, wallet.id),
+          gte(walletDailySnapshots.businessDate, toBusinessDate(monthStart))
+        )
+      );
+
+    return {
+      ...limits,
+      currency: wallet.currency,
+      used: {
+        daily: today.toDecimal(),
+        weekly: today.add(Money.fromNgwee(usage?.week ?? "0")).toDecimal(),
+        monthly: today.add(Money.fromNgwee(usage?.month ?? "0")).toDecimal(),
+      },
+    };
+  }
+
+  // Limit check for completing an existing transaction - both parties, by role
+  async checkTransactionLimits(transaction: Transaction): Promise<{ allowed: boolean; reason?: string }> {
+    const participants = await this.getPostingParticipants(transaction);
+    const posting = await this.getPostingAmount(transaction);
+
+    for (const participant of participants) {
+      if (!isLimitedRole(participant.role)) continue;
+
+      const limitCheck = await this.checkTransferLimits(participant.id, posting);
+      if (!limitCheck.allowed) {
+        return limitCheck;
+      }
+    }
+    return { allowed: true };
+  }
+
+  // Fraud operations
+  async createFraudRule(rule: InsertFraudRule): Promise<FraudRule> {
+    const [created] = await db
+      .insert(fraudRules)
+      .values(rule)
+      .returning();
+    return created;
+  }
+
+  async getFraudRules(): Promise<FraudRule[]> {
+    return await db
+      .select()
+      .from(fraudRules)
+      .orderBy(desc(fraudRules.isActive), desc(fraudRules.createdAt));
+  }
+
+  async deactivateFraudRule(id: number): Promise<FraudRule | undefined> {
+    const [rule] = await db
+      .update(fraudRules)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(fraudRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  // Runs every active creation rule for the transaction type against a request that has not
+  // been created yet. The strongest decision of the rules that fired wins.
+  async evaluateFraudRules(candidate: InsertTransaction): Promise<FraudEvaluation> {
+    const rules = (await this.getActiveFraudRules(candidate.type))
+      .filter(rule => !completionFraudRuleTypes.includes(rule.ruleType as FraudRuleType));
+    if (rules.length === 0) {
+      return { decision: 'allow', hits: [] };
+    }
+
+    const fromUser = candidate.fromUserId ? await this.getUser(candidate.fromUserId) : undefined;
+    const toUser = await this.getUser(candidate.toUserId);
+    const parties = [fromUser, toUser].filter((party): party is User => !!party);
+
+    return await this.applyFraudRules(rules, candidate, parties);
+  }
+
+  // Runs the completion rules against the cashier about to complete the transaction. Rules that
+  // already sent it for review were dealt with when an admin released it, so they are not run
+  // again; a block stands however often completion is retried.
+  async evaluateCompletionFraudRules(transaction: Transaction, processorId: string): Promise<FraudEvaluation> {
+    const flagged = await db
+      .select({ ruleId: fraudFlags.ruleId })
+      .from(fraudFlags)
+      .where(and(eq(fraudFlags.transactionId, transaction.id), eq(fraudFlags.decision, 'review')));
+    const rules = (await this.getActiveFraudRules(transaction.type))
+      .filter(rule => completionFraudRuleTypes.includes(rule.ruleType as FraudRuleType))
+      .filter(rule => !flagged.some(flag => flag.ruleId === rule.id));
+    if (rules.length === 0) {
+      return { decision: 'allow', hits: [] };
+    }
+
+    // The processor goes first so the rules take them as the cashier, whoever the parties are
+    const processor = await this.getUser(processorId);
+    const participants = await this.getPostingParticipants(transaction);
+    const parties = [processor, ...participants].filter((party): party is User => !!party);
+
+    return await this.applyFraudRules(rules, transaction, parties, transaction.id);
+  }
+
+  // Sends a pending transaction a cashier tried to complete to the fraud review queue
+  async holdTransactionForReview(id: number, heldBy: string): Promise<Transaction> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, id))
+        .for('update');
+      if (!current) {
+        throw new Error("Transaction not found");
+      }
+      this.assertTransition(current, 'under_review');
+
+      const [held] = await tx
+        .update(transactions)
+        .set({ status: 'under_review', expiresAt: null, updatedAt: new Date() })
+        .where(eq(transactions.id, id))
+        .returning();
+      await this.recordStatusChange(tx, id, current.status, 'under_review', heldBy, 'held by fraud rules at completion');
+      return held;
+    });
+  }
+
+  private async getActiveFraudRules(transactionType: string): Promise<FraudRule[]> {
+    return await db
+      .select()
+      .from(fraudRules)
+      .where(
+        and(
+          eq(fraudRules.isActive, true),
+          or(isNull(fraudRules.transactionType), eq(fraudRules.transactionType, transactionType))
+        )
+      );
+  }
+
+  // The strongest decision of the rules that fired wins
+  private async applyFraudRules(rules: FraudRule[], candidate: InsertTransaction, parties: User[], existingId?: number): Promise<FraudEvaluation> {
+    const hits: FraudRuleHit[] = [];
+    for (const rule of rules) {
+      const reason = await this.checkFraudRule(rule, candidate, parties, existingId);
+      if (reason) {
+        hits.push({ rule, decision: rule.action as FraudDecision, reason });
+      }
+    }
+    return { decision: strongestFraudDecision(hits.map(hit => hit.decision)), hits };
+  }
+
+  // Why the rule fires for the request, or null when it passes. existingId is the transaction
+  // itself when it has already been created, so it is not counted twice.
+  private async checkFraudRule(rule: FraudRule, candidate: InsertTransaction, parties: User[], existingId?: number): Promise<string | null> {
+    const merchant = parties.find(party => party.role === 'merchant');
+    const cashier = parties.find(party => party.role === 'cashier');
+    const notItself = existingId ? not(eq(transactions.id, existingId)) : undefined;
+    const since = rule.windowMinutes ? new Date(Date.now() - rule.windowMinutes * 60 * 1000) : null;
+    const typeFilter = rule.transactionType ? eq(transactions.type, rule.transactionType) : undefined;
+
+    switch (rule.ruleType) {
+      case 'merchant_velocity': {
+        if (!merchant || !rule.threshold || !since) return null;
+
+        const [row] = await db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(transactions)
+          .where(
+            and(
+              or(eq(transactions.fromUserId, merchant.id), eq(transactions.toUserId, merchant.id)),
+              gte(transactions.createdAt, since),
+              typeFilter
+            )
+          );
+        const count = (row?.count ?? 0) + 1;
+        return count > rule.threshold
+          ? `${count} transactions for the merchant in ${rule.windowMinutes} minutes (max ${rule.threshold})`
+          : null;
+      }
+      case 'near_daily_limit': {
+        if (!rule.threshold) return null;
+
+        const amount = Money.parse(candidate.amount);
+        for (const party of parties) {
+          const wallet = await this.getOrCreateWallet(party.id);
+          if (wallet.currency !== candidate.currency) continue;
+
+          const limits = await this.getEffectiveWalletLimits(wallet, party);
+          if (!limits?.daily) continue;
+
+          const cap = Money.parse(limits.daily);
+          if (amount.lessThanOrEqual(cap) && amount.greaterThanOrEqual(cap.multiply(rule.threshold / 100))) {
+            return `Amount is ${rule.threshold}% or more of the ${party.role}'s daily limit of ${cap.format(wallet.currency)}`;
+          }
+        }
+        return null;
+      }
+      case 'vmf_reuse': {
+        const vmfNumber = candidate.vmfNumber?.trim();
+        if (!vmfNumber) return null;
+
+        const [earlier] = await db
+          .select({ transactionId: transactions.transactionId })
+          .from(transactions)
+          .where(
+            and(
+              sql`lower(trim(${transactions.vmfNumber})) = ${vmfNumber.toLowerCase()}`,
+              not(eq(transactions.status, 'rejected')),
+              since ? gte(transactions.createdAt, since) : undefined,
+              typeFilter
+            )
+          )
+          .limit(1);
+        return earlier ? `VMF number ${vmfNumber} is already on ${earlier.transactionId}` : null;
+      }
+      case 'cashier_merchant_frequency': {
+        if (!merchant || !cashier || !rule.threshold || !since) return null;
+
+        const [row] = await db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(transactions)
+          .where(
+            and(
+              or(eq(transactions.fromUserId, merchant.id), eq(transactions.toUserId, merchant.id)),
+              or(eq(transactions.fromUserId, cashier.id), eq(transactions.toUserId, cashier.id), eq(transactions.processedBy, cashier.id)),
+              gte(transactions.createdAt, since),
+              typeFilter,
+              notItself
+            )
+          );
+        const count = (row?.count ?? 0) + 1;
+        return count > rule.threshold
+          ? `${count} transactions between the cashier and merchant in ${rule.windowMinutes} minutes (max ${rule.threshold})`
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  async recordFraudFlags(transactionId: number | null, requestedBy: string, hits: FraudRuleHit[]): Promise<void> {
+    if (hits.length === 0) return;
+
+    await db.insert(fraudFlags).values(hits.map(hit => ({
+      transactionId,
+      ruleId: hit.rule.id,
+      ruleType: hit.rule.ruleType,
+      decision: hit.decision,
+      reason: hit.reason,
+      requestedBy,
+    })));
+  }
+
+  async getFlaggedTransactions(): Promise<FlaggedTransaction[]> {
+    const held = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.status, 'under_review'))
+      .orderBy(transactions.createdAt);
+    if (held.length === 0) {
+      return [];
+    }
+
+    const flags = await db
+      .select()
+      .from(fraudFlags)
+      .where(inArray(fraudFlags.transactionId, held.map(transaction => transaction.id)));
+    return held.map(transaction => ({
+      ...transaction,
+      flags: flags.filter(flag => flag.transactionId === transaction.id),
+    }));
+  }
+
+  async getBlockedFraudFlags(limit: number = 50): Promise<FraudFlag[]> {
+    return await db
+      .select()
+      .from(fraudFlags)
+      .where(isNull(fraudFlags.transactionId))
+      .orderBy(desc(fraudFlags.createdAt))
+      .limit(limit);
+  }
+
+  // Sends a held transaction on to cashiers with a fresh expiry window
+  async releaseFlaggedTransaction(id: number, releasedBy: string, expiresAt: Date): Promise<Transaction> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, id))
+        .for('update');
+      if (!current) {
+        throw new Error("Transaction not found");
+      }
+      this.assertTransition(current, 'pending');
+
+      const [released] = await tx
+        .update(transactions)
+        .set({ status: 'pending', expiresAt, updatedAt: new Date() })
+        .where(eq(transactions.id, id))
+        .returning();
+      await this.recordStatusChange(tx, id, current.status, 'pending', releasedBy, 'released after fraud review');
+      return released;
+    });
+  }
+
+  // Commission operations
+  async createCommissionPlan(plan: InsertCommissionPlan): Promise<CommissionPlan> {
+    return await db.transaction(async (tx) => {
+      // One active plan per organization (or branch), transaction type and currency
+      await tx
+        .update(commissionPlans)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(commissionPlans.organizationId, plan.organizationId),
+            plan.branchId ? eq(commissionPlans.branchId, plan.branchId) : isNull(commissionPlans.branchId),
+            eq(commissionPlans.transactionType, plan.transactionType ?? 'cash_digitization'),
+            eq(commissionPlans.currency, plan.currency ?? DEFAULT_CURRENCY),
+            eq(commissionPlans.isActive, true)
+          )
+        );
+
+      const [created] = await tx
+        .insert(commissionPlans)
+        .values(plan)
+        .returning();
+      return created;
+    });
+  }
+
+  async getCommissionPlans(organizationId?: number): Promise<CommissionPlan[]> {
+    return await db
+      .select()
+      .from(commissionPlans)
+      .where(organizationId ? eq(commissionPlans.organizationId, organizationId) : undefined)
+      .orderBy(desc(commissionPlans.isActive), desc(commissionPlans.createdAt));
+  }
+
+  async deactivateCommissionPlan(id: number): Promise<CommissionPlan | undefined> {
+    const [plan] = await db
+      .update(commissionPlans)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(commissionPlans.id, id))
+      .returning();
+    return plan;
+  }
+
+  // Accrues commission to the cashier who processed a completed transaction, using the
+  // cashier's branch plan if there is one and the organization plan otherwise
+  private async accrueCommission(tx: DbTransaction, transaction: Transaction): Promise<void> {
+    if (!transaction.processedBy) return;
+
+    const [cashier] = await tx.select().from(users).where(eq(users.id, transaction.processedBy));
+    if (cashier?.role !== 'cashier' || !cashier.organizationId) return;
+
+    const [plan] = await tx
+      .select()
+      .from(commissionPlans)
+      .where(
+        and(
+          eq(commissionPlans.organizationId, cashier.organizationId),
+          eq(commissionPlans.transactionType, transaction.type),
+          eq(commissionPlans.currency, transaction.currency),
+          eq(commissionPlans.isActive, true),
+          cashier.branchId
+            ? or(eq(commissionPlans.branchId, cashier.branchId), isNull(commissionPlans.branchId))
+            : isNull(commissionPlans.branchId)
+        )
+      )
+      .orderBy(sql`${commissionPlans.branchId} IS NULL`, desc(commissionPlans.createdAt))
+      .limit(1);
+
+    const commission = calculateCommission(plan, Money.parse(transaction.amount));
+    if (!commission.isPositive()) return;
+
+    await tx
+      .insert(commissionAccruals)
+      .values({
+        cashierId: cashier.id,
+        organizationId: cashier.organizationId,
+        transactionId: transaction.id,
+        commissionPlanId: plan.id,
+        amount: commission.toDecimal(),
+        currency: transaction.currency,
+      });
+  }
+
+  // A reversal cancels the commission if it is still accrued. If it has already been closed
+  // into a payable, a negative accrual claws it back from the cashier's next period.
+  private async reverseCommission(tx: DbTransaction, originalId: number, reversalId: number): Promise<void> {
+    const [accrual] = await tx
+      .select()
+      .from(commissionAccruals)
+      .where(eq(commissionAccruals.transactionId, originalId))
+      .for('update');
+    if (!accrual || accrual.status === 'reversed') return;
+
+    if (accrual.status === 'accrued') {
+      await tx
+        .update(commissionAccruals)
+        .set({ status: 'reversed' })
+        .where(eq(commissionAccruals.id, accrual.id));
+      return;
+    }
+
+    await tx
+      .insert(commissionAccruals)
+      .values({
+        cashierId: accrual.cashierId,
+        organizationId: accrual.organizationId,
+        transactionId: reversalId,
+        commissionPlanId: accrual.commissionPlanId,
+        amount: Money.parse(accrual.amount).negate().toDecimal(),
+        currency: accrual.currency,
+      });
+  }
+
+  async getCommissionStatement(cashierId: string, from?: Date, to?: Date): Promise<CommissionStatement> {
+    const accrualConditions = [eq(commissionAccruals.cashierId, cashierId)];
+    if (from) accrualConditions.push(gte(commissionAccruals.createdAt, from));
+    if (to) accrualConditions.push(lt(commissionAccruals.createdAt, to));
+
+    const accrualRows = await db
+      .select({ accrual: commissionAccruals, transactionRef: transactions.transactionId })
+      .from(commissionAccruals)
+      .leftJoin(transactions, eq(commissionAccruals.transactionId, transactions.id))
+      .where(and(...accrualConditions))
+      .orderBy(desc(commissionAccruals.createdAt));
+
+    const payableConditions = [eq(commissionPayables.cashierId, cashierId)];
+    if (from) payableConditions.push(gte(commissionPayables.periodEnd, from));
+    if (to) payableConditions.push(lt(commissionPayables.periodEnd, to));
+
+    const payables = await db
+      .select()
+      .from(commissionPayables)
+      .where(and(...payableConditions))
+      .orderBy(desc(commissionPayables.periodEnd));
+
+    // Totals cover everything outstanding, not just the requested range
+    const outstanding = await db
+      .select({
+        currency: commissionAccruals.currency,
+        total: sql<string>`COALESCE(SUM(${commissionAccruals.amount}), 0)`.mapWith(commissionAccruals.amount),
+      })
+      .from(commissionAccruals)
+      .where(
+        and(
+          eq(commissionAccruals.cashierId, cashierId),
+          eq(commissionAccruals.status, 'accrued')
+        )
+      )
+      .groupBy(commissionAccruals.currency);
+
+    const payableTotals = await db
+      .select({
+        currency: commissionPayables.currency,
+        total: sql<string>`COALESCE(SUM(${commissionPayables.amount}), 0)`.mapWith(commissionPayables.amount),
+      })
+      .from(commissionPayables)
+      .where(
+        and(
+          eq(commissionPayables.cashierId, cashierId),
+          eq(commissionPayables.status, 'payable')
+        )
+      )
+      .groupBy(commissionPayables.currency);
+
+    const currencies = Array.from(new Set([...outstanding, ...payableTotals].map(row => row.currency)));
+    const totals = currencies.map(currency => ({
+      currency,
+      accrued: outstanding.find(row => row.currency === currency)?.total ?? "0.00",
+      payable: payableTotals.find(row => row.currency === currency)?.total ?? "0.00",
+    }));
+
+    return {
+      accruals: accrualRows.map(row => ({ ...row.accrual, transactionRef: row.transactionRef })),
+      payables,
+      totals,
+    };
+  }
+
+  // Moves every accrual created before periodEnd into one payable per cashier and currency.
+  // Cashiers whose claw-backs outweigh their earnings keep the net accrual for the next period.
+  async closeCommissionPeriod(organizationId: number, periodEnd: Date, closedBy: string): Promise<CommissionPayable[]> {
+    return await db.transaction(async (tx) => {
+      const accruals = await tx
+        .select()
+        .from(commissionAccruals)
+        .where(
+          and(
+            eq(commissionAccruals.organizationId, organizationId),
+            eq(commissionAccruals.status, 'accrued'),
+            lt(commissionAccruals.createdAt, periodEnd)
+          )
+        )
+        .for('update');
+
+      const groups = new Map<string, CommissionAccrual[]>();
+      for (const accrual of accruals) {
+        const key = `${accrual.cashierId}:${accrual.currency}`;
+        groups.set(key, [...(groups.get(key) ?? []), accrual]);
+      }
+
+      const payables: CommissionPayable[] = [];
+      for (const group of Array.from(groups.values())) {
+        const total = Money.sum(group.map(accrual => Money.parse(accrual.amount)));
+        if (!total.isPositive()) continue;
+
+        const [payable] = await tx
+          .insert(commissionPayables)
+          .values({
+            cashierId: group[0].cashierId,
+            organizationId,
+            amount: total.toDecimal(),
+            currency: group[0].currency,
+            periodEnd,
+            closedBy,
+          })
+          .returning();
+
+        await tx
+          .update(commissionAccruals)
+          .set({ status: 'payable', payableId: payable.id })
+          .where(inArray(commissionAccruals.id, group.map(accrual => accrual.id)));
+
+        payables.push(payable);
+      }
+
+      return payables;
+    });
+  }
+
+  // Float operations
+  async createFloatRequest(cashierId: string, type: string, amount: Money, note?: string): Promise<FloatRequest> {
+    const cashier = await this.getUser(cashierId);
+    if (!cashier?.organizationId || !cashier.branchId) {
+      throw new Error('NO_BRANCH');
+    }
+
+    const [branch] = await db.select().from(branches).where(eq(branches.id, cashier.branchId));
+    if (!branch || branch.organizationId !== cashier.organizationId) {
+      throw new Error('NO_BRANCH');
+    }
+
+    const wallet = await this.getOrCreateWallet(cashierId);
+    if (wallet.currency !== branch.currency) {
+      throw new Error('CURRENCY_MISMATCH');
+    }
+
+    // Checked again on approval, since the float keeps moving while the request waits
+    if (type === 'return' && amount.greaterThan(Money.parse(wallet.balance))) {
+      throw new Error('INSUFFICIENT_FLOAT');
+    }
+
+    const [request] = await db
+      .insert(floatRequests)
+      .values({
+        cashierId,
+        organizationId: cashier.organizationId,
+        branchId: branch.id,
+        type,
+        amount: amount.toDecimal(),
+        currency: wallet.currency,
+        note: note || null,
+      })
+      .returning();
+    return request;
+  }
+
+  async getFloatRequestById(id: number): Promise<FloatRequest | undefined> {
+    const [request] = await db.select().from(floatRequests).where(eq(floatRequests.id, id));
+    return request;
+  }
+
+  async getFloatRequests(filter: { cashierId?: string; organizationId?: number }): Promise<FloatRequestWithDetails[]> {
+    const rows = await db
+      .select({
+        request: floatRequests,
+        cashierFirstName: users.firstName,
+        cashierLastName: users.lastName,
+        cashierEmail: users.email,
+        branchName: branches.name,
+        branchBalance: branches.balance,
+      })
+      .from(floatRequests)
+      .innerJoin(branches, eq(floatRequests.branchId, branches.id))
+      .leftJoin(users, eq(floatRequests.cashierId, users.id))
+      .where(
+        and(
+          filter.cashierId ? eq(floatRequests.cashierId, filter.cashierId) : undefined,
+          filter.organizationId ? eq(floatRequests.organizationId, filter.organizationId) : undefined
+        )
+      )
+      .orderBy(desc(floatRequests.createdAt))
+      .limit(100);
+
+    return rows.map(row => ({
+      ...row.request,
+      cashierName: [row.cashierFirstName, row.cashierLastName].filter(Boolean).join(' ') || row.cashierEmail,
+      branchName: row.branchName,
+      branchBalance: row.branchBalance ?? "0",
+    }));
+  }
+
+  // Moves the float between the branch vault and the cashier wallet in one transaction
+  async approveFloatRequest(id: number, approvedBy: string): Promise<FloatRequest> {
+    const request = await this.getFloatRequestById(id);
+    if (!request) {
+      throw new Error("Float request not found");
+    }
+
+    if (request.cashierId === approvedBy) {
+      throw new Error('SAME_APPROVER');
+    }
+
+    const walletUserIds = await this.prepareWalletsForPosting(request.cashierId, 'cashier');
+
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(floatRequests)
+        .where(eq(floatRequests.id, id))
+        .for('update');
+
+      if (current.status !== 'pending') {
+        throw new Error('FLOAT_REQUEST_NOT_PENDING');
+      }
+
+      const [branch] = await tx
+        .select()
+        .from(branches)
+        .where(eq(branches.id, current.branchId))
+        .for('update');
+      const [wallet] = await this.lockWallets(tx, walletUserIds);
+
+      if (wallet.currency !== current.currency || branch.currency !== current.currency) {
+        throw new Error('CURRENCY_MISMATCH');
+      }
+
+      const amount = Money.parse(current.amount);
+      const branchBalance = Money.parse(branch.balance);
+      const walletBalance = Money.parse(wallet.balance);
+      const isTopUp = current.type === 'top_up';
+
+      if (isTopUp && amount.greaterThan(branchBalance)) {
+        throw new Error('INSUFFICIENT_BRANCH_FLOAT');
+      }
+      if (!isTopUp && amount.greaterThan(walletBalance)) {
+        throw new Error('INSUFFICIENT_FLOAT');
+      }
+
+      await tx
+        .update(branches)
+        .set({
+          balance: (isTopUp ? branchBalance.subtract(amount) : branchBalance.add(amount)).toDecimal(),
+          updatedAt: new Date(),
+        })
+        .where(eq(branches.id, branch.id));
+
+      await tx
+        .update(wallets)
+        .set({
+          balance: (isTopUp ? walletBalance.add(amount) : walletBalance.subtract(amount)).toDecimal(),
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.id, wallet.id));
+
+      await this.postJournal({
+        description: isTopUp ? `Float top-up from ${branch.name} vault` : `Float returned to ${branch.name} vault`,
+        floatRequestId: current.id,
+        legs: [
+          { account: 'cashier_float', walletId: wallet.id, direction: isTopUp ? 'credit' : 'debit', amount, currency: wallet.currency },
+          { account: 'branch_vault', direction: isTopUp ? 'debit' : 'credit', amount, currency: wallet.currency },
+        ],
+      }, tx);
+
+      const [approved] = await tx
+        .update(floatRequests)
+        .set({
+          status: 'approved',
+          reviewedBy: approvedBy,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(floatRequests.id, id))
+        .returning();
+      return approved;
+    });
+  }
+
+  async rejectFloatRequest(id: number, rejectedBy: string, rejectionReason: string): Promise<void> {
+    const [rejected] = await db
+      .update(floatRequests)
+      .set({
+        status: 'rejected',
+        rejectionReason,
+        reviewedBy: rejectedBy,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(floatRequests.id, id), eq(floatRequests.status, 'pending')))
+      .returning();
+
+    if (!rejected) {
+      throw new Error('FLOAT_REQUEST_NOT_PENDING');
+    }
+  }
+
+  // KYC operations
+  async getKycDocuments(userId: string): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(
+        and(
+          eq(documents.userId, userId),
+          isNull(documents.transactionId),
+          inArray(documents.type, [...kycDocumentTypes])
+        )
+      )
+      .orderBy(desc(documents.createdAt));
+  }
+
+  private async assertKycDocumentsOnFile(user: User, tier: KycTier): Promise<void> {
+    const onFile = new Set((await this.getKycDocuments(user.id)).map(document => document.type));
+    if (requiredKycDocuments(tier, user.role).some(type => !onFile.has(type))) {
+      throw new Error('KYC_DOCUMENTS_MISSING');
+    }
+  }
+
+  async createKycRequest(userId: string, requestedTier: KycTier): Promise<KycRequest> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (!isHigherKycTier(requestedTier, user.kycTier)) {
+      throw new Error('KYC_TIER_NOT_HIGHER');
+    }
+    await this.assertKycDocumentsOnFile(user, requestedTier);
+
+    const [pending] = await db
+      .select({ id: kycRequests.id })
+      .from(kycRequests)
+      .where(and(eq(kycRequests.userId, userId), eq(kycRequests.status, 'pending')))
+      .limit(1);
+    if (pending) {
+      throw new Error('KYC_REQUEST_PENDING');
+    }
+
+    const [request] = await db
+      .insert(kycRequests)
+      .values({
+        userId,
+        currentTier: user.kycTier,
+        requestedTier,
+      })
+      .returning();
+    return request;
+  }
+
+  async getKycRequests(filter: { userId?: string; status?: string }): Promise<KycRequestWithDetails[]> {
+    const rows = await db
+      .select({
+        request: kycRequests,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        role: users.role,
+      })
+      .from(kycRequests)
+      .leftJoin(users, eq(kycRequests.userId, users.id))
+      .where(
+        and(
+          filter.userId ? eq(kycRequests.userId, filter.userId) : undefined,
+          filter.status ? eq(kycRequests.status, filter.status) : undefined
+        )
+      )
+      .orderBy(desc(kycRequests.createdAt))
+      .limit(100);
+
+    const results: KycRequestWithDetails[] = [];
+    for (const row of rows) {
+      results.push({
+        ...row.request,
+        userName: [row.firstName, row.lastName].filter(Boolean).join(' ') || row.email,
+        userRole: row.role,
+        documents: await this.getKycDocuments(row.request.userId),
+      });
+    }
+    return results;
+  }
+
+  // Promotes the user to the requested tier, provided the documents are still on file
+  async approveKycRequest(id: number, approvedBy: string): Promise<KycRequest> {
+    const [request] = await db.select().from(kycRequests).where(eq(kycRequests.id, id));
+    if (!request) {
+      throw new Error("KYC request not found");
+    }
+    if (request.userId === approvedBy) {
+      throw new Error('SAME_APPROVER');
+    }
+
+    const user = await this.getUser(request.userId);
+    if (!user || !isKycTier(request.requestedTier)) {
+      throw new Error("User not found");
+    }
+    await this.assertKycDocumentsOnFile(user, request.requestedTier);
+
+    return await db.transaction(async (tx) => {
+      const [approved] = await tx
+        .update(kycRequests)
+        .set({
+          status: 'approved',
+          reviewedBy: approvedBy,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(kycRequests.id, id), eq(kycRequests.status, 'pending')))
+        .returning();
+
+      if (!approved) {
+        throw new Error('KYC_REQUEST_NOT_PENDING');
+      }
+
+      await tx
+        .update(users)
+        .set({ kycTier: approved.requestedTier, updatedAt: new Date() })
+        .where(eq(users.id, approved.userId));
+
+      return approved;
+    });
+  }
+
+  async rejectKycRequest(id: number, rejectedBy: string, rejectionReason: string): Promise<void> {
+    const [rejected] = await db
+      .update(kycRequests)
+      .set({
+        status: 'rejected',
+        rejectionReason,
+        reviewedBy: rejectedBy,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(kycRequests.id, id), eq(kycRequests.status, 'pending')))
+      .returning();
+
+    if (!rejected) {
+      throw new Error('KYC_REQUEST_NOT_PENDING');
+    }
+  }
+
+  // Screening operations
+  // Records the matches and puts the subject on hold in one step
+  async recordScreeningMatches(subject: { userId: string } | { settlementRequestId: number }, hits: ScreeningHit[]): Promise<void> {
+    if (hits.length === 0) return;
+
+    const userId = 'userId' in subject ? subject.userId : null;
+    const settlementRequestId = 'settlementRequestId' in subject ? subject.settlementRequestId : null;
+
+    await db.transaction(async (tx) => {
+      await tx.insert(screeningMatches).values(hits.map(hit => ({
+        subjectType: userId ? 'user' : 'settlement_request',
+        userId,
+        settlementRequestId,
+        screenedValue: hit.screenedValue,
+        matchedValue: hit.match.matchedValue,
+        listName: hit.match.entry.list,
+        score: hit.match.score,
+      })));
+
+      if (userId) {
+        // A user already confirmed as a match stays blocked
+        await tx
+          .update(users)
+          .set({ screeningStatus: 'hold', updatedAt: new Date() })
+          .where(and(eq(users.id, userId), not(eq(users.screeningStatus, 'blocked'))));
+      } else {
+        await tx
+          .update(settlementRequests)
+          .set({
+            status: 'hold',
+            holdReason: 'pending_verification',
+            reasonComment: 'Beneficiary matched a sanctions or watch list',
+            updatedAt: new Date(),
+          })
+          .where(eq(settlementRequests.id, settlementRequestId!));
+      }
+    });
+  }
+
+  async getScreeningMatches(status?: string): Promise<ScreeningMatchWithSubject[]> {
+    const rows = await db
+      .select({
+        match: screeningMatches,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        settlement: settlementRequests,
+      })
+      .from(screeningMatches)
+      .leftJoin(users, eq(screeningMatches.userId, users.id))
+      .leftJoin(settlementRequests, eq(screeningMatches.settlementRequestId, settlementRequests.id))
+      .where(status ? eq(screeningMatches.status, status) : undefined)
+      .orderBy(desc(screeningMatches.createdAt))
+      .limit(200);
+
+    return rows.map(row => ({
+      ...row.match,
+      subjectName: [row.firstName, row.lastName].filter(Boolean).join(' ') || row.email,
+      settlement: row.settlement ? {
+        bankName: row.settlement.bankName,
+        accountNumber: row.settlement.accountNumber,
+        amount: row.settlement.amount,
+        currency: row.settlement.currency,
+        status: row.settlement.status,
+      } : null,
+    }));
+  }
+
+  // An analyst's decision on one match. A confirmed match blocks the user or rejects the
+  // settlement; once every match on a subject is cleared the hold is lifted.
+  async reviewScreeningMatch(id: number, reviewerId: string, decision: 'cleared' | 'confirmed', note?: string): Promise<ScreeningMatch> {
+    const { reviewed, outcome } = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(screeningMatches)
+        .where(eq(screeningMatches.id, id))
+        .for('update');
+      if (!current) {
+        throw new Error('Screening match not found');
+      }
+      if (current.status !== 'pending') {
+        throw new Error('SCREENING_MATCH_NOT_PENDING');
+      }
+
+      const [reviewed] = await tx
+        .update(screeningMatches)
+        .set({ status: decision, reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: note || null })
+        .where(eq(screeningMatches.id, id))
+        .returning();
+
+      const subjectFilter = current.userId
+        ? eq(screeningMatches.userId, current.userId)
+        : eq(screeningMatches.settlementRequestId, current.settlementRequestId!);
+      const open = await tx
+        .select({ status: screeningMatches.status })
+        .from(screeningMatches)
+        .where(and(subjectFilter, inArray(screeningMatches.status, ['pending', 'confirmed'])));
+      const outcome = open.some(match => match.status === 'confirmed')
+        ? 'confirmed'
+        : open.length === 0 ? 'cleared' : 'open';
+
+      if (current.userId && outcome !== 'open') {
+        await tx
+          .update(users)
+          .set({ screeningStatus: outcome === 'confirmed' ? 'blocked' : 'clear', updatedAt: new Date() })
+          .where(eq(users.id, current.userId));
+      }
+      return { reviewed, outcome };
+    });
+
+    // Settlements move through the usual status update so the finance officer is notified
+    if (reviewed.settlementRequestId && outcome !== 'open') {
+      const [settlement] = await db
+        .select()
+        .from(settlementRequests)
+        .where(eq(settlementRequests.id, reviewed.settlementRequestId));
+      if (settlement?.status === 'hold' && outcome === 'confirmed') {
+        await this.updateSettlementRequestStatus(settlement.id, 'rejected', reviewerId, undefined, 'policy_violation', 'Beneficiary confirmed on a sanctions or watch list');
+      } else if (settlement?.status === 'hold' && outcome === 'cleared') {
+        await this.updateSettlementRequestStatus(settlement.id, 'pending', reviewerId);
+      }
+    }
+
+    return reviewed;
+  }
+
+  // Payout operations
+  // Batches every approved, unbatched settlement of an organization in one currency
+  async createPayoutBatch(organizationId: number, currency: string, format: PayoutFileFormat, generatedBy: string): Promise<PayoutBatch> {
+    return await db.transaction(async (tx) => {
+      const settlements = await tx
+        .select()
+        .from(settlementRequests)
+        .where(
+          and(
+            eq(settlementRequests.organizationId, organizationId),
+            eq(settlementRequests.currency, currency),
+            eq(settlementRequests.status, 'approved'),
+            isNull(settlementRequests.payoutBatchId)
+          )
+        )
+        .orderBy(settlementRequests.id)
+        .for('update');
+      if (settlements.length === 0) {
+        throw new Error('NO_SETTLEMENTS_TO_PAY');
+      }
+
+      const batchNumber = generatePayoutBatchNumber();
+      const file = await this.renderPayoutBatchFile(tx, { batchNumber, organizationId, currency, fileVersion: 1 }, format, settlements);
+      const [batch] = await tx
+        .insert(payoutBatches)
+        .values({
+          batchNumber,
+          organizationId,
+          currency,
+          format,
+          settlementCount: settlements.length,
+          totalAmount: Money.sum(settlements.map(settlement => this.payoutAmount(settlement))).toDecimal(),
+          fileName: file.fileName,
+          fileContent: file.content,
+          generatedBy,
+        })
+        .returning();
+
+      await tx
+        .update(settlementRequests)
+        .set({ payoutBatchId: batch.id, updatedAt: new Date() })
+        .where(inArray(settlementRequests.id, settlements.map(settlement => settlement.id)));
+      return batch;
+    });
+  }
+
+  async getPayoutBatches(organizationId?: number): Promise<PayoutBatch[]> {
+    return await db
+      .select()
+      .from(payoutBatches)
+      .where(organizationId ? eq(payoutBatches.organizationId, organizationId) : undefined)
+      .orderBy(desc(payoutBatches.createdAt))
+      .limit(50);
+  }
+
+  // Approved, unbatched settlements per organization and currency - what the next batches would pay
+  async getSettlementsReadyForPayout(): Promise<{ organizationId: number; organizationName: string | null; currency: string; count: number; amount: string }[]> {
+    const rows = await db
+      .select({ settlement: settlementRequests, organizationName: organizations.name })
+      .from(settlementRequests)
+      .leftJoin(organizations, eq(settlementRequests.organizationId, organizations.id))
+      .where(and(eq(settlementRequests.status, 'approved'), isNull(settlementRequests.payoutBatchId)));
+
+    const groups = new Map<string, { organizationId: number; organizationName: string | null; currency: string; count: number; amount: Money }>();
+    for (const { settlement, organizationName } of rows) {
+      const key = `${settlement.organizationId}:${settlement.currency}`;
+      const group = groups.get(key) ?? { organizationId: settlement.organizationId, organizationName, currency: settlement.currency, count: 0, amount: Money.zero() };
+      group.count += 1;
+      group.amount = group.amount.add(this.payoutAmount(settlement));
+      groups.set(key, group);
+    }
+    return Array.from(groups.values()).map(group => ({ ...group, amount: group.amount.toDecimal() }));
+  }
+
+  async getPayoutBatchById(id: number): Promise<PayoutBatchWithSettlements | undefined> {
+    const [row] = await db
+      .select({ batch: payoutBatches, organizationName: organizations.name })
+      .from(payoutBatches)
+      .leftJoin(organizations, eq(payoutBatches.organizationId, organizations.id))
+      .where(eq(payoutBatches.id, id));
+    if (!row) {
+      return undefined;
+    }
+
+    const settlements = await db
+      .select()
+      .from(settlementRequests)
+      .where(eq(settlementRequests.payoutBatchId, id))
+      .orderBy(settlementRequests.id);
+    return { ...row.batch, organizationName: row.organizationName, settlements };
+  }
+
+  // Renders the file again, e.g. in another format. Only before it goes to the bank: a new file
+  // for a batch the bank already has would carry a new message id and could be paid twice.
+  async regeneratePayoutBatchFile(id: number, format: PayoutFileFormat | undefined, generatedBy: string): Promise<PayoutBatch> {
+    return await db.transaction(async (tx) => {
+      const [batch] = await tx
+        .select()
+        .from(payoutBatches)
+        .where(eq(payoutBatches.id, id))
+        .for('update');
+      if (!batch) {
+        throw new Error('Payout batch not found');
+      }
+      if (batch.status !== 'generated') {
+        throw new Error('INVALID_PAYOUT_BATCH_STATUS');
+      }
+
+      const settlements = await tx
+        .select()
+        .from(settlementRequests)
+        .where(
+          and(
+            eq(settlementRequests.payoutBatchId, id),
+            eq(settlementRequests.status, 'approved')
+          )
+        )
+        .orderBy(settlementRequests.id);
+
+      const fileFormat = format ?? batch.format as PayoutFileFormat;
+      const fileVersion = batch.fileVersion + 1;
+      const file = await this.renderPayoutBatchFile(tx, { ...batch, fileVersion }, fileFormat, settlements);
+      const [updated] = await tx
+        .update(payoutBatches)
+        .set({
+          format: fileFormat,
+          fileName: file.fileName,
+          fileContent: file.content,
+          fileVersion,
+          fileGeneratedAt: new Date(),
+          generatedBy,
+          updatedAt: new Date(),
+        })
+        .where(eq(payoutBatches.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // The file has gone to the bank; its settlements now wait for the bank's result
+  async markPayoutBatchProcessing(id: number, userId: string): Promise<PayoutBatch> {
+    return await db.transaction(async (tx) => {
+      const [batch] = await tx
+        .select()
+        .from(payoutBatches)
+        .where(eq(payoutBatches.id, id))
+        .for('update');
+      if (!batch) {
+        throw new Error('Payout batch not found');
+      }
+      if (batch.status !== 'generated') {
+        throw new Error('INVALID_PAYOUT_BATCH_STATUS');
+      }
+
+      const [updated] = await tx
+        .update(payoutBatches)
+        .set({ status: 'processing', processingBy: userId, processingAt: new Date(), updatedAt: new Date() })
+        .where(eq(payoutBatches.id, id))
+        .returning();
+
+      const settlements = await tx
+        .update(settlementRequests)
+        .set({ status: 'processing', updatedAt: new Date() })
+        .where(and(eq(settlementRequests.payoutBatchId, id), eq(settlementRequests.status, 'approved')))
+        .returning();
+
+      for (const settlement of settlements) {
+        await this.createNotification({
+          userId: settlement.userId,
+          type: "settlement_status_change",
+          title: "Settlement Request Processing",
+          message: this.getSettlementStatusMessage('processing'),
+          relatedEntityType: "settlement_request",
+          relatedEntityId: settlement.id,
+        }, tx);
+      }
+      return updated;
+    });
+  }
+
+  // The bank's result for one settlement. A failed payout puts the amount back in the treasury
+  // and reverses the withheld fee; the batch completes once none of its settlements is processing.
+  async recordPayoutResult(settlementRequestId: number, result: PayoutResult, userId: string, failureReason?: string): Promise<SettlementRequest> {
+    const [settlementRequest] = await db
+      .select()
+      .from(settlementRequests)
+      .where(eq(settlementRequests.id, settlementRequestId));
+    if (!settlementRequest) {
+      throw new Error('Settlement request not found');
+    }
+
+    // Make sure the treasury and revenue wallets exist before locking
+    const treasury = await this.getOrCreateTreasuryWallet(settlementRequest.organizationId);
+    await this.getOrCreatePlatformRevenueWallet(settlementRequest.currency);
+
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(settlementRequests)
+        .where(eq(settlementRequests.id, settlementRequestId))
+        .for('update');
+      if (current.status !== 'processing' || !current.payoutBatchId) {
+        throw new Error('INVALID_SETTLEMENT_STATUS');
+      }
+
+      if (result === 'failed') {
+        const lockedWallets = await this.lockWallets(tx, [treasury.userId, PLATFORM_REVENUE_USER_ID]);
+        const financeWallet = lockedWallets.find(wallet => wallet.id === treasury.id)!;
+        const settlementAmount = Money.parse(current.amount);
+        const settlementFee = Money.parse(current.feeAmount);
+
+        await tx
+          .update(wallets)
+          .set({
+            balance: Money.parse(financeWallet.balance).add(settlementAmount).toDecimal(),
+            lastTransactionDate: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.id, financeWallet.id));
+
+        const legs: LedgerLeg[] = [
+          { account: 'settlement_outflow', direction: 'debit', amount: settlementAmount.subtract(settlementFee), currency: current.currency },
+          { account: 'finance_master', walletId: financeWallet.id, direction: 'credit', amount: settlementAmount, currency: current.currency },
+        ];
+        if (settlementFee.isPositive()) {
+          const revenueWallet = await this.adjustPlatformRevenue(tx, current.currency, settlementFee.negate());
+          legs.push({ account: 'platform_revenue', walletId: revenueWallet.id, direction: 'debit', amount: settlementFee, currency: current.currency });
+        }
+
+        await this.postJournal({
+          description: `Failed settlement payment to ${current.bankName} ${current.accountNumber}`,
+          settlementRequestId: current.id,
+          legs,
+        }, tx);
+      }
+
+      const updated = await this.closeSettlementPayout(tx, current, result, { failureReason });
+      console.log(`Settlement ${current.id} payout ${result} (recorded by ${userId})`);
+      return updated;
+    });
+  }
+
+  // Final status of a paid or failed settlement, with its notification. Its payout batch
+  // completes once none of the batch's settlements is still outstanding.
+  private async closeSettlementPayout(
+    tx: DbTransaction,
+    current: SettlementRequest,
+    result: PayoutResult,
+    details: { failureReason?: string; bankReference?: string | null }
+  ): Promise<SettlementRequest> {
+    const [updated] = await tx
+      .update(settlementRequests)
+      .set({
+        status: result,
+        payoutFailureReason: result === 'failed' ? details.failureReason || null : null,
+        bankReference: details.bankReference ?? current.bankReference,
+        updatedAt: new Date(),
+      })
+      .where(eq(settlementRequests.id, current.id))
+      .returning();
+
+    await this.createNotification({
+      userId: current.userId,
+      type: "settlement_status_change",
+      title: `Settlement Request ${result.charAt(0).toUpperCase() + result.slice(1)}`,
+      message: this.getSettlementStatusMessage(result, undefined, undefined, details.failureReason),
+      relatedEntityType: "settlement_request",
+      relatedEntityId: current.id,
+    }, tx);
+
+    if (current.payoutBatchId) {
+      const [outstanding] = await tx
+        .select({ id: settlementRequests.id })
+        .from(settlementRequests)
+        .where(
+          and(
+            eq(settlementRequests.payoutBatchId, current.payoutBatchId),
+            inArray(settlementRequests.status, ['approved', 'processing'])
+          )
+        )
+        .limit(1);
+      if (!outstanding) {
+        await tx
+          .update(payoutBatches)
+          .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+          .where(eq(payoutBatches.id, current.payoutBatchId));
+      }
+    }
+    return updated;
+  }
+
+  // What the bank pays out - the settlement net of its withheld fee
+  private payoutAmount(settlement: SettlementRequest): Money {
+    return Money.parse(settlement.amount).subtract(Money.parse(settlement.feeAmount));
+  }
+
+  private async renderPayoutBatchFile(
+    executor: DbExecutor,
+    batch: { batchNumber: string; organizationId: number; currency: string; fileVersion: number },
+    format: PayoutFileFormat,
+    settlements: SettlementRequest[]
+  ): Promise<{ fileName: string; content: string }> {
+    const [organization] = await executor
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, batch.organizationId));
+
+    return renderPayoutFile(format, {
+      batchNumber: batch.batchNumber,
+      fileVersion: batch.fileVersion,
+      currency: batch.currency,
+      beneficiaryName: organization?.name ?? `Organization ${batch.organizationId}`,
+    }, settlements.map(settlement => ({
+      settlementRequestId: settlement.id,
+      bankName: settlement.bankName,
+      accountNumber: settlement.accountNumber,
+      amount: this.payoutAmount(settlement).toDecimal(),
+    })));
+  }
+
+  // Bank statement operations
+  // Stores a parsed statement and matches its lines to settlements being paid. A matched
+  // settlement is completed with the line's bank reference; anything left over is worklisted.
+  async importBankStatement(
+    parsed: ParsedStatement,
+    details: { organizationId: number | null; format: string; fileName: string; fileHash: string; accountNumber?: string; importedBy: string }
+  ): Promise<BankStatement> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: bankStatements.id })
+        .from(bankStatements)
+        .where(eq(bankStatements.fileHash, details.fileHash));
+      if (existing) {
+        throw new Error('DUPLICATE_BANK_STATEMENT');
+      }
+
+      const [statement] = await tx
+        .insert(bankStatements)
+        .values({
+          organizationId: details.organizationId,
+          format: details.format,
+          fileName: details.fileName,
+          fileHash: details.fileHash,
+          accountNumber: parsed.accountNumber ?? details.accountNumber ?? null,
+          lineCount: parsed.lines.length,
+          importedBy: details.importedBy,
+        })
+        .returning();
+
+      const lines = await tx
+        .insert(bankStatementLines)
+        .values(parsed.lines.map(line => ({ statementId: statement.id, ...line })))
+        .returning();
+
+      const candidates = await tx
+        .select()
+        .from(settlementRequests)
+        .where(
+          and(
+            inArray(settlementRequests.status, SETTLEMENT_AWAITING_PAYMENT),
+            details.organizationId === null ? undefined : eq(settlementRequests.organizationId, details.organizationId)
+          )
+        )
+        .orderBy(settlementRequests.createdAt)
+        .for('update');
+
+      let matchedCount = 0;
+      for (const line of lines) {
+        const index = candidates.findIndex(settlement => statementLineMatches(line, statement.accountNumber, settlement));
+        if (index === -1) {
+          continue;
+        }
+        const [settlement] = candidates.splice(index, 1);
+        await this.matchStatementLine(tx, line, settlement, null);
+        matchedCount++;
+      }
+
+      const [imported] = await tx
+        .update(bankStatements)
+        .set({ matchedCount })
+        .where(eq(bankStatements.id, statement.id))
+        .returning();
+
+      console.log(`Bank statement ${imported.id} imported by ${details.importedBy}: ${matchedCount} of ${lines.length} lines matched`);
+      return imported;
+    });
+  }
+
+  async getBankStatements(organizationId?: number): Promise<BankStatement[]> {
+    return await db
+      .select()
+      .from(bankStatements)
+      .where(organizationId === undefined ? undefined : eq(bankStatements.organizationId, organizationId))
+      .orderBy(desc(bankStatements.createdAt));
+  }
+
+  // Unmatched statement lines, and settlements being paid that no statement has shown yet even
+  // though statements dated after them have been imported
+  async getBankReconciliationWorklist(organizationId?: number): Promise<BankReconciliationWorklist> {
+    const statementScope = organizationId === undefined ? undefined : eq(bankStatements.organizationId, organizationId);
+
+    const lines = await db
+      .select({ line: bankStatementLines, statement: bankStatements })
+      .from(bankStatementLines)
+      .innerJoin(bankStatements, eq(bankStatementLines.statementId, bankStatements.id))
+      .where(and(eq(bankStatementLines.status, 'unmatched'), statementScope))
+      .orderBy(bankStatementLines.valueDate, bankStatementLines.id);
+
+    const [latest] = await db
+      .select({ valueDate: sql<string | null>`max(${bankStatementLines.valueDate})` })
+      .from(bankStatementLines)
+      .innerJoin(bankStatements, eq(bankStatementLines.statementId, bankStatements.id))
+      .where(statementScope);
+
+    const settlements = latest?.valueDate
+      ? await db
+        .select()
+        .from(settlementRequests)
+        .where(
+          and(
+            inArray(settlementRequests.status, SETTLEMENT_AWAITING_PAYMENT),
+            organizationId === undefined ? undefined : eq(settlementRequests.organizationId, organizationId),
+            sql`${settlementRequests.createdAt}::date <= ${latest.valueDate}`
+          )
+        )
+        .orderBy(settlementRequests.createdAt)
+      : [];
+
+    return {
+      lines: lines.map(({ line, statement }) => ({ ...line, organizationId: statement.organizationId, fileName: statement.fileName })),
+      settlements,
+    };
+  }
+
+  async getBankStatementLineById(id: number): Promise<BankStatementLineWithStatement | undefined> {
+    const [row] = await db
+      .select({ line: bankStatementLines, statement: bankStatements })
+      .from(bankStatementLines)
+      .innerJoin(bankStatements, eq(bankStatementLines.statementId, bankStatements.id))
+      .where(eq(bankStatementLines.id, id));
+    return row ? { ...row.line, organizationId: row.statement.organizationId, fileName: row.statement.fileName } : undefined;
+  }
+
+  // Matches a worklisted line by hand. The amount must still be the settlement's payout amount;
+  // the account and date checks are left to the person matching.
+  async matchBankStatementLine(lineId: number, settlementRequestId: number, userId: string): Promise<BankStatementLine> {
+    return await db.transaction(async (tx) => {
+      const line = await this.lockOpenStatementLine(tx, lineId);
+      const [settlement] = await tx
+        .select()
+        .from(settlementRequests)
+        .where(eq(settlementRequests.id, settlementRequestId))
+        .for('update');
+      if (!settlement) {
+        throw new Error('Settlement request not found');
+      }
+      const [statement] = await tx
+        .select()
+        .from(bankStatements)
+        .where(eq(bankStatements.id, line.statementId));
+      if (statement.organizationId !== null && statement.organizationId !== settlement.organizationId) {
+        throw new Error('Settlement request not found');
+      }
+      if (!SETTLEMENT_AWAITING_PAYMENT.includes(settlement.status)) {
+        throw new Error('INVALID_SETTLEMENT_STATUS');
+      }
+      if (line.currency !== settlement.currency || !Money.parse(line.amount).equals(this.payoutAmount(settlement))) {
+        throw new Error('AMOUNT_MISMATCH');
+      }
+
+      const matched = await this.matchStatementLine(tx, line, settlement, userId);
+      await tx
+        .update(bankStatements)
+        .set({ matchedCount: sql`${bankStatements.matchedCount} + 1` })
+        .where(eq(bankStatements.id, statement.id));
+      console.log(`Bank statement line ${line.id} matched to settlement ${settlement.id} by ${userId}`);
+      return matched;
+    });
+  }
+
+  // Closes a line that pays no settlement (bank charges, unrelated transfers)
+  async resolveBankStatementLine(lineId: number, userId: string, note: string): Promise<BankStatementLine> {
+    return await db.transaction(async (tx) => {
+      await this.lockOpenStatementLine(tx, lineId);
+      const [resolved] = await tx
+        .update(bankStatementLines)
+        .set({ status: 'resolved', resolvedBy: userId, resolvedAt: new Date(), resolutionNote: note })
+        .where(eq(bankStatementLines.id, lineId))
+        .returning();
+      return resolved;
+    });
+  }
+
+  private async lockOpenStatementLine(tx: DbTransaction, lineId: number): Promise<BankStatementLine> {
+    const [line] = await tx
+      .select()
+      .from(bankStatementLines)
+      .where(eq(bankStatementLines.id, lineId))
+      .for('update');
+    if (!line) {
+      throw new Error('Statement line not found');
+    }
+    if (line.status !== 'unmatched') {
+      throw new Error('STATEMENT_LINE_NOT_OPEN');
+    }
+    return line;
+  }
+
+  private async matchStatementLine(
+    tx: DbTransaction,
+    line: BankStatementLine,
+    settlement: SettlementRequest,
+    matchedBy: string | null
+  ): Promise<BankStatementLine> {
+    await this.closeSettlementPayout(tx, settlement, 'completed', { bankReference: line.bankReference });
+    const [matched] = await tx
+      .update(bankStatementLines)
+      .set({
+        status: 'matched',
+        settlementRequestId: settlement.id,
+        resolvedBy: matchedBy,
+        resolvedAt: matchedBy ? new Date() : null,
+      })
+      .where(eq(bankStatementLines.id, line.id))
+      .returning();
+    return matched;
+  }
+
+  // STR operations
+  async createStrReport(preparedBy: string, transactionIds: number[], narrative: string): Promise<StrReport> {
+    return await db.transaction(async (tx) => {
+      const [report] = await tx
+        .insert(strReports)
+        .values({
+          reportNumber: generateStrReportNumber(),
+          transactionIds,
+          narrative,
+          preparedBy,
+        })
+        .returning();
+      await this.recordStrReportEvent(tx, report.id, 'created', preparedBy);
+      return report;
+    });
+  }
+
+  async getStrReports(): Promise<StrReport[]> {
+    return await db
+      .select()
+      .from(strReports)
+      .orderBy(desc(strReports.createdAt));
+  }
+
+  async getStrReportById(id: number): Promise<StrReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(strReports)
+      .where(eq(strReports.id, id));
+    return report;
+  }
+
+  // Drafts only - a report awaiting approval has to be returned before it can change
+  async updateStrReport(id: number, actorId: string, changes: { transactionIds: number[]; narrative: string }): Promise<StrReport> {
+    return await this.moveStrReport(id, 'draft', actorId, 'updated', changes);
+  }
+
+  async submitStrReportForApproval(id: number, actorId: string): Promise<StrReport> {
+    return await this.moveStrReport(id, 'draft', actorId, 'submitted_for_approval', { status: 'pending_approval' });
+  }
+
+  async returnStrReport(id: number, actorId: string, reason: string): Promise<StrReport> {
+    return await this.moveStrReport(id, 'pending_approval', actorId, 'returned', { status: 'draft' }, reason);
+  }
+
+  // Files the report: the content is built one last time and stored with its hash, and the
+  // row never changes again (see migrations/0003)
+  async approveStrReport(id: number, approvedBy: string): Promise<StrReport> {
+    return await this.moveStrReport(id, 'pending_approval', approvedBy, 'approved', async (current) => {
+      if (current.preparedBy === approvedBy) {
+        throw new Error('SAME_APPROVER');
+      }
+
+      const submittedAt = new Date();
+      const snapshot = await this.buildStrReportContent({ ...current, approvedBy, submittedAt });
+      const snapshotHash = crypto.createHash('sha256').update(JSON.stringify(snapshot)).digest('hex');
+      return { status: 'submitted', approvedBy, submittedAt, snapshot, snapshotHash };
+    });
+  }
+
+  async getStrReportContent(report: StrReport): Promise<StrReportContent> {
+    if (report.status === 'submitted' && report.snapshot) {
+      return report.snapshot;
+    }
+    return await this.buildStrReportContent(report);
+  }
+
+  async getStrReportEvents(reportId: number): Promise<StrReportEvent[]> {
+    return await db
+      .select()
+      .from(strReportEvents)
+      .where(eq(strReportEvents.reportId, reportId))
+      .orderBy(strReportEvents.createdAt, strReportEvents.id);
+  }
+
+  async recordStrReportExport(reportId: number, actorId: string, format: string): Promise<void> {
+    await this.recordStrReportEvent(db, reportId, 'exported', actorId, format);
+  }
+
+  // Applies a change to a report that must be in the expected status, under a row lock so
+  // two reviewers cannot act on the same report at once. The change may be worked out from
+  // the locked row.
+  private async moveStrReport(
+    id: number,
+    expectedStatus: string,
+    actorId: string,
+    action: string,
+    change: Partial<StrReport> | ((current: StrReport) => Promise<Partial<StrReport>>),
+    note?: string
+  ): Promise<StrReport> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(strReports)
+        .where(eq(strReports.id, id))
+        .for('update');
+      if (!current) {
+        throw new Error('STR report not found');
+      }
+      if (current.status !== expectedStatus) {
+        throw new Error(current.status === 'submitted' ? 'STR_REPORT_LOCKED' : 'INVALID_STR_REPORT_STATUS');
+      }
+
+      const changes = typeof change === 'function' ? await change(current) : change;
+      const [updated] = await tx
+        .update(strReports)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(strReports.id, id))
+        .returning();
+      // Approval logs the hash of what was filed
+      await this.recordStrReportEvent(tx, id, action, actorId, note ?? changes.snapshotHash ?? undefined);
+      return updated;
+    });
+  }
+
+  private async recordStrReportEvent(executor: DbExecutor, reportId: number, action: string, actorId: string, note?: string): Promise<void> {
+    await executor.insert(strReportEvents).values({
+      reportId,
+      action,
+      actorId,
+      note: note || null,
+    });
+  }
+
+  private async buildStrReportContent(report: StrReport): Promise<StrReportContent> {
+    const reported = report.transactionIds.length > 0
+      ? await db
+          .select()
+          .from(transactions)
+          .where(inArray(transactions.id, report.transactionIds))
+          .orderBy(transactions.createdAt)
+      : [];
+    const transactionIds = reported.map(transaction => transaction.id);
+
+    const userIds = new Set<string>([report.preparedBy]);
+    if (report.approvedBy) userIds.add(report.approvedBy);
+    for (const transaction of reported) {
+      if (transaction.fromUserId) userIds.add(transaction.fromUserId);
+      userIds.add(transaction.toUserId);
+      if (transaction.processedBy) userIds.add(transaction.processedBy);
+    }
+    const people = await db
+      .select()
+      .from(users)
+      .where(inArray(users.id, Array.from(userIds)));
+    const peopleById = new Map(people.map(person => [person.id, person]));
+    const organizationNames = new Map((await this.getAllOrganizations()).map(org => [org.id, org.name]));
+
+    const toParty = (user: User | undefined): StrReportParty | null => user ? {
+      id: user.id,
+      name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || user.id,
+      email: user.email,
+      organization: user.organizationId ? organizationNames.get(user.organizationId) ?? null : null,
+    } : null;
+    const nameOf = (userId: string | null) => userId ? toParty(peopleById.get(userId))?.name ?? userId : null;
+
+    const reportDocuments = transactionIds.length > 0
+      ? await db.select().from(documents).where(inArray(documents.transactionId, transactionIds))
+      : [];
+    const flags = transactionIds.length > 0
+      ? await db.select().from(fraudFlags).where(inArray(fraudFlags.transactionId, transactionIds))
+      : [];
+
+    const totals = new Map<string, { amount: Money; count: number }>();
+    const lines = reported.map(transaction => {
+      const parties = [transaction.fromUserId, transaction.toUserId, transaction.processedBy]
+        .map(userId => userId ? peopleById.get(userId) : undefined);
+      const total = totals.get(transaction.currency) ?? { amount: Money.zero(), count: 0 };
+      totals.set(transaction.currency, { amount: total.amount.add(Money.parse(transaction.amount)), count: total.count + 1 });
+
+      return {
+        transactionId: transaction.transactionId,
+        type: transaction.type,
+        status: transaction.status,
+        amount: Money.parse(transaction.amount).toDecimal(),
+        currency: transaction.currency,
+        vmfNumber: transaction.vmfNumber,
+        createdAt: (transaction.createdAt ?? new Date()).toISOString(),
+        merchant: toParty(parties.find(party => party?.role === 'merchant')),
+        cashier: toParty(parties.find(party => party?.role === 'cashier')),
+        documents: reportDocuments
+          .filter(doc => doc.transactionId === transaction.id)
+          .map(doc => ({ id: doc.id, type: doc.type, originalName: doc.originalName, uploadedAt: (doc.createdAt ?? new Date()).toISOString() })),
+        fraudFlags: flags
+          .filter(flag => flag.transactionId === transaction.id)
+          .map(flag => flag.reason),
+      };
+    });
+
+    return {
+      reportNumber: report.reportNumber,
+      narrative: report.narrative,
+      preparedBy: nameOf(report.preparedBy)!,
+      approvedBy: nameOf(report.approvedBy),
+      submittedAt: report.submittedAt ? new Date(report.submittedAt).toISOString() : null,
+      transactions: lines,
+      totals: Array.from(totals.entries()).map(([currency, total]) => ({
+        currency,
+        amount: total.amount.toDecimal(),
+        count: total.count,
+      })),
+    };
+  }
+
+  // Reconciliation operations
+  async runWalletReconciliation(triggeredBy: string): Promise<ReconciliationRun> {
+    const [run] = await db
+      .insert(reconciliationRuns)
+      .values({ triggeredBy })
+      .returning();
+
+    try {
+      const walletRows = await db
+        .select({ wallet: wallets, user: users })
+        .from(wallets)
+        .innerJoin(users, eq(wallets.userId, users.id));
+
+      const mismatches: { walletId: number; userId: string; field: string; expected: Money; actual: Money }[] = [];
+      const compare = (wallet: Wallet, field: string, expected: Money, actual: Money) => {
+        if (!expected.equals(actual)) {
+          mismatches.push({ walletId: wallet.id, userId: wallet.userId, field, expected, actual });
+        }
+      };
+
+      for (const { wallet, user } of walletRows) {
+        const balance = Money.parse(wallet.balance);
+
+        if (user.role === 'merchant') {
+          // Merchant balance is display-only and cleared at midnight, so both figures cover today only
+          const collectedToday = await this.sumCompletedParticipation(user.id, wallet.currency, wallet.lastResetDate);
+          compare(wallet, 'dailyCollected', collectedToday, Money.parse(wallet.dailyCollected));
+          compare(wallet, 'balance', collectedToday, balance);
+        } else if (user.role === 'cashier') {
+          // Cashier float also moves through float requests, not only transactions, so the ledger is the reference
+          const transferredToday = await this.sumCompletedParticipation(user.id, wallet.currency, wallet.lastResetDate);
+          compare(wallet, 'dailyTransferred', transferredToday, Money.parse(wallet.dailyTransferred));
+          compare(wallet, 'balance', await this.getWalletLedgerBalance(wallet.id), balance);
+        }
+      }
+
+      // Treasuries receive the organization's collections and pay its settlements
+      const treasuryWallets = await db
+        .select()
+        .from(wallets)
+        .where(isNotNull(wallets.organizationId));
+
+      for (const treasury of treasuryWallets) {
+        const organizationId = treasury.organizationId!;
+        const collected = await this.sumOrganizationCollections(organizationId, treasury.currency);
+        const fees = await this.sumOrganizationCollectionFees(organizationId, treasury.currency);
+        const settled = await this.sumOrganizationSettlementsPaid(organizationId, treasury.currency);
+        compare(treasury, 'balance', collected.subtract(fees).subtract(settled), Money.parse(treasury.balance));
+      }
+
+      if (mismatches.length > 0) {
+        await db
+          .insert(reconciliationExceptions)
+          .values(mismatches.map(mismatch => ({
+            runId: run.id,
+            walletId: mismatch.walletId,
+            userId: mismatch.userId,
+            field: mismatch.field,
+            expectedValue: mismatch.expected.toDecimal(),
+            actualValue: mismatch.actual.toDecimal(),
+            difference: mismatch.actual.subtract(mismatch.expected).toDecimal(),
+          })));
+      }
+
+      const [completedRun] = await db
+        .update(reconciliationRuns)
+        .set({
+          status: 'completed',
+          walletsChecked: walletRows.length + treasuryWallets.length,
+          exceptionsFound: mismatches.length,
+          completedAt: new Date(),
+        })
+        .where(eq(reconciliationRuns.id, run.id))
+        .returning();
+      return completedRun;
+    } catch (error) {
+      await db
+        .update(reconciliationRuns)
+        .set({ status: 'failed', completedAt: new Date() })
+        .where(eq(reconciliationRuns.id, run.id));
+      throw error;
+    }
+  }
+
+  // A transaction's amount as posted to wallets in the given currency: its own amount, the
+  // converted amount when an FX conversion into that currency was used, otherwise nothing
+  private amountInCurrency(currency: string) {
+    return sql<string>`COALESCE(SUM(CASE
+      WHEN ${transactions.currency} = ${currency} THEN ${transactions.amount}
+      WHEN ${fxConversions.toCurrency} = ${currency} THEN ${fxConversions.convertedAmount}
+      ELSE 0 END), 0)`;
+  }
+
+  // Sum of completed transactions a user took part in. Completion time is taken from updatedAt.
+  private async sumCompletedParticipation(userId: string, currency: string, since?: Date): Promise<Money> {
+    const conditions = [
+      eq(transactions.status, 'completed'),
+      sql`type != 'reversal'`,
+      sql`(from_user_id = ${userId} OR to_user_id = ${userId})`,
+    ];
+    if (since) {
+      conditions.push(gte(transactions.updatedAt, since));
+    }
+
+    const [result] = await db
+      .select({ total: this.amountInCurrency(currency) })
+      .from(transactions)
+      .leftJoin(fxConversions, eq(transactions.fxConversionId, fxConversions.id))
+      .where(and(...conditions));
+    return Money.fromNgwee(result?.total ?? 0);
+  }
+
+  private async sumOrganizationCollections(organizationId: number, currency: string): Promise<Money> {
+    const [result] = await db
+      .select({ total: this.amountInCurrency(currency) })
+      .from(transactions)
+      .leftJoin(fxConversions, eq(transactions.fxConversionId, fxConversions.id))
+      .where(
+        and(
+          eq(transactions.status, 'completed'),
+          sql`type != 'reversal'`,
+          sql`EXISTS (
+            SELECT 1 FROM users u
+            WHERE u.role = 'merchant'
+              AND u.organization_id = ${organizationId}
+              AND (u.id = ${transactions.fromUserId} OR u.id = ${transactions.toUserId})
+          )`
+        )
+      );
+    return Money.fromNgwee(result?.total ?? 0);
+  }
+
+  // Fees withheld from an organization's collections, converted like feeForWallet does
+  private async sumOrganizationCollectionFees(organizationId: number, currency: string): Promise<Money> {
+    const [result] = await db
+      .select({
+        total: sql<string>`COALESCE(SUM(CASE
+          WHEN ${transactions.currency} = ${currency} THEN ${transactions.feeAmount}
+          WHEN ${fxConversions.toCurrency} = ${currency} THEN ROUND(${transactions.feeAmount} * ${fxConversions.rate})
+          ELSE 0 END), 0)`,
+      })
+      .from(transactions)
+      .leftJoin(fxConversions, eq(transactions.fxConversionId, fxConversions.id))
+      .where(
+        and(
+          eq(transactions.status, 'completed'),
+          sql`type != 'reversal'`,
+          sql`EXISTS (
+            SELECT 1 FROM users u
+            WHERE u.role = 'merchant'
+              AND u.organization_id = ${organizationId}
+              AND (u.id = ${transactions.fromUserId} OR u.id = ${transactions.toUserId})
+          )`
+        )
+      );
+    return Money.fromNgwee(result?.total ?? 0);
+  }
+
+  private async sumOrganizationSettlementsPaid(organizationId: number, currency: string): Promise<Money> {
+    const [result] = await db
+      .select({ total: sql<string>`COALESCE(SUM(amount), 0)` })
+      .from(settlementRequests)
+      .where(
+        and(
+          eq(settlementRequests.organizationId, organizationId),
+          eq(settlementRequests.currency, currency),
+          inArray(settlementRequests.status, SETTLEMENT_DEBITED)
+        )
+      );
+    return Money.fromNgwee(result?.total ?? 0);
+  }
+
+  async getLatestReconciliationRun(triggeredBy?: string): Promise<ReconciliationRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(reconciliationRuns)
+      .where(triggeredBy ? eq(reconciliationRuns.triggeredBy, triggeredBy) : undefined)
+      .orderBy(desc(reconciliationRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  async getReconciliationExceptions(status?: string): Promise<(ReconciliationException & { user: User | null })[]> {
+    const rows = await db
+      .select({ exception: reconciliationExceptions, user: users })
+      .from(reconciliationExceptions)
+      .leftJoin(users, eq(reconciliationExceptions.userId, users.id))
+      .where(status ? eq(reconciliationExceptions.status, status) : undefined)
+      .orderBy(desc(reconciliationExceptions.createdAt));
+
+    return rows.map(row => ({ ...row.exception, user: row.user }));
+  }
+
+  async acknowledgeReconciliationException(id: number, acknowledgedBy: string, note?: string): Promise<ReconciliationException> {
+    const [exception] = await db
+      .update(reconciliationExceptions)
+      .set({
+        status: 'acknowledged',
+        acknowledgedBy,
+        acknowledgedAt: new Date(),
+        acknowledgementNote: note || null,
+      })
+      .where(
+        and(
+          eq(reconciliationExceptions.id, id),
+          eq(reconciliationExceptions.status, 'open')
+        )
+      )
+      .returning();
+
+    if (!exception) {
+      throw new Error("Reconciliation exception not found or already acknowledged");
+    }
+
+    return exception;
+  }
+
+  // Idempotency operations
+  // Claims the key for this request, or returns the record a previous request with the key left
+  async claimIdempotencyKey(userId: string, key: string, method: string, path: string, requestHash: string): Promise<{ record: IdempotencyKey; isNew: boolean }> {
+    // A key past its 24 hours is free to use again
+    await db
+      .delete(idempotencyKeys)
+      .where(
+        and(
+          eq(idempotencyKeys.userId, userId),
+          eq(idempotencyKeys.key, key),
+          lt(idempotencyKeys.expiresAt, new Date())
+        )
+      );
+
+    const [claimed] = await db
+      .insert(idempotencyKeys)
+      .values({
+        userId,
+        key,
+        method,
+        path,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+      })
+      .onConflictDoNothing({ target: [idempotencyKeys.userId, idempotencyKeys.key] })
+      .returning();
+    if (claimed) {
+      return { record: claimed, isNew: true };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+    return { record: existing, isNew: false };
+  }
+
+  async completeIdempotencyKey(id: number, responseStatus: number, responseBody: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ status: 'completed', responseStatus, responseBody })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  // Frees the key after a server error, so the client can retry with it
+  async releaseIdempotencyKey(id: number): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async purgeExpiredIdempotencyKeys(): Promise<number> {
+    const purged = await db
+      .delete(idempotencyKeys)
+      .where(lt(idempotencyKeys.expiresAt, new Date()))
+      .returning({ id: idempotencyKeys.id });
+    return purged.length;
   }
 
   // Notification operations
-  async createNotification(notificationData: InsertNotification): Promise<Notification> {
-    const [notification] = await db
+  async createNotification(notificationData: InsertNotification, executor: DbExecutor = db): Promise<Notification> {
+    const [notification] = await executor
       .insert(notifications)
       .values(notificationData)
       .returning();
@@ -1123,8 +4917,12 @@ export class DatabaseStorage implements IStorage {
         return `Your settlement request is on hold: ${displayReason}${reasonComment ? ` - ${reasonComment}` : ""}`;
       case "rejected":
         return `Your settlement request has been rejected: ${this.formatReason(rejectReason)}${reasonComment ? ` - ${reasonComment}` : ""}`;
+      case "processing":
+        return "Your settlement has been sent to the bank for payment.";
       case "completed":
         return "Your settlement request has been completed and funds have been transferred.";
+      case "failed":
+        return `Your settlement payment failed${reasonComment ? `: ${reasonComment}` : ""}. The amount has been returned to your treasury.`;
       default:
         return `Your settlement request status has been updated to ${status}.`;
     }
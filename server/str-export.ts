@@ -0,0 +1,137 @@
+import { jsPDF } from "jspdf";
+import type { StrReportContent, StrReportParty } from "@shared/str-reports";
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xmlElement(name: string, value: string | number | null, indent: string): string {
+  return value === null
+    ? `${indent}<${name}/>`
+    : `${indent}<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+function xmlParty(name: string, party: StrReportParty | null, indent: string): string[] {
+  if (!party) {
+    return [`${indent}<${name}/>`];
+  }
+  return [
+    `${indent}<${name} id="${escapeXml(party.id)}">`,
+    xmlElement('Name', party.name, `${indent}  `),
+    xmlElement('Email', party.email, `${indent}  `),
+    xmlElement('Organization', party.organization, `${indent}  `),
+    `${indent}</${name}>`,
+  ];
+}
+
+export function renderStrReportXml(content: StrReportContent): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<SuspiciousTransactionReport number="${escapeXml(content.reportNumber)}">`,
+    xmlElement('PreparedBy', content.preparedBy, '  '),
+    xmlElement('ApprovedBy', content.approvedBy, '  '),
+    xmlElement('SubmittedAt', content.submittedAt, '  '),
+    xmlElement('Narrative', content.narrative, '  '),
+    '  <Totals>',
+  ];
+  for (const total of content.totals) {
+    lines.push(`    <Total currency="${escapeXml(total.currency)}" count="${total.count}">${total.amount}</Total>`);
+  }
+  lines.push('  </Totals>', '  <Transactions>');
+
+  for (const transaction of content.transactions) {
+    lines.push(
+      `    <Transaction reference="${escapeXml(transaction.transactionId)}">`,
+      xmlElement('Type', transaction.type, '      '),
+      xmlElement('Status', transaction.status, '      '),
+      `      <Amount currency="${escapeXml(transaction.currency)}">${transaction.amount}</Amount>`,
+      xmlElement('VmfNumber', transaction.vmfNumber, '      '),
+      xmlElement('CreatedAt', transaction.createdAt, '      '),
+      ...xmlParty('Merchant', transaction.merchant, '      '),
+      ...xmlParty('Cashier', transaction.cashier, '      '),
+      '      <Documents>',
+      ...transaction.documents.map(doc =>
+        `        <Document id="${doc.id}" type="${escapeXml(doc.type)}" uploadedAt="${escapeXml(doc.uploadedAt)}">${escapeXml(doc.originalName)}</Document>`
+      ),
+      '      </Documents>',
+      '      <FraudFlags>',
+      ...transaction.fraudFlags.map(reason => xmlElement('Flag', reason, '        ')),
+      '      </FraudFlags>',
+      '    </Transaction>',
+    );
+  }
+
+  lines.push('  </Transactions>', '</SuspiciousTransactionReport>');
+  return lines.join('\n') + '\n';
+}
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 5;
+
+function describeParty(party: StrReportParty | null): string {
+  if (!party) {
+    return 'n/a';
+  }
+  return [party.name, party.email, party.organization].filter(Boolean).join(', ');
+}
+
+export function renderStrReportPdf(content: StrReportContent): Buffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  // Writes wrapped text, starting a new page when the current one is full
+  const write = (text: string, options: { size?: number; bold?: boolean; gap?: number } = {}) => {
+    doc.setFontSize(options.size ?? 10);
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    for (const line of doc.splitTextToSize(text, textWidth) as string[]) {
+      if (y > pageHeight - PAGE_MARGIN) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      doc.text(line, PAGE_MARGIN, y);
+      y += LINE_HEIGHT;
+    }
+    y += options.gap ?? 0;
+  };
+
+  write('Suspicious Transaction Report', { size: 16, bold: true, gap: 2 });
+  write(`Report number: ${content.reportNumber}`);
+  write(`Prepared by: ${content.preparedBy}`);
+  write(`Approved by: ${content.approvedBy ?? 'Not yet approved'}`);
+  write(`Submitted: ${content.submittedAt ?? 'Draft'}`, { gap: 4 });
+
+  write('Narrative', { size: 12, bold: true });
+  write(content.narrative, { gap: 4 });
+
+  write('Totals', { size: 12, bold: true });
+  for (const total of content.totals) {
+    write(`${total.currency} ${total.amount} across ${total.count} transaction(s)`);
+  }
+  y += 4;
+
+  write('Transactions', { size: 12, bold: true });
+  for (const transaction of content.transactions) {
+    write(`${transaction.transactionId} - ${transaction.type}, ${transaction.status}`, { bold: true });
+    write(`Amount: ${transaction.currency} ${transaction.amount}`);
+    write(`VMF number: ${transaction.vmfNumber ?? 'n/a'}`);
+    write(`Created: ${transaction.createdAt}`);
+    write(`Merchant: ${describeParty(transaction.merchant)}`);
+    write(`Cashier: ${describeParty(transaction.cashier)}`);
+    write(`Documents: ${transaction.documents.length > 0
+      ? transaction.documents.map(document => `${document.type} (${document.originalName})`).join('; ')
+      : 'none'}`);
+    if (transaction.fraudFlags.length > 0) {
+      write(`Fraud flags: ${transaction.fraudFlags.join('; ')}`);
+    }
+    y += 3;
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,96 @@
+import { storage } from "./storage";
+import { bankAccountUnavailableReason, getSettlementCapacity, submitSettlementRequest } from "./settlements";
+import { toBusinessDate } from "./utils";
+import { Money } from "@shared/money";
+import { isSweepDay, isSweepFrequency, sweepRunTime } from "@shared/sweeps";
+import type { SettlementSweepRule, SettlementSweepRun } from "@shared/schema";
+
+/**
+ * Runs every active sweep rule that is due today and has not run yet. A rule is due once its
+ * run time has passed on a sweep day; a rule created after today's run time first runs on the
+ * next sweep day. Returns the number of sweeps that requested a settlement.
+ */
+export async function runDueSweeps(now: Date = new Date()): Promise<number> {
+  const businessDate = toBusinessDate(now);
+  let created = 0;
+
+  for (const rule of await storage.getSweepRulesAwaitingRun(businessDate)) {
+    const runTime = sweepRunTime(rule.runAt, now);
+    if (!isSweepFrequency(rule.frequency) || !isSweepDay(rule.frequency, now) || now < runTime) {
+      continue;
+    }
+    if (rule.createdAt && rule.createdAt > runTime) {
+      continue;
+    }
+
+    const run = await storage.claimSweepRun(rule, businessDate);
+    if (!run) {
+      continue;
+    }
+
+    try {
+      if (await runSweep(rule, run)) {
+        created++;
+      }
+    } catch (error) {
+      console.error(`Error running settlement sweep ${rule.id}:`, error);
+      await storage.finishSweepRun(run.id, {
+        status: 'failed',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return created;
+}
+
+// Requests today's capacity less the reserve, on behalf of the finance officer who set the
+// rule up. Anything that would stop that officer requesting it by hand skips the sweep.
+async function runSweep(rule: SettlementSweepRule, run: SettlementSweepRun): Promise<boolean> {
+  const owner = await storage.getUser(rule.createdBy);
+  if (owner?.role !== 'finance' || owner.organizationId !== rule.organizationId) {
+    await storage.finishSweepRun(run.id, { status: 'skipped', reason: "The rule's owner is no longer a finance officer of the organization" });
+    return false;
+  }
+  if (owner.screeningStatus !== 'clear') {
+    await storage.finishSweepRun(run.id, { status: 'skipped', reason: "The rule's owner is on hold pending a compliance review" });
+    return false;
+  }
+
+  const bankAccount = await storage.getBankAccountById(rule.bankAccountId);
+  const unavailable = bankAccountUnavailableReason(bankAccount, rule.organizationId);
+  if (unavailable) {
+    await storage.finishSweepRun(run.id, { status: 'skipped', reason: unavailable.message });
+    return false;
+  }
+
+  const { capacity } = await getSettlementCapacity(rule.organizationId, rule.currency);
+  const amount = capacity.subtract(Money.parse(rule.reserveAmount));
+  if (!amount.isPositive() || amount.lessThan(Money.parse(rule.minimumAmount))) {
+    await storage.finishSweepRun(run.id, {
+      status: 'skipped',
+      capacity: capacity.toDecimal(),
+      reason: `Available capacity ${capacity.format(rule.currency)} leaves too little to sweep after the reserve`,
+    });
+    return false;
+  }
+
+  const request = await submitSettlementRequest({
+    organizationId: rule.organizationId,
+    userId: rule.createdBy,
+    amount,
+    currency: rule.currency,
+    bankAccount: bankAccount!,
+    priority: "medium",
+    sweepRuleId: rule.id,
+  });
+
+  await storage.finishSweepRun(run.id, {
+    status: 'created',
+    capacity: capacity.toDecimal(),
+    amount: amount.toDecimal(),
+    settlementRequestId: request.id,
+  });
+  console.log(`Settlement sweep ${rule.id} requested ${amount.format(rule.currency)} (settlement ${request.id})`);
+  return true;
+}
@@ -15,4 +15,95 @@ export function generateTransactionId(): string {
  */
 export function isValidTransactionId(transactionId: string): boolean {
   return /^LUS-\d{6}$/.test(transactionId);
-}
\ No newline at end of file
+}
+
+/**
+ * Generate a journal ID grouping the legs of one ledger posting
+ * @returns string - Journal ID like "JRN-LX3K9P2A-4F7Q"
+ */
+export function generateJournalId(): string {
+  const timePart = Date.now().toString(36).toUpperCase();
+  const randomPart = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `JRN-${timePart}-${randomPart}`;
+}
+
+/**
+ * Generate a suspicious transaction report number
+ * @returns string - Report number like "STR-LX3K9P2A-4F7Q"
+ */
+export function generateStrReportNumber(): string {
+  const timePart = Date.now().toString(36).toUpperCase();
+  const randomPart = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `STR-${timePart}-${randomPart}`;
+}
+
+/**
+ * Generate a payout batch number
+ * @returns string - Batch number like "PAY-LX3K9P2A-4F7Q"
+ */
+export function generatePayoutBatchNumber(): string {
+  const timePart = Date.now().toString(36).toUpperCase();
+  const randomPart = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `PAY-${timePart}-${randomPart}`;
+}
+
+/**
+ * Business date (server local time) of a timestamp, as stored in daily snapshots
+ * @returns string - Date like "2024-03-31"
+ */
+export function toBusinessDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Whether a wallet last reset on an earlier business day than now and is due its end-of-day close
+ * @returns boolean - True if the reset happened before today (server local time)
+ */
+export function isNewBusinessDay(lastResetDate: Date, now: Date = new Date()): boolean {
+  return toBusinessDate(new Date(lastResetDate)) !== toBusinessDate(now);
+}
+
+/**
+ * Split CSV text into rows of fields, honouring double-quoted fields. Blank rows are dropped.
+ * @returns string[][] - One array of fields per row
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Money } from "./money";
+import { DEFAULT_REQUIRED_APPROVALS, MAX_APPROVERS, requiredApprovals, validateApprovalMatrix, type ApprovalTier } from "./approvals";
+
+const matrix: ApprovalTier[] = [
+  { upTo: "10000.00", approvers: 1 },
+  { upTo: "100000.00", approvers: 2 },
+  { upTo: null, approvers: 3 },
+];
+
+describe("requiredApprovals", () => {
+  it("needs a single approver without a matrix", () => {
+    assert.equal(requiredApprovals(null, Money.parse("1000000.00")), DEFAULT_REQUIRED_APPROVALS);
+    assert.equal(requiredApprovals([], Money.parse("5.00")), DEFAULT_REQUIRED_APPROVALS);
+  });
+
+  it("includes a band's upper bound in that band", () => {
+    assert.equal(requiredApprovals(matrix, Money.parse("10000.00")), 1);
+    assert.equal(requiredApprovals(matrix, Money.parse("100000.00")), 2);
+  });
+
+  it("moves to the next band just above a bound", () => {
+    assert.equal(requiredApprovals(matrix, Money.parse("10000.01")), 2);
+    assert.equal(requiredApprovals(matrix, Money.parse("100000.01")), 3);
+  });
+
+  it("uses the open-ended band for any larger amount", () => {
+    assert.equal(requiredApprovals(matrix, Money.parse("999999999.99")), 3);
+  });
+});
+
+describe("validateApprovalMatrix", () => {
+  it("accepts ascending bands ending open-ended", () => {
+    assert.equal(validateApprovalMatrix(matrix), null);
+  });
+
+  it("needs at least one band", () => {
+    assert.equal(validateApprovalMatrix([]), "The matrix needs at least one band");
+  });
+
+  it("needs the last band to be open-ended", () => {
+    assert.equal(validateApprovalMatrix([{ upTo: "500.00", approvers: 1 }]), "The last band must be open-ended");
+  });
+
+  it("refuses bands that do not rise", () => {
+    const result = validateApprovalMatrix([
+      { upTo: "500.00", approvers: 1 },
+      { upTo: "500.00", approvers: 2 },
+      { upTo: null, approvers: 3 },
+    ]);
+    assert.equal(result, "Band 2 must end above the previous band");
+  });
+
+  it("limits the approvers a band can need", () => {
+    assert.equal(validateApprovalMatrix([{ upTo: null, approvers: 0 }]), `Band 1 needs between 1 and ${MAX_APPROVERS} approvers`);
+    assert.equal(validateApprovalMatrix([{ upTo: null, approvers: MAX_APPROVERS + 1 }]), `Band 1 needs between 1 and ${MAX_APPROVERS} approvers`);
+  });
+});
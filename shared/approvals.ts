@@ -0,0 +1,59 @@
+import { Money } from "./money";
+
+/**
+ * Settlement approval matrices. An organization's matrix splits amounts into bands, each
+ * needing a number of distinct approvers; the maker of a request never counts as one.
+ * Organizations without a matrix need a single approver.
+ */
+
+/**
+ * One amount band. A band covers amounts up to and including upTo (the last band has upTo
+ * null) and needs that many distinct approvers.
+ */
+export interface ApprovalTier {
+  upTo: string | null;
+  approvers: number;
+}
+
+export const MAX_APPROVERS = 5;
+
+export const DEFAULT_REQUIRED_APPROVALS = 1;
+
+/**
+ * Checks a matrix before it is saved. Returns a message describing the first problem, or null.
+ */
+export function validateApprovalMatrix(tiers: ApprovalTier[]): string | null {
+  if (tiers.length === 0) {
+    return "The matrix needs at least one band";
+  }
+
+  let previous: Money | null = null;
+  for (let index = 0; index < tiers.length; index++) {
+    const tier = tiers[index];
+    if (!Number.isInteger(tier.approvers) || tier.approvers < 1 || tier.approvers > MAX_APPROVERS) {
+      return `Band ${index + 1} needs between 1 and ${MAX_APPROVERS} approvers`;
+    }
+    if (index === tiers.length - 1) {
+      if (tier.upTo !== null) {
+        return "The last band must be open-ended";
+      }
+      continue;
+    }
+
+    const upTo = tier.upTo === null ? null : Money.tryParse(tier.upTo);
+    if (!upTo || !upTo.isPositive() || (previous && !upTo.greaterThan(previous))) {
+      return `Band ${index + 1} must end above the previous band`;
+    }
+    previous = upTo;
+  }
+
+  return null;
+}
+
+/**
+ * Distinct approvers an amount needs under a matrix. No matrix means a single approver.
+ */
+export function requiredApprovals(tiers: ApprovalTier[] | null | undefined, amount: Money): number {
+  const tier = (tiers ?? []).find(band => band.upTo === null || amount.lessThanOrEqual(Money.parse(band.upTo)));
+  return tier?.approvers ?? DEFAULT_REQUIRED_APPROVALS;
+}
@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BANK_ACCOUNT_COOLING_OFF_HOURS, bankAccountAvailableFrom, validateBankAccount } from "./bank-accounts";
+
+const account = {
+  bankCode: "ZNCOZMLU",
+  branchCode: "010002",
+  accountNumber: "1234 5678-90123",
+  accountName: "Acme Traders Ltd",
+};
+
+describe("bankAccountAvailableFrom", () => {
+  it("opens the account once the cooling-off period has passed", () => {
+    const approvedAt = new Date("2026-03-10T09:15:00Z");
+    const availableFrom = bankAccountAvailableFrom(approvedAt);
+    assert.equal(availableFrom.getTime() - approvedAt.getTime(), BANK_ACCOUNT_COOLING_OFF_HOURS * 60 * 60 * 1000);
+    assert.equal(availableFrom.toISOString(), "2026-03-12T09:15:00.000Z");
+  });
+});
+
+describe("validateBankAccount", () => {
+  it("accepts a catalogue bank and branch with a well-formed number", () => {
+    assert.equal(validateBankAccount(account), null);
+  });
+
+  it("needs a bank and branch from the catalogue", () => {
+    assert.equal(validateBankAccount({ ...account, bankCode: "NOPEZMLX" }), "Choose a bank from the catalogue");
+    assert.equal(validateBankAccount({ ...account, branchCode: "040001" }), "Choose a Zanaco branch");
+  });
+
+  it("checks the number against the bank's format", () => {
+    assert.equal(validateBankAccount({ ...account, accountNumber: "123456789012" }), "Zanaco account numbers are 13 digits");
+  });
+
+  it("needs the account holder's name", () => {
+    assert.equal(validateBankAccount({ ...account, accountName: "  " }), "The account holder's name is required");
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Registered beneficiary bank accounts. An organization's settlements are paid only to accounts
+ * in its registry; a new account needs a second person's approval and then sits out a
+ * cooling-off period before it can receive a settlement.
+ */
+
+export interface BankBranch {
+  code: string; // sort code
+  name: string;
+}
+
+export interface Bank {
+  code: string; // SWIFT BIC (first eight characters)
+  name: string;
+  accountNumberPattern: RegExp;
+  accountNumberFormat: string; // shown when an account number does not fit the pattern
+  branches: BankBranch[];
+}
+
+// Banks settlements can be paid to. Add a bank or branch here before accounts can be
+// registered with it.
+export const bankCatalogue: Bank[] = [
+  {
+    code: "ZNCOZMLU",
+    name: "Zanaco",
+    accountNumberPattern: /^\d{13}$/,
+    accountNumberFormat: "13 digits",
+    branches: [
+      { code: "010001", name: "Lusaka Business Centre" },
+      { code: "010002", name: "Cairo Road" },
+      { code: "010010", name: "Ndola" },
+      { code: "010020", name: "Kitwe" },
+    ],
+  },
+  {
+    code: "SBICZMLX",
+    name: "Stanbic Bank Zambia",
+    accountNumberPattern: /^\d{13}$/,
+    accountNumberFormat: "13 digits",
+    branches: [
+      { code: "040001", name: "Lusaka Main" },
+      { code: "040002", name: "Manda Hill" },
+      { code: "040010", name: "Ndola" },
+    ],
+  },
+  {
+    code: "SCBLZMLX",
+    name: "Standard Chartered Zambia",
+    accountNumberPattern: /^\d{13}$/,
+    accountNumberFormat: "13 digits",
+    branches: [
+      { code: "060001", name: "Lusaka Main" },
+      { code: "060010", name: "Kitwe" },
+    ],
+  },
+  {
+    code: "FIRNZMLX",
+    name: "First National Bank Zambia",
+    accountNumberPattern: /^\d{11}$/,
+    accountNumberFormat: "11 digits",
+    branches: [
+      { code: "260001", name: "Lusaka Commercial Suite" },
+      { code: "260002", name: "Makeni Mall" },
+      { code: "260010", name: "Ndola" },
+    ],
+  },
+  {
+    code: "BARCZMLX",
+    name: "Absa Bank Zambia",
+    accountNumberPattern: /^\d{10}$/,
+    accountNumberFormat: "10 digits",
+    branches: [
+      { code: "020001", name: "Lusaka Business Centre" },
+      { code: "020010", name: "Kitwe" },
+      { code: "020020", name: "Livingstone" },
+    ],
+  },
+  {
+    code: "INZAZMLX",
+    name: "Indo-Zambia Bank",
+    accountNumberPattern: /^\d{13}$/,
+    accountNumberFormat: "13 digits",
+    branches: [
+      { code: "090001", name: "Cairo Road" },
+      { code: "090010", name: "Ndola" },
+    ],
+  },
+];
+
+export const bankAccountStatuses = ["pending_approval", "active", "rejected", "deactivated"] as const;
+
+export type BankAccountStatus = (typeof bankAccountStatuses)[number];
+
+export const bankAccountStatusLabels: Record<BankAccountStatus, string> = {
+  pending_approval: "Awaiting approval",
+  active: "Active",
+  rejected: "Rejected",
+  deactivated: "Deactivated",
+};
+
+// How long an approved account waits before it can receive its first settlement
+export const BANK_ACCOUNT_COOLING_OFF_HOURS = 48;
+
+export function findBank(code: string | null | undefined): Bank | undefined {
+  return bankCatalogue.find(bank => bank.code === code);
+}
+
+export function findBranch(bankCode: string | null | undefined, branchCode: string | null | undefined): BankBranch | undefined {
+  return findBank(bankCode)?.branches.find(branch => branch.code === branchCode);
+}
+
+/**
+ * Account numbers are stored without spaces or dashes
+ */
+export function normalizeBankAccountNumber(value: string): string {
+  return value.replace(/[\s-]/g, "");
+}
+
+/**
+ * Checks an account before it is registered. Returns a message describing the first problem, or null.
+ */
+export function validateBankAccount(account: { bankCode: string; branchCode: string; accountNumber: string; accountName: string }): string | null {
+  const bank = findBank(account.bankCode);
+  if (!bank) {
+    return "Choose a bank from the catalogue";
+  }
+  if (!findBranch(account.bankCode, account.branchCode)) {
+    return `Choose a ${bank.name} branch`;
+  }
+  if (!bank.accountNumberPattern.test(normalizeBankAccountNumber(account.accountNumber))) {
+    return `${bank.name} account numbers are ${bank.accountNumberFormat}`;
+  }
+  if (!account.accountName.trim()) {
+    return "The account holder's name is required";
+  }
+  if (account.accountName.length > 255) {
+    return "The account holder's name must be 255 characters or less";
+  }
+  return null;
+}
+
+/**
+ * When an approved account can first receive a settlement
+ */
+export function bankAccountAvailableFrom(approvedAt: Date): Date {
+  return new Date(approvedAt.getTime() + BANK_ACCOUNT_COOLING_OFF_HOURS * 60 * 60 * 1000);
+}
@@ -0,0 +1,31 @@
+/**
+ * Bank statement import. Statements are matched line by line against settlements waiting on
+ * the bank; whatever does not match lands on the reconciliation worklist.
+ */
+
+export const bankStatementFormats = ["camt_053", "mt940", "csv"] as const;
+
+export type BankStatementFormat = (typeof bankStatementFormats)[number];
+
+export const bankStatementFormatLabels: Record<BankStatementFormat, string> = {
+  camt_053: "CAMT.053 XML",
+  mt940: "MT940",
+  csv: "CSV",
+};
+
+export const statementLineStatuses = ["matched", "unmatched", "resolved"] as const;
+
+export type StatementLineStatus = (typeof statementLineStatuses)[number];
+
+export const statementLineStatusLabels: Record<StatementLineStatus, string> = {
+  matched: "Matched",
+  unmatched: "Unmatched",
+  resolved: "Resolved",
+};
+
+// A statement line can match a settlement paid up to this many days after it was requested
+export const STATEMENT_MATCH_WINDOW_DAYS = 30;
+
+export function isBankStatementFormat(value: unknown): value is BankStatementFormat {
+  return typeof value === "string" && (bankStatementFormats as readonly string[]).includes(value);
+}
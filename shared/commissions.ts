@@ -0,0 +1,42 @@
+import { Money } from "./money";
+import { calculateFee, validateFeeRule, type FeeTier } from "./fees";
+
+/**
+ * Cashier commission rules. Plans use the same flat / percentage / tiered shapes as fee
+ * schedules, so they are evaluated with the fee rule helpers.
+ */
+
+export const commissionTransactionTypes = ["cash_digitization", "qr_code_payment"] as const;
+
+export type CommissionTransactionType = (typeof commissionTransactionTypes)[number];
+
+export function isCommissionTransactionType(value: unknown): value is CommissionTransactionType {
+  return typeof value === "string" && (commissionTransactionTypes as readonly string[]).includes(value);
+}
+
+export interface CommissionRule {
+  commissionType: string;
+  flatAmount: string;
+  percentage: string;
+  tiers?: FeeTier[] | null;
+}
+
+function toFeeRule(rule: CommissionRule) {
+  return {
+    feeType: rule.commissionType,
+    flatFee: rule.flatAmount,
+    percentage: rule.percentage,
+    tiers: rule.tiers,
+  };
+}
+
+export function validateCommissionRule(rule: CommissionRule): string | null {
+  return validateFeeRule(toFeeRule(rule));
+}
+
+/**
+ * Commission earned on a transaction amount. No plan means no commission.
+ */
+export function calculateCommission(rule: CommissionRule | null | undefined, amount: Money): Money {
+  return rule ? calculateFee(toFeeRule(rule), amount) : Money.zero();
+}
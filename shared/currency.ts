@@ -0,0 +1,29 @@
+/**
+ * Currencies the group operates in. All of them have two minor-unit digits,
+ * so Money amounts are stored the same way (minor units, e.g. ngwee for ZMW).
+ */
+export const supportedCurrencies = ["ZMW", "MWK", "BWP", "ZAR", "USD"] as const;
+
+export type CurrencyCode = (typeof supportedCurrencies)[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "ZMW";
+
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+  return typeof value === "string" && (supportedCurrencies as readonly string[]).includes(value);
+}
+
+/**
+ * Daily wallet limits per currency, as decimal strings in major units.
+ * Roughly equivalent to the ZMW limits at the time they were set.
+ */
+export const currencyLimits: Record<CurrencyCode, { merchantDailyCollection: string; cashierDailyTransfer: string }> = {
+  ZMW: { merchantDailyCollection: "1000000", cashierDailyTransfer: "2000000" },
+  MWK: { merchantDailyCollection: "65000000", cashierDailyTransfer: "130000000" },
+  BWP: { merchantDailyCollection: "500000", cashierDailyTransfer: "1000000" },
+  ZAR: { merchantDailyCollection: "700000", cashierDailyTransfer: "1400000" },
+  USD: { merchantDailyCollection: "40000", cashierDailyTransfer: "80000" },
+};
+
+export function getCurrencyLimits(currency: string | null | undefined) {
+  return currencyLimits[isSupportedCurrency(currency) ? currency : DEFAULT_CURRENCY];
+}
@@ -0,0 +1,134 @@
+import { Money } from "./money";
+
+/**
+ * Fee rules shared by the server (which charges them) and the client (which quotes them).
+ * Fees are charged in the transaction currency and never exceed the amount itself.
+ */
+
+export const feeTransactionTypes = ["cash_digitization", "qr_code_payment", "settlement"] as const;
+
+export type FeeTransactionType = (typeof feeTransactionTypes)[number];
+
+export const feeTypes = ["flat", "percentage", "tiered"] as const;
+
+export type FeeType = (typeof feeTypes)[number];
+
+export function isFeeTransactionType(value: unknown): value is FeeTransactionType {
+  return typeof value === "string" && (feeTransactionTypes as readonly string[]).includes(value);
+}
+
+/**
+ * One amount band of a tiered schedule. A band covers amounts up to and including
+ * upTo (the last band has upTo null) and charges flatFee plus percentage of the amount.
+ */
+export interface FeeTier {
+  upTo: string | null;
+  flatFee: string;
+  percentage: string;
+}
+
+export interface FeeRule {
+  feeType: string;
+  flatFee: string;
+  percentage: string;
+  tiers?: FeeTier[] | null;
+}
+
+// Up to 4 decimal places to match the percentage column
+const PERCENTAGE_PATTERN = /^\d{1,3}(\.\d{1,4})?$/;
+
+function isValidPercentage(value: unknown): value is string {
+  return typeof value === "string" && PERCENTAGE_PATTERN.test(value) && Number(value) <= 100;
+}
+
+function isValidFee(value: unknown): boolean {
+  const fee = typeof value === "string" ? Money.tryParse(value) : null;
+  return !!fee && !fee.isNegative();
+}
+
+/**
+ * Checks a rule before it is saved. Returns a message describing the first problem, or null.
+ */
+export function validateFeeRule(rule: FeeRule): string | null {
+  if (!(feeTypes as readonly string[]).includes(rule.feeType)) {
+    return "Fee type must be flat, percentage or tiered";
+  }
+
+  if (rule.feeType === "flat" && !isValidFee(rule.flatFee)) {
+    return "Flat fee must be a non-negative amount";
+  }
+
+  if (rule.feeType === "percentage" && !isValidPercentage(rule.percentage)) {
+    return "Percentage must be between 0 and 100 with at most 4 decimals";
+  }
+
+  if (rule.feeType === "tiered") {
+    const tiers = rule.tiers ?? [];
+    if (tiers.length === 0) {
+      return "Tiered schedules need at least one band";
+    }
+
+    let previous: Money | null = null;
+    for (let index = 0; index < tiers.length; index++) {
+      const tier = tiers[index];
+      const isLast = index === tiers.length - 1;
+      if (!isValidFee(tier.flatFee) || !isValidPercentage(tier.percentage)) {
+        return `Band ${index + 1} needs a non-negative flat fee and a percentage between 0 and 100`;
+      }
+      if (isLast) {
+        if (tier.upTo !== null) {
+          return "The last band must be open-ended";
+        }
+        continue;
+      }
+
+      const upTo = tier.upTo === null ? null : Money.tryParse(tier.upTo);
+      if (!upTo || !upTo.isPositive() || (previous && !upTo.greaterThan(previous))) {
+        return `Band ${index + 1} must end above the previous band`;
+      }
+      previous = upTo;
+    }
+  }
+
+  return null;
+}
+
+// "1.5" (percent) -> "0.015", so Money.multiply applies it exactly
+function percentageToFactor(percentage: string): string {
+  const [whole, fraction = ""] = percentage.split(".");
+  const padded = whole.padStart(3, "0");
+  return `${padded.slice(0, -2)}.${padded.slice(-2)}${fraction}`;
+}
+
+function flatPlusPercentage(amount: Money, flatFee: string, percentage: string): Money {
+  return Money.parse(flatFee).add(amount.multiply(percentageToFactor(percentage), "half_up"));
+}
+
+/**
+ * Fee for an amount under a rule. No rule (or a non-positive amount) means no fee.
+ */
+export function calculateFee(rule: FeeRule | null | undefined, amount: Money): Money {
+  if (!rule || !amount.isPositive()) {
+    return Money.zero();
+  }
+
+  let fee: Money;
+  switch (rule.feeType) {
+    case "flat":
+      fee = Money.parse(rule.flatFee);
+      break;
+    case "percentage":
+      fee = flatPlusPercentage(amount, "0", rule.percentage);
+      break;
+    case "tiered": {
+      const tiers = rule.tiers ?? [];
+      const tier = tiers.find(band => band.upTo === null || amount.lessThanOrEqual(Money.parse(band.upTo)));
+      fee = tier ? flatPlusPercentage(amount, tier.flatFee, tier.percentage) : Money.zero();
+      break;
+    }
+    default:
+      fee = Money.zero();
+  }
+
+  return Money.min(fee, amount);
+}
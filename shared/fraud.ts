@@ -0,0 +1,104 @@
+/**
+ * Fraud and velocity rules, evaluated on every new transaction before it is created. Each
+ * active rule either passes (allow) or fires with its configured decision; the strongest
+ * decision wins. Review parks the transaction for an admin instead of sending it to cashiers,
+ * block refuses it outright. Rules about the processing cashier run when a cashier completes
+ * the transaction instead, since only then is the cashier known.
+ */
+
+export const fraudRuleTypes = [
+  "merchant_velocity",
+  "near_daily_limit",
+  "vmf_reuse",
+  "cashier_merchant_frequency",
+] as const;
+
+export type FraudRuleType = (typeof fraudRuleTypes)[number];
+
+// Rule types evaluated at completion, against the cashier completing the transaction
+export const completionFraudRuleTypes: readonly FraudRuleType[] = ["cashier_merchant_frequency"];
+
+export const fraudDecisions = ["allow", "review", "block"] as const;
+
+export type FraudDecision = (typeof fraudDecisions)[number];
+
+// Decisions a rule can be configured with when it fires
+export const fraudRuleActions = ["review", "block"] as const;
+
+export type FraudRuleAction = (typeof fraudRuleActions)[number];
+
+export const fraudRuleLabels: Record<FraudRuleType, string> = {
+  merchant_velocity: "Merchant velocity",
+  near_daily_limit: "Just under daily limit",
+  vmf_reuse: "Reused VMF number",
+  cashier_merchant_frequency: "Cashier-merchant frequency",
+};
+
+// What the threshold means for each rule type, or null when the type has none
+export const fraudThresholdLabels: Record<FraudRuleType, string | null> = {
+  merchant_velocity: "Max transactions in window",
+  near_daily_limit: "% of daily limit",
+  vmf_reuse: null,
+  cashier_merchant_frequency: "Max transactions in window",
+};
+
+export function isFraudRuleType(value: unknown): value is FraudRuleType {
+  return typeof value === "string" && (fraudRuleTypes as readonly string[]).includes(value);
+}
+
+export function isFraudRuleAction(value: unknown): value is FraudRuleAction {
+  return typeof value === "string" && (fraudRuleActions as readonly string[]).includes(value);
+}
+
+export interface FraudRuleSettings {
+  ruleType: string;
+  action: string;
+  threshold: number | null;
+  windowMinutes: number | null;
+}
+
+/**
+ * Checks a rule before it is saved. Returns a message describing the first problem, or null.
+ */
+export function validateFraudRule(rule: FraudRuleSettings): string | null {
+  if (!isFraudRuleType(rule.ruleType)) {
+    return "Unknown rule type";
+  }
+  if (!isFraudRuleAction(rule.action)) {
+    return "Action must be review or block";
+  }
+
+  const { threshold, windowMinutes } = rule;
+  if (windowMinutes !== null && (!Number.isInteger(windowMinutes) || windowMinutes <= 0)) {
+    return "Window must be a whole number of minutes";
+  }
+
+  switch (rule.ruleType) {
+    case "merchant_velocity":
+    case "cashier_merchant_frequency":
+      if (threshold === null || !Number.isInteger(threshold) || threshold < 1) {
+        return "Set the most transactions allowed in the window";
+      }
+      if (windowMinutes === null) {
+        return "Set the window in minutes";
+      }
+      return null;
+    case "near_daily_limit":
+      if (threshold === null || !Number.isInteger(threshold) || threshold < 1 || threshold > 99) {
+        return "Percentage must be between 1 and 99";
+      }
+      return null;
+    case "vmf_reuse":
+      return null;
+  }
+}
+
+export function strongestFraudDecision(decisions: FraudDecision[]): FraudDecision {
+  let strongest: FraudDecision = "allow";
+  for (const decision of decisions) {
+    if (fraudDecisions.indexOf(decision) > fraudDecisions.indexOf(strongest)) {
+      strongest = decision;
+    }
+  }
+  return strongest;
+}
@@ -0,0 +1,52 @@
+/**
+ * KYC tiers. Everyone starts on basic; an admin promotes a user once the documents the tier
+ * requires are on file. Tiers cap wallet limits through kyc_tier limit rules (shared/limits.ts).
+ */
+
+export const kycTiers = ["basic", "standard", "enhanced"] as const;
+
+export type KycTier = (typeof kycTiers)[number];
+
+export const kycDocumentTypes = ["kyc_national_id", "kyc_proof_of_address", "kyc_business_registration"] as const;
+
+export type KycDocumentType = (typeof kycDocumentTypes)[number];
+
+export const kycDocumentLabels: Record<KycDocumentType, string> = {
+  kyc_national_id: "National ID",
+  kyc_proof_of_address: "Proof of address",
+  kyc_business_registration: "Business registration",
+};
+
+export const kycTierLabels: Record<KycTier, string> = {
+  basic: "Basic",
+  standard: "Standard",
+  enhanced: "Enhanced",
+};
+
+export function isKycTier(value: unknown): value is KycTier {
+  return typeof value === "string" && (kycTiers as readonly string[]).includes(value);
+}
+
+export function isKycDocumentType(value: unknown): value is KycDocumentType {
+  return typeof value === "string" && (kycDocumentTypes as readonly string[]).includes(value);
+}
+
+/**
+ * Documents a user needs on file to hold a tier. Merchants also identify their business
+ * for the enhanced tier.
+ */
+export function requiredKycDocuments(tier: KycTier, role: string): KycDocumentType[] {
+  if (tier === "basic") {
+    return [];
+  }
+  if (tier === "standard") {
+    return ["kyc_national_id"];
+  }
+  return role === "merchant"
+    ? ["kyc_national_id", "kyc_proof_of_address", "kyc_business_registration"]
+    : ["kyc_national_id", "kyc_proof_of_address"];
+}
+
+export function isHigherKycTier(tier: KycTier, than: string): boolean {
+  return kycTiers.indexOf(tier) > kycTiers.indexOf(than as KycTier);
+}
@@ -0,0 +1,156 @@
+import { Money } from "./money";
+import { getCurrencyLimits } from "./currency";
+
+/**
+ * Wallet limit rules. Cashiers are limited on what they transfer out and merchants on what
+ * they collect. Admins set caps at role, organization, branch or wallet level; for each cap
+ * the most specific level that sets it wins, and the currency defaults apply where no level
+ * does. KYC tier rules are ceilings on top: a holder never gets more than their tier allows.
+ */
+
+export const limitScopes = ["role", "organization", "branch", "wallet", "kyc_tier"] as const;
+
+export type LimitScope = (typeof limitScopes)[number];
+
+export const limitedRoles = ["cashier", "merchant"] as const;
+
+export type LimitedRole = (typeof limitedRoles)[number];
+
+export function isLimitScope(value: unknown): value is LimitScope {
+  return typeof value === "string" && (limitScopes as readonly string[]).includes(value);
+}
+
+export function isLimitedRole(value: unknown): value is LimitedRole {
+  return typeof value === "string" && (limitedRoles as readonly string[]).includes(value);
+}
+
+/**
+ * Caps as decimal strings in the wallet currency. Null means no cap (or, on a rule, that the
+ * rule leaves the cap to broader levels).
+ */
+export interface WalletLimitValues {
+  perTransaction: string | null;
+  daily: string | null;
+  weekly: string | null;
+  monthly: string | null;
+}
+
+export const limitPeriods = ["perTransaction", "daily", "weekly", "monthly"] as const;
+
+export type LimitPeriod = (typeof limitPeriods)[number];
+
+export const limitLabels: Record<LimitPeriod, string> = {
+  perTransaction: "Per-transaction",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+/**
+ * Limits in force for a wallet, with what it has used so far in each period
+ */
+export interface EffectiveWalletLimits extends WalletLimitValues {
+  currency: string;
+  used: { daily: string; weekly: string; monthly: string };
+}
+
+/**
+ * Limits a wallet gets when no rule covers it - the per-currency daily caps
+ */
+export function defaultWalletLimits(role: LimitedRole, currency: string): WalletLimitValues {
+  const limits = getCurrencyLimits(currency);
+  return {
+    perTransaction: null,
+    daily: role === "merchant" ? limits.merchantDailyCollection : limits.cashierDailyTransfer,
+    weekly: null,
+    monthly: null,
+  };
+}
+
+/**
+ * Applies rules over the defaults, broadest first, so later (more specific) rules win per cap
+ */
+export function resolveWalletLimits(defaults: WalletLimitValues, rules: WalletLimitValues[]): WalletLimitValues {
+  const resolved = { ...defaults };
+  for (const rule of rules) {
+    for (const period of limitPeriods) {
+      const value = rule[period];
+      if (value !== null) {
+        resolved[period] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Lowers each cap to the ceiling's where the ceiling is tighter, or sets it where there was none
+ */
+export function capWalletLimits(limits: WalletLimitValues, ceiling: WalletLimitValues): WalletLimitValues {
+  const capped = { ...limits };
+  for (const period of limitPeriods) {
+    const cap = ceiling[period];
+    if (cap === null) continue;
+
+    const current = capped[period];
+    if (current === null || Money.parse(current).greaterThan(Money.parse(cap))) {
+      capped[period] = cap;
+    }
+  }
+  return capped;
+}
+
+/**
+ * Checks a rule before it is saved. Returns a message describing the first problem, or null.
+ */
+export function validateWalletLimits(values: WalletLimitValues): string | null {
+  const caps: Partial<Record<LimitPeriod, Money>> = {};
+  for (const period of limitPeriods) {
+    const value = values[period];
+    if (value === null) continue;
+
+    const cap = Money.tryParse(value);
+    if (!cap || !cap.isPositive()) {
+      return "Limits must be amounts greater than zero, or left empty";
+    }
+    caps[period] = cap;
+  }
+
+  if (limitPeriods.every(period => !caps[period])) {
+    return "Set at least one limit";
+  }
+
+  // Within one rule a shorter period cannot allow more than a longer one
+  for (let i = 0; i < limitPeriods.length; i++) {
+    for (let j = i + 1; j < limitPeriods.length; j++) {
+      const shorter = caps[limitPeriods[i]];
+      const longer = caps[limitPeriods[j]];
+      if (shorter && longer && shorter.greaterThan(longer)) {
+        return `The ${limitLabels[limitPeriods[i]].toLowerCase()} limit cannot exceed the ${limitLabels[limitPeriods[j]].toLowerCase()} limit`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Most the wallet can still take in one transaction under every cap, or null when uncapped
+ */
+export function limitHeadroom(limits: EffectiveWalletLimits): Money | null {
+  const candidates: Money[] = [];
+  if (limits.perTransaction !== null) {
+    candidates.push(Money.parse(limits.perTransaction));
+  }
+  const periods = ["daily", "weekly", "monthly"] as const;
+  for (const period of periods) {
+    const cap = limits[period];
+    if (cap !== null) {
+      candidates.push(Money.parse(cap).subtract(Money.parse(limits.used[period])));
+    }
+  }
+  if (candidates.length === 0) {
+    return null;
+  }
+  return Money.max(candidates.reduce(Money.min), Money.zero());
+}
@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Money } from "./money";
+
+describe("Money.parse", () => {
+  it("reads decimal strings and numbers into ngwee", () => {
+    assert.equal(Money.parse("1234.56").toNgwee(), 123456);
+    assert.equal(Money.parse(" 7 ").toNgwee(), 700);
+    assert.equal(Money.parse(".5").toNgwee(), 50);
+    assert.equal(Money.parse(0.1 + 0.2).toNgwee(), 30);
+    assert.equal(Money.parse("-12.30").toDecimal(), "-12.30");
+  });
+
+  it("treats missing values as zero", () => {
+    assert.ok(Money.parse(null).isZero());
+    assert.ok(Money.parse(undefined).isZero());
+    assert.ok(Money.parse("").isZero());
+  });
+
+  it("rounds precision beyond a ngwee with the given mode", () => {
+    assert.equal(Money.parse("0.005").toDecimal(), "0.01");
+    assert.equal(Money.parse("-0.005").toDecimal(), "-0.01");
+    assert.equal(Money.parse("0.005", "half_even").toDecimal(), "0.00");
+    assert.equal(Money.parse("0.015", "half_even").toDecimal(), "0.02");
+    assert.equal(Money.parse("0.0051", "half_even").toDecimal(), "0.01");
+    assert.equal(Money.parse("0.019", "down").toDecimal(), "0.01");
+    assert.equal(Money.parse("0.011", "up").toDecimal(), "0.02");
+  });
+
+  it("refuses malformed and non-finite amounts", () => {
+    for (const value of ["abc", "1,000.00", "1.2.3", ".", "-", "1e5"]) {
+      assert.throws(() => Money.parse(value), /INVALID_AMOUNT/, value);
+    }
+    assert.throws(() => Money.parse(Number.NaN), /INVALID_AMOUNT/);
+    assert.throws(() => Money.parse(Number.POSITIVE_INFINITY), /INVALID_AMOUNT/);
+  });
+});
+
+describe("Money.tryParse", () => {
+  it("returns null instead of throwing", () => {
+    assert.equal(Money.tryParse("abc"), null);
+    assert.equal(Money.tryParse("10.50")?.toDecimal(), "10.50");
+  });
+});
+
+describe("Money.multiply", () => {
+  it("applies the factor exactly before rounding", () => {
+    assert.equal(Money.parse("100.00").multiply("0.015").toDecimal(), "1.50");
+    assert.equal(Money.parse("0.10").multiply(3).toDecimal(), "0.30");
+    assert.equal(Money.parse("1000.00").multiply("18.12345678").toDecimal(), "18123.46");
+  });
+
+  it("rounds a half ngwee with the given mode", () => {
+    const amount = Money.parse("0.25");
+    assert.equal(amount.multiply("0.1").toDecimal(), "0.03");
+    assert.equal(amount.multiply("0.1", "half_even").toDecimal(), "0.02");
+    assert.equal(Money.parse("0.35").multiply("0.1", "half_even").toDecimal(), "0.04");
+    assert.equal(amount.multiply("0.1", "down").toDecimal(), "0.02");
+    assert.equal(Money.parse("0.21").multiply("0.1", "up").toDecimal(), "0.03");
+  });
+
+  it("keeps the sign of the amount and the factor", () => {
+    assert.equal(Money.parse("-0.25").multiply("0.1").toDecimal(), "-0.03");
+    assert.equal(Money.parse("10.00").multiply("-0.5").toDecimal(), "-5.00");
+    assert.equal(Money.parse("-10.00").multiply("-0.5").toDecimal(), "5.00");
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Money in integer minor units (ngwee, 1 ZMW = 100 ngwee).
+ *
+ * Amounts travel over the API and through forms as decimal strings ("1234.56").
+ * Parse them with Money.parse, do all arithmetic on Money, and only convert back
+ * with toDecimal/format at the edges. Never use parseFloat on an amount.
+ */
+
+export const MINOR_UNITS_PER_MAJOR = 100;
+
+/**
+ * How to treat precision finer than one ngwee:
+ * - half_up: nearest ngwee, halves away from zero (0.005 -> 0.01)
+ * - half_even: nearest ngwee, halves to the even ngwee (banker's rounding)
+ * - down: drop the extra precision (towards zero)
+ * - up: any extra precision adds a ngwee (away from zero)
+ */
+export type RoundingMode = 'half_up' | 'half_even' | 'down' | 'up';
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+export class Money {
+  private constructor(private readonly ngwee: number) {}
+
+  static zero(): Money {
+    return new Money(0);
+  }
+
+  static fromNgwee(ngwee: number | string | bigint): Money {
+    const value = Number(ngwee);
+    if (!Number.isSafeInteger(value)) {
+      throw new Error('INVALID_AMOUNT');
+    }
+    return new Money(value);
+  }
+
+  /**
+   * Parses a decimal amount ("1234.56", 1234.56). Missing values are zero.
+   * Precision beyond two decimals is resolved with the given rounding mode.
+   */
+  static parse(value: string | number | null | undefined, rounding: RoundingMode = 'half_up'): Money {
+    if (value === null || value === undefined || value === '') {
+      return Money.zero();
+    }
+
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new Error('INVALID_AMOUNT');
+      }
+      // Fixed notation avoids exponents; ten places is far beyond ngwee precision
+      value = value.toFixed(10);
+    }
+
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error('INVALID_AMOUNT');
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const kept = (fraction + '00').slice(0, 2);
+    const dropped = fraction.slice(2);
+
+    let magnitude = Number(whole || '0') * MINOR_UNITS_PER_MAJOR + Number(kept);
+    if (roundsAwayFromZero(dropped, magnitude, rounding)) {
+      magnitude += 1;
+    }
+
+    if (!Number.isSafeInteger(magnitude)) {
+      throw new Error('INVALID_AMOUNT');
+    }
+    return new Money(sign === '-' && magnitude !== 0 ? -magnitude : magnitude);
+  }
+
+  /**
+   * Like parse, but returns null instead of throwing for malformed input.
+   */
+  static tryParse(value: string | number | null | undefined, rounding: RoundingMode = 'half_up'): Money | null {
+    try {
+      return Money.parse(value, rounding);
+    } catch {
+      return null;
+    }
+  }
+
+  static sum(values: Money[]): Money {
+    return values.reduce((total, value) => total.add(value), Money.zero());
+  }
+
+  static max(a: Money, b: Money): Money {
+    return a.greaterThanOrEqual(b) ? a : b;
+  }
+
+  static min(a: Money, b: Money): Money {
+    return a.lessThanOrEqual(b) ? a : b;
+  }
+
+  add(other: Money): Money {
+    return Money.fromNgwee(this.ngwee + other.ngwee);
+  }
+
+  subtract(other: Money): Money {
+    return Money.fromNgwee(this.ngwee - other.ngwee);
+  }
+
+  negate(): Money {
+    return new Money(this.ngwee === 0 ? 0 : -this.ngwee);
+  }
+
+  abs(): Money {
+    return this.ngwee < 0 ? this.negate() : this;
+  }
+
+  /**
+   * Multiplies by a decimal factor (a rate, percentage or FX rate) and rounds the
+   * result back to whole ngwee. The factor is applied exactly, not in floating point.
+   */
+  multiply(factor: number | string, rounding: RoundingMode = 'half_up'): Money {
+    const factorText = typeof factor === 'number' ? factor.toFixed(10) : factor.trim();
+    const match = DECIMAL_PATTERN.exec(factorText);
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error('INVALID_AMOUNT');
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const scale = BigInt(`1${'0'.repeat(fraction.length)}`);
+    const product = BigInt(Math.abs(this.ngwee)) * BigInt(`${whole || '0'}${fraction}`);
+    const quotient = product / scale;
+    const remainder = product % scale;
+
+    let magnitude = quotient;
+    if (remainder !== BigInt(0)) {
+      const doubled = remainder * BigInt(2);
+      const roundUp =
+        rounding === 'up' ||
+        (rounding === 'half_up' && doubled >= scale) ||
+        (rounding === 'half_even' && (doubled > scale || (doubled === scale && quotient % BigInt(2) === BigInt(1))));
+      if (roundUp) {
+        magnitude += BigInt(1);
+      }
+    }
+
+    const negative = (this.ngwee < 0) !== (sign === '-');
+    return Money.fromNgwee(negative ? -magnitude : magnitude);
+  }
+
+  isZero(): boolean {
+    return this.ngwee === 0;
+  }
+
+  isPositive(): boolean {
+    return this.ngwee > 0;
+  }
+
+  isNegative(): boolean {
+    return this.ngwee < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.ngwee === other.ngwee;
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    return this.ngwee === other.ngwee ? 0 : this.ngwee < other.ngwee ? -1 : 1;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.ngwee > other.ngwee;
+  }
+
+  greaterThanOrEqual(other: Money): boolean {
+    return this.ngwee >= other.ngwee;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.ngwee < other.ngwee;
+  }
+
+  lessThanOrEqual(other: Money): boolean {
+    return this.ngwee <= other.ngwee;
+  }
+
+  toNgwee(): number {
+    return this.ngwee;
+  }
+
+  /** Major units as a number, for charts and JSON totals only - not for arithmetic. */
+  toNumber(): number {
+    return this.ngwee / MINOR_UNITS_PER_MAJOR;
+  }
+
+  /** Canonical decimal string with exactly two places, e.g. "-1234.50". */
+  toDecimal(): string {
+    const magnitude = Math.abs(this.ngwee);
+    const whole = Math.floor(magnitude / MINOR_UNITS_PER_MAJOR);
+    const fraction = (magnitude % MINOR_UNITS_PER_MAJOR).toString().padStart(2, '0');
+    return `${this.ngwee < 0 ? '-' : ''}${whole}.${fraction}`;
+  }
+
+  /** Display string with grouping and two decimals, e.g. "ZMW 1,234.50". */
+  format(currency: string = 'ZMW'): string {
+    const magnitude = Math.abs(this.ngwee);
+    const whole = Math.floor(magnitude / MINOR_UNITS_PER_MAJOR).toLocaleString('en-US');
+    const fraction = (magnitude % MINOR_UNITS_PER_MAJOR).toString().padStart(2, '0');
+    return `${this.ngwee < 0 ? '-' : ''}${currency} ${whole}.${fraction}`;
+  }
+
+  toString(): string {
+    return this.toDecimal();
+  }
+
+  toJSON(): string {
+    return this.toDecimal();
+  }
+}
+
+function roundsAwayFromZero(dropped: string, magnitude: number, rounding: RoundingMode): boolean {
+  if (!/[1-9]/.test(dropped)) return false;
+
+  switch (rounding) {
+    case 'down':
+      return false;
+    case 'up':
+      return true;
+    case 'half_up':
+      return dropped[0] >= '5';
+    case 'half_even':
+      if (dropped[0] !== '5') return dropped[0] > '5';
+      return /[1-9]/.test(dropped.slice(1)) || magnitude % 2 === 1;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Settlement payouts. Approved settlements are grouped per organization and currency into a
+ * batch with a bank payment file. The batch moves to processing once the file has gone to the
+ * bank, and each settlement then ends completed (paid) or failed (returned to the treasury).
+ */
+
+export const payoutFileFormats = ["bank_csv", "pain_001"] as const;
+
+export type PayoutFileFormat = (typeof payoutFileFormats)[number];
+
+export const payoutFileFormatLabels: Record<PayoutFileFormat, string> = {
+  bank_csv: "Bank CSV",
+  pain_001: "ISO 20022 pain.001 XML",
+};
+
+export const payoutBatchStatuses = ["generated", "processing", "completed"] as const;
+
+export type PayoutBatchStatus = (typeof payoutBatchStatuses)[number];
+
+export const payoutBatchStatusLabels: Record<PayoutBatchStatus, string> = {
+  generated: "File generated",
+  processing: "Processing at bank",
+  completed: "Completed",
+};
+
+// How a settlement in a processing batch ends
+export const payoutResults = ["completed", "failed"] as const;
+
+export type PayoutResult = (typeof payoutResults)[number];
+
+export function isPayoutFileFormat(value: unknown): value is PayoutFileFormat {
+  return typeof value === "string" && (payoutFileFormats as readonly string[]).includes(value);
+}
+
+export function isPayoutResult(value: unknown): value is PayoutResult {
+  return typeof value === "string" && (payoutResults as readonly string[]).includes(value);
+}
@@ -8,11 +8,41 @@ import {
   serial,
   integer,
   decimal,
+  date,
+  uniqueIndex,
   boolean,
+  customType,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { Money } from "./money";
+import type { FeeTier } from "./fees";
+import type { ApprovalTier } from "./approvals";
+import type { StrReportContent } from "./str-reports";
+
+// Amounts are stored as bigint minor units (ngwee for ZMW) and surface in the app as decimal strings ("1234.56")
+const money = customType<{ data: string; driverData: string }>({
+  dataType() {
+    return "bigint";
+  },
+  toDriver(value) {
+    return Money.parse(value).toNgwee().toString();
+  },
+  fromDriver(value) {
+    return Money.fromNgwee(value).toDecimal();
+  },
+});
+
+// Insert schemas validate amounts as decimal strings before they are converted to ngwee
+const moneySchema = z.string().refine((value) => Money.tryParse(value) !== null, "Invalid amount");
+
+// Amount bands of tiered fee schedules and commission plans (see shared/fees.ts)
+const feeTiersSchema = z.array(z.object({
+  upTo: moneySchema.nullable(),
+  flatFee: moneySchema,
+  percentage: z.string(),
+})).nullable();
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -34,6 +64,9 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   role: varchar("role").notNull().default("merchant"), // merchant, cashier, finance, admin
   organizationId: integer("organization_id"),
+  branchId: integer("branch_id"), // branch a cashier or merchant works from - assigned by finance
+  kycTier: varchar("kyc_tier").notNull().default("basic"), // basic, standard, enhanced - see shared/kyc.ts
+  screeningStatus: varchar("screening_status").notNull().default("clear"), // clear, hold (possible sanctions match), blocked (match confirmed)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -56,7 +89,8 @@ export const branches = pgTable("branches", {
   address: text("address"),
   contactPhone: varchar("contact_phone"),
   managerName: varchar("manager_name"),
-  balance: decimal("balance", { precision: 12, scale: 2 }).default("0"),
+  balance: money("balance").default("0"), // branch vault - cash that tops up and receives cashier float
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -64,38 +98,70 @@ export const branches = pgTable("branches", {
 
 export const wallets = pgTable("wallets", {
   id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull(),
-  balance: decimal("balance", { precision: 12, scale: 2 }).default("0"),
-  dailyLimit: decimal("daily_limit", { precision: 12, scale: 2 }).default("1000000.00").notNull(),
-  dailyCollected: decimal("daily_collected", { precision: 12, scale: 2 }).default("0.00").notNull(), // For merchants - money collected today
-  dailyTransferred: decimal("daily_transferred", { precision: 12, scale: 2 }).default("0.00").notNull(), // For cashiers - money transferred today
+  userId: varchar("user_id").notNull(), // reserved key (org_treasury_<id>, platform_revenue) for wallets no user owns
+  organizationId: integer("organization_id").unique(), // set only on an organization's treasury wallet
+  balance: money("balance").default("0"),
+  dailyLimit: money("daily_limit").default(sql`100000000`).notNull(), // legacy and not enforced - limits come from wallet_limits
+  dailyCollected: money("daily_collected").default("0").notNull(), // For merchants - money collected today
+  dailyTransferred: money("daily_transferred").default("0").notNull(), // For cashiers - money transferred today
+  openingBalance: money("opening_balance").default("0").notNull(), // balance the current business day opened with
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(), // ISO 4217 - see shared/currency.ts
   lastResetDate: timestamp("last_reset_date").defaultNow().notNull(),
   lastTransactionDate: timestamp("last_transaction_date"),
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // One platform revenue wallet per currency, however many completions create it at once
+  uniqueIndex("UQ_platform_revenue_wallet_currency").on(table.currency).where(sql`${table.userId} = 'platform_revenue'`),
+]);
 
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
   transactionId: varchar("transaction_id").unique().notNull(), // LUS-XXXXXX format
   fromUserId: varchar("from_user_id"),
   toUserId: varchar("to_user_id").notNull(),
-  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
-  type: varchar("type").notNull(), // cash_digitization, settlement, transfer
-  status: varchar("status").notNull(), // pending, approved, completed, rejected
+  amount: money("amount").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  fxConversionId: integer("fx_conversion_id"), // required when a participant wallet holds another currency
+  feeAmount: money("fee_amount").default("0").notNull(), // in the transaction currency, fixed at creation
+  feeScheduleId: integer("fee_schedule_id"), // schedule the fee was calculated from, if any
+  type: varchar("type").notNull(), // cash_digitization, settlement, transfer, reversal
+  status: varchar("status").notNull(), // pending, approved, completed, rejected, pending_approval (reversals), reversed, under_review (held by fraud rules)
   priority: varchar("priority").default("medium"), // low, medium, high - set by admin
   description: text("description"),
   vmfNumber: varchar("vmf_number"), // Voucher Movement Form number
   vmfDocumentIds: text("vmf_document_ids").array(),
+  verifiedAmount: money("verified_amount"), // cash the processing cashier counted, checked against amount at completion
+  verifiedVmfNumber: varchar("verified_vmf_number"), // VMF number the processing cashier read off the form
   rejectionReason: varchar("rejection_reason"), // reason for rejection
   qrCode: text("qr_code"),
-  processedBy: varchar("processed_by"), // cashier who processed the transaction
+  processedBy: varchar("processed_by"), // cashier who processed the transaction, or admin who approved a reversal
+  branchId: integer("branch_id"), // branch whose cash the transaction moved - the processing cashier's, fixed at completion
+  reversalOfId: integer("reversal_of_id"), // original transaction a reversal compensates
+  reversalReasonCode: varchar("reversal_reason_code"), // customer_dispute, duplicate_transaction, amount_error, fraud, other
+  requestedBy: varchar("requested_by"), // admin who raised a reversal (maker)
   expiresAt: timestamp("expires_at"), // Transaction expiration timestamp
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every status change of a transaction, including the status it was created with (fromStatus
+// null). Changes made by the expiry job have no actor.
+export const transactionStatusHistory = pgTable(
+  "transaction_status_history",
+  {
+    id: serial("id").primaryKey(),
+    transactionId: integer("transaction_id").notNull(),
+    fromStatus: varchar("from_status"),
+    toStatus: varchar("to_status").notNull(),
+    actorId: varchar("actor_id"),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_status_history_transaction").on(table.transactionId)],
+);
+
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull(),
@@ -112,11 +178,20 @@ export const settlementRequests = pgTable("settlement_requests", {
   id: serial("id").primaryKey(),
   organizationId: integer("organization_id").notNull(),
   userId: varchar("user_id").notNull(),
-  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  amount: money("amount").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  feeAmount: money("fee_amount").default("0").notNull(), // withheld from the payout, fixed at creation
+  feeScheduleId: integer("fee_schedule_id"),
+  bankAccountId: integer("bank_account_id"), // registered account paid; bankName / accountNumber are copied from it
+  sweepRuleId: integer("sweep_rule_id"), // set when a scheduled sweep created the request
   bankName: varchar("bank_name").notNull(),
   accountNumber: varchar("account_number").notNull(),
-  status: varchar("status").notNull(), // pending, approved, hold, rejected, completed
+  status: varchar("status").notNull(), // pending, partially_approved, approved, hold, rejected, processing, completed, failed
   priority: varchar("priority").notNull(), // low, medium, high
+  requiredApprovals: integer("required_approvals").default(1).notNull(), // from the approval matrix, fixed at creation
+  payoutBatchId: integer("payout_batch_id"), // set once an approved request is batched for payment
+  payoutFailureReason: varchar("payout_failure_reason"), // failed payouts only, as reported by the bank
+  bankReference: varchar("bank_reference"), // from the bank statement line that proved the payment
   reviewedBy: varchar("reviewed_by"),
   reviewedAt: timestamp("reviewed_at"),
   holdReason: varchar("hold_reason"), // insufficient_documentation, settlement_cover, pending_verification, other
@@ -137,6 +212,484 @@ export const qrCodes = pgTable("qr_codes", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Double-entry ledger - every wallet balance change is posted as a balanced journal.
+// A credit increases a wallet balance and a debit decreases it; system accounts
+// (settlement_outflow, digitization_clearing, merchant_collections, branch_vault) have no wallet.
+export const ledgerEntries = pgTable(
+  "ledger_entries",
+  {
+    id: serial("id").primaryKey(),
+    journalId: varchar("journal_id").notNull(), // JRN-XXXXXXXX, shared by all legs of one posting
+    account: varchar("account").notNull(), // cashier_float, merchant_display, finance_master, platform_revenue, settlement_outflow, digitization_clearing, merchant_collections, branch_vault
+    walletId: integer("wallet_id"),
+    direction: varchar("direction").notNull(), // debit, credit
+    amount: money("amount").notNull(),
+    currency: varchar("currency", { length: 3 }).default("ZMW").notNull(), // journals balance per currency
+    transactionId: integer("transaction_id"),
+    settlementRequestId: integer("settlement_request_id"),
+    floatRequestId: integer("float_request_id"),
+    description: text("description"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_ledger_wallet").on(table.walletId),
+    index("IDX_ledger_journal").on(table.journalId),
+  ],
+);
+
+// Explicit currency conversions. A transaction whose currency differs from a participant
+// wallet must reference one, and that wallet is posted the converted amount at the recorded rate.
+export const fxConversions = pgTable("fx_conversions", {
+  id: serial("id").primaryKey(),
+  fromCurrency: varchar("from_currency", { length: 3 }).notNull(),
+  toCurrency: varchar("to_currency", { length: 3 }).notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // units of toCurrency per unit of fromCurrency
+  sourceAmount: money("source_amount").notNull(),
+  convertedAmount: money("converted_amount").notNull(),
+  transactionId: integer("transaction_id"), // set once a transaction uses the conversion
+  recordedBy: varchar("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Fee schedules per organization, transaction type and currency. Creating a schedule
+// deactivates the previous one, so transactions keep pointing at the rule they were charged.
+export const feeSchedules = pgTable("fee_schedules", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  transactionType: varchar("transaction_type").notNull(), // cash_digitization, qr_code_payment, settlement
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  feeType: varchar("fee_type").notNull(), // flat, percentage, tiered
+  flatFee: money("flat_fee").default("0").notNull(),
+  percentage: decimal("percentage", { precision: 7, scale: 4 }).default("0").notNull(), // percent of the amount, e.g. 1.5
+  tiers: jsonb("tiers").$type<FeeTier[]>(), // tiered only - amount bands, see shared/fees.ts
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Beneficiary bank accounts an organization's settlements may be paid to (see
+// shared/bank-accounts.ts). Added by one person, approved by another; usable from availableFrom.
+export const organizationBankAccounts = pgTable(
+  "organization_bank_accounts",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id").notNull(),
+    bankCode: varchar("bank_code").notNull(), // from the bank catalogue
+    branchCode: varchar("branch_code").notNull(),
+    accountNumber: varchar("account_number").notNull(),
+    accountName: varchar("account_name").notNull(),
+    status: varchar("status").notNull().default("pending_approval"), // pending_approval, active, rejected, deactivated
+    requestedBy: varchar("requested_by").notNull(),
+    reviewedBy: varchar("reviewed_by"),
+    reviewedAt: timestamp("reviewed_at"),
+    rejectionReason: varchar("rejection_reason", { length: 255 }),
+    availableFrom: timestamp("available_from"), // end of the cooling-off period, set on approval
+    deactivatedBy: varchar("deactivated_by"),
+    deactivatedAt: timestamp("deactivated_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_organization_bank_accounts_organization").on(table.organizationId)],
+);
+
+// Scheduled settlement sweeps (see shared/sweeps.ts). At runAt on each sweep day the
+// organization's settlement capacity less reserveAmount is requested on behalf of createdBy.
+export const settlementSweepRules = pgTable("settlement_sweep_rules", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  bankAccountId: integer("bank_account_id").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(), // the treasury's currency
+  frequency: varchar("frequency").notNull(), // business_days, daily
+  runAt: varchar("run_at", { length: 5 }).notNull(), // HH:MM, server local time
+  reserveAmount: money("reserve_amount").default("0").notNull(), // left unsettled
+  minimumAmount: money("minimum_amount").default("0").notNull(), // smaller sweeps are skipped
+  status: varchar("status").notNull().default("active"), // active, paused
+  createdBy: varchar("created_by").notNull(), // finance officer the requests are raised for
+  statusChangedBy: varchar("status_changed_by"),
+  statusChangedAt: timestamp("status_changed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per sweep rule and business day, claimed before the sweep runs so it runs once
+export const settlementSweepRuns = pgTable(
+  "settlement_sweep_runs",
+  {
+    id: serial("id").primaryKey(),
+    sweepRuleId: integer("sweep_rule_id").notNull().references(() => settlementSweepRules.id),
+    organizationId: integer("organization_id").notNull(),
+    businessDate: date("business_date", { mode: "string" }).notNull(), // YYYY-MM-DD, server local time
+    status: varchar("status").notNull().default("running"), // running, created, skipped, failed
+    capacity: money("capacity"), // available settlement capacity when the sweep ran
+    amount: money("amount"), // amount requested
+    settlementRequestId: integer("settlement_request_id"),
+    reason: varchar("reason", { length: 255 }), // why a sweep was skipped or failed
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_sweep_run_day").on(table.sweepRuleId, table.businessDate),
+    index("IDX_sweep_runs_organization").on(table.organizationId),
+  ],
+);
+
+// Settlement approval matrices per organization and currency (see shared/approvals.ts).
+// Saving a matrix deactivates the previous one; requests keep the quorum they were created with.
+export const approvalMatrices = pgTable("approval_matrices", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  tiers: jsonb("tiers").$type<ApprovalTier[]>().notNull(), // amount bands and the approvers each needs
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per admin approving a settlement request; an admin counts once
+export const settlementApprovals = pgTable(
+  "settlement_approvals",
+  {
+    id: serial("id").primaryKey(),
+    settlementRequestId: integer("settlement_request_id").notNull().references(() => settlementRequests.id),
+    approverId: varchar("approver_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_settlement_approval").on(table.settlementRequestId, table.approverId)]
+);
+
+// Wallet limit rules set by admins (see shared/limits.ts). A rule targets a role everywhere, a
+// role within an organization or branch, or one wallet; for each cap the most specific active
+// rule that sets it wins. kyc_tier rules cap a role's holders of one KYC tier whatever the
+// other rules allow. Saving a rule replaces the active rule for the same target.
+export const walletLimits = pgTable("wallet_limits", {
+  id: serial("id").primaryKey(),
+  scope: varchar("scope").notNull(), // role, organization, branch, wallet
+  role: varchar("role"), // cashier, merchant - every scope except wallet
+  kycTier: varchar("kyc_tier"), // kyc_tier scope
+  organizationId: integer("organization_id"), // organization scope
+  branchId: integer("branch_id"), // branch scope
+  walletId: integer("wallet_id"), // wallet scope
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  perTransaction: money("per_transaction"), // null leaves the cap to broader levels
+  daily: money("daily"),
+  weekly: money("weekly"),
+  monthly: money("monthly"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Fraud and velocity rules checked before a transaction is created. threshold is a count or a
+// percentage depending on the rule type; windowMinutes bounds the lookback (vmf_reuse looks at
+// all history when it is null). transactionType narrows the rule to one type.
+export const fraudRules = pgTable("fraud_rules", {
+  id: serial("id").primaryKey(),
+  ruleType: varchar("rule_type").notNull(), // merchant_velocity, near_daily_limit, vmf_reuse, cashier_merchant_frequency
+  action: varchar("action").notNull(), // review, block
+  transactionType: varchar("transaction_type"), // null applies to every type
+  threshold: integer("threshold"),
+  windowMinutes: integer("window_minutes"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Each rule that fired on a transaction request. Blocked requests were never created, so their
+// flags have no transactionId and keep the requester instead.
+export const fraudFlags = pgTable(
+  "fraud_flags",
+  {
+    id: serial("id").primaryKey(),
+    transactionId: integer("transaction_id"),
+    ruleId: integer("rule_id").notNull(),
+    ruleType: varchar("rule_type").notNull(),
+    decision: varchar("decision").notNull(), // review, block
+    reason: text("reason").notNull(),
+    requestedBy: varchar("requested_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_fraud_flags_transaction").on(table.transactionId)],
+);
+
+// Cashier commission plans per organization, optionally narrowed to one branch. A branch plan
+// takes precedence over the organization-wide plan for the same transaction type and currency.
+export const commissionPlans = pgTable("commission_plans", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  branchId: integer("branch_id"),
+  transactionType: varchar("transaction_type").notNull().default("cash_digitization"), // cash_digitization, qr_code_payment
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  commissionType: varchar("commission_type").notNull(), // flat, percentage, tiered - same rules as fee schedules
+  flatAmount: money("flat_amount").default("0").notNull(),
+  percentage: decimal("percentage", { precision: 7, scale: 4 }).default("0").notNull(),
+  tiers: jsonb("tiers").$type<FeeTier[]>(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Commission earned on one completed transaction by the cashier who processed it.
+// Reversals cancel an open accrual, or add a negative one if it was already closed into a payable.
+export const commissionAccruals = pgTable("commission_accruals", {
+  id: serial("id").primaryKey(),
+  cashierId: varchar("cashier_id").notNull(),
+  organizationId: integer("organization_id").notNull(),
+  transactionId: integer("transaction_id").notNull().unique(), // the completed transaction, or the reversal for claw-backs
+  commissionPlanId: integer("commission_plan_id"),
+  amount: money("amount").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  status: varchar("status").notNull().default("accrued"), // accrued, payable, reversed
+  payableId: integer("payable_id"), // set when a period close moves the accrual into a payable
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Commission owed to a cashier for a closed period
+export const commissionPayables = pgTable("commission_payables", {
+  id: serial("id").primaryKey(),
+  cashierId: varchar("cashier_id").notNull(),
+  organizationId: integer("organization_id").notNull(),
+  amount: money("amount").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // accruals created before this are included
+  status: varchar("status").notNull().default("payable"), // payable, paid
+  closedBy: varchar("closed_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// End-of-day close - one row per wallet and business day, written before the daily counters
+// (and the merchant display balance) are reset, so each day's figures are kept
+export const walletDailySnapshots = pgTable(
+  "wallet_daily_snapshots",
+  {
+    id: serial("id").primaryKey(),
+    walletId: integer("wallet_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    businessDate: date("business_date", { mode: "string" }).notNull(), // YYYY-MM-DD, server local time
+    currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+    openingBalance: money("opening_balance").notNull(),
+    collected: money("collected").notNull(),
+    transferred: money("transferred").notNull(),
+    closingBalance: money("closing_balance").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_wallet_snapshot_day").on(table.walletId, table.businessDate),
+    index("IDX_wallet_snapshot_date").on(table.businessDate),
+  ],
+);
+
+// Cashier float moves between the branch vault and a cashier wallet. The cashier raises the
+// request and finance (or an admin) approves it; the vault and wallet move together on approval.
+export const floatRequests = pgTable("float_requests", {
+  id: serial("id").primaryKey(),
+  cashierId: varchar("cashier_id").notNull(),
+  organizationId: integer("organization_id").notNull(),
+  branchId: integer("branch_id").notNull(),
+  type: varchar("type").notNull(), // top_up (vault to cashier), return (cashier to vault)
+  amount: money("amount").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  status: varchar("status").notNull().default("pending"), // pending, approved, rejected
+  note: varchar("note", { length: 255 }),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A user's request to move up a KYC tier, raised once the tier's documents are uploaded and
+// decided by an admin
+export const kycRequests = pgTable("kyc_requests", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  currentTier: varchar("current_tier").notNull(),
+  requestedTier: varchar("requested_tier").notNull(),
+  status: varchar("status").notNull().default("pending"), // pending, approved, rejected
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Possible sanctions / PEP list matches found when screening a new user or a settlement
+// beneficiary. The subject stays on hold until an analyst clears or confirms every match.
+export const screeningMatches = pgTable(
+  "screening_matches",
+  {
+    id: serial("id").primaryKey(),
+    subjectType: varchar("subject_type").notNull(), // user, settlement_request
+    userId: varchar("user_id"), // user subjects
+    settlementRequestId: integer("settlement_request_id"), // settlement_request subjects
+    screenedValue: varchar("screened_value").notNull(), // name, bank name or account number that was screened
+    matchedValue: varchar("matched_value").notNull(), // listed name, alias or identifier it matched
+    listName: varchar("list_name").notNull(), // e.g. sanctions, pep
+    score: integer("score").notNull(), // similarity 0-100
+    status: varchar("status").notNull().default("pending"), // pending, cleared, confirmed
+    reviewedBy: varchar("reviewed_by"),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewNote: text("review_note"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_screening_matches_user").on(table.userId),
+    index("IDX_screening_matches_settlement").on(table.settlementRequestId),
+  ],
+);
+
+// Suspicious transaction reports (see shared/str-reports.ts). Drafts can be edited by anyone in
+// compliance; once submitted for approval the report is locked, and approval by a second admin
+// stores the final content in snapshot together with its SHA-256 so it never changes again.
+export const strReports = pgTable("str_reports", {
+  id: serial("id").primaryKey(),
+  reportNumber: varchar("report_number").unique().notNull(), // STR-XXXXXXXX-XXXX format
+  status: varchar("status").notNull().default("draft"), // draft, pending_approval, submitted
+  transactionIds: integer("transaction_ids").array().notNull(),
+  narrative: text("narrative").notNull(),
+  preparedBy: varchar("prepared_by").notNull(),
+  approvedBy: varchar("approved_by"),
+  submittedAt: timestamp("submitted_at"),
+  snapshot: jsonb("snapshot").$type<StrReportContent>(), // submitted reports only
+  snapshotHash: varchar("snapshot_hash", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Everything done to a report, including each export, in order
+export const strReportEvents = pgTable(
+  "str_report_events",
+  {
+    id: serial("id").primaryKey(),
+    reportId: integer("report_id").notNull(),
+    action: varchar("action").notNull(), // created, updated, submitted_for_approval, returned, approved, exported
+    actorId: varchar("actor_id").notNull(),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_str_report_events_report").on(table.reportId)],
+);
+
+// Payment file batches for approved settlements (see shared/payouts.ts). The generated file is
+// stored so the bank always gets back exactly what was sent; regenerating replaces it and bumps
+// fileVersion.
+export const payoutBatches = pgTable("payout_batches", {
+  id: serial("id").primaryKey(),
+  batchNumber: varchar("batch_number").unique().notNull(), // PAY-XXXXXXXX-XXXX format
+  organizationId: integer("organization_id").notNull(),
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  status: varchar("status").notNull().default("generated"), // generated, processing, completed
+  format: varchar("format").notNull(), // bank_csv, pain_001
+  settlementCount: integer("settlement_count").notNull(),
+  totalAmount: money("total_amount").notNull(), // net of withheld fees - what the bank pays out
+  fileName: varchar("file_name").notNull(),
+  fileContent: text("file_content").notNull(),
+  fileVersion: integer("file_version").default(1).notNull(),
+  fileGeneratedAt: timestamp("file_generated_at").defaultNow(),
+  generatedBy: varchar("generated_by").notNull(),
+  processingBy: varchar("processing_by"),
+  processingAt: timestamp("processing_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Imported bank statements (see shared/bank-statements.ts). Finance officers import their
+// organization's account statements; admin imports (organizationId null) cover the platform's
+// paying account. fileHash stops the same file being imported twice.
+export const bankStatements = pgTable("bank_statements", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  format: varchar("format").notNull(), // camt_053, mt940, csv
+  fileName: varchar("file_name").notNull(),
+  fileHash: varchar("file_hash", { length: 64 }).unique().notNull(),
+  accountNumber: varchar("account_number"), // as stated in the file, when it says
+  lineCount: integer("line_count").notNull(),
+  matchedCount: integer("matched_count").notNull().default(0),
+  importedBy: varchar("imported_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One booked credit or debit of an imported statement. Unmatched and resolved lines make up
+// the bank reconciliation worklist.
+export const bankStatementLines = pgTable(
+  "bank_statement_lines",
+  {
+    id: serial("id").primaryKey(),
+    statementId: integer("statement_id").notNull().references(() => bankStatements.id),
+    direction: varchar("direction").notNull(), // credit, debit
+    amount: money("amount").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    valueDate: date("value_date").notNull(),
+    bankReference: varchar("bank_reference"),
+    counterpartyAccount: varchar("counterparty_account"),
+    description: text("description"),
+    status: varchar("status").notNull().default("unmatched"), // matched, unmatched, resolved
+    settlementRequestId: integer("settlement_request_id"),
+    resolvedBy: varchar("resolved_by"), // who matched it by hand or resolved it
+    resolvedAt: timestamp("resolved_at"),
+    resolutionNote: varchar("resolution_note", { length: 255 }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_bank_statement_lines_statement").on(table.statementId),
+    index("IDX_bank_statement_lines_status").on(table.status),
+  ],
+);
+
+// Idempotency-Key records for money-moving routes. A retry with the same key and request
+// gets the stored response back instead of running again; records expire after 24 hours.
+export const idempotencyKeys = pgTable(
+  "idempotency_keys",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull(),
+    key: varchar("key", { length: 255 }).notNull(),
+    method: varchar("method", { length: 10 }).notNull(),
+    path: varchar("path").notNull(),
+    requestHash: varchar("request_hash", { length: 64 }).notNull(), // SHA-256 of method, path and body
+    status: varchar("status").notNull().default("in_progress"), // in_progress, completed
+    responseStatus: integer("response_status"),
+    responseBody: jsonb("response_body"),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_idempotency_user_key").on(table.userId, table.key),
+    index("IDX_idempotency_expires").on(table.expiresAt),
+  ],
+);
+
+// Wallet reconciliation - each run recomputes wallet figures from transactions and settlements
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: serial("id").primaryKey(),
+  status: varchar("status").notNull().default("running"), // running, completed, failed
+  triggeredBy: varchar("triggered_by").notNull(), // "system" for the nightly job, otherwise the admin user id
+  walletsChecked: integer("wallets_checked").notNull().default(0),
+  exceptionsFound: integer("exceptions_found").notNull().default(0),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const reconciliationExceptions = pgTable("reconciliation_exceptions", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => reconciliationRuns.id),
+  walletId: integer("wallet_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  field: varchar("field").notNull(), // balance, dailyCollected, dailyTransferred
+  expectedValue: money("expected_value").notNull(),
+  actualValue: money("actual_value").notNull(),
+  difference: money("difference").notNull(), // actual - expected
+  status: varchar("status").notNull().default("open"), // open, acknowledged
+  acknowledgedBy: varchar("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgementNote: varchar("acknowledgement_note", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -155,6 +708,10 @@ export const userRelations = relations(users, ({ one, many }) => ({
     fields: [users.organizationId],
     references: [organizations.id],
   }),
+  branch: one(branches, {
+    fields: [users.branchId],
+    references: [branches.id],
+  }),
   wallet: one(wallets, {
     fields: [users.id],
     references: [wallets.userId],
@@ -172,11 +729,12 @@ export const organizationRelations = relations(organizations, ({ many }) => ({
   settlementRequests: many(settlementRequests),
 }));
 
-export const branchRelations = relations(branches, ({ one }) => ({
+export const branchRelations = relations(branches, ({ one, many }) => ({
   organization: one(organizations, {
     fields: [branches.organizationId],
     references: [organizations.id],
   }),
+  users: many(users),
 }));
 
 export const walletRelations = relations(wallets, ({ one }) => ({
@@ -184,6 +742,10 @@ export const walletRelations = relations(wallets, ({ one }) => ({
     fields: [wallets.userId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [wallets.organizationId],
+    references: [organizations.id],
+  }),
 }));
 
 export const transactionRelations = relations(transactions, ({ one, many }) => ({
@@ -197,8 +759,34 @@ export const transactionRelations = relations(transactions, ({ one, many }) => (
     references: [users.id],
     relationName: "receiver",
   }),
+  reversalOf: one(transactions, {
+    fields: [transactions.reversalOfId],
+    references: [transactions.id],
+    relationName: "reversal",
+  }),
+  reversals: many(transactions, { relationName: "reversal" }),
+  fxConversion: one(fxConversions, {
+    fields: [transactions.fxConversionId],
+    references: [fxConversions.id],
+  }),
+  feeSchedule: one(feeSchedules, {
+    fields: [transactions.feeScheduleId],
+    references: [feeSchedules.id],
+  }),
   documents: many(documents),
   qrCodes: many(qrCodes),
+  statusHistory: many(transactionStatusHistory),
+}));
+
+export const transactionStatusHistoryRelations = relations(transactionStatusHistory, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionStatusHistory.transactionId],
+    references: [transactions.id],
+  }),
+  actor: one(users, {
+    fields: [transactionStatusHistory.actorId],
+    references: [users.id],
+  }),
 }));
 
 export const qrCodeRelations = relations(qrCodes, ({ one }) => ({
@@ -232,6 +820,236 @@ export const settlementRequestRelations = relations(settlementRequests, ({ one }
     fields: [settlementRequests.reviewedBy],
     references: [users.id],
   }),
+  payoutBatch: one(payoutBatches, {
+    fields: [settlementRequests.payoutBatchId],
+    references: [payoutBatches.id],
+  }),
+}));
+
+export const ledgerEntryRelations = relations(ledgerEntries, ({ one }) => ({
+  wallet: one(wallets, {
+    fields: [ledgerEntries.walletId],
+    references: [wallets.id],
+  }),
+  transaction: one(transactions, {
+    fields: [ledgerEntries.transactionId],
+    references: [transactions.id],
+  }),
+  settlementRequest: one(settlementRequests, {
+    fields: [ledgerEntries.settlementRequestId],
+    references: [settlementRequests.id],
+  }),
+}));
+
+export const fxConversionRelations = relations(fxConversions, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [fxConversions.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const feeScheduleRelations = relations(feeSchedules, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [feeSchedules.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const organizationBankAccountRelations = relations(organizationBankAccounts, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationBankAccounts.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const settlementSweepRuleRelations = relations(settlementSweepRules, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [settlementSweepRules.organizationId],
+    references: [organizations.id],
+  }),
+  bankAccount: one(organizationBankAccounts, {
+    fields: [settlementSweepRules.bankAccountId],
+    references: [organizationBankAccounts.id],
+  }),
+  runs: many(settlementSweepRuns),
+}));
+
+export const settlementSweepRunRelations = relations(settlementSweepRuns, ({ one }) => ({
+  rule: one(settlementSweepRules, {
+    fields: [settlementSweepRuns.sweepRuleId],
+    references: [settlementSweepRules.id],
+  }),
+  settlementRequest: one(settlementRequests, {
+    fields: [settlementSweepRuns.settlementRequestId],
+    references: [settlementRequests.id],
+  }),
+}));
+
+export const approvalMatrixRelations = relations(approvalMatrices, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [approvalMatrices.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const settlementApprovalRelations = relations(settlementApprovals, ({ one }) => ({
+  settlementRequest: one(settlementRequests, {
+    fields: [settlementApprovals.settlementRequestId],
+    references: [settlementRequests.id],
+  }),
+  approver: one(users, {
+    fields: [settlementApprovals.approverId],
+    references: [users.id],
+  }),
+}));
+
+export const walletLimitRelations = relations(walletLimits, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [walletLimits.organizationId],
+    references: [organizations.id],
+  }),
+  branch: one(branches, {
+    fields: [walletLimits.branchId],
+    references: [branches.id],
+  }),
+  wallet: one(wallets, {
+    fields: [walletLimits.walletId],
+    references: [wallets.id],
+  }),
+}));
+
+export const commissionPlanRelations = relations(commissionPlans, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [commissionPlans.organizationId],
+    references: [organizations.id],
+  }),
+  branch: one(branches, {
+    fields: [commissionPlans.branchId],
+    references: [branches.id],
+  }),
+}));
+
+export const commissionAccrualRelations = relations(commissionAccruals, ({ one }) => ({
+  cashier: one(users, {
+    fields: [commissionAccruals.cashierId],
+    references: [users.id],
+  }),
+  transaction: one(transactions, {
+    fields: [commissionAccruals.transactionId],
+    references: [transactions.id],
+  }),
+  plan: one(commissionPlans, {
+    fields: [commissionAccruals.commissionPlanId],
+    references: [commissionPlans.id],
+  }),
+  payable: one(commissionPayables, {
+    fields: [commissionAccruals.payableId],
+    references: [commissionPayables.id],
+  }),
+}));
+
+export const commissionPayableRelations = relations(commissionPayables, ({ one, many }) => ({
+  cashier: one(users, {
+    fields: [commissionPayables.cashierId],
+    references: [users.id],
+  }),
+  accruals: many(commissionAccruals),
+}));
+
+export const walletDailySnapshotRelations = relations(walletDailySnapshots, ({ one }) => ({
+  wallet: one(wallets, {
+    fields: [walletDailySnapshots.walletId],
+    references: [wallets.id],
+  }),
+}));
+
+export const floatRequestRelations = relations(floatRequests, ({ one }) => ({
+  cashier: one(users, {
+    fields: [floatRequests.cashierId],
+    references: [users.id],
+  }),
+  branch: one(branches, {
+    fields: [floatRequests.branchId],
+    references: [branches.id],
+  }),
+}));
+
+export const fraudFlagRelations = relations(fraudFlags, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [fraudFlags.transactionId],
+    references: [transactions.id],
+  }),
+  rule: one(fraudRules, {
+    fields: [fraudFlags.ruleId],
+    references: [fraudRules.id],
+  }),
+}));
+
+export const kycRequestRelations = relations(kycRequests, ({ one }) => ({
+  user: one(users, {
+    fields: [kycRequests.userId],
+    references: [users.id],
+  }),
+}));
+
+export const screeningMatchRelations = relations(screeningMatches, ({ one }) => ({
+  user: one(users, {
+    fields: [screeningMatches.userId],
+    references: [users.id],
+  }),
+  settlementRequest: one(settlementRequests, {
+    fields: [screeningMatches.settlementRequestId],
+    references: [settlementRequests.id],
+  }),
+}));
+
+export const payoutBatchRelations = relations(payoutBatches, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [payoutBatches.organizationId],
+    references: [organizations.id],
+  }),
+  settlementRequests: many(settlementRequests),
+}));
+
+export const bankStatementRelations = relations(bankStatements, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [bankStatements.organizationId],
+    references: [organizations.id],
+  }),
+  lines: many(bankStatementLines),
+}));
+
+export const bankStatementLineRelations = relations(bankStatementLines, ({ one }) => ({
+  statement: one(bankStatements, {
+    fields: [bankStatementLines.statementId],
+    references: [bankStatements.id],
+  }),
+  settlementRequest: one(settlementRequests, {
+    fields: [bankStatementLines.settlementRequestId],
+    references: [settlementRequests.id],
+  }),
+}));
+
+export const strReportRelations = relations(strReports, ({ many }) => ({
+  events: many(strReportEvents),
+}));
+
+export const strReportEventRelations = relations(strReportEvents, ({ one }) => ({
+  report: one(strReports, {
+    fields: [strReportEvents.reportId],
+    references: [strReports.id],
+  }),
+}));
+
+export const reconciliationExceptionRelations = relations(reconciliationExceptions, ({ one }) => ({
+  run: one(reconciliationRuns, {
+    fields: [reconciliationExceptions.runId],
+    references: [reconciliationRuns.id],
+  }),
+  wallet: one(wallets, {
+    fields: [reconciliationExceptions.walletId],
+    references: [wallets.id],
+  }),
 }));
 
 export const notificationRelations = relations(notifications, ({ one }) => ({
@@ -253,7 +1071,9 @@ export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   updatedAt: true,
 });
 
-export const insertBranchSchema = createInsertSchema(branches).omit({
+export const insertBranchSchema = createInsertSchema(branches, {
+  balance: () => moneySchema,
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -261,9 +1081,14 @@ export const insertBranchSchema = createInsertSchema(branches).omit({
   identifier: z.string().optional(),
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).omit({
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  amount: () => moneySchema,
+  feeAmount: () => moneySchema.optional(),
+}).omit({
   id: true,
   transactionId: true,
+  verifiedAmount: true,
+  verifiedVmfNumber: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -273,13 +1098,19 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   createdAt: true,
 });
 
-export const insertSettlementRequestSchema = createInsertSchema(settlementRequests).omit({
+export const insertSettlementRequestSchema = createInsertSchema(settlementRequests, {
+  amount: () => moneySchema,
+  feeAmount: () => moneySchema.optional(),
+}).omit({
   id: true,
   reviewedBy: true,
   reviewedAt: true,
   holdReason: true,
   rejectReason: true,
   reasonComment: true,
+  payoutBatchId: true,
+  payoutFailureReason: true,
+  bankReference: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -290,6 +1121,98 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
 });
 
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries, {
+  amount: () => moneySchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFxConversionSchema = createInsertSchema(fxConversions, {
+  sourceAmount: () => moneySchema,
+  convertedAmount: () => moneySchema,
+}).omit({
+  id: true,
+  transactionId: true,
+  createdAt: true,
+});
+
+export const insertFeeScheduleSchema = createInsertSchema(feeSchedules, {
+  flatFee: () => moneySchema,
+  tiers: () => feeTiersSchema,
+}).omit({
+  id: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationBankAccountSchema = createInsertSchema(organizationBankAccounts).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  rejectionReason: true,
+  availableFrom: true,
+  deactivatedBy: true,
+  deactivatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSettlementSweepRuleSchema = createInsertSchema(settlementSweepRules, {
+  reserveAmount: () => moneySchema,
+  minimumAmount: () => moneySchema,
+}).omit({
+  id: true,
+  status: true,
+  statusChangedBy: true,
+  statusChangedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertApprovalMatrixSchema = createInsertSchema(approvalMatrices, {
+  tiers: () => z.array(z.object({
+    upTo: moneySchema.nullable(),
+    approvers: z.number().int().positive(),
+  })),
+}).omit({
+  id: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWalletLimitSchema = createInsertSchema(walletLimits, {
+  perTransaction: () => moneySchema.nullable(),
+  daily: () => moneySchema.nullable(),
+  weekly: () => moneySchema.nullable(),
+  monthly: () => moneySchema.nullable(),
+}).omit({
+  id: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFraudRuleSchema = createInsertSchema(fraudRules).omit({
+  id: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCommissionPlanSchema = createInsertSchema(commissionPlans, {
+  flatAmount: () => moneySchema.optional(),
+  tiers: () => feeTiersSchema,
+}).omit({
+  id: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertQrCodeSchema = createInsertSchema(qrCodes).omit({
   id: true,
   isUsed: true,
@@ -297,6 +1220,16 @@ export const insertQrCodeSchema = createInsertSchema(qrCodes).omit({
   createdAt: true,
 });
 
+export const reversalReasonCodes = [
+  "customer_dispute",
+  "duplicate_transaction",
+  "amount_error",
+  "fraud",
+  "other",
+] as const;
+
+export const floatRequestTypes = ["top_up", "return"] as const;
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -307,11 +1240,47 @@ export type InsertBranch = z.infer<typeof insertBranchSchema>;
 export type Wallet = typeof wallets.$inferSelect;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type TransactionStatusChange = typeof transactionStatusHistory.$inferSelect;
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type SettlementRequest = typeof settlementRequests.$inferSelect;
 export type InsertSettlementRequest = z.infer<typeof insertSettlementRequestSchema>;
 export type QrCode = typeof qrCodes.$inferSelect;
 export type InsertQrCode = z.infer<typeof insertQrCodeSchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type FxConversion = typeof fxConversions.$inferSelect;
+export type InsertFxConversion = z.infer<typeof insertFxConversionSchema>;
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type InsertFeeSchedule = z.infer<typeof insertFeeScheduleSchema>;
+export type OrganizationBankAccount = typeof organizationBankAccounts.$inferSelect;
+export type InsertOrganizationBankAccount = z.infer<typeof insertOrganizationBankAccountSchema>;
+export type SettlementSweepRule = typeof settlementSweepRules.$inferSelect;
+export type InsertSettlementSweepRule = z.infer<typeof insertSettlementSweepRuleSchema>;
+export type SettlementSweepRun = typeof settlementSweepRuns.$inferSelect;
+export type ApprovalMatrix = typeof approvalMatrices.$inferSelect;
+export type InsertApprovalMatrix = z.infer<typeof insertApprovalMatrixSchema>;
+export type SettlementApproval = typeof settlementApprovals.$inferSelect;
+export type WalletLimit = typeof walletLimits.$inferSelect;
+export type InsertWalletLimit = z.infer<typeof insertWalletLimitSchema>;
+export type FraudRule = typeof fraudRules.$inferSelect;
+export type InsertFraudRule = z.infer<typeof insertFraudRuleSchema>;
+export type FraudFlag = typeof fraudFlags.$inferSelect;
+export type CommissionPlan = typeof commissionPlans.$inferSelect;
+export type InsertCommissionPlan = z.infer<typeof insertCommissionPlanSchema>;
+export type CommissionAccrual = typeof commissionAccruals.$inferSelect;
+export type CommissionPayable = typeof commissionPayables.$inferSelect;
+export type WalletDailySnapshot = typeof walletDailySnapshots.$inferSelect;
+export type FloatRequest = typeof floatRequests.$inferSelect;
+export type KycRequest = typeof kycRequests.$inferSelect;
+export type ScreeningMatch = typeof screeningMatches.$inferSelect;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type StrReport = typeof strReports.$inferSelect;
+export type StrReportEvent = typeof strReportEvents.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type ReconciliationException = typeof reconciliationExceptions.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
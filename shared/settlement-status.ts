@@ -0,0 +1,53 @@
+/**
+ * Settlement request state machine. A request collects approvals (or sits on hold) until it is
+ * approved or rejected; approval debits the treasury. From then on only the payout lifecycle
+ * moves it: batching marks it processing, and the bank's outcome or a matched statement line
+ * completes it, or fails it and refunds the treasury.
+ */
+
+export const settlementStatuses = [
+  "pending",
+  "partially_approved",
+  "hold",
+  "approved",
+  "processing",
+  "completed",
+  "failed",
+  "rejected",
+] as const;
+
+export type SettlementStatus = (typeof settlementStatuses)[number];
+
+const settlementTransitions: Partial<Record<SettlementStatus, readonly SettlementStatus[]>> = {
+  pending: ["partially_approved", "approved", "hold", "rejected"],
+  partially_approved: ["approved", "hold", "rejected"],
+  hold: ["pending", "partially_approved", "approved", "rejected"],
+  approved: ["processing", "completed"],
+  processing: ["completed", "failed"],
+};
+
+// Statuses an admin's review can move a request to. Everything after approval is the payout
+// lifecycle's to set.
+export const settlementReviewStatuses: readonly SettlementStatus[] = ["pending", "partially_approved", "hold", "approved", "rejected"];
+
+export function isSettlementStatus(value: unknown): value is SettlementStatus {
+  return typeof value === "string" && (settlementStatuses as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses a settlement request may move to from its current status. Empty for final statuses.
+ */
+export function allowedSettlementStatuses(from: string): readonly SettlementStatus[] {
+  return settlementTransitions[from as SettlementStatus] ?? [];
+}
+
+export function canTransitionSettlement(from: string, to: string): boolean {
+  return (allowedSettlementStatuses(from) as readonly string[]).includes(to);
+}
+
+/**
+ * Whether an admin's review may move a request from its current status to this one
+ */
+export function canReviewSettlement(from: string, to: string): boolean {
+  return (settlementReviewStatuses as readonly string[]).includes(to) && canTransitionSettlement(from, to);
+}
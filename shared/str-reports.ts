@@ -0,0 +1,78 @@
+/**
+ * Suspicious transaction reports (STRs). Compliance drafts a report over one or more
+ * transactions, a second admin approves it, and approval freezes the report content so what
+ * was filed can always be exported exactly as it was.
+ */
+
+export const strReportStatuses = ["draft", "pending_approval", "submitted"] as const;
+
+export type StrReportStatus = (typeof strReportStatuses)[number];
+
+export const strReportStatusLabels: Record<StrReportStatus, string> = {
+  draft: "Draft",
+  pending_approval: "Awaiting approval",
+  submitted: "Submitted",
+};
+
+export const strReportFormats = ["xml", "pdf"] as const;
+
+export type StrReportFormat = (typeof strReportFormats)[number];
+
+export function isStrReportStatus(value: unknown): value is StrReportStatus {
+  return typeof value === "string" && (strReportStatuses as readonly string[]).includes(value);
+}
+
+export function isStrReportFormat(value: unknown): value is StrReportFormat {
+  return typeof value === "string" && (strReportFormats as readonly string[]).includes(value);
+}
+
+export interface StrReportParty {
+  id: string;
+  name: string;
+  email: string | null;
+  organization: string | null;
+}
+
+export interface StrReportTransaction {
+  transactionId: string;
+  type: string;
+  status: string;
+  amount: string;
+  currency: string;
+  vmfNumber: string | null;
+  createdAt: string;
+  merchant: StrReportParty | null;
+  cashier: StrReportParty | null;
+  documents: { id: number; type: string; originalName: string; uploadedAt: string }[];
+  fraudFlags: string[];
+}
+
+/**
+ * Everything a report says. Built from live data while the report is a draft and stored
+ * unchanged once it is submitted.
+ */
+export interface StrReportContent {
+  reportNumber: string;
+  narrative: string;
+  preparedBy: string;
+  approvedBy: string | null;
+  submittedAt: string | null;
+  transactions: StrReportTransaction[];
+  totals: { currency: string; amount: string; count: number }[];
+}
+
+// Narratives explain why the activity is suspicious; a one-liner is not enough to file
+export const MIN_NARRATIVE_LENGTH = 50;
+
+/**
+ * Checks a draft before it is saved. Returns a message describing the first problem, or null.
+ */
+export function validateStrDraft(draft: { transactionRefs: string[]; narrative: string }): string | null {
+  if (draft.transactionRefs.length === 0) {
+    return "Select at least one transaction";
+  }
+  if (draft.narrative.trim().length < MIN_NARRATIVE_LENGTH) {
+    return `The narrative must be at least ${MIN_NARRATIVE_LENGTH} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isSweepDay, nextSweepRun, sweepRunTime, validateSweepRule } from "./sweeps";
+
+// Local time, like the sweeps themselves. 6 March 2026 is a Friday.
+const friday = (hours: number, minutes = 0) => new Date(2026, 2, 6, hours, minutes);
+
+describe("isSweepDay", () => {
+  it("skips weekends for business-day sweeps only", () => {
+    const saturday = new Date(2026, 2, 7, 12);
+    assert.equal(isSweepDay("business_days", friday(12)), true);
+    assert.equal(isSweepDay("business_days", saturday), false);
+    assert.equal(isSweepDay("daily", saturday), true);
+  });
+});
+
+describe("sweepRunTime", () => {
+  it("sets the run time on the given day", () => {
+    assert.deepEqual(sweepRunTime("16:30", friday(9, 45)), friday(16, 30));
+  });
+});
+
+describe("nextSweepRun", () => {
+  it("runs later the same day when the run time is still ahead", () => {
+    assert.deepEqual(nextSweepRun({ runAt: "16:00", frequency: "business_days" }, friday(9)), friday(16));
+  });
+
+  it("moves past the weekend for business-day sweeps", () => {
+    const monday = new Date(2026, 2, 9, 16);
+    assert.deepEqual(nextSweepRun({ runAt: "16:00", frequency: "business_days" }, friday(16)), monday);
+  });
+
+  it("runs the next day for daily sweeps", () => {
+    const saturday = new Date(2026, 2, 7, 16);
+    assert.deepEqual(nextSweepRun({ runAt: "16:00", frequency: "daily" }, friday(17)), saturday);
+  });
+});
+
+describe("validateSweepRule", () => {
+  const rule = { runAt: "16:00", frequency: "business_days", reserveAmount: "500.00", minimumAmount: "0" };
+
+  it("accepts a complete rule", () => {
+    assert.equal(validateSweepRule(rule), null);
+  });
+
+  it("needs a 24-hour HH:MM run time", () => {
+    assert.equal(validateSweepRule({ ...rule, runAt: "24:00" }), "The run time must be HH:MM (24-hour)");
+    assert.equal(validateSweepRule({ ...rule, runAt: "4pm" }), "The run time must be HH:MM (24-hour)");
+  });
+
+  it("needs a known frequency", () => {
+    assert.equal(validateSweepRule({ ...rule, frequency: "weekly" }), "Choose when the sweep runs");
+  });
+
+  it("refuses negative amounts", () => {
+    assert.equal(validateSweepRule({ ...rule, reserveAmount: "-1.00" }), "The reserve must be zero or more");
+    assert.equal(validateSweepRule({ ...rule, minimumAmount: "-1.00" }), "The minimum sweep must be zero or more");
+  });
+});
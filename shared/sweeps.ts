@@ -0,0 +1,90 @@
+import { Money } from "./money";
+
+/**
+ * Scheduled settlement sweeps. An active sweep rule settles the organization's available
+ * capacity, less a reserve, to a registered bank account at a set time of day. Times are server
+ * local time, like business days.
+ */
+
+export const sweepFrequencies = ["business_days", "daily"] as const;
+
+export type SweepFrequency = (typeof sweepFrequencies)[number];
+
+export const sweepFrequencyLabels: Record<SweepFrequency, string> = {
+  business_days: "Every business day (Mon-Fri)",
+  daily: "Every day",
+};
+
+export const sweepRuleStatuses = ["active", "paused"] as const;
+
+export type SweepRuleStatus = (typeof sweepRuleStatuses)[number];
+
+export const sweepRunStatuses = ["running", "created", "skipped", "failed"] as const;
+
+export type SweepRunStatus = (typeof sweepRunStatuses)[number];
+
+export const sweepRunStatusLabels: Record<SweepRunStatus, string> = {
+  running: "Running",
+  created: "Settlement requested",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+export function isSweepFrequency(value: unknown): value is SweepFrequency {
+  return typeof value === "string" && (sweepFrequencies as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a sweep with this frequency runs on the given day
+ */
+export function isSweepDay(frequency: SweepFrequency, date: Date): boolean {
+  const day = date.getDay();
+  return frequency === "daily" || (day !== 0 && day !== 6);
+}
+
+/**
+ * The moment on the given day a sweep set for runAt (HH:MM) runs
+ */
+export function sweepRunTime(runAt: string, date: Date): Date {
+  const [hours, minutes] = runAt.split(":").map(Number);
+  const runTime = new Date(date);
+  runTime.setHours(hours, minutes, 0, 0);
+  return runTime;
+}
+
+/**
+ * The next time after from that a sweep rule runs
+ */
+export function nextSweepRun(rule: { runAt: string; frequency: SweepFrequency }, from: Date): Date {
+  const day = new Date(from);
+  for (let i = 0; i < 8; i++) {
+    const runTime = sweepRunTime(rule.runAt, day);
+    if (runTime > from && isSweepDay(rule.frequency, runTime)) {
+      return runTime;
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return sweepRunTime(rule.runAt, day);
+}
+
+/**
+ * Checks a rule before it is saved. Returns a message describing the first problem, or null.
+ */
+export function validateSweepRule(rule: { runAt: string; frequency: string; reserveAmount: string; minimumAmount: string }): string | null {
+  const time = rule.runAt.match(/^(\d{2}):(\d{2})$/);
+  if (!time || Number(time[1]) > 23 || Number(time[2]) > 59) {
+    return "The run time must be HH:MM (24-hour)";
+  }
+  if (!isSweepFrequency(rule.frequency)) {
+    return "Choose when the sweep runs";
+  }
+  const reserve = Money.tryParse(rule.reserveAmount);
+  if (!reserve || reserve.isNegative()) {
+    return "The reserve must be zero or more";
+  }
+  const minimum = Money.tryParse(rule.minimumAmount);
+  if (!minimum || minimum.isNegative()) {
+    return "The minimum sweep must be zero or more";
+  }
+  return null;
+}
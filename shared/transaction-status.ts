@@ -0,0 +1,76 @@
+/**
+ * Transaction state machine. The server moves a transaction's status only along these
+ * transitions; routes use them to explain a refusal and storage re-checks them under the
+ * row lock so two concurrent requests cannot both move the same transaction.
+ */
+
+export const transactionStatuses = [
+  "pending",
+  "approved",
+  "completed",
+  "rejected",
+  "pending_approval",
+  "reversed",
+  "under_review",
+] as const;
+
+export type TransactionStatus = (typeof transactionStatuses)[number];
+
+interface StatusFlow {
+  initial: readonly TransactionStatus[];
+  transitions: Partial<Record<TransactionStatus, readonly TransactionStatus[]>>;
+}
+
+// Cash-in style flows: created pending, finished once through the cashier's verified
+// completion, and only undone by an approved reversal. Requests the fraud rules hold are
+// created under_review (or moved there when a cashier tries to complete them) and reach
+// cashiers again only once an admin releases them.
+const paymentFlow: StatusFlow = {
+  initial: ["pending", "under_review"],
+  transitions: {
+    under_review: ["pending", "rejected"],
+    pending: ["approved", "completed", "rejected", "under_review"],
+    approved: ["completed", "rejected"],
+    completed: ["reversed"],
+  },
+};
+
+// Reversals are raised for approval by one admin and decided by another
+const reversalFlow: StatusFlow = {
+  initial: ["pending_approval"],
+  transitions: {
+    pending_approval: ["completed", "rejected"],
+  },
+};
+
+const statusFlows: Record<string, StatusFlow> = {
+  cash_digitization: paymentFlow,
+  qr_code_payment: paymentFlow,
+  settlement: paymentFlow,
+  transfer: paymentFlow,
+  reversal: reversalFlow,
+};
+
+function flowFor(type: string): StatusFlow {
+  return statusFlows[type] ?? paymentFlow;
+}
+
+export function isTransactionStatus(value: unknown): value is TransactionStatus {
+  return typeof value === "string" && (transactionStatuses as readonly string[]).includes(value);
+}
+
+export function isInitialTransactionStatus(type: string, status: string): boolean {
+  return (flowFor(type).initial as readonly string[]).includes(status);
+}
+
+/**
+ * Statuses a transaction of this type may move to from its current status. Empty for
+ * final statuses.
+ */
+export function allowedTransactionStatuses(type: string, from: string): readonly TransactionStatus[] {
+  return flowFor(type).transitions[from as TransactionStatus] ?? [];
+}
+
+export function canTransitionTransaction(type: string, from: string, to: string): boolean {
+  return (allowedTransactionStatuses(type, from) as readonly string[]).includes(to);
+}